@@ -48,6 +48,18 @@ const openRulesPatch = {
   deleteRule: '',
 };
 
+const signedInRule = '@request.auth.id != ""';
+
+const quoteMarginPolicyWriteRule = `${signedInRule} && approvers ~ @request.auth.email && @request.body.approvers ~ @request.auth.email`;
+
+// PocketBase has no triggers, so it cannot re-check the floors like Supabase does. Margin approvals
+// are not supported here: an approved quote is refused, and the floors are only checked in the browser.
+const simulationRules = {
+  createRule: '@request.body.approval_status != "approved"',
+  updateRule: '@request.body.items:isset = false && @request.body.sales_rep:isset = false '
+    + '&& @request.body.approval_status:isset = false && @request.body.approved_by:isset = false',
+};
+
 const collectionDefinitions = [
   {
     name: 'products',
@@ -58,22 +70,118 @@ const collectionDefinitions = [
       { name: 'category', type: 'text' },
       { name: 'cost_usd', type: 'number' },
       { name: 'msrp_usd', type: 'number' },
+      { name: 'components', type: 'json' },
+      { name: 'landed_cost_clp', type: 'number' },
+      { name: 'landed_cost_units', type: 'number' },
+      { name: 'landed_cost_stale', type: 'bool' },
     ],
   },
   {
     name: 'simulations',
+    rules: simulationRules,
+    // Two concurrent saves of the same quote must not both get the same revision.
+    indexes: [
+      "CREATE UNIQUE INDEX `idx_simulations_quote_revision` ON `simulations` (`quote_number`, `revision`) WHERE `quote_number` != ''",
+    ],
     fields: [
       { name: 'source_id', type: 'text' },
       { name: 'created_at', type: 'date' },
+      { name: 'quote_number', type: 'text' },
+      { name: 'revision', type: 'number' },
       { name: 'sale_price_clp', type: 'number' },
       { name: 'exchange_rate', type: 'number' },
+      { name: 'exchange_rate_date', type: 'text' },
       { name: 'total_cost_usd', type: 'number' },
       { name: 'total_cost_clp', type: 'number' },
       { name: 'margin_percent', type: 'number' },
       { name: 'net_profit_clp', type: 'number' },
+      { name: 'target_total_with_iva_clp', type: 'number' },
+      { name: 'list_discount_percent', type: 'number' },
+      { name: 'quote_currency', type: 'text' },
+      { name: 'quote_currency_rate', type: 'number' },
+      { name: 'tax_profile', type: 'json' },
+      { name: 'rounding_policy', type: 'text' },
+      { name: 'volume_tiers', type: 'json' },
+      { name: 'discounts', type: 'json' },
+      { name: 'promotions', type: 'json' },
+      { name: 'total_discount_clp', type: 'number' },
+      { name: 'client_rut', type: 'text' },
+      { name: 'client_name', type: 'text' },
+      { name: 'client_contact', type: 'json' },
+      { name: 'sales_rep', type: 'text' },
+      { name: 'margin_floor_percent', type: 'number' },
+      { name: 'margin_violations', type: 'json' },
+      { name: 'approval_status', type: 'text' },
+      { name: 'approved_by', type: 'text' },
+      { name: 'approval_reason', type: 'text' },
+      { name: 'approved_at', type: 'date' },
+      { name: 'status', type: 'text' },
+      { name: 'valid_until', type: 'date' },
+      { name: 'loss_reason', type: 'text' },
+      { name: 'status_updated_at', type: 'date' },
       { name: 'items', type: 'json' },
     ],
   },
+  {
+    name: 'quote_margin_policies',
+    // Only listed approvers edit the floors. The policy row comes from Supabase, and with an empty
+    // list only a PocketBase superuser can write it.
+    rules: { createRule: null, updateRule: quoteMarginPolicyWriteRule, deleteRule: null },
+    fields: [
+      { name: 'policy_id', type: 'text', required: true },
+      { name: 'default_floor_percent', type: 'number' },
+      { name: 'category_floors', type: 'json' },
+      { name: 'user_floors', type: 'json' },
+      { name: 'approvers', type: 'json' },
+      { name: 'updated_by', type: 'text' },
+      { name: 'created_at', type: 'date' },
+      { name: 'updated_at', type: 'date' },
+    ],
+  },
+  {
+    name: 'quote_line_rule_sets',
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_quote_line_rule_sets_key` ON `quote_line_rule_sets` (`rule_set_key`)',
+    ],
+    fields: [
+      { name: 'source_id', type: 'text' },
+      { name: 'rule_set_key', type: 'text', required: true },
+      { name: 'rules', type: 'json' },
+      { name: 'created_at', type: 'date' },
+      { name: 'updated_at', type: 'date' },
+    ],
+  },
+  {
+    name: 'quote_clients',
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_quote_clients_rut` ON `quote_clients` (`rut`)',
+    ],
+    fields: [
+      { name: 'source_id', type: 'text' },
+      { name: 'rut', type: 'text', required: true },
+      { name: 'name', type: 'text', required: true },
+      { name: 'sales_rep', type: 'text' },
+      { name: 'contact', type: 'json' },
+      { name: 'created_at', type: 'date' },
+      { name: 'updated_at', type: 'date' },
+    ],
+  },
+  {
+    name: 'product_cost_history',
+    fields: [
+      { name: 'source_id', type: 'text' },
+      { name: 'product_id', type: 'text', required: true },
+      { name: 'sku', type: 'text' },
+      { name: 'product_name', type: 'text' },
+      { name: 'cost_usd', type: 'number' },
+      { name: 'previous_cost_usd', type: 'number' },
+      { name: 'msrp_usd', type: 'number' },
+      { name: 'landed_cost_clp', type: 'number' },
+      { name: 'previous_landed_cost_clp', type: 'number' },
+      { name: 'source', type: 'text' },
+      { name: 'recorded_at', type: 'date' },
+    ],
+  },
   {
     name: 'import_snapshots',
     fields: [
@@ -86,11 +194,31 @@ const collectionDefinitions = [
       { name: 'shipping_cost', type: 'number' },
       { name: 'shipping_currency', type: 'text' },
       { name: 'customs_cost_clp', type: 'number' },
+      { name: 'shipping_allocation_method', type: 'text' },
+      { name: 'customs_allocation_method', type: 'text' },
+      { name: 'cost_model', type: 'json' },
       { name: 'target_gross_margin_percent', type: 'number' },
+      { name: 'fx_rate_date', type: 'text' },
+      { name: 'usd_rate_date', type: 'text' },
       { name: 'items', type: 'json' },
+      { name: 'catalog_applied_at', type: 'date' },
       { name: 'created_at', type: 'date' },
     ],
   },
+  {
+    name: 'fx_rates',
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_fx_rates_currency_date` ON `fx_rates` (`currency`, `rate_date`)',
+    ],
+    fields: [
+      { name: 'source_id', type: 'text' },
+      { name: 'currency', type: 'text', required: true },
+      { name: 'rate_date', type: 'text', required: true },
+      { name: 'value_clp', type: 'number' },
+      { name: 'source', type: 'text' },
+      { name: 'updated_at', type: 'date' },
+    ],
+  },
   {
     name: 'inventory_supplier_master',
     fields: [
@@ -256,6 +384,8 @@ const ensureCollections = async () => {
         type: 'base',
         fields: def.fields,
         ...openRulesPatch,
+        ...def.rules,
+        ...(def.indexes ? { indexes: def.indexes } : {}),
       });
       console.log(`+ created collection: ${def.name}`);
       continue;
@@ -264,6 +394,8 @@ const ensureCollections = async () => {
     await pocketbase.collections.update(match.id, {
       fields: def.fields,
       ...openRulesPatch,
+      ...def.rules,
+      ...(def.indexes ? { indexes: def.indexes } : {}),
     });
     console.log(`= collection ready: ${def.name}`);
   }
@@ -303,8 +435,13 @@ const run = async () => {
   console.log('Reading data from Supabase...');
   const [
     products,
+    productCostHistory,
     simulations,
+    quoteMarginPolicies,
+    quoteLineRuleSets,
+    quoteClients,
     importSnapshots,
+    fxRates,
     supplierMaster,
     rotation90d,
     weeklyStock,
@@ -317,8 +454,13 @@ const run = async () => {
     commissionClosureLines,
   ] = await Promise.all([
     fetchSupabaseRows('products'),
+    fetchSupabaseRows('product_cost_history'),
     fetchSupabaseRows('simulations'),
+    fetchSupabaseRows('quote_margin_policies'),
+    fetchSupabaseRows('quote_line_rule_sets'),
+    fetchSupabaseRows('quote_clients'),
     fetchSupabaseRows('import_snapshots'),
+    fetchSupabaseRows('fx_rates'),
     fetchSupabaseRows('inventory_supplier_master'),
     fetchSupabaseRows('inventory_rotation_90d'),
     fetchSupabaseRows('inventory_weekly_stock'),
@@ -342,6 +484,27 @@ const run = async () => {
       category: row.category || 'General',
       cost_usd: toNumber(row.cost_usd),
       msrp_usd: toNumber(row.msrp_usd),
+      components: Array.isArray(row.components) ? row.components : [],
+      landed_cost_clp: row.landed_cost_clp == null ? null : toNumber(row.landed_cost_clp),
+      landed_cost_units: row.landed_cost_units == null ? null : toNumber(row.landed_cost_units),
+      landed_cost_stale: Boolean(row.landed_cost_stale),
+    })),
+  );
+
+  await replaceCollectionData(
+    'product_cost_history',
+    productCostHistory.map((row) => ({
+      source_id: String(row.id || ''),
+      product_id: String(row.product_id || ''),
+      sku: row.sku || '',
+      product_name: row.product_name || '',
+      cost_usd: toNumber(row.cost_usd),
+      previous_cost_usd: row.previous_cost_usd == null ? null : toNumber(row.previous_cost_usd),
+      msrp_usd: row.msrp_usd == null ? null : toNumber(row.msrp_usd),
+      landed_cost_clp: row.landed_cost_clp == null ? null : toNumber(row.landed_cost_clp),
+      previous_landed_cost_clp: row.previous_landed_cost_clp == null ? null : toNumber(row.previous_landed_cost_clp),
+      source: row.source || 'catalog_sync',
+      recorded_at: row.recorded_at || null,
     })),
   );
 
@@ -350,16 +513,81 @@ const run = async () => {
     simulations.map((row) => ({
       source_id: String(row.id || ''),
       created_at: row.created_at || null,
+      quote_number: row.quote_number || '',
+      revision: toNumber(row.revision) || 1,
       sale_price_clp: toNumber(row.sale_price_clp),
       exchange_rate: toNumber(row.exchange_rate),
+      exchange_rate_date: row.exchange_rate_date || '',
       total_cost_usd: toNumber(row.total_cost_usd),
       total_cost_clp: toNumber(row.total_cost_clp),
       margin_percent: toNumber(row.margin_percent),
       net_profit_clp: toNumber(row.net_profit_clp),
+      target_total_with_iva_clp: row.target_total_with_iva_clp == null ? null : toNumber(row.target_total_with_iva_clp),
+      list_discount_percent: row.list_discount_percent == null ? null : toNumber(row.list_discount_percent),
+      quote_currency: row.quote_currency || 'CLP',
+      quote_currency_rate: row.quote_currency_rate == null ? null : toNumber(row.quote_currency_rate),
+      tax_profile: row.tax_profile && typeof row.tax_profile === 'object' ? row.tax_profile : null,
+      rounding_policy: row.rounding_policy || 'none',
+      volume_tiers: Array.isArray(row.volume_tiers) ? row.volume_tiers : null,
+      discounts: Array.isArray(row.discounts) ? row.discounts : null,
+      promotions: Array.isArray(row.promotions) ? row.promotions : null,
+      total_discount_clp: toNumber(row.total_discount_clp),
+      client_rut: row.client_rut || '',
+      client_name: row.client_name || '',
+      client_contact: row.client_contact && typeof row.client_contact === 'object' ? row.client_contact : null,
+      sales_rep: row.sales_rep || '',
+      margin_floor_percent: row.margin_floor_percent == null ? null : toNumber(row.margin_floor_percent),
+      margin_violations: Array.isArray(row.margin_violations) ? row.margin_violations : null,
+      approval_status: row.approval_status || 'not_required',
+      approved_by: row.approved_by || '',
+      approval_reason: row.approval_reason || '',
+      approved_at: row.approved_at || null,
+      status: row.status || 'draft',
+      valid_until: row.valid_until || null,
+      loss_reason: row.loss_reason || '',
+      status_updated_at: row.status_updated_at || null,
       items: Array.isArray(row.items) ? row.items : [],
     })),
   );
 
+  await replaceCollectionData(
+    'quote_margin_policies',
+    quoteMarginPolicies.map((row) => ({
+      policy_id: String(row.id || 'default'),
+      default_floor_percent: toNumber(row.default_floor_percent),
+      category_floors: row.category_floors && typeof row.category_floors === 'object' ? row.category_floors : {},
+      user_floors: row.user_floors && typeof row.user_floors === 'object' ? row.user_floors : {},
+      approvers: Array.isArray(row.approvers) ? row.approvers : [],
+      updated_by: row.updated_by || '',
+      created_at: row.created_at || null,
+      updated_at: row.updated_at || row.created_at || null,
+    })),
+  );
+
+  await replaceCollectionData(
+    'quote_line_rule_sets',
+    quoteLineRuleSets.map((row) => ({
+      source_id: String(row.id || ''),
+      rule_set_key: row.rule_set_key || 'default',
+      rules: Array.isArray(row.rules) ? row.rules : [],
+      created_at: row.created_at || null,
+      updated_at: row.updated_at || row.created_at || null,
+    })),
+  );
+
+  await replaceCollectionData(
+    'quote_clients',
+    quoteClients.map((row) => ({
+      source_id: String(row.id || ''),
+      rut: row.rut || '',
+      name: row.name || '',
+      sales_rep: row.sales_rep || '',
+      contact: row.contact && typeof row.contact === 'object' ? row.contact : {},
+      created_at: row.created_at || null,
+      updated_at: row.updated_at || row.created_at || null,
+    })),
+  );
+
   await replaceCollectionData(
     'import_snapshots',
     importSnapshots.map((row) => ({
@@ -372,12 +600,30 @@ const run = async () => {
       shipping_cost: toNumber(row.shipping_cost),
       shipping_currency: row.shipping_currency || 'CLP',
       customs_cost_clp: toNumber(row.customs_cost_clp),
+      shipping_allocation_method: row.shipping_allocation_method || 'value',
+      customs_allocation_method: row.customs_allocation_method || 'value',
+      cost_model: row.cost_model ?? null,
       target_gross_margin_percent: toNumber(row.target_gross_margin_percent),
+      fx_rate_date: row.fx_rate_date || '',
+      usd_rate_date: row.usd_rate_date || '',
       items: Array.isArray(row.items) ? row.items : [],
+      catalog_applied_at: row.catalog_applied_at || null,
       created_at: row.created_at || null,
     })),
   );
 
+  await replaceCollectionData(
+    'fx_rates',
+    fxRates.map((row) => ({
+      source_id: String(row.id || ''),
+      currency: row.currency || 'USD',
+      rate_date: row.rate_date || '',
+      value_clp: toNumber(row.value_clp),
+      source: row.source || '',
+      updated_at: row.updated_at || null,
+    })),
+  );
+
   await replaceCollectionData(
     'inventory_supplier_master',
     supplierMaster.map((row) => ({
@@ -2,40 +2,92 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 // Force refresh - Fixed JSX Structure
 import * as XLSX from 'xlsx';
 import { initialProducts } from './data/mockProducts';
-import type { Product } from './data/mockProducts';
-import { parseCashFlowFile, parseDailySalesFile, parseFile, parseImportProductsFile } from './utils/fileParser';
+import type { Product, ProductKitComponent } from './data/mockProducts';
+import {
+  buildCatalogLayoutKey,
+  mapCatalogRows,
+  parseCashFlowFile,
+  parseDailySalesFile,
+  parseImportProductsFile,
+  readCatalogFile,
+  suggestCatalogColumnMapping,
+  validateCatalogColumnMapping,
+} from './utils/fileParser';
+import type { CatalogColumnMapping, CatalogUploadDraft, RawProduct } from './utils/fileParser';
+import {
+  applyCatalogDuplicateResolutions,
+  buildCatalogDuplicateReport,
+  type CatalogDuplicateReport,
+  type CatalogDuplicateResolution,
+} from './utils/catalogDuplicates';
 import type { CashFlowSummary } from './utils/fileParser';
 import type { DailySalesSummary } from './utils/fileParser';
 import type { ImportItemRaw } from './utils/fileParser';
-import { parseImportItemsFromPdf } from './utils/pdfImportParser';
+import { parseImportItemsFromPdf, type PdfImportDocument } from './utils/pdfImportParser';
 import InventoryModule from './components/InventoryModule';
 import CRMModule from './components/CRMModule';
 import CotizadorModule from './components/CotizadorModule';
 import MonthlyAnalysisModule from './components/MonthlyAnalysisModule';
 import CommissionClosureModule from './components/CommissionClosureModule';
 import DailyProductMovementsModule from './components/DailyProductMovementsModule';
+import FxSensitivityPanel from './components/FxSensitivityPanel';
+import ImportCostModelPanel from './components/ImportCostModelPanel';
+import LandedCostCatalogPanel from './components/LandedCostCatalogPanel';
+import PdfImportReviewPanel from './components/PdfImportReviewPanel';
+import ImportReconciliationPanel from './components/ImportReconciliationPanel';
 import {
+  applyCatalogSyncPlan,
   createProductRecord,
   deleteImportSnapshotRecord,
   deleteProductRecord,
   deleteSimulationRecord,
+  fetchFxRateRecords,
   fetchImportSnapshotRecords,
+  fetchProductCostHistory,
   fetchProductsList,
   fetchSimulationRecords,
   getDataBackendLabel,
-  replaceProductsCatalog,
+  saveFxRateRecord,
   saveImportSnapshotRecord,
   saveSimulationRecord,
+  updateSimulationStatus,
   type SavedImportSnapshotRecord,
   type SavedSimulationRecord,
+  type SimulationStatusPatch,
   type SimulationItemPayload,
   updateProductCategoryRecord,
+  updateProductKitRecord,
+  applyImportLandedCostRecords,
 } from './lib/appDataRepository';
 import html2canvas from 'html2canvas';
 import logoMegaGen from './assets/MegaGen.jpg';
-import { convertImportAmountToCLP } from './utils/importCosting';
+import {
+  convertImportAmountToCLP,
+  IMPORT_ALLOCATION_METHOD_LABELS,
+  IMPORT_ALLOCATION_METHODS,
+  isImportAllocationMethod,
+  type ImportAllocationMethod,
+} from './utils/importCosting';
+import { buildImportLandedCost, type ImportSnapshotCostInput } from './utils/importLandedCost';
+import { isLandedCostPolicy } from './utils/landedCostCatalog';
+import { buildImportWorkbook } from './utils/importWorkbook';
+import { DEFAULT_IMPORT_COST_MODEL, LEGACY_IMPORT_COST_MODEL } from './data/importTradeAgreements';
+import type { ImportCostModelSettings, ImportLandedCostLine, ImportReconciliationInvoice, PdfImportLine } from './types/imports';
+import type { LandedCostPolicy, LandedCostUpdatePlan } from './types/catalog';
+import { FX_PROVIDER, resolveFxFetcher } from './lib/fxRateProvider';
+import { compareFxRate, findFxRateOn, formatFxDate, toFxDateKey, upsertFxRateEntry } from './utils/fxRates';
+import { buildFxSensitivity, buildQuoteFxSensitivity } from './utils/fxSensitivity';
+import { buildCatalogDiff, buildCatalogSyncPlan } from './utils/catalogSync';
+import { applyKitCosts, deriveKitCost } from './utils/productKits';
 import { calculateQuote } from './utils/quotePricingEngine';
-import type { LinePricingMode, QuoteLineDraft, QuotePricingConfig } from './types/quotation';
+import { buildQuoteClientView, buildQuoteExportFileName, buildQuoteInternalView, QUOTE_DOCUMENT_AUDIENCE_LABELS } from './utils/quoteDocumentView';
+import { buildQuotePdf } from './utils/quotePdf';
+import { formatQuoteAmount } from './utils/quoteCurrency';
+import { quoteClientFromRecord } from './utils/quoteClients';
+import { buildQuoteValidUntil, validateQuoteValidUntil } from './utils/quoteLifecycle';
+import type { CatalogChangeKind, CatalogDiff, ProductCostHistoryEntry } from './types/catalog';
+import type { FxCurrency, FxRateEntry } from './types/fx';
+import type { LinePricingMode, QuoteDocumentClient, QuoteLineDraft, QuotePricingConfig } from './types/quotation';
 import { useCotizadorState } from './hooks/useCotizadorState';
 import {
   Calculator,
@@ -56,21 +108,29 @@ import {
 } from 'lucide-react';
 
 const CUSTOM_CATEGORIES_STORAGE_KEY = 'megagen.customCategories';
+const CATALOG_COLUMN_MAPPINGS_STORAGE_KEY = 'megagen.catalog.columnMappings';
 const EXCHANGE_RATE_STORAGE_KEY = 'megagen.exchangeRate';
 const EXCHANGE_RATE_UPDATED_STORAGE_KEY = 'megagen.exchangeRateUpdatedAt';
+const EXCHANGE_RATE_DATE_STORAGE_KEY = 'megagen.exchangeRateDate';
 const CASH_FLOW_SUMMARY_STORAGE_KEY = 'megagen.analysis.cashFlowSummary';
 const CASH_FLOW_FILE_STORAGE_KEY = 'megagen.analysis.cashFlowFileName';
 const DAILY_SALES_SUMMARY_STORAGE_KEY = 'megagen.analysis.dailySalesSummary';
 const DAILY_SALES_FILE_STORAGE_KEY = 'megagen.analysis.dailySalesFileName';
 const IMPORT_CURRENCY_STORAGE_KEY = 'megagen.import.currency';
 const IMPORT_USD_RATE_STORAGE_KEY = 'megagen.import.usdRate';
+const IMPORT_USD_RATE_DATE_STORAGE_KEY = 'megagen.import.usdRateDate';
 const EURO_RATE_STORAGE_KEY = 'megagen.euroRate';
 const EURO_RATE_UPDATED_STORAGE_KEY = 'megagen.euroRateUpdatedAt';
+const EURO_RATE_DATE_STORAGE_KEY = 'megagen.euroRateDate';
 const IMPORT_ITEMS_STORAGE_KEY = 'megagen.import.items';
 const IMPORT_FILE_STORAGE_KEY = 'megagen.import.fileName';
 const IMPORT_SHIPPING_STORAGE_KEY = 'megagen.import.shipping';
 const IMPORT_SHIPPING_CURRENCY_STORAGE_KEY = 'megagen.import.shippingCurrency';
 const IMPORT_CUSTOMS_STORAGE_KEY = 'megagen.import.customs';
+const IMPORT_SHIPPING_ALLOCATION_STORAGE_KEY = 'megagen.import.shippingAllocation';
+const IMPORT_CUSTOMS_ALLOCATION_STORAGE_KEY = 'megagen.import.customsAllocation';
+const IMPORT_LANDED_COST_POLICY_STORAGE_KEY = 'megagen.import.landedCostPolicy';
+const IMPORT_COST_MODEL_STORAGE_KEY = 'megagen.import.costModel';
 const IMPORT_MARGIN_STORAGE_KEY = 'megagen.import.margin';
 const IMPORT_SNAPSHOTS_STORAGE_KEY = 'megagen.import.snapshots';
 const DEFAULT_QUOTE_MARGIN_PERCENT = 50;
@@ -93,12 +153,9 @@ const readStoredJSON = <T,>(key: string): T | null => {
 
 type ModuleKey = 'cotizador' | 'monthlyAnalysis' | 'analysis' | 'dailyProductMovements' | 'imports' | 'inventory' | 'crm' | 'commissionsMegagen' | 'commissions3dental' | 'clientes' | 'facturacion';
 
-interface ImportItemCalculated extends ImportItemRaw {
+interface ImportItemCalculated extends ImportItemRaw, ImportLandedCostLine {
   baseTotalForeign: number;
   baseTotalCLP: number;
-  shippingCLPAllocated: number;
-  customsCLPAllocated: number;
-  landedTotalCLP: number;
   landedUnitCLP: number;
   suggestedNetUnitCLP: number;
   suggestedIvaUnitCLP: number;
@@ -117,6 +174,19 @@ const isImportItemReady = (item: ImportItemRaw): boolean => (
   Boolean((item.sku.trim() || item.name.trim()) && item.quantity > 0 && item.unitCost > 0)
 );
 
+const readStoredAllocationMethod = (key: string): ImportAllocationMethod => {
+  const stored = localStorage.getItem(key);
+  return isImportAllocationMethod(stored) ? stored : 'value';
+};
+
+// Snapshots stored before allocation methods or the cost model existed are read with the old behavior.
+const toImportSnapshotCostInput = (snapshot: ImportCalculationSnapshot): ImportSnapshotCostInput => ({
+  ...snapshot,
+  shippingAllocationMethod: snapshot.shippingAllocationMethod || 'value',
+  customsAllocationMethod: snapshot.customsAllocationMethod || 'value',
+  costModel: snapshot.costModel ?? null,
+});
+
 const App: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [exchangeRate, setExchangeRate] = useState<number>(() => {
@@ -124,8 +194,13 @@ const App: React.FC = () => {
     return Number.isFinite(storedRate) && storedRate > 0 ? storedRate : 950;
   });
   const [lastUpdated, setLastUpdated] = useState<string>(() => localStorage.getItem(EXCHANGE_RATE_UPDATED_STORAGE_KEY) || '');
+  const [exchangeRateDate, setExchangeRateDate] = useState<string>(() => localStorage.getItem(EXCHANGE_RATE_DATE_STORAGE_KEY) || toFxDateKey());
+  const [fxRates, setFxRates] = useState<FxRateEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [catalogDiff, setCatalogDiff] = useState<CatalogDiff | null>(null);
+  const [catalogUpload, setCatalogUpload] = useState<CatalogUploadDraft | null>(null);
+  const [catalogDuplicates, setCatalogDuplicates] = useState<CatalogDuplicateReport | null>(null);
   const [fetchError, setFetchError] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const analysisFileInputRef = useRef<HTMLInputElement>(null);
@@ -137,6 +212,8 @@ const App: React.FC = () => {
   const [activeModule, setActiveModule] = useState<ModuleKey>('cotizador');
   const [savedQuotations, setSavedQuotations] = useState<SavedSimulationRecord[]>([]);
   const [isLoadingQuotations, setIsLoadingQuotations] = useState(false);
+  const [productCostHistory, setProductCostHistory] = useState<ProductCostHistoryEntry[]>([]);
+  const [isLoadingCostHistory, setIsLoadingCostHistory] = useState(false);
   const [cashFlowSummary, setCashFlowSummary] = useState<CashFlowSummary | null>(() => readStoredJSON<CashFlowSummary>(CASH_FLOW_SUMMARY_STORAGE_KEY));
   const [analysisSourceFile, setAnalysisSourceFile] = useState(() => localStorage.getItem(CASH_FLOW_FILE_STORAGE_KEY) || '');
   const [dailySalesSummary, setDailySalesSummary] = useState<DailySalesSummary | null>(() => readStoredJSON<DailySalesSummary>(DAILY_SALES_SUMMARY_STORAGE_KEY));
@@ -159,11 +236,13 @@ const App: React.FC = () => {
     const storedRate = Number(localStorage.getItem(IMPORT_USD_RATE_STORAGE_KEY));
     return Number.isFinite(storedRate) && storedRate > 0 ? storedRate : 950;
   });
+  const [importUsdRateDate, setImportUsdRateDate] = useState<string>(() => localStorage.getItem(IMPORT_USD_RATE_DATE_STORAGE_KEY) || toFxDateKey());
   const [euroRate, setEuroRate] = useState<number>(() => {
     const storedRate = Number(localStorage.getItem(EURO_RATE_STORAGE_KEY));
     return Number.isFinite(storedRate) && storedRate > 0 ? storedRate : 1050;
   });
   const [euroLastUpdated, setEuroLastUpdated] = useState<string>(() => localStorage.getItem(EURO_RATE_UPDATED_STORAGE_KEY) || '');
+  const [euroRateDate, setEuroRateDate] = useState<string>(() => localStorage.getItem(EURO_RATE_DATE_STORAGE_KEY) || toFxDateKey());
   const [euroFetchError, setEuroFetchError] = useState(false);
   const [importItems, setImportItems] = useState<ImportItemRaw[]>(() => readStoredJSON<ImportItemRaw[]>(IMPORT_ITEMS_STORAGE_KEY) || []);
   const [importSourceFile, setImportSourceFile] = useState(() => localStorage.getItem(IMPORT_FILE_STORAGE_KEY) || '');
@@ -173,13 +252,25 @@ const App: React.FC = () => {
     return stored === 'USD' || stored === 'EUR' ? stored : 'CLP';
   });
   const [customsCostCLP, setCustomsCostCLP] = useState<number>(() => Number(localStorage.getItem(IMPORT_CUSTOMS_STORAGE_KEY)) || 0);
+  const [shippingAllocationMethod, setShippingAllocationMethod] = useState<ImportAllocationMethod>(() => readStoredAllocationMethod(IMPORT_SHIPPING_ALLOCATION_STORAGE_KEY));
+  const [customsAllocationMethod, setCustomsAllocationMethod] = useState<ImportAllocationMethod>(() => readStoredAllocationMethod(IMPORT_CUSTOMS_ALLOCATION_STORAGE_KEY));
+  const [importCostModel, setImportCostModel] = useState<ImportCostModelSettings>(() => ({
+    ...DEFAULT_IMPORT_COST_MODEL,
+    ...readStoredJSON<Partial<ImportCostModelSettings>>(IMPORT_COST_MODEL_STORAGE_KEY),
+  }));
   const [targetGrossMarginPercentImport, setTargetGrossMarginPercentImport] = useState<number>(() => Number(localStorage.getItem(IMPORT_MARGIN_STORAGE_KEY)) || 50);
-  const [importSectionTab, setImportSectionTab] = useState<'calculator' | 'saved'>('calculator');
+  const [importSectionTab, setImportSectionTab] = useState<'calculator' | 'saved' | 'reconciliation'>('calculator');
   const [importSnapshots, setImportSnapshots] = useState<ImportCalculationSnapshot[]>(() => readStoredJSON<ImportCalculationSnapshot[]>(IMPORT_SNAPSHOTS_STORAGE_KEY) || []);
   const [isLoadingImportSnapshots, setIsLoadingImportSnapshots] = useState(false);
   const [importSnapshotsError, setImportSnapshotsError] = useState('');
   const [isSavingImportSnapshot, setIsSavingImportSnapshot] = useState(false);
   const [importSearchTerm, setImportSearchTerm] = useState('');
+  const [pdfImportReview, setPdfImportReview] = useState<{ uploadId: number; fileName: string; pdfDocument: PdfImportDocument } | null>(null);
+  const [landedCostSnapshotId, setLandedCostSnapshotId] = useState<string | null>(null);
+  const [landedCostPolicy, setLandedCostPolicy] = useState<LandedCostPolicy>(() => {
+    const stored = localStorage.getItem(IMPORT_LANDED_COST_POLICY_STORAGE_KEY);
+    return isLandedCostPolicy(stored) ? stored : 'weighted_average';
+  });
   const [showSaveImportModal, setShowSaveImportModal] = useState(false);
   const [importSaveName, setImportSaveName] = useState('');
 
@@ -200,14 +291,8 @@ const App: React.FC = () => {
       .trim();
   };
 
-  const checkIsAtCost = (item: { name: string; category?: string }) => {
-    const name = item.name.toLowerCase();
-    const category = item.category || 'General';
-    return category === 'Productos Únicos' ||
-      name.includes('item especial') ||
-      name.includes('manual') ||
-      name.includes('task');
-  };
+  // Kits are quoted with the current cost of their components.
+  const catalogProducts = useMemo(() => applyKitCosts(products), [products]);
 
   const {
     quoteLines,
@@ -220,6 +305,9 @@ const App: React.FC = () => {
     setSelectedCategory,
     activeTab,
     setActiveTab,
+    costHistoryProductId,
+    setCostHistoryProductId,
+    openProductCostHistory,
     filteredProducts,
     totalCostUSD,
     quoteResult,
@@ -228,6 +316,7 @@ const App: React.FC = () => {
     grossMarginPercent,
     clearDeal,
     addItem,
+    addKitComponents,
     removeItem,
     updateQuantity,
     updateQuoteLineMode,
@@ -236,30 +325,123 @@ const App: React.FC = () => {
     handleNetSalePriceChange,
     handleSalePriceWithIvaChange,
     handleGlobalMarginChange,
+    handleListDiscountChange,
     applyPricingPreset,
+    setQuoteRoundingPolicy,
+    setQuoteCurrency,
+    handleQuoteCurrencyRateChange,
+    setQuoteTaxProfile,
+    updateQuoteLineRounding,
+    addVolumeTierSchedule,
+    removeVolumeTierSchedule,
+    addVolumeTier,
+    updateVolumeTier,
+    removeVolumeTier,
+    toggleQuotePromotion,
+    addQuoteDiscount,
+    updateQuoteDiscount,
+    removeQuoteDiscount,
+    activeQuoteRevision,
+    setActiveQuoteRevision,
+    quoteValidUntil,
+    setQuoteValidUntil,
+    quoteSalesRep,
+    setQuoteSalesRep,
+    quoteClient,
+    setQuoteClient,
+    clientDirectory,
+    refreshCRMClients,
+    selectQuoteClient,
+    createQuoteClient,
+    historyClientFilter,
+    setHistoryClientFilter,
+    historySalesRepFilter,
+    setHistorySalesRepFilter,
+    marginFloorPolicy,
+    quoteLineRules,
+    addQuoteLineRule,
+    updateQuoteLineRule,
+    removeQuoteLineRule,
+    saveQuoteLineRuleSet,
+    marginGuardrails,
+    marginApproval,
+    marginApprovalStatus,
+    quoteApproverSession,
+    signInMarginApprover,
+    signOutMarginApprover,
+    updateMarginFloorDefault,
+    setMarginFloor,
+    removeMarginFloor,
+    setMarginApprovers,
+    saveMarginFloorPolicy,
+    approveQuoteMargin,
+    revokeQuoteMarginApproval,
   } = useCotizadorState({
-    products,
+    products: catalogProducts,
     exchangeRate,
+    euroRate,
     normalizeText,
-    checkIsAtCost,
   });
 
+  const latestUsdRate = useMemo(() => findFxRateOn(fxRates, 'USD', toFxDateKey()), [fxRates]);
+  const latestEuroRate = useMemo(() => findFxRateOn(fxRates, 'EUR', toFxDateKey()), [fxRates]);
+
+  // A reopened quote keeps its pinned rate; this shows what it would look like at the latest one.
+  const quoteFxComparison = useMemo(
+    () => (quoteLines.length > 0 ? compareFxRate('USD', { rate: exchangeRate, date: exchangeRateDate }, latestUsdRate) : null),
+    [quoteLines.length, exchangeRate, exchangeRateDate, latestUsdRate],
+  );
+  const quoteAtCurrentFxRate = useMemo(
+    () => (quoteFxComparison
+      ? calculateQuote({ exchangeRate: quoteFxComparison.currentRate, lines: quoteLines, pricingConfig: quotePricingConfig })
+      : null),
+    [quoteFxComparison, quoteLines, quotePricingConfig],
+  );
+  const quoteFxSensitivity = useMemo(
+    () => (quoteResult.totalNetCLP > 0 && exchangeRate > 0
+      ? buildQuoteFxSensitivity(quoteResult, 'USD', exchangeRate, quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT)
+      : null),
+    [quoteResult, exchangeRate, quotePricingConfig.targetMarginPercent],
+  );
+  const quoteEurFxSensitivity = useMemo(
+    () => (quoteResult.totalNetCLP > 0 && quoteResult.currencyTotals.currency === 'EUR'
+      ? buildQuoteFxSensitivity(
+        quoteResult,
+        'EUR',
+        quoteResult.currencyTotals.rateCLP,
+        quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
+      )
+      : null),
+    [quoteResult, quotePricingConfig.targetMarginPercent],
+  );
+
+  const applyCurrentFxRate = () => {
+    if (!latestUsdRate) return;
+    setExchangeRate(latestUsdRate.valueCLP);
+    setExchangeRateDate(latestUsdRate.date);
+    setLastUpdated(formatFxDate(latestUsdRate.date));
+  };
+
   // Fetch products on mount (exchange rate remains persistent until manually changed/refreshed)
   useEffect(() => {
     fetchProducts();
+    fetchStoredFxRates();
   }, []);
 
   useEffect(() => {
-    if (activeModule === 'imports' && importSectionTab === 'saved') {
+    if (activeModule === 'imports' && importSectionTab !== 'calculator') {
       fetchImportSnapshots();
     }
   }, [activeModule, importSectionTab]);
 
-  // Fetch quotations when switching to history tab
+  // Fetch quotations or cost history when switching to the tabs that show them
   useEffect(() => {
-    if (activeTab === 'history') {
+    if (activeTab === 'history' || activeTab === 'report') {
       fetchSavedQuotations();
     }
+    if (activeTab === 'costs') {
+      fetchCostHistory();
+    }
   }, [activeTab]);
 
   useEffect(() => {
@@ -270,6 +452,10 @@ const App: React.FC = () => {
     localStorage.setItem(EXCHANGE_RATE_UPDATED_STORAGE_KEY, lastUpdated);
   }, [lastUpdated]);
 
+  useEffect(() => {
+    localStorage.setItem(EXCHANGE_RATE_DATE_STORAGE_KEY, exchangeRateDate);
+  }, [exchangeRateDate]);
+
   useEffect(() => {
     if (cashFlowSummary) {
       localStorage.setItem(CASH_FLOW_SUMMARY_STORAGE_KEY, JSON.stringify(cashFlowSummary));
@@ -302,6 +488,10 @@ const App: React.FC = () => {
     localStorage.setItem(IMPORT_USD_RATE_STORAGE_KEY, String(importUsdRate));
   }, [importUsdRate]);
 
+  useEffect(() => {
+    localStorage.setItem(IMPORT_USD_RATE_DATE_STORAGE_KEY, importUsdRateDate);
+  }, [importUsdRateDate]);
+
   useEffect(() => {
     localStorage.setItem(EURO_RATE_STORAGE_KEY, String(euroRate));
   }, [euroRate]);
@@ -310,6 +500,10 @@ const App: React.FC = () => {
     localStorage.setItem(EURO_RATE_UPDATED_STORAGE_KEY, euroLastUpdated);
   }, [euroLastUpdated]);
 
+  useEffect(() => {
+    localStorage.setItem(EURO_RATE_DATE_STORAGE_KEY, euroRateDate);
+  }, [euroRateDate]);
+
   useEffect(() => {
     if (importItems.length > 0) {
       localStorage.setItem(IMPORT_ITEMS_STORAGE_KEY, JSON.stringify(importItems));
@@ -334,6 +528,22 @@ const App: React.FC = () => {
     localStorage.setItem(IMPORT_CUSTOMS_STORAGE_KEY, String(customsCostCLP));
   }, [customsCostCLP]);
 
+  useEffect(() => {
+    localStorage.setItem(IMPORT_SHIPPING_ALLOCATION_STORAGE_KEY, shippingAllocationMethod);
+  }, [shippingAllocationMethod]);
+
+  useEffect(() => {
+    localStorage.setItem(IMPORT_CUSTOMS_ALLOCATION_STORAGE_KEY, customsAllocationMethod);
+  }, [customsAllocationMethod]);
+
+  useEffect(() => {
+    localStorage.setItem(IMPORT_LANDED_COST_POLICY_STORAGE_KEY, landedCostPolicy);
+  }, [landedCostPolicy]);
+
+  useEffect(() => {
+    localStorage.setItem(IMPORT_COST_MODEL_STORAGE_KEY, JSON.stringify(importCostModel));
+  }, [importCostModel]);
+
   useEffect(() => {
     localStorage.setItem(IMPORT_MARGIN_STORAGE_KEY, String(targetGrossMarginPercentImport));
   }, [targetGrossMarginPercentImport]);
@@ -342,23 +552,45 @@ const App: React.FC = () => {
     localStorage.setItem(IMPORT_SNAPSHOTS_STORAGE_KEY, JSON.stringify(importSnapshots));
   }, [importSnapshots]);
 
+  const fxFetcher = resolveFxFetcher(() => fxRates);
+
+  const fetchStoredFxRates = async () => {
+    try {
+      setFxRates(await fetchFxRateRecords());
+    } catch (error) {
+      console.error('Error fetching stored FX rates:', error);
+    }
+  };
+
+  // Keeps the daily table current; rates answered by the local stand-in are already stored.
+  const recordFxRate = (entry: FxRateEntry) => {
+    setFxRates((prev) => upsertFxRateEntry(prev, entry));
+    if (FX_PROVIDER === 'local') return;
+    saveFxRateRecord(entry).catch((error) => console.error('Error saving FX rate:', error));
+  };
+
+  const refreshStoredFxRate = async (currency: FxCurrency) => {
+    try {
+      const entry = await fxFetcher.fetchRate(currency);
+      if (entry) recordFxRate(entry);
+    } catch (error) {
+      console.error(`Error fetching ${currency} rate:`, error);
+    }
+  };
+
   const fetchExchangeRate = async (retries = 2) => {
     setIsLoading(true);
     setFetchError(false);
     try {
-      const response = await fetch(`https://mindicador.cl/api/dolar?t=${Date.now()}`);
-      if (!response.ok) throw new Error('API Response not OK');
-
-      const data = await response.json();
-      if (data.serie && data.serie.length > 0) {
-        const rate = data.serie[0].valor;
-        const date = new Date(data.serie[0].fecha).toLocaleDateString('es-CL');
-        setExchangeRate(rate);
-        setLastUpdated(date);
-        console.log('Tipo de cambio actualizado:', rate, 'Fecha:', date);
-      } else {
-        throw new Error('No data in series');
-      }
+      const entry = await fxFetcher.fetchRate('USD');
+      if (!entry) throw new Error('No data in series');
+
+      setExchangeRate(entry.valueCLP);
+      setExchangeRateDate(entry.date);
+      setLastUpdated(formatFxDate(entry.date));
+      recordFxRate(entry);
+      refreshStoredFxRate('UF');
+      console.log('Tipo de cambio actualizado:', entry.valueCLP, 'Fecha:', entry.date, 'Fuente:', fxFetcher.label);
     } catch (error) {
       console.error('Error fetching exchange rate:', error);
       if (retries > 0) {
@@ -377,18 +609,13 @@ const App: React.FC = () => {
     setIsLoading(true);
     setEuroFetchError(false);
     try {
-      const response = await fetch(`https://mindicador.cl/api/euro?t=${Date.now()}`);
-      if (!response.ok) throw new Error('API Response not OK');
-
-      const data = await response.json();
-      if (data.serie && data.serie.length > 0) {
-        const rate = data.serie[0].valor;
-        const date = new Date(data.serie[0].fecha).toLocaleDateString('es-CL');
-        setEuroRate(rate);
-        setEuroLastUpdated(date);
-      } else {
-        throw new Error('No data in series');
-      }
+      const entry = await fxFetcher.fetchRate('EUR');
+      if (!entry) throw new Error('No data in series');
+
+      setEuroRate(entry.valueCLP);
+      setEuroRateDate(entry.date);
+      setEuroLastUpdated(formatFxDate(entry.date));
+      recordFxRate(entry);
     } catch (error) {
       console.error('Error fetching euro rate:', error);
       if (retries > 0) {
@@ -422,16 +649,57 @@ const App: React.FC = () => {
   const syncProductsToDatabase = async () => {
     if (products.length === 0) return;
 
-    const confirmSync = confirm(
-      "Esto reemplazará permanentemente el catálogo actual en la base de datos con la lista que acabas de subir. ¿Deseas continuar?"
-    );
-    if (!confirmSync) return;
+    setIsSyncing(true);
+    try {
+      const diff = buildCatalogDiff(await fetchProductsList(), products);
+      if (diff.changes.length === 0) {
+        alert(`El catálogo de ${getDataBackendLabel()} ya coincide con la lista cargada.`);
+        return;
+      }
+      setCatalogDiff(diff);
+    } catch (error) {
+      console.error('Catalog diff error:', error);
+      alert('Error al comparar con el catálogo: ' + (error as Error).message);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const toggleCatalogChange = (changeId: string) => {
+    setCatalogDiff((prev) => prev && {
+      ...prev,
+      changes: prev.changes.map((change) => (change.id === changeId ? { ...change, approved: !change.approved } : change)),
+    });
+  };
+
+  const setCatalogChangeKindApproval = (kind: CatalogChangeKind, approved: boolean) => {
+    setCatalogDiff((prev) => prev && {
+      ...prev,
+      changes: prev.changes.map((change) => (change.kind === kind ? { ...change, approved } : change)),
+    });
+  };
+
+  const applyCatalogSync = async () => {
+    if (!catalogDiff) return;
+    const plan = buildCatalogSyncPlan(catalogDiff.changes);
 
     setIsSyncing(true);
     try {
-      await replaceProductsCatalog(products);
-      alert(`Catálogo maestro actualizado con éxito en ${getDataBackendLabel()}. El sistema recordará esta lista hasta que subas otra.`);
+      const { applied, failures, historyError } = await applyCatalogSyncPlan(plan, products);
+      const failureLabels = { create: 'nuevo', update: 'actualizar', remove: 'eliminar' };
+      const failureLines = failures.map((failure) => (
+        `- ${failureLabels[failure.action]}: ${failure.sku ? `${failure.sku} ` : ''}${failure.productName}: ${failure.message}`
+      ));
+      const summary = `Catálogo actualizado en ${getDataBackendLabel()}: ${applied.creates} de ${plan.creates.length} nuevos, `
+        + `${applied.updates} de ${plan.updates.length} actualizados y ${applied.removals} de ${plan.removals.length} eliminados.`
+        + (failures.length ? `\n\nNo se pudo guardar:\n${failureLines.join('\n')}` : '');
+      alert(historyError
+        ? `${summary}\n\nAtención: los costos nuevos no quedaron en el historial de costos (${historyError}). `
+          + 'El catálogo sí se actualizó; el historial de esta carga queda incompleto.'
+        : summary);
+      setCatalogDiff(null);
       fetchProducts(); // Refresh list from DB to ensure IDs are synced
+      fetchCostHistory();
     } catch (error) {
       console.error('Detailed Sync error:', error);
       alert('Error al sincronizar: ' + (error as Error).message + '\n\nRevisa la consola del navegador para más detalles.');
@@ -446,10 +714,23 @@ const App: React.FC = () => {
       return;
     }
 
+    if (marginApprovalStatus === 'pending') {
+      alert('La cotización está bajo el margen mínimo. Pide la aprobación de un gerente antes de guardarla.');
+      return;
+    }
+
+    const validUntilError = validateQuoteValidUntil(quoteValidUntil);
+    if (validUntilError) {
+      alert(validUntilError);
+      return;
+    }
+
     try {
-      await saveSimulationRecord({
+      const savedQuotation = await saveSimulationRecord({
+        quote_number: activeQuoteRevision?.quoteNumber ?? null,
         sale_price_clp: quoteResult.totalNetCLP,
         exchange_rate: exchangeRate,
+        exchange_rate_date: exchangeRateDate,
         total_cost_usd: totalCostUSD,
         total_cost_clp: quoteResult.totalCostCLP,
         margin_percent: grossMarginPercent,
@@ -457,24 +738,52 @@ const App: React.FC = () => {
         pricing_mode: quotePricingConfig.mode,
         target_margin_percent: quotePricingConfig.targetMarginPercent ?? null,
         target_net_total_clp: quotePricingConfig.targetNetTotalCLP ?? quoteResult.totalNetCLP,
+        target_total_with_iva_clp: quotePricingConfig.targetTotalWithIvaCLP ?? null,
+        list_discount_percent: quotePricingConfig.listDiscountPercent ?? null,
+        quote_currency: quoteResult.currencyTotals.currency,
+        quote_currency_rate: quotePricingConfig.currencyRateCLP ?? null,
+        tax_profile: quotePricingConfig.taxProfile ?? null,
+        rounding_policy: quotePricingConfig.roundingPolicy ?? 'none',
+        volume_tiers: quotePricingConfig.volumeTiers ?? null,
+        discounts: quotePricingConfig.discounts ?? [],
+        promotions: quotePricingConfig.promotions ?? [],
+        total_discount_clp: quoteResult.totalDiscountCLP,
+        client_rut: quoteClient?.rut ?? null,
+        client_name: quoteClient?.name ?? null,
+        client_contact: quoteClient?.contact ?? null,
+        sales_rep: quoteSalesRep.trim() || null,
+        margin_floor_percent: marginGuardrails.quoteFloorPercent,
+        margin_violations: marginGuardrails.violations,
+        approval_status: marginApprovalStatus,
+        approved_by: marginApprovalStatus === 'approved' ? marginApproval?.approvedBy ?? null : null,
+        approval_reason: marginApprovalStatus === 'approved' ? marginApproval?.reason ?? null : null,
+        approved_at: marginApprovalStatus === 'approved' ? marginApproval?.approvedAt ?? null : null,
+        valid_until: quoteValidUntil,
         warnings: quoteResult.warnings,
         items: quoteResult.lines.map(item => ({
           product_id: item.productId,
           name: item.productName,
           qty: item.quantity,
           cost_usd: item.costUSD,
+          landed_cost_clp: item.landedCostCLP ?? null,
+          msrp_usd: item.msrpUSD ?? null,
           category: item.category,
           pricing_mode: item.pricingMode,
           pricing_value: item.value ?? null,
           locked: item.locked,
+          rounding_policy: item.roundingPolicy ?? null,
           net_unit_clp: item.netUnitCLP,
           net_total_clp: item.netTotalCLP,
           profit_total_clp: item.profitTotalCLP,
           margin_percent: item.marginPercent,
+          volume_tier_label: item.appliedVolumeTier?.label ?? null,
+          discount_total_clp: item.discountTotalCLP,
+          discount_vs_list_percent: item.discountVsListPercent,
         }))
-      });
+      }, marginApprovalStatus === 'approved' ? quoteApproverSession : null);
 
-      alert(`Simulación guardada en el historial de ${getDataBackendLabel()}.`);
+      setActiveQuoteRevision({ quoteNumber: savedQuotation.quote_number, revision: savedQuotation.revision });
+      alert(`Cotización ${savedQuotation.quote_number} v${savedQuotation.revision} guardada en el historial de ${getDataBackendLabel()}.`);
       fetchSavedQuotations(); // Refresh quotations list
     } catch (error) {
       alert('Error al guardar simulación: ' + (error as Error).message);
@@ -494,6 +803,18 @@ const App: React.FC = () => {
     }
   };
 
+  const fetchCostHistory = async () => {
+    setIsLoadingCostHistory(true);
+    try {
+      setProductCostHistory(await fetchProductCostHistory());
+    } catch (error) {
+      console.error('Error fetching cost history:', error);
+      alert('Error al cargar historial de costos: ' + (error as Error).message);
+    } finally {
+      setIsLoadingCostHistory(false);
+    }
+  };
+
   const fetchImportSnapshots = async () => {
     setIsLoadingImportSnapshots(true);
     setImportSnapshotsError('');
@@ -573,6 +894,18 @@ const App: React.FC = () => {
     }
   };
 
+  const updateQuotationStatus = async (quotation: SavedSimulationRecord, patch: SimulationStatusPatch): Promise<boolean> => {
+    try {
+      const updated = await updateSimulationStatus(quotation, patch);
+      setSavedQuotations(prev => prev.map(q => (q.id === updated.id ? updated : q)));
+      return true;
+    } catch (error) {
+      console.error('Error updating quotation status:', error);
+      alert('Error al actualizar el estado de la cotización: ' + (error as Error).message);
+      return false;
+    }
+  };
+
   const deleteProduct = async (product: Product) => {
     const isUnique = product.id.startsWith('unique-') || product.sku?.startsWith('UNIQUE-');
     const message = isUnique
@@ -628,7 +961,7 @@ const App: React.FC = () => {
 
     // 3. Persist to database
     try {
-      const data = await createProductRecord({
+      const { product: data, historyError } = await createProductRecord({
         name: newProduct.name,
         category: newProduct.category,
         sku: newProduct.sku,
@@ -640,6 +973,11 @@ const App: React.FC = () => {
       setProducts(prev => prev.map(p =>
         p.id === newProduct.id ? { ...p, id: data.id } : p
       ));
+      if (historyError) {
+        alert(`"${data.name}" se creó, pero su costo no quedó en el historial de costos (${historyError}).`);
+      } else {
+        fetchCostHistory();
+      }
     } catch (err) {
       console.error('Exception saving product:', err);
       // Generic rollback
@@ -688,6 +1026,25 @@ const App: React.FC = () => {
     }
   };
 
+  const saveProductKit = async (kit: Product, components: ProductKitComponent[]) => {
+    const breakdown = deriveKitCost({ ...kit, components }, products);
+    const costUSD = components.length > 0 && breakdown.missingSkus.length === 0 ? breakdown.costUSD : kit.costUSD;
+    try {
+      const historyWarning = await updateProductKitRecord(kit, components, costUSD);
+      setProducts((prev) => prev.map((product) => (
+        product.id === kit.id
+          ? { ...product, costUSD, components: components.length > 0 ? components : undefined }
+          : product
+      )));
+      if (costUSD !== kit.costUSD) fetchCostHistory();
+      const savedMessage = components.length > 0 ? `Composicion de "${kit.name}" guardada.` : `"${kit.name}" ya no es un kit.`;
+      alert(historyWarning ? `${savedMessage}\n\n${historyWarning}` : savedMessage);
+    } catch (error) {
+      console.error('Error saving kit:', error);
+      alert('Error al guardar el kit: ' + (error as Error).message);
+    }
+  };
+
   const removeProductFromList = async (product: Product) => {
     if (confirm(`¿Quitar "${product.name}" de esta lista? Volverá a la categoría "General".`)) {
       updateProductCategory(product, 'General');
@@ -707,68 +1064,126 @@ const App: React.FC = () => {
     sku: '',
     quantity: item.qty,
     costUSD: item.cost_usd,
+    landedCostCLP: item.landed_cost_clp ?? undefined,
+    msrpUSD: item.msrp_usd ?? undefined,
     category: item.category,
     pricingMode: (item.pricing_mode as LinePricingMode | undefined) || 'inherit',
     value: item.pricing_value ?? item.net_unit_clp ?? undefined,
     locked: Boolean(item.locked),
+    roundingPolicy: item.rounding_policy ?? undefined,
   });
 
-  const duplicateQuotation = (quotation: SavedSimulationRecord) => {
+  const savedQuotationToPricingConfig = (quotation: SavedSimulationRecord): QuotePricingConfig => ({
+    mode: (quotation.pricing_mode as QuotePricingConfig['mode'] | undefined) || 'legacy_global_net',
+    targetMarginPercent: quotation.target_margin_percent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
+    targetNetTotalCLP: quotation.target_net_total_clp ?? quotation.sale_price_clp,
+    targetTotalWithIvaCLP: quotation.target_total_with_iva_clp ?? undefined,
+    listDiscountPercent: quotation.list_discount_percent ?? undefined,
+    currency: quotation.quote_currency ?? 'CLP',
+    currencyRateCLP: quotation.quote_currency_rate ?? undefined,
+    taxProfile: quotation.tax_profile ?? undefined,
+    roundingPolicy: quotation.rounding_policy,
+    volumeTiers: quotation.volume_tiers ?? undefined,
+    discounts: quotation.discounts ?? [],
+    promotions: quotation.promotions ?? [],
+  });
+
+  const loadQuotationIntoSimulator = (quotation: SavedSimulationRecord) => {
     const recreatedLines = quotation.items.map(savedItemToQuoteLine);
 
     setQuoteLines(recreatedLines);
-    setQuotePricingConfig({
-      mode: (quotation.pricing_mode as QuotePricingConfig['mode'] | undefined) || 'legacy_global_net',
-      targetMarginPercent: quotation.target_margin_percent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
-      targetNetTotalCLP: quotation.target_net_total_clp ?? quotation.sale_price_clp,
-    });
+    setQuotePricingConfig((prev) => ({
+      ...savedQuotationToPricingConfig(quotation),
+      volumeTiers: quotation.volume_tiers ?? prev.volumeTiers,
+    }));
+    const pinnedRateDate = quotation.exchange_rate_date || toFxDateKey(quotation.created_at);
     setExchangeRate(quotation.exchange_rate);
+    setExchangeRateDate(pinnedRateDate);
+    setLastUpdated(formatFxDate(pinnedRateDate));
+    setQuoteClient(quoteClientFromRecord(quotation, clientDirectory));
+    setQuoteValidUntil(quotation.valid_until || buildQuoteValidUntil());
     setActiveTab('simulator');
-    alert('Cotización cargada. Puedes modificarla y guardarla nuevamente.');
+  };
+
+  const duplicateQuotation = (quotation: SavedSimulationRecord) => {
+    loadQuotationIntoSimulator(quotation);
+    setActiveQuoteRevision(null);
+    setQuoteValidUntil(buildQuoteValidUntil());
+    alert('Cotización cargada. Al guardarla se creará una cotización nueva con su propio número.');
+  };
+
+  const reviseQuotation = (quotation: SavedSimulationRecord) => {
+    if (!quotation.quote_number) {
+      duplicateQuotation(quotation);
+      return;
+    }
+
+    loadQuotationIntoSimulator(quotation);
+    setActiveQuoteRevision({ quoteNumber: quotation.quote_number, revision: quotation.revision });
+    alert(`Editando ${quotation.quote_number}. Al guardar se creará una nueva revisión.`);
   };
 
   const calculateIVA = (amount: number): number => {
     return Math.round(amount * 0.19);
   };
 
-  const generateInternalExport = async (quotation: SavedSimulationRecord) => {
-    try {
-      // Create a temporary element for the quotation
-      const tempDiv = document.createElement('div');
-      tempDiv.style.cssText = `
-        position: absolute;
-        left: -9999px;
-        width: 800px;
-        padding: 40px;
-        background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-        color: white;
-        font-family: 'Inter', -apple-system, system-ui, sans-serif;
-      `;
+  const calculateSavedQuotation = (quotation: SavedSimulationRecord) => calculateQuote({
+    exchangeRate: quotation.exchange_rate,
+    lines: quotation.items.map(savedItemToQuoteLine),
+    pricingConfig: savedQuotationToPricingConfig(quotation),
+  });
+
+  const formatExportCLP = (value: number) => `$${Math.round(value).toLocaleString('es-CL', { maximumFractionDigits: 0 })}`;
+
+  const renderQuoteImage = async (html: string, background: string, fileName: string) => {
+    // Create a temporary element for the quotation
+    const tempDiv = document.createElement('div');
+    tempDiv.style.cssText = `
+      position: absolute;
+      left: -9999px;
+      width: 800px;
+      padding: 40px;
+      background: ${background};
+      color: #1a1a2e;
+      font-family: 'Inter', -apple-system, system-ui, sans-serif;
+    `;
+    tempDiv.innerHTML = html;
+    document.body.appendChild(tempDiv);
 
-      const subtotal = Math.round(quotation.sale_price_clp);
-      const iva = Math.round(subtotal * 0.19);
-      const total = subtotal + iva;
-      const date = new Date(quotation.created_at).toLocaleDateString('es-CL');
-
-      const details = calculateQuote({
-        exchangeRate: quotation.exchange_rate,
-        lines: quotation.items.map(savedItemToQuoteLine),
-        pricingConfig: {
-          mode: (quotation.pricing_mode as QuotePricingConfig['mode'] | undefined) || 'legacy_global_net',
-          targetMarginPercent: quotation.target_margin_percent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
-          targetNetTotalCLP: quotation.target_net_total_clp ?? quotation.sale_price_clp,
-        }
+    try {
+      const canvas = await html2canvas(tempDiv, {
+        backgroundColor: null,
+        scale: 2,
+        logging: false
       });
-      const cogsPercent = details.totalNetCLP > 0
-        ? (details.totalCostCLP / details.totalNetCLP) * 100
-        : 0;
 
-      tempDiv.innerHTML = `
+      const link = document.createElement('a');
+      link.download = fileName;
+      link.href = canvas.toDataURL('image/png');
+      link.click();
+    } finally {
+      document.body.removeChild(tempDiv);
+    }
+  };
+
+  const generateInternalExport = async (quotation: SavedSimulationRecord) => {
+    try {
+      const view = buildQuoteInternalView(quotation, calculateSavedQuotation(quotation));
+      const date = new Date(view.issuedAt).toLocaleDateString('es-CL');
+      const marginColor = view.marginPercent >= 50 ? '#16a34a' : view.marginPercent >= 30 ? '#ca8a04' : '#dc2626';
+      const marginBackground = view.marginPercent >= 50 ? '#dcfce7' : view.marginPercent >= 30 ? '#fef9c3' : '#fee2e2';
+
+      const html = `
         <div style="background: rgba(255,255,255,0.95); color: #1a1a2e; border-radius: 20px; padding: 30px;">
+          <div style="background: #dc2626; color: white; text-align: center; font-size: 13px; font-weight: 800; letter-spacing: 2px; padding: 8px; border-radius: 8px; margin-bottom: 20px;">
+            ${QUOTE_DOCUMENT_AUDIENCE_LABELS.internal.toUpperCase()}
+          </div>
           <div style="text-align: center; border-bottom: 3px solid #667eea; padding-bottom: 20px; margin-bottom: 30px;">
             <img src="${logoMegaGen}" alt="MegaGen Chile" style="height: 60px; max-width: 100%; object-fit: contain;" />
-            <p style="margin: 5px 0 0 0; font-size: 14px; color: #666;">Cotización Financiera</p>
-            <p style="margin: 5px 0 0 0; font-size: 12px; color: #999;">Fecha: ${date}</p>
+            <p style="margin: 5px 0 0 0; font-size: 14px; color: #666;">Análisis Financiero Interno</p>
+            <p style="margin: 5px 0 0 0; font-size: 12px; color: #999;">Fecha: ${date} · Dólar: ${formatExportCLP(view.exchangeRate)}</p>
+            ${quotation.quote_number ? `<p style="margin: 5px 0 0 0; font-size: 12px; color: #999;">N° ${view.quoteLabel}</p>` : ''}
+            ${view.salesRep ? `<p style="margin: 5px 0 0 0; font-size: 12px; color: #999;">Vendedor: ${view.salesRep}</p>` : ''}
           </div>
 
           <table style="width: 100%; border-collapse: collapse; margin-bottom: 30px;">
@@ -777,73 +1192,66 @@ const App: React.FC = () => {
                 <th style="padding: 12px; text-align: left; font-size: 13px;">Producto</th>
                 <th style="padding: 12px; text-align: center; font-size: 13px;">Cantidad</th>
                 <th style="padding: 12px; text-align: right; font-size: 13px;">Costo USD</th>
+                <th style="padding: 12px; text-align: right; font-size: 13px;">Neto</th>
+                <th style="padding: 12px; text-align: right; font-size: 13px;">Margen</th>
               </tr>
             </thead>
             <tbody>
-              ${details.lines.map((item) => {
-        return `
+              ${view.lines.map((item) => `
                 <tr style="border-bottom: 1px solid #eee;">
-                  <td style="padding: 10px; font-size: 12px;">${item.productName}${item.effectiveMode === 'at_cost' ? ' <span style="color:#16a34a; font-weight:bold;">(Al Costo)</span>' : ''}</td>
+                  <td style="padding: 10px; font-size: 12px;">${item.productName}${item.atCost ? ' <span style="color:#16a34a; font-weight:bold;">(Al Costo)</span>' : ''}</td>
                   <td style="padding: 10px; text-align: center; font-size: 12px;">${item.quantity}</td>
                   <td style="padding: 10px; text-align: right; font-size: 12px;">$${Math.round(item.costUSD).toLocaleString('en-US')}</td>
+                  <td style="padding: 10px; text-align: right; font-size: 12px;">${formatQuoteAmount(item.netTotal, view.currency)}</td>
+                  <td style="padding: 10px; text-align: right; font-size: 12px;">${Math.round(item.marginPercent)}%</td>
                 </tr>
-              `;
-      }).join('')}
+              `).join('')}
             </tbody>
           </table>
 
           <div style="background: #f9f9f9; padding: 20px; border-radius: 12px; margin-bottom: 20px;">
             <div style="display: flex; justify-content: space-between; margin-bottom: 10px; border-bottom: 1px dashed #ddd; padding-bottom: 10px;">
               <span style="font-size: 14px; color: #666;">Costo Total (CLP):</span>
-              <span style="font-size: 14px; font-weight: 600; color: #666;">$${quotation.total_cost_clp.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+              <span style="font-size: 14px; font-weight: 600; color: #666;">${formatExportCLP(view.totalCostCLP)}</span>
+            </div>
+            ${view.totalDiscount > 0 ? `
+            <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
+              <span style="font-size: 14px; color: #666;">Descuentos y promociones:</span>
+              <span style="font-size: 14px; font-weight: 600; color: #16a34a;">-${formatQuoteAmount(view.totalDiscount, view.currency)}</span>
             </div>
+            ` : ''}
             <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
-              <span style="font-size: 14px; color: #666;">Subtotal (sin IVA):</span>
-              <span style="font-size: 16px; font-weight: 600;">$${subtotal.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+              <span style="font-size: 14px; color: #666;">Subtotal (sin impuestos):</span>
+              <span style="font-size: 16px; font-weight: 600;">${formatQuoteAmount(view.totalNet, view.currency)}</span>
             </div>
             <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
-              <span style="font-size: 14px; color: #666;">IVA (19%):</span>
-              <span style="font-size: 16px; font-weight: 600;">$${iva.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+              <span style="font-size: 14px; color: #666;">${view.taxLabel}:</span>
+              <span style="font-size: 16px; font-weight: 600;">${formatQuoteAmount(view.totalTax, view.currency)}</span>
             </div>
             <div style="display: flex; justify-content: space-between; padding-top: 10px; border-top: 2px solid #667eea;">
-              <span style="font-size: 18px; font-weight: 700; color: #667eea;">TOTAL (con IVA):</span>
-              <span style="font-size: 22px; font-weight: 800; color: #667eea;">$${total.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+              <span style="font-size: 18px; font-weight: 700; color: #667eea;">TOTAL${view.currency === 'CLP' ? '' : ` ${view.currency}`}:</span>
+              <span style="font-size: 22px; font-weight: 800; color: #667eea;">${formatQuoteAmount(view.totalWithTax, view.currency)}</span>
             </div>
           </div>
 
-          <div style="background: ${quotation.margin_percent >= 50 ? '#dcfce7' : quotation.margin_percent >= 30 ? '#fef9c3' : '#fee2e2'}; padding: 15px; border-radius: 12px; text-align: center;">
+          <div style="background: ${marginBackground}; padding: 15px; border-radius: 12px; text-align: center;">
             <p style="margin: 0; font-size: 12px; color: #666;">Margen Bruto</p>
-            <p style="margin: 5px 0 0 0; font-size: 24px; font-weight: 700; color: ${quotation.margin_percent >= 50 ? '#16a34a' : quotation.margin_percent >= 30 ? '#ca8a04' : '#dc2626'};">
-              ${Math.round(quotation.margin_percent)}%
+            <p style="margin: 5px 0 0 0; font-size: 24px; font-weight: 700; color: ${marginColor};">
+              ${Math.round(view.marginPercent)}% · ${formatExportCLP(view.totalProfitCLP)}
             </p>
             <div style="margin-top: 12px; padding-top: 12px; border-top: 1px solid rgba(0,0,0,0.08);">
               <p style="margin: 0; font-size: 12px; color: #666;">COGS</p>
               <p style="margin: 5px 0 0 0; font-size: 18px; font-weight: 700; color: #334155;">
-                ${cogsPercent.toFixed(1)}%
+                ${view.cogsPercent.toFixed(1)}%
               </p>
             </div>
+            ${view.approvalNote ? `<p style="margin: 12px 0 0 0; font-size: 11px; color: #475569;">${view.approvalNote}</p>` : ''}
           </div>
         </div>
       `;
 
-      document.body.appendChild(tempDiv);
-
-      // Generate image
-      const canvas = await html2canvas(tempDiv, {
-        backgroundColor: null,
-        scale: 2,
-        logging: false
-      });
-
-      document.body.removeChild(tempDiv);
-
-      // Download the image
-      const link = document.createElement('a');
-      link.download = `cotizacion-megagen-${date.replace(/\//g, '-')}.png`;
-      link.href = canvas.toDataURL('image/png');
-      link.click();
-
-      alert('Imagen de cotización generada. ¡Lista para compartir!');
+      await renderQuoteImage(html, 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)', buildQuoteExportFileName(quotation, 'internal', 'png'));
+      alert('Análisis interno generado (con costos, margen y COGS). No lo envíes al cliente.');
     } catch (error) {
       console.error('Error generating image:', error);
       alert('Error al generar imagen: ' + (error as Error).message);
@@ -852,39 +1260,16 @@ const App: React.FC = () => {
 
   const generateClientExport = async (quotation: SavedSimulationRecord) => {
     try {
-      // Create a temporary element for the quotation
-      const tempDiv = document.createElement('div');
-      tempDiv.style.cssText = `
-        position: absolute;
-        left: -9999px;
-        width: 800px;
-        padding: 40px;
-        background: white;
-        color: #1a1a2e;
-        font-family: 'Inter', -apple-system, system-ui, sans-serif;
-      `;
-
-      const subtotal = Math.round(quotation.sale_price_clp);
-      const iva = Math.round(subtotal * 0.19);
-      const total = subtotal + iva;
-      const date = new Date(quotation.created_at).toLocaleDateString('es-CL');
-
-      const details = calculateQuote({
-        exchangeRate: quotation.exchange_rate,
-        lines: quotation.items.map(savedItemToQuoteLine),
-        pricingConfig: {
-          mode: (quotation.pricing_mode as QuotePricingConfig['mode'] | undefined) || 'legacy_global_net',
-          targetMarginPercent: quotation.target_margin_percent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
-          targetNetTotalCLP: quotation.target_net_total_clp ?? quotation.sale_price_clp,
-        }
-      });
+      const view = buildQuoteClientView(quotation, calculateSavedQuotation(quotation));
+      const date = new Date(view.issuedAt).toLocaleDateString('es-CL');
 
-      tempDiv.innerHTML = `
+      const html = `
         <div style="background: white; padding: 20px;">
           <div style="text-align: center; border-bottom: 3px solid #667eea; padding-bottom: 20px; margin-bottom: 30px;">
             <img src="${logoMegaGen}" alt="MegaGen Chile" style="height: 60px; max-width: 100%; object-fit: contain;" />
             <p style="margin: 5px 0 0 0; font-size: 14px; color: #666;">Cotización Formal</p>
             <p style="margin: 5px 0 0 0; font-size: 12px; color: #999;">Fecha: ${date}</p>
+            ${quotation.quote_number ? `<p style="margin: 5px 0 0 0; font-size: 12px; color: #999;">N° ${view.quoteLabel}</p>` : ''}
           </div>
 
           <table style="width: 100%; border-collapse: collapse; margin-bottom: 30px;">
@@ -897,91 +1282,152 @@ const App: React.FC = () => {
               </tr>
             </thead>
             <tbody>
-              ${details.lines.map((item) => {
-        const unitPriceCLP = item.netUnitCLP;
-        const lineTotalCLP = item.netTotalCLP;
-
-        return `
+              ${view.lines.map((item) => `
                 <tr style="border-bottom: 1px solid #eee;">
                   <td style="padding: 10px; font-size: 12px; color: #334155;">${item.productName}</td>
                   <td style="padding: 10px; text-align: center; font-size: 12px; color: #334155;">${item.quantity}</td>
-                  <td style="padding: 10px; text-align: right; font-size: 12px; color: #334155;">$${Math.round(unitPriceCLP).toLocaleString('es-CL', { maximumFractionDigits: 0 })}</td>
-                  <td style="padding: 10px; text-align: right; font-size: 12px; font-weight: 600; color: #334155;">$${Math.round(lineTotalCLP).toLocaleString('es-CL', { maximumFractionDigits: 0 })}</td>
+                  <td style="padding: 10px; text-align: right; font-size: 12px; color: #334155;">${formatQuoteAmount(item.netUnit, view.currency)}</td>
+                  <td style="padding: 10px; text-align: right; font-size: 12px; font-weight: 600; color: #334155;">${formatQuoteAmount(item.netTotal, view.currency)}</td>
                 </tr>
-              `;
-      }).join('')}
+              `).join('')}
             </tbody>
           </table>
 
           <div style="display: flex; justify-content: flex-end;">
             <div style="width: 280px; background: #f8fafc; padding: 20px; border-radius: 12px;">
+              ${view.discounts.length > 0 ? `
+              <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
+                <span style="font-size: 14px; color: #64748b;">Subtotal:</span>
+                <span style="font-size: 16px; font-weight: 600; color: #334155;">${formatQuoteAmount(view.totalNetBeforeDiscount, view.currency)}</span>
+              </div>
+              ${view.discounts.map((entry) => `
+              <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
+                <span style="font-size: 13px; color: #16a34a;">${entry.label}:</span>
+                <span style="font-size: 14px; font-weight: 600; color: #16a34a;">-${formatQuoteAmount(entry.amount, view.currency)}</span>
+              </div>
+              `).join('')}
+              ` : ''}
               <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
                 <span style="font-size: 14px; color: #64748b;">Neto:</span>
-                <span style="font-size: 16px; font-weight: 600; color: #334155;">$${subtotal.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+                <span style="font-size: 16px; font-weight: 600; color: #334155;">${formatQuoteAmount(view.totalNet, view.currency)}</span>
               </div>
               <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
-                <span style="font-size: 14px; color: #64748b;">IVA (19%):</span>
-                <span style="font-size: 16px; font-weight: 600; color: #334155;">$${iva.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+                <span style="font-size: 14px; color: #64748b;">${view.taxLabel}:</span>
+                <span style="font-size: 16px; font-weight: 600; color: #334155;">${formatQuoteAmount(view.totalTax, view.currency)}</span>
               </div>
               <div style="display: flex; justify-content: space-between; padding-top: 10px; border-top: 2px solid #667eea; margin-top: 10px;">
-                <span style="font-size: 18px; font-weight: 700; color: #667eea;">TOTAL:</span>
-                <span style="font-size: 22px; font-weight: 800; color: #667eea;">$${total.toLocaleString('es-CL', { maximumFractionDigits: 0 })}</span>
+                <span style="font-size: 18px; font-weight: 700; color: #667eea;">TOTAL${view.currency === 'CLP' ? '' : ` ${view.currency}`}:</span>
+                <span style="font-size: 22px; font-weight: 800; color: #667eea;">${formatQuoteAmount(view.totalWithTax, view.currency)}</span>
               </div>
             </div>
           </div>
 
           <div style="margin-top: 40px; text-align: center; font-size: 10px; color: #94a3b8;">
-            <p>Cotización válida por 15 días. Precios sujetos a disponibilidad de stock.</p>
+            ${view.terms.map((term) => `<p style="margin: 2px 0;">${term}</p>`).join('')}
           </div>
         </div>
       `;
 
-      document.body.appendChild(tempDiv);
+      await renderQuoteImage(html, 'white', buildQuoteExportFileName(quotation, 'client', 'png'));
+      alert('Cotización para cliente generada (solo precios netos, descuentos, IVA y condiciones).');
+    } catch (error) {
+      console.error('Error generating image:', error);
+      alert('Error al generar imagen: ' + (error as Error).message);
+    }
+  };
 
-      // Generate image
-      const canvas = await html2canvas(tempDiv, {
-        backgroundColor: '#ffffff',
-        scale: 2,
-        logging: false
-      });
+  const generateQuotePdf = (quotation: SavedSimulationRecord, client: QuoteDocumentClient, paymentTerms: string) => {
+    if (!client.businessName.trim() || !client.rut.trim()) {
+      alert('Ingresa la razón social y el RUT del cliente para generar el PDF.');
+      return;
+    }
 
-      document.body.removeChild(tempDiv);
+    try {
+      const pdfBytes = buildQuotePdf({
+        view: buildQuoteClientView(quotation, calculateSavedQuotation(quotation)),
+        client,
+        paymentTerms,
+        salesRep: quotation.sales_rep,
+      });
 
-      // Download the image
+      const url = URL.createObjectURL(new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' }));
       const link = document.createElement('a');
-      link.download = `cotizacion-cliente-${date.replace(/\//g, '-')}.png`;
-      link.href = canvas.toDataURL('image/png');
+      link.download = buildQuoteExportFileName(quotation, 'client', 'pdf');
+      link.href = url;
       link.click();
-
-      alert('Cotización para cliente generada (Precios Netos + IVA).');
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Error generating image:', error);
-      alert('Error al generar imagen: ' + (error as Error).message);
+      console.error('Error generating PDF:', error);
+      alert('Error al generar PDF: ' + (error as Error).message);
     }
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    event.target.value = '';
 
     try {
-      const uploadBatchId = Date.now();
-      const rawProducts = await parseFile(file);
-      const newProducts: Product[] = rawProducts.map((p, index) => ({
-        id: `upl-${uploadBatchId}-${index}`,
-        sku: p.sku,
-        name: p.name,
-        category: p.category,
-        costUSD: p.costUSD,
-        suggestedPriceUSD: p.msrpUSD
-      }));
-      setProducts(newProducts);
-      setQuoteLines([]);
+      const sheet = await readCatalogFile(file);
+      if (sheet.rows.length === 0) throw new Error('No se encontraron filas de productos.');
+      const layoutKey = buildCatalogLayoutKey(sheet.headers);
+      const savedMapping = readStoredJSON<Record<string, CatalogColumnMapping>>(CATALOG_COLUMN_MAPPINGS_STORAGE_KEY)?.[layoutKey];
+      const rememberedMapping = savedMapping && !validateCatalogColumnMapping(savedMapping, sheet.headers) ? savedMapping : null;
+      setCatalogUpload({
+        fileName: file.name,
+        sheet,
+        layoutKey,
+        mapping: rememberedMapping ?? suggestCatalogColumnMapping(sheet.headers),
+        hasSavedMapping: Boolean(rememberedMapping),
+      });
     } catch (error) {
       alert('Error al procesar el archivo: ' + (error as Error).message);
     }
   };
 
+  const confirmCatalogMapping = (mapping: CatalogColumnMapping, remember: boolean): string | null => {
+    if (!catalogUpload) return null;
+    const validationError = validateCatalogColumnMapping(mapping, catalogUpload.sheet.headers);
+    if (validationError) return validationError;
+
+    const rawProducts = mapCatalogRows(catalogUpload.sheet, mapping);
+    if (rawProducts.length === 0) return 'Con este mapeo no se obtuvo ningún producto. Revisa la columna de nombre.';
+
+    if (remember) {
+      const savedMappings = readStoredJSON<Record<string, CatalogColumnMapping>>(CATALOG_COLUMN_MAPPINGS_STORAGE_KEY) ?? {};
+      localStorage.setItem(CATALOG_COLUMN_MAPPINGS_STORAGE_KEY, JSON.stringify({ ...savedMappings, [catalogUpload.layoutKey]: mapping }));
+    }
+
+    const duplicateReport = buildCatalogDuplicateReport(rawProducts);
+    setCatalogUpload(null);
+    if (duplicateReport.conflicts.length > 0) {
+      setCatalogDuplicates(duplicateReport);
+    } else {
+      loadUploadedProducts(duplicateReport.products);
+    }
+    return null;
+  };
+
+  const resolveCatalogDuplicates = (resolutions: Record<string, CatalogDuplicateResolution>) => {
+    if (!catalogDuplicates) return;
+    loadUploadedProducts(applyCatalogDuplicateResolutions(catalogDuplicates, resolutions));
+    setCatalogDuplicates(null);
+  };
+
+  const loadUploadedProducts = (rawProducts: RawProduct[]) => {
+    const uploadBatchId = Date.now();
+    const newProducts: Product[] = rawProducts.map((p, index) => ({
+      id: `upl-${uploadBatchId}-${index}`,
+      sku: p.sku,
+      name: p.name,
+      category: p.category,
+      costUSD: p.costUSD,
+      suggestedPriceUSD: p.msrpUSD
+    }));
+    setProducts(newProducts);
+    setQuoteLines([]);
+  };
+
   const handleAnalysisFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -1033,24 +1479,28 @@ const App: React.FC = () => {
     if (!file) return;
 
     try {
-      const pdfItems = await parseImportItemsFromPdf(file);
-      if (!pdfItems.length) {
-        alert('No se pudieron detectar filas de productos en el PDF. Revisa el formato o sube Excel.');
-        return;
-      }
-      const mapped: ImportItemRaw[] = pdfItems.map((item) => ({
-        sku: item.sku,
-        name: item.name,
-        quantity: item.quantity,
-        unitCost: item.value,
-      }));
-      setImportItems(mapped);
-      setImportSourceFile(file.name);
+      const pdfDocument = await parseImportItemsFromPdf(file);
+      setPdfImportReview({ uploadId: Date.now(), fileName: file.name, pdfDocument });
     } catch (error) {
       alert('Error al procesar PDF de importaciones: ' + (error as Error).message);
+    } finally {
+      event.target.value = '';
     }
   };
 
+  // Only the lines confirmed in the PDF review reach the calculation.
+  const confirmPdfImportLines = (lines: PdfImportLine[]) => {
+    if (!pdfImportReview) return;
+    setImportItems(lines.map((line) => ({
+      sku: line.sku,
+      name: line.name,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+    })));
+    setImportSourceFile(pdfImportReview.fileName);
+    setPdfImportReview(null);
+  };
+
   const markImportSourceAsManual = () => {
     setImportSourceFile((prev) => {
       if (!prev) return 'Carga manual';
@@ -1067,11 +1517,14 @@ const App: React.FC = () => {
   const updateImportItem = (
     index: number,
     field: keyof ImportItemRaw,
-    value: string | number,
+    value: string | number | boolean,
   ) => {
     setImportItems((prev) => prev.map((item, itemIndex) => {
       if (itemIndex !== index) return item;
-      if (field === 'quantity' || field === 'unitCost') {
+      if (field === 'dutyExempt') {
+        return { ...item, dutyExempt: Boolean(value) };
+      }
+      if (field === 'quantity' || field === 'unitCost' || field === 'unitWeight' || field === 'allocationShare') {
         return { ...item, [field]: typeof value === 'number' ? value : parseFloat(String(value)) || 0 };
       }
       return { ...item, [field]: String(value) };
@@ -1094,6 +1547,7 @@ const App: React.FC = () => {
     setImportSourceFile('');
     setShowSaveImportModal(false);
     setImportSaveName('');
+    setPdfImportReview(null);
   };
 
   const formatImportCurrency = (value: number) => {
@@ -1130,212 +1584,31 @@ const App: React.FC = () => {
       return;
     }
 
-    const exportItems = activeImportItems;
-    const exportCurrency = importCurrency;
-    const exportImportUsdRate = importUsdRate;
-    const exportEuroRate = euroRate;
-    const exportShippingCost = shippingCostCLP;
-    const exportShippingCurrency = shippingCurrency;
-    const exportShippingCostInCLP = convertImportAmountToCLP(
-      exportShippingCost,
-      exportShippingCurrency,
-      exportImportUsdRate,
-      exportEuroRate,
-    );
-    const exportCustomsCost = customsCostCLP;
-    const exportMargin = targetGrossMarginPercentImport;
-    const exportSourceFile = importSourceFile;
-
-    const headerRow = 12;
-    const dataStartRow = headerRow + 1;
-    const dataEndRow = dataStartRow + exportItems.length - 1;
-    const totalRow = dataEndRow + 1;
-    const hRange = `$H$${dataStartRow}:$H$${dataEndRow}`;
-
-    const summaryRows: Array<Array<string | number>> = [
-      ['Resumen Costos de Importacion'],
-      ['Archivo fuente', exportSourceFile || '-'],
-      ['USD Importacion (CLP)', Number(exportImportUsdRate.toFixed(4))],
-      ['EUR (CLP)', Number(exportEuroRate.toFixed(4))],
-      ['Moneda flete', exportShippingCurrency],
-      ['Gasto envio original', Number(exportShippingCost.toFixed(4))],
-      ['Gasto envio convertido CLP', Math.round(exportShippingCostInCLP)],
-      ['Gasto aduana (CLP)', Math.round(exportCustomsCost)],
-      ['Margen bruto objetivo (%)', Number(exportMargin.toFixed(2))],
-      [''],
-      ['Tabla de productos y precios calculados'],
-      ['SKU', 'Producto', 'Cantidad', 'Moneda', 'Costo Unitario Moneda', 'Costo Total Moneda', 'Tipo Cambio CLP', 'Costo Base CLP', 'Flete Asignado CLP', 'Aduana Asignada CLP', 'Costo Puesto Chile Total CLP', 'Costo Puesto Chile Unit CLP', 'Precio Venta Neto Unit CLP', 'Precio Venta Unit con IVA CLP'],
-    ];
-
-    const dataRows = exportItems.map((item) => ([
-      item.sku,
-      item.name,
-      item.quantity,
-      exportCurrency,
-      Number(item.unitCost.toFixed(4)),
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-    ]));
-
-    const totalRowData: Array<string | number | null> = [
-      'TOTAL',
-      '',
-      null,
-      '',
-      '',
-      null,
-      '',
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-    ];
-
-    const worksheet = XLSX.utils.aoa_to_sheet([...summaryRows, ...dataRows, totalRowData]);
-
-    for (let i = 0; i < exportItems.length; i += 1) {
-      const row = dataStartRow + i;
-      worksheet[`F${row}`] = { t: 'n', f: `=C${row}*E${row}` };
-      worksheet[`G${row}`] = { t: 'n', f: `=IF(D${row}="USD",$B$3,IF(D${row}="EUR",$B$4,1))` };
-      worksheet[`H${row}`] = { t: 'n', f: `=F${row}*G${row}` };
-      worksheet[`I${row}`] = { t: 'n', f: `=IF(SUM(${hRange})=0,0,$B$7*H${row}/SUM(${hRange}))` };
-      worksheet[`J${row}`] = { t: 'n', f: `=IF(SUM(${hRange})=0,0,$B$8*H${row}/SUM(${hRange}))` };
-      worksheet[`K${row}`] = { t: 'n', f: `=H${row}+I${row}+J${row}` };
-      worksheet[`L${row}`] = { t: 'n', f: `=IF(C${row}=0,0,K${row}/C${row})` };
-      worksheet[`M${row}`] = { t: 'n', f: `=IF(1-$B$9/100<=0,L${row},L${row}/(1-$B$9/100))` };
-      worksheet[`N${row}`] = { t: 'n', f: `=M${row}*1.19` };
-    }
-
-    worksheet[`C${totalRow}`] = { t: 'n', f: `=SUM(C${dataStartRow}:C${dataEndRow})` };
-    worksheet[`F${totalRow}`] = { t: 'n', f: `=SUM(F${dataStartRow}:F${dataEndRow})` };
-    worksheet[`H${totalRow}`] = { t: 'n', f: `=SUM(H${dataStartRow}:H${dataEndRow})` };
-    worksheet[`I${totalRow}`] = { t: 'n', f: `=SUM(I${dataStartRow}:I${dataEndRow})` };
-    worksheet[`J${totalRow}`] = { t: 'n', f: `=SUM(J${dataStartRow}:J${dataEndRow})` };
-    worksheet[`K${totalRow}`] = { t: 'n', f: `=SUM(K${dataStartRow}:K${dataEndRow})` };
-    worksheet[`L${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,K${totalRow}/C${totalRow})` };
-    worksheet[`M${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,SUMPRODUCT(M${dataStartRow}:M${dataEndRow},C${dataStartRow}:C${dataEndRow})/C${totalRow})` };
-    worksheet[`N${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,SUMPRODUCT(N${dataStartRow}:N${dataEndRow},C${dataStartRow}:C${dataEndRow})/C${totalRow})` };
-
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Importaciones');
+    const workbook = buildImportWorkbook({
+      sourceFile: importSourceFile,
+      currency: importCurrency,
+      importUsdRate,
+      euroRate,
+      shippingCost: shippingCostCLP,
+      shippingCurrency,
+      customsCostCLP,
+      shippingAllocationMethod,
+      customsAllocationMethod,
+      costModel: importCostModel,
+      targetGrossMarginPercent: targetGrossMarginPercentImport,
+      items: activeImportItems,
+    });
     const fileStamp = new Date().toISOString().slice(0, 10);
     XLSX.writeFile(workbook, `importaciones-calculadas-${fileStamp}.xlsx`);
   };
 
   const downloadImportSnapshot = (snapshot: ImportCalculationSnapshot) => {
-    const exportItems = snapshot.items;
-    if (!exportItems.length) {
+    if (!snapshot.items.length) {
       alert('Este guardado no tiene productos para exportar.');
       return;
     }
 
-    const exportCurrency = snapshot.currency;
-    const exportImportUsdRate = snapshot.importUsdRate;
-    const exportEuroRate = snapshot.euroRate;
-    const exportShippingCost = snapshot.shippingCost;
-    const exportShippingCurrency = snapshot.shippingCurrency;
-    const exportShippingCostInCLP = convertImportAmountToCLP(
-      exportShippingCost,
-      exportShippingCurrency,
-      exportImportUsdRate,
-      exportEuroRate,
-    );
-    const exportCustomsCost = snapshot.customsCostCLP;
-    const exportMargin = snapshot.targetGrossMarginPercent;
-    const exportSourceFile = snapshot.sourceFile;
-
-    const headerRow = 12;
-    const dataStartRow = headerRow + 1;
-    const dataEndRow = dataStartRow + exportItems.length - 1;
-    const totalRow = dataEndRow + 1;
-    const hRange = `$H$${dataStartRow}:$H$${dataEndRow}`;
-
-    const summaryRows: Array<Array<string | number>> = [
-      ['Resumen Costos de Importacion'],
-      ['Archivo fuente', exportSourceFile || '-'],
-      ['USD Importacion (CLP)', Number(exportImportUsdRate.toFixed(4))],
-      ['EUR (CLP)', Number(exportEuroRate.toFixed(4))],
-      ['Moneda flete', exportShippingCurrency],
-      ['Gasto envio original', Number(exportShippingCost.toFixed(4))],
-      ['Gasto envio convertido CLP', Math.round(exportShippingCostInCLP)],
-      ['Gasto aduana (CLP)', Math.round(exportCustomsCost)],
-      ['Margen bruto objetivo (%)', Number(exportMargin.toFixed(2))],
-      [''],
-      ['Tabla de productos y precios calculados'],
-      ['SKU', 'Producto', 'Cantidad', 'Moneda', 'Costo Unitario Moneda', 'Costo Total Moneda', 'Tipo Cambio CLP', 'Costo Base CLP', 'Flete Asignado CLP', 'Aduana Asignada CLP', 'Costo Puesto Chile Total CLP', 'Costo Puesto Chile Unit CLP', 'Precio Venta Neto Unit CLP', 'Precio Venta Unit con IVA CLP'],
-    ];
-
-    const dataRows = exportItems.map((item) => ([
-      item.sku,
-      item.name,
-      item.quantity,
-      exportCurrency,
-      Number(item.unitCost.toFixed(4)),
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-    ]));
-
-    const totalRowData: Array<string | number | null> = [
-      'TOTAL',
-      '',
-      null,
-      '',
-      '',
-      null,
-      '',
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-      null,
-    ];
-
-    const worksheet = XLSX.utils.aoa_to_sheet([...summaryRows, ...dataRows, totalRowData]);
-
-    for (let i = 0; i < exportItems.length; i += 1) {
-      const row = dataStartRow + i;
-      worksheet[`F${row}`] = { t: 'n', f: `=C${row}*E${row}` };
-      worksheet[`G${row}`] = { t: 'n', f: `=IF(D${row}="USD",$B$3,IF(D${row}="EUR",$B$4,1))` };
-      worksheet[`H${row}`] = { t: 'n', f: `=F${row}*G${row}` };
-      worksheet[`I${row}`] = { t: 'n', f: `=IF(SUM(${hRange})=0,0,$B$7*H${row}/SUM(${hRange}))` };
-      worksheet[`J${row}`] = { t: 'n', f: `=IF(SUM(${hRange})=0,0,$B$8*H${row}/SUM(${hRange}))` };
-      worksheet[`K${row}`] = { t: 'n', f: `=H${row}+I${row}+J${row}` };
-      worksheet[`L${row}`] = { t: 'n', f: `=IF(C${row}=0,0,K${row}/C${row})` };
-      worksheet[`M${row}`] = { t: 'n', f: `=IF(1-$B$9/100<=0,L${row},L${row}/(1-$B$9/100))` };
-      worksheet[`N${row}`] = { t: 'n', f: `=M${row}*1.19` };
-    }
-
-    worksheet[`C${totalRow}`] = { t: 'n', f: `=SUM(C${dataStartRow}:C${dataEndRow})` };
-    worksheet[`F${totalRow}`] = { t: 'n', f: `=SUM(F${dataStartRow}:F${dataEndRow})` };
-    worksheet[`H${totalRow}`] = { t: 'n', f: `=SUM(H${dataStartRow}:H${dataEndRow})` };
-    worksheet[`I${totalRow}`] = { t: 'n', f: `=SUM(I${dataStartRow}:I${dataEndRow})` };
-    worksheet[`J${totalRow}`] = { t: 'n', f: `=SUM(J${dataStartRow}:J${dataEndRow})` };
-    worksheet[`K${totalRow}`] = { t: 'n', f: `=SUM(K${dataStartRow}:K${dataEndRow})` };
-    worksheet[`L${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,K${totalRow}/C${totalRow})` };
-    worksheet[`M${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,SUMPRODUCT(M${dataStartRow}:M${dataEndRow},C${dataStartRow}:C${dataEndRow})/C${totalRow})` };
-    worksheet[`N${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,SUMPRODUCT(N${dataStartRow}:N${dataEndRow},C${dataStartRow}:C${dataEndRow})/C${totalRow})` };
-
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Importaciones');
+    const workbook = buildImportWorkbook(toImportSnapshotCostInput(snapshot));
     const safeName = snapshot.name.trim().replace(/[\\/:*?"<>|]/g, '_');
     XLSX.writeFile(workbook, `${safeName || 'snapshot'}.xlsx`);
   };
@@ -1367,7 +1640,12 @@ const App: React.FC = () => {
         shippingCost: shippingCostCLP,
         shippingCurrency,
         customsCostCLP,
+        shippingAllocationMethod,
+        customsAllocationMethod,
+        costModel: importCostModel,
         targetGrossMarginPercent: targetGrossMarginPercentImport,
+        fxRateDate: euroRateDate,
+        usdRateDate: importUsdRateDate,
         items: activeImportItems,
       });
 
@@ -1390,14 +1668,59 @@ const App: React.FC = () => {
     setImportSourceFile(snapshot.sourceFile);
     setImportCurrency(snapshot.currency);
     setImportUsdRate(snapshot.importUsdRate);
+    if (snapshot.usdRateDate) setImportUsdRateDate(snapshot.usdRateDate);
     setEuroRate(snapshot.euroRate);
+    if (snapshot.fxRateDate) {
+      setEuroRateDate(snapshot.fxRateDate);
+      setEuroLastUpdated(formatFxDate(snapshot.fxRateDate));
+    }
     setShippingCostCLP(snapshot.shippingCost);
     setShippingCurrency(snapshot.shippingCurrency);
     setCustomsCostCLP(snapshot.customsCostCLP);
+    setShippingAllocationMethod(snapshot.shippingAllocationMethod || 'value');
+    setCustomsAllocationMethod(snapshot.customsAllocationMethod || 'value');
+    setImportCostModel(snapshot.costModel ?? LEGACY_IMPORT_COST_MODEL);
     setTargetGrossMarginPercentImport(snapshot.targetGrossMarginPercent);
     setImportSectionTab('calculator');
   };
 
+  const landedCostSnapshot = useMemo(() => {
+    const snapshot = importSnapshots.find((entry) => entry.id === landedCostSnapshotId);
+    return snapshot ? { ...toImportSnapshotCostInput(snapshot), name: snapshot.name, catalogAppliedAt: snapshot.catalogAppliedAt ?? null } : null;
+  }, [importSnapshots, landedCostSnapshotId]);
+
+  const applyLandedCostToCatalog = async (plan: LandedCostUpdatePlan) => {
+    if (!landedCostSnapshotId) return;
+    if (landedCostSnapshot?.catalogAppliedAt) {
+      alert('Este calculo ya se aplico al catalogo; aplicarlo otra vez contaria el embarque dos veces.');
+      return;
+    }
+    try {
+      const { appliedAt, appliedRows, failures } = await applyImportLandedCostRecords(landedCostSnapshotId, plan.rows, products);
+      const rowsByProduct = new Map(appliedRows.map((row) => [row.productId, row]));
+      setProducts((prev) => prev.map((product) => {
+        const row = rowsByProduct.get(product.id);
+        return row
+          ? { ...product, landedCostCLP: row.nextLandedCostCLP, landedCostUnits: row.nextLandedCostUnits, landedCostStale: false }
+          : product;
+      }));
+      if (appliedRows.length > 0) {
+        setImportSnapshots((prev) => prev.map((snapshot) => (
+          snapshot.id === landedCostSnapshotId ? { ...snapshot, catalogAppliedAt: appliedAt } : snapshot
+        )));
+        setLandedCostSnapshotId(null);
+        fetchCostHistory();
+      }
+      const failureLines = failures.map((failure) => `- ${failure.sku ? `${failure.sku} ` : ''}${failure.productName}: ${failure.message}`);
+      alert(failures.length === 0
+        ? `Costo puesto en Chile actualizado en ${appliedRows.length} producto(s) del catalogo.`
+        : `Costo puesto en Chile actualizado en ${appliedRows.length} de ${plan.rows.length} producto(s). No se pudo guardar:\n${failureLines.join('\n')}`);
+    } catch (error) {
+      console.error('Error applying landed cost:', error);
+      alert('Error al actualizar el catalogo: ' + (error as Error).message);
+    }
+  };
+
   const deleteImportSnapshot = async (snapshotId: string) => {
     if (!confirm('¿Eliminar este cálculo de importación guardado permanentemente?')) return;
 
@@ -1414,6 +1737,8 @@ const App: React.FC = () => {
     return new Intl.NumberFormat('es-CL', { style: 'currency', currency: 'CLP', maximumFractionDigits: 0 }).format(value);
   };
 
+  const formatSignedPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
   const formatUSD = (value: number) => {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
   };
@@ -1467,9 +1792,31 @@ const App: React.FC = () => {
   );
   const incompleteImportItemsCount = importItems.length - activeImportItems.length;
 
-  const importCalculatedItems = useMemo<ImportItemCalculated[]>(() => {
+  // Invoices the reconciliation can check: the lines in the calculator first, then each saved snapshot.
+  const reconciliationInvoices = useMemo<ImportReconciliationInvoice[]>(() => {
+    const invoices: ImportReconciliationInvoice[] = importSnapshots.map((snapshot) => ({
+      id: snapshot.id,
+      label: `${snapshot.name} (${new Date(snapshot.createdAt).toLocaleDateString('es-CL')})`,
+      items: snapshot.items,
+      fxRateCLP: snapshot.currency === 'USD' ? snapshot.importUsdRate : snapshot.euroRate,
+      usdRateCLP: snapshot.importUsdRate,
+    }));
+    if (!activeImportItems.length) return invoices;
+    return [{
+      id: 'current',
+      label: `Calculadora actual: ${importSourceFile || 'Carga manual'}`,
+      items: activeImportItems,
+      fxRateCLP: importCurrency === 'USD' ? importUsdRate : euroRate,
+      usdRateCLP: importUsdRate,
+    }, ...invoices];
+  }, [activeImportItems, euroRate, importCurrency, importSnapshots, importSourceFile, importUsdRate]);
+
+  const showImportWeightColumn = shippingAllocationMethod === 'weight' || customsAllocationMethod === 'weight';
+  const showImportShareColumn = shippingAllocationMethod === 'manual' || customsAllocationMethod === 'manual';
+
+  const importBaseRows = useMemo(() => {
     if (!activeImportItems.length || importFxRate <= 0) return [];
-    const baseRows = activeImportItems.map((item) => {
+    return activeImportItems.map((item) => {
       const baseTotalForeign = item.quantity * item.unitCost;
       const baseTotalCLP = baseTotalForeign * importFxRate;
       return {
@@ -1478,42 +1825,73 @@ const App: React.FC = () => {
         baseTotalCLP,
       };
     });
+  }, [activeImportItems, importFxRate]);
+
+  const importLandedCost = useMemo(() => buildImportLandedCost({
+    lines: importBaseRows,
+    usdRate: importUsdRate,
+    eurRate: euroRate,
+    freight: { amount: shippingCostCLP, currency: shippingCurrency },
+    otherCustomsCLP: customsCostCLP,
+    settings: importCostModel,
+    shippingMethod: shippingAllocationMethod,
+    customsMethod: customsAllocationMethod,
+  }), [importBaseRows, importUsdRate, euroRate, shippingCostCLP, shippingCurrency, customsCostCLP, importCostModel, shippingAllocationMethod, customsAllocationMethod]);
+
+  const importAllocationWarnings = useMemo(() => {
+    if (!importBaseRows.length) return [];
+    const warnings: string[] = [];
+    if (importLandedCost.shippingAllocation.appliedMethod !== shippingAllocationMethod) {
+      warnings.push(`Ninguna linea tiene datos para prorratear el flete ${IMPORT_ALLOCATION_METHOD_LABELS[shippingAllocationMethod].toLowerCase()}; se prorrateo por valor.`);
+    }
+    if (importLandedCost.localChargesAllocation.appliedMethod !== customsAllocationMethod) {
+      warnings.push(`Ninguna linea tiene datos para prorratear la aduana ${IMPORT_ALLOCATION_METHOD_LABELS[customsAllocationMethod].toLowerCase()}; se prorrateo por valor.`);
+    }
+    const describeMissingBasis = (indexes: number[]) => {
+      const labels = indexes.map((index) => importBaseRows[index].sku || importBaseRows[index].name);
+      return labels.length > 5 ? `${labels.slice(0, 5).join(', ')} y ${labels.length - 5} mas` : labels.join(', ');
+    };
+    const missingBasisLabel = (method: ImportAllocationMethod) => (method === 'weight' ? 'peso/volumen' : 'participacion manual');
+    if (importLandedCost.shippingAllocation.missingBasisIndexes.length > 0) {
+      warnings.push(`Lineas sin ${missingBasisLabel(shippingAllocationMethod)} no reciben flete ni seguro: ${describeMissingBasis(importLandedCost.shippingAllocation.missingBasisIndexes)}.`);
+    }
+    if (importLandedCost.localChargesAllocation.missingBasisIndexes.length > 0) {
+      warnings.push(`Lineas sin ${missingBasisLabel(customsAllocationMethod)} no reciben gastos de aduana ni locales: ${describeMissingBasis(importLandedCost.localChargesAllocation.missingBasisIndexes)}.`);
+    }
+    if (customsCostCLP > 0 && importLandedCost.customsAllocation.bases.every((basis) => basis === 0)) {
+      warnings.push('Todas las lineas estan exentas de derechos: los otros gastos de aduana no se asignaron a ningun producto.');
+    }
+    return warnings;
+  }, [importBaseRows, importLandedCost, shippingAllocationMethod, customsAllocationMethod, customsCostCLP]);
 
-    const baseTotalAllCLP = baseRows.reduce((acc, row) => acc + row.baseTotalCLP, 0);
+  const importCalculatedItems = useMemo<ImportItemCalculated[]>(() => {
     const marginRatio = Math.min(0.99, Math.max(0, targetGrossMarginPercentImport / 100));
     const divisor = 1 - marginRatio;
 
-    return baseRows.map((row) => {
-      const weight = baseTotalAllCLP > 0 ? row.baseTotalCLP / baseTotalAllCLP : 0;
-      const shippingCLPAllocated = shippingCostInCLP * weight;
-      const customsCLPAllocated = customsCostCLP * weight;
-      const landedTotalCLP = row.baseTotalCLP + shippingCLPAllocated + customsCLPAllocated;
-      const landedUnitCLP = row.quantity > 0 ? landedTotalCLP / row.quantity : 0;
+    return importBaseRows.map((row, index) => {
+      const landedLine = importLandedCost.lines[index];
+      const landedUnitCLP = row.quantity > 0 ? landedLine.landedTotalCLP / row.quantity : 0;
       const suggestedNetUnitCLP = divisor > 0 ? landedUnitCLP / divisor : landedUnitCLP;
       const suggestedIvaUnitCLP = suggestedNetUnitCLP * 1.19;
 
       return {
         ...row,
-        shippingCLPAllocated,
-        customsCLPAllocated,
-        landedTotalCLP,
+        ...landedLine,
         landedUnitCLP,
         suggestedNetUnitCLP,
         suggestedIvaUnitCLP,
       };
     });
-  }, [activeImportItems, importFxRate, shippingCostInCLP, customsCostCLP, targetGrossMarginPercentImport]);
+  }, [importBaseRows, importLandedCost, targetGrossMarginPercentImport]);
 
   const importTotals = useMemo(() => {
     const baseForeign = importCalculatedItems.reduce((acc, row) => acc + row.baseTotalForeign, 0);
-    const baseCLP = importCalculatedItems.reduce((acc, row) => acc + row.baseTotalCLP, 0);
     const landedCLP = importCalculatedItems.reduce((acc, row) => acc + row.landedTotalCLP, 0);
     const suggestedNetCLP = importCalculatedItems.reduce((acc, row) => acc + (row.suggestedNetUnitCLP * row.quantity), 0);
     const suggestedIvaCLP = importCalculatedItems.reduce((acc, row) => acc + (row.suggestedIvaUnitCLP * row.quantity), 0);
     const totalQty = importCalculatedItems.reduce((acc, row) => acc + row.quantity, 0);
     return {
       baseForeign,
-      baseCLP,
       landedCLP,
       suggestedNetCLP,
       suggestedIvaCLP,
@@ -1521,6 +1899,18 @@ const App: React.FC = () => {
     };
   }, [importCalculatedItems]);
 
+  // Suggested prices stay fixed in CLP; foreign-currency charges and the duty on them follow the peso, CLP charges do not.
+  const importFxSensitivity = useMemo(() => {
+    if (!importCalculatedItems.length || importTotals.suggestedNetCLP <= 0) return null;
+    return buildFxSensitivity({
+      baseRate: importFxRate,
+      netCLP: importTotals.suggestedNetCLP,
+      exposedCostCLP: importLandedCost.fxExposedCLP,
+      fixedCostCLP: importTotals.landedCLP - importLandedCost.fxExposedCLP,
+      targetMarginPercent: targetGrossMarginPercentImport,
+    });
+  }, [importCalculatedItems.length, importTotals, importLandedCost.fxExposedCLP, importFxRate, targetGrossMarginPercentImport]);
+
   const filteredImportSnapshots = useMemo(() => {
     const query = normalizeText(importSearchTerm);
     if (!query) return importSnapshots;
@@ -1705,7 +2095,10 @@ const App: React.FC = () => {
                 className="input-field"
                 style={{ width: '95px', fontWeight: '700', padding: '0.35rem 0.45rem', textAlign: 'right' }}
                 value={exchangeRate}
-                onChange={(e) => setExchangeRate(parseFloat(e.target.value) || 0)}
+                onChange={(e) => {
+                  setExchangeRate(parseFloat(e.target.value) || 0);
+                  setExchangeRateDate(toFxDateKey());
+                }}
               />
               <button
                 onClick={() => fetchExchangeRate()}
@@ -1756,7 +2149,18 @@ const App: React.FC = () => {
           handleFileUpload={handleFileUpload}
           syncProductsToDatabase={syncProductsToDatabase}
           isSyncing={isSyncing}
-          products={products}
+          catalogUpload={catalogUpload}
+          confirmCatalogMapping={confirmCatalogMapping}
+          cancelCatalogMapping={() => setCatalogUpload(null)}
+          catalogDuplicates={catalogDuplicates}
+          resolveCatalogDuplicates={resolveCatalogDuplicates}
+          cancelCatalogDuplicates={() => setCatalogDuplicates(null)}
+          catalogDiff={catalogDiff}
+          toggleCatalogChange={toggleCatalogChange}
+          setCatalogChangeKindApproval={setCatalogChangeKindApproval}
+          applyCatalogSync={applyCatalogSync}
+          cancelCatalogSync={() => setCatalogDiff(null)}
+          products={catalogProducts}
           isLoading={isLoading}
           searchTerm={searchTerm}
           setSearchTerm={setSearchTerm}
@@ -1784,14 +2188,66 @@ const App: React.FC = () => {
           removeProductFromList={removeProductFromList}
           deleteProduct={deleteProduct}
           addItem={addItem}
+          addKitComponents={addKitComponents}
+          saveProductKit={saveProductKit}
           clearDeal={clearDeal}
           saveSimulation={saveSimulation}
           quotePricingConfig={quotePricingConfig}
           setQuotePricingConfig={setQuotePricingConfig}
           handleGlobalMarginChange={handleGlobalMarginChange}
+          handleListDiscountChange={handleListDiscountChange}
           handleNetSalePriceChange={handleNetSalePriceChange}
           handleSalePriceWithIvaChange={handleSalePriceWithIvaChange}
           applyPricingPreset={applyPricingPreset}
+          setQuoteRoundingPolicy={setQuoteRoundingPolicy}
+          setQuoteCurrency={setQuoteCurrency}
+          handleQuoteCurrencyRateChange={handleQuoteCurrencyRateChange}
+          setQuoteTaxProfile={setQuoteTaxProfile}
+          updateQuoteLineRounding={updateQuoteLineRounding}
+          addVolumeTierSchedule={addVolumeTierSchedule}
+          removeVolumeTierSchedule={removeVolumeTierSchedule}
+          addVolumeTier={addVolumeTier}
+          updateVolumeTier={updateVolumeTier}
+          removeVolumeTier={removeVolumeTier}
+          toggleQuotePromotion={toggleQuotePromotion}
+          addQuoteDiscount={addQuoteDiscount}
+          updateQuoteDiscount={updateQuoteDiscount}
+          removeQuoteDiscount={removeQuoteDiscount}
+          activeQuoteRevision={activeQuoteRevision}
+          setActiveQuoteRevision={setActiveQuoteRevision}
+          quoteValidUntil={quoteValidUntil}
+          setQuoteValidUntil={setQuoteValidUntil}
+          reviseQuotation={reviseQuotation}
+          quoteSalesRep={quoteSalesRep}
+          setQuoteSalesRep={setQuoteSalesRep}
+          quoteClient={quoteClient}
+          clientDirectory={clientDirectory}
+          refreshCRMClients={refreshCRMClients}
+          selectQuoteClient={selectQuoteClient}
+          createQuoteClient={createQuoteClient}
+          historyClientFilter={historyClientFilter}
+          setHistoryClientFilter={setHistoryClientFilter}
+          historySalesRepFilter={historySalesRepFilter}
+          setHistorySalesRepFilter={setHistorySalesRepFilter}
+          marginFloorPolicy={marginFloorPolicy}
+          marginGuardrails={marginGuardrails}
+          marginApproval={marginApproval}
+          marginApprovalStatus={marginApprovalStatus}
+          quoteApproverSession={quoteApproverSession}
+          signInMarginApprover={signInMarginApprover}
+          signOutMarginApprover={signOutMarginApprover}
+          updateMarginFloorDefault={updateMarginFloorDefault}
+          setMarginFloor={setMarginFloor}
+          removeMarginFloor={removeMarginFloor}
+          setMarginApprovers={setMarginApprovers}
+          saveMarginFloorPolicy={saveMarginFloorPolicy}
+          approveQuoteMargin={approveQuoteMargin}
+          revokeQuoteMarginApproval={revokeQuoteMarginApproval}
+          quoteLineRules={quoteLineRules}
+          addQuoteLineRule={addQuoteLineRule}
+          updateQuoteLineRule={updateQuoteLineRule}
+          removeQuoteLineRule={removeQuoteLineRule}
+          saveQuoteLineRuleSet={saveQuoteLineRuleSet}
           quoteLines={quoteLines}
           quoteResult={quoteResult}
           targetSalePrice={targetSalePrice}
@@ -1804,14 +2260,26 @@ const App: React.FC = () => {
           grossMarginValue={grossMarginValue}
           totalCostUSD={totalCostUSD}
           exchangeRate={exchangeRate}
+          quoteFxComparison={quoteFxComparison}
+          quoteAtCurrentFxRate={quoteAtCurrentFxRate}
+          applyCurrentFxRate={applyCurrentFxRate}
+          quoteFxSensitivity={quoteFxSensitivity}
+          quoteEurFxSensitivity={quoteEurFxSensitivity}
           formatCLP={formatCLP}
           formatUSD={formatUSD}
           savedQuotations={savedQuotations}
           isLoadingQuotations={isLoadingQuotations}
+          productCostHistory={productCostHistory}
+          isLoadingCostHistory={isLoadingCostHistory}
+          costHistoryProductId={costHistoryProductId}
+          setCostHistoryProductId={setCostHistoryProductId}
+          openProductCostHistory={openProductCostHistory}
           duplicateQuotation={duplicateQuotation}
           generateInternalExport={generateInternalExport}
           generateClientExport={generateClientExport}
+          generateQuotePdf={generateQuotePdf}
           deleteQuotation={deleteQuotation}
+          updateQuotationStatus={updateQuotationStatus}
           calculateIVA={calculateIVA}
         />
       ) : activeModule === 'imports' ? (
@@ -1861,6 +2329,16 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {pdfImportReview && (
+            <PdfImportReviewPanel
+              key={pdfImportReview.uploadId}
+              fileName={pdfImportReview.fileName}
+              pdfDocument={pdfImportReview.pdfDocument}
+              onConfirm={confirmPdfImportLines}
+              onCancel={() => setPdfImportReview(null)}
+            />
+          )}
+
           <div className="tabs-nav" style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem', borderBottom: '1px solid var(--border)', paddingBottom: '0.5rem' }}>
             <button
               className="btn"
@@ -1876,6 +2354,13 @@ const App: React.FC = () => {
             >
               Guardados ({importSnapshots.length})
             </button>
+            <button
+              className="btn"
+              style={{ background: importSectionTab === 'reconciliation' ? 'var(--primary)' : 'var(--surface)', color: importSectionTab === 'reconciliation' ? 'white' : 'var(--text)' }}
+              onClick={() => setImportSectionTab('reconciliation')}
+            >
+              Conciliacion
+            </button>
           </div>
 
           {importSectionTab === 'calculator' ? (
@@ -1909,11 +2394,14 @@ const App: React.FC = () => {
                   className="input-field"
                   style={{ width: '100px', textAlign: 'right' }}
                   value={importUsdRate}
-                  onChange={(e) => setImportUsdRate(parseFloat(e.target.value) || 0)}
+                  onChange={(e) => {
+                    setImportUsdRate(parseFloat(e.target.value) || 0);
+                    setImportUsdRateDate(toFxDateKey());
+                  }}
                 />
               </div>
               <div className="text-muted" style={{ fontSize: '0.68rem', marginTop: '0.3rem' }}>
-                Aislado del USD global.
+                Aislado del USD global. Ingresado el {formatFxDate(importUsdRateDate)}.
               </div>
             </div>
 
@@ -1925,7 +2413,10 @@ const App: React.FC = () => {
                   className="input-field"
                   style={{ width: '100px', textAlign: 'right' }}
                   value={euroRate}
-                  onChange={(e) => setEuroRate(parseFloat(e.target.value) || 0)}
+                  onChange={(e) => {
+                    setEuroRate(parseFloat(e.target.value) || 0);
+                    setEuroRateDate(toFxDateKey());
+                  }}
                 />
                 <button className="btn" onClick={() => fetchEuroRate()} style={{ padding: '0.45rem 0.55rem' }} title="Actualizar euro mercado">
                   <RefreshCw size={14} className={isLoading ? "text-muted animate-spin" : "text-muted"} />
@@ -1973,16 +2464,41 @@ const App: React.FC = () => {
               <div className="text-muted" style={{ fontSize: '0.68rem', marginTop: '0.3rem' }}>
                 Equivalente CLP para cálculo: {formatCLP(shippingCostInCLP)}
               </div>
+              <select
+                className="input-field"
+                style={{ marginTop: '0.45rem' }}
+                value={shippingAllocationMethod}
+                onChange={(e) => setShippingAllocationMethod(e.target.value as ImportAllocationMethod)}
+                title="Como se reparte el flete entre los productos"
+              >
+                {IMPORT_ALLOCATION_METHODS.map((method) => (
+                  <option key={method} value={method}>Prorrateo: {IMPORT_ALLOCATION_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
             </label>
 
             <label className="finance-card" style={{ display: 'block' }}>
-              <div className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.45rem' }}>COSTO TOTAL ADUANA (CLP)</div>
+              <div className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.45rem' }}>OTROS GASTOS ADUANA (CLP)</div>
               <input
                 type="number"
                 className="input-field"
                 value={customsCostCLP}
                 onChange={(e) => setCustomsCostCLP(parseFloat(e.target.value) || 0)}
               />
+              <select
+                className="input-field"
+                style={{ marginTop: '0.45rem' }}
+                value={customsAllocationMethod}
+                onChange={(e) => setCustomsAllocationMethod(e.target.value as ImportAllocationMethod)}
+                title="Como se reparten la aduana y los gastos locales entre los productos"
+              >
+                {IMPORT_ALLOCATION_METHODS.map((method) => (
+                  <option key={method} value={method}>Prorrateo: {IMPORT_ALLOCATION_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+              <div className="text-muted" style={{ fontSize: '0.68rem', marginTop: '0.3rem' }}>
+                Los productos exentos no reciben aduana ni ad valorem; agente, puerto y transporte se reparten entre todos.
+              </div>
             </label>
 
             <label className="finance-card" style={{ display: 'block' }}>
@@ -1996,6 +2512,15 @@ const App: React.FC = () => {
             </label>
           </div>
 
+          <ImportCostModelPanel
+            settings={importCostModel}
+            setSettings={setImportCostModel}
+            dutyPercent={importLandedCost.dutyPercent}
+            usdRate={importUsdRate}
+            eurRate={euroRate}
+            formatCLP={formatCLP}
+          />
+
           <div style={{ display: 'grid', gap: '0.75rem', gridTemplateColumns: 'repeat(auto-fit, minmax(210px, 1fr))', marginBottom: '1rem' }}>
             <div className="finance-card">
               <div className="text-muted" style={{ fontSize: '0.68rem' }}>TOTAL BASE ({importCurrency})</div>
@@ -2013,8 +2538,26 @@ const App: React.FC = () => {
               <div className="text-muted" style={{ fontSize: '0.68rem' }}>TOTAL VENTA CON IVA (CLP)</div>
               <div style={{ fontWeight: 800, fontSize: '1.15rem' }}>{formatCLP(importTotals.suggestedIvaCLP)}</div>
             </div>
+            <div className="finance-card">
+              <div className="text-muted" style={{ fontSize: '0.68rem' }}>IVA IMPORTACION (CREDITO FISCAL)</div>
+              <div style={{ fontWeight: 800, fontSize: '1.15rem' }}>{formatCLP(importLandedCost.totals.importVatCreditCLP)}</div>
+            </div>
           </div>
 
+          {importAllocationWarnings.length > 0 && (
+            <div style={{ marginBottom: '1rem', padding: '0.7rem 0.9rem', borderRadius: '10px', background: 'rgba(245,158,11,0.08)', border: '1px solid rgba(245,158,11,0.25)', color: '#9A5A00', fontSize: '0.78rem' }}>
+              {importAllocationWarnings.map((warning) => (
+                <div key={warning}>{warning}</div>
+              ))}
+            </div>
+          )}
+
+          {importFxSensitivity && (
+            <div style={{ marginBottom: '1rem' }}>
+              <FxSensitivityPanel analysis={importFxSensitivity} currencyLabel={importCurrency} formatCLP={formatCLP} />
+            </div>
+          )}
+
           <div style={{ marginBottom: '1rem' }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
               <div style={{ fontWeight: 700 }}>Detalle de productos</div>
@@ -2032,6 +2575,9 @@ const App: React.FC = () => {
                       <th>Producto</th>
                       <th style={{ textAlign: 'right' }}>Cantidad</th>
                       <th style={{ textAlign: 'right' }}>Costo Unit ({importCurrency})</th>
+                      {showImportWeightColumn && <th style={{ textAlign: 'right' }}>Peso/Vol. Unit</th>}
+                      {showImportShareColumn && <th style={{ textAlign: 'right' }}>Participacion Manual</th>}
+                      <th style={{ textAlign: 'center' }}>Exento Derechos</th>
                       <th style={{ textAlign: 'center' }}>Acciones</th>
                     </tr>
                   </thead>
@@ -2076,6 +2622,37 @@ const App: React.FC = () => {
                             onChange={(e) => updateImportItem(idx, 'unitCost', parseFloat(e.target.value) || 0)}
                           />
                         </td>
+                        {showImportWeightColumn && (
+                          <td style={{ minWidth: '110px' }}>
+                            <input
+                              type="number"
+                              className="input-field"
+                              style={{ textAlign: 'right' }}
+                              value={item.unitWeight ?? 0}
+                              placeholder="0"
+                              onChange={(e) => updateImportItem(idx, 'unitWeight', parseFloat(e.target.value) || 0)}
+                            />
+                          </td>
+                        )}
+                        {showImportShareColumn && (
+                          <td style={{ minWidth: '110px' }}>
+                            <input
+                              type="number"
+                              className="input-field"
+                              style={{ textAlign: 'right' }}
+                              value={item.allocationShare ?? 0}
+                              placeholder="0"
+                              onChange={(e) => updateImportItem(idx, 'allocationShare', parseFloat(e.target.value) || 0)}
+                            />
+                          </td>
+                        )}
+                        <td style={{ textAlign: 'center' }}>
+                          <input
+                            type="checkbox"
+                            checked={Boolean(item.dutyExempt)}
+                            onChange={(e) => updateImportItem(idx, 'dutyExempt', e.target.checked)}
+                          />
+                        </td>
                         <td style={{ textAlign: 'center' }}>
                           <button
                             className="btn"
@@ -2114,9 +2691,11 @@ const App: React.FC = () => {
                       <th style={{ textAlign: 'right' }}>Cant.</th>
                       <th style={{ textAlign: 'right' }}>Costo Unit ({importCurrency})</th>
                       <th style={{ textAlign: 'right' }}>Costo Total ({importCurrency})</th>
-                      <th style={{ textAlign: 'right' }}>Base CLP</th>
-                      <th style={{ textAlign: 'right' }}>Flete CLP</th>
-                      <th style={{ textAlign: 'right' }}>Aduana CLP</th>
+                      <th style={{ textAlign: 'right' }}>FOB CLP</th>
+                      <th style={{ textAlign: 'right' }}>Flete + Seguro CLP</th>
+                      <th style={{ textAlign: 'right' }}>Ad Valorem CLP</th>
+                      <th style={{ textAlign: 'right' }}>Aduana y Gastos Locales CLP</th>
+                      <th style={{ textAlign: 'right' }}>IVA Credito CLP</th>
                       <th style={{ textAlign: 'right' }}>Costo Puesto Unit CLP</th>
                       <th style={{ textAlign: 'right' }}>Costo Puesto en Chile x Cantidad CLP</th>
                       <th style={{ textAlign: 'right' }}>Venta Neta Unit CLP</th>
@@ -2131,10 +2710,17 @@ const App: React.FC = () => {
                         <td style={{ textAlign: 'right' }}>{item.quantity}</td>
                         <td style={{ textAlign: 'right' }}>{formatImportCurrency(item.unitCost)}</td>
                         <td style={{ textAlign: 'right' }}>{formatImportCurrency(item.baseTotalForeign)}</td>
-                        <td style={{ textAlign: 'right' }}>{formatCLP(item.baseTotalCLP)}</td>
-                        <td style={{ textAlign: 'right' }}>{formatCLP(item.shippingCLPAllocated)}</td>
-                        <td style={{ textAlign: 'right' }}>{formatCLP(item.customsCLPAllocated)}</td>
-                        <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatCLP(item.landedUnitCLP)}</td>
+                        <td style={{ textAlign: 'right' }}>{formatCLP(item.fobCLP)}</td>
+                        <td style={{ textAlign: 'right' }}>{formatCLP(item.freightCLP + item.insuranceCLP)}</td>
+                        <td style={{ textAlign: 'right' }} title={`${item.dutyPercent}% sobre CIF ${formatCLP(item.cifCLP)}`}>{formatCLP(item.dutyCLP)}</td>
+                        <td style={{ textAlign: 'right' }}>{formatCLP(item.otherCustomsCLP + item.agentFeesCLP + item.portChargesCLP + item.localTransportCLP)}</td>
+                        <td style={{ textAlign: 'right' }} className="text-muted">{formatCLP(item.importVatCreditCLP)}</td>
+                        <td
+                          style={{ textAlign: 'right', fontWeight: 700 }}
+                          title={`FOB ${formatCLP(item.fobCLP)} + flete ${formatCLP(item.freightCLP)} + seguro ${formatCLP(item.insuranceCLP)} + ad valorem ${formatCLP(item.dutyCLP)} + aduana ${formatCLP(item.otherCustomsCLP)} + agente ${formatCLP(item.agentFeesCLP)} + puerto ${formatCLP(item.portChargesCLP)} + transporte ${formatCLP(item.localTransportCLP)}`}
+                        >
+                          {formatCLP(item.landedUnitCLP)}
+                        </td>
                         <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatCLP(item.landedUnitCLP * item.quantity)}</td>
                         <td style={{ textAlign: 'right', fontWeight: 700, color: 'var(--primary)' }}>{formatCLP(item.suggestedNetUnitCLP)}</td>
                         <td style={{ textAlign: 'right', fontWeight: 700, color: 'var(--success)' }}>{formatCLP(item.suggestedIvaUnitCLP)}</td>
@@ -2146,9 +2732,11 @@ const App: React.FC = () => {
                       <td style={{ textAlign: 'right', fontWeight: 800 }}>{importTotals.totalQty}</td>
                       <td style={{ textAlign: 'right', fontWeight: 800 }}>-</td>
                       <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatImportCurrency(importTotals.baseForeign)}</td>
-                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importTotals.baseCLP)}</td>
-                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(shippingCostInCLP)}</td>
-                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(customsCostCLP)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importLandedCost.totals.fobCLP)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importLandedCost.totals.freightCLP + importLandedCost.totals.insuranceCLP)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importLandedCost.totals.dutyCLP)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importLandedCost.totals.otherCustomsCLP + importLandedCost.totals.agentFeesCLP + importLandedCost.totals.portChargesCLP + importLandedCost.totals.localTransportCLP)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importLandedCost.totals.importVatCreditCLP)}</td>
                       <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importTotals.totalQty > 0 ? importTotals.landedCLP / importTotals.totalQty : 0)}</td>
                       <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importTotals.landedCLP)}</td>
                       <td style={{ textAlign: 'right', fontWeight: 800 }}>{formatCLP(importTotals.totalQty > 0 ? importTotals.suggestedNetCLP / importTotals.totalQty : 0)}</td>
@@ -2167,6 +2755,8 @@ const App: React.FC = () => {
             </div>
           )}
             </>
+          ) : importSectionTab === 'reconciliation' ? (
+            <ImportReconciliationPanel invoices={reconciliationInvoices} formatCLP={formatCLP} />
           ) : (
             <div style={{ display: 'grid', gap: '0.9rem' }}>
               <div style={{ display: 'flex', gap: '0.6rem', alignItems: 'center', flexWrap: 'wrap' }}>
@@ -2206,6 +2796,15 @@ const App: React.FC = () => {
                           <div className="text-muted" style={{ fontSize: '0.76rem' }}>
                             Moneda: {snapshot.currency} | Flete: {snapshot.shippingCost} {snapshot.shippingCurrency} | Aduana: {formatCLP(snapshot.customsCostCLP)} | Margen: {snapshot.targetGrossMarginPercent}%
                           </div>
+                          {snapshot.fxRateDate && (
+                            <div className="text-muted" style={{ fontSize: '0.76rem' }}>
+                              Tipo de cambio al {formatFxDate(snapshot.fxRateDate)} | EUR {snapshot.euroRate}
+                              {snapshot.usdRateDate ? ` | USD ${snapshot.importUsdRate} al ${formatFxDate(snapshot.usdRateDate)}` : ''}
+                              {latestEuroRate && latestEuroRate.date !== snapshot.fxRateDate && snapshot.euroRate > 0
+                                ? ` (hoy ${latestEuroRate.valueCLP}, ${formatSignedPercent(((latestEuroRate.valueCLP - snapshot.euroRate) / snapshot.euroRate) * 100)})`
+                                : ''}
+                            </div>
+                          )}
                         </div>
                         <div style={{ display: 'flex', gap: '0.45rem' }}>
                           <button className="btn btn-primary" style={{ padding: '0.45rem 0.7rem' }} onClick={() => loadImportSnapshot(snapshot)}>
@@ -2218,6 +2817,17 @@ const App: React.FC = () => {
                           >
                             Descargar
                           </button>
+                          <button
+                            className="btn"
+                            style={{ padding: '0.45rem 0.7rem', background: 'rgba(16,185,129,0.12)', color: 'var(--success)' }}
+                            onClick={() => {
+                              setLandedCostSnapshotId(snapshot.id);
+                              fetchSavedQuotations();
+                            }}
+                            title={snapshot.catalogAppliedAt ? `Aplicado el ${new Date(snapshot.catalogAppliedAt).toLocaleString('es-CL')}` : 'Actualizar el costo de los SKU en el catalogo'}
+                          >
+                            {snapshot.catalogAppliedAt ? 'Costo aplicado' : 'Costo a catalogo'}
+                          </button>
                           <button
                             className="btn"
                             style={{ padding: '0.45rem 0.7rem', background: 'rgba(239,68,68,0.12)', color: 'var(--error)' }}
@@ -2235,6 +2845,20 @@ const App: React.FC = () => {
                   No hay cálculos guardados para el filtro aplicado.
                 </div>
               )}
+
+              {landedCostSnapshot && (
+                <LandedCostCatalogPanel
+                  snapshot={landedCostSnapshot}
+                  products={products}
+                  quotations={savedQuotations}
+                  exchangeRate={exchangeRate}
+                  policy={landedCostPolicy}
+                  setPolicy={setLandedCostPolicy}
+                  formatCLP={formatCLP}
+                  onApply={applyLandedCostToCatalog}
+                  onClose={() => setLandedCostSnapshotId(null)}
+                />
+              )}
             </div>
           )}
 
@@ -2277,7 +2901,7 @@ const App: React.FC = () => {
           )}
         </section>
       ) : activeModule === 'inventory' ? (
-        <InventoryModule />
+        <InventoryModule products={catalogProducts} />
       ) : activeModule === 'dailyProductMovements' ? (
         <DailyProductMovementsModule />
       ) : activeModule === 'crm' ? (
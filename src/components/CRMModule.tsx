@@ -2,14 +2,19 @@ import React, { useMemo, useRef, useState } from 'react';
 import * as XLSX from 'xlsx';
 import { Download, FileSpreadsheet, Filter, RefreshCw, Search, Users } from 'lucide-react';
 import { parseCRMPeriodFile, parseWeeklySalesFile } from '../utils/crmParser';
-import { buildClientAggregates, buildSalesRepSummary, mergeClientAggregates } from '../utils/crmEngine';
+import {
+  buildClientAggregates,
+  buildSalesRepSummary,
+  CRM_SINGLE_FILE_STORAGE_KEY,
+  mergeClientAggregates,
+} from '../utils/crmEngine';
 import { parseCrmMasterWorkbookFile } from '../utils/crmMasterWorkbookParser';
 import { updateCrmMasterWorkbook } from '../utils/crmMasterWorkbookEngine';
 import { MONTH_NAMES_ES } from '../utils/crmWorkbookAliases';
 import type { CRMClientAggregate, CRMParseResult, CRMPeriodRow } from '../types/crm';
 import type { CrmWorkbookMutationSummary, WeeklySalesBatch } from '../types/crmWorkbook';
 
-const STORAGE_KEY = 'megagen.crm.singleFileData';
+const STORAGE_KEY = CRM_SINGLE_FILE_STORAGE_KEY;
 
 interface PersistedCRMData {
   sourceFileName: string;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Columns3, X } from 'lucide-react';
+import type { CatalogColumnField, CatalogColumnMapping, CatalogUploadDraft } from '../utils/fileParser';
+
+interface CatalogColumnMappingWizardProps {
+  draft: CatalogUploadDraft;
+  confirmCatalogMapping: (mapping: CatalogColumnMapping, remember: boolean) => string | null;
+  cancelCatalogMapping: () => void;
+}
+
+const SAMPLE_ROW_COUNT = 5;
+
+const MAPPING_FIELDS: Array<{ field: CatalogColumnField; label: string; required: boolean }> = [
+  { field: 'sku', label: 'SKU / Código', required: false },
+  { field: 'name', label: 'Nombre', required: true },
+  { field: 'cost', label: 'Costo USD', required: true },
+  { field: 'category', label: 'Categoría', required: false },
+  { field: 'msrp', label: 'MSRP USD', required: false },
+];
+
+const CatalogColumnMappingWizard: React.FC<CatalogColumnMappingWizardProps> = ({
+  draft,
+  confirmCatalogMapping,
+  cancelCatalogMapping,
+}) => {
+  const [mapping, setMapping] = useState<CatalogColumnMapping>(draft.mapping);
+  const [remember, setRemember] = useState(true);
+  const [error, setError] = useState('');
+  const sampleRows = draft.sheet.rows.slice(0, SAMPLE_ROW_COUNT);
+  const fieldByColumn = new Map(
+    MAPPING_FIELDS
+      .filter(({ field }) => mapping[field] !== null)
+      .map(({ field, label }) => [mapping[field] as number, label]),
+  );
+
+  const updateField = (field: CatalogColumnField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+    setError('');
+  };
+
+  const handleConfirm = () => {
+    setError(confirmCatalogMapping(mapping, remember) ?? '');
+  };
+
+  return (
+    <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
+      <div style={{ background: '#1e1e1e', padding: '2rem', borderRadius: '12px', width: '94%', maxWidth: '960px', maxHeight: '88vh', display: 'flex', flexDirection: 'column', border: '1px solid var(--text-muted)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <Columns3 size={18} /> Columnas de {draft.fileName}
+          </h3>
+          <button onClick={cancelCatalogMapping} title="Cerrar" style={{ background: 'transparent', border: 'none', color: 'var(--text-muted)', cursor: 'pointer' }}>
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: '1rem' }}>
+          {draft.hasSavedMapping
+            ? 'Formato reconocido: se cargó el mapeo que confirmaste la última vez. Revísalo antes de continuar.'
+            : 'Formato nuevo: revisa las columnas sugeridas y corrige las que no correspondan.'}
+          {' '}{draft.sheet.rows.length} filas detectadas.
+        </p>
+
+        <div className="grid" style={{ gridTemplateColumns: 'repeat(5, 1fr)', gap: '0.75rem', marginBottom: '1rem' }}>
+          {MAPPING_FIELDS.map(({ field, label, required }) => (
+            <div key={field}>
+              <label className="text-muted" style={{ display: 'block', fontSize: '0.72rem', marginBottom: '0.3rem' }}>
+                {label}{required ? ' *' : ''}
+              </label>
+              <select className="input-field" value={mapping[field] ?? ''} onChange={(e) => updateField(field, e.target.value)}>
+                <option value="">— Sin columna —</option>
+                {draft.sheet.headers.map((header, index) => (
+                  <option key={`${header}-${index}`} value={index}>{header}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ overflow: 'auto', flex: 1, border: '1px solid var(--border)', borderRadius: '8px' }}>
+          <table style={{ width: '100%', fontSize: '0.75rem' }}>
+            <thead>
+              <tr>
+                {draft.sheet.headers.map((header, index) => (
+                  <th key={`${header}-${index}`} style={{ textAlign: 'left', whiteSpace: 'nowrap', background: fieldByColumn.has(index) ? 'rgba(102,126,234,0.2)' : undefined }}>
+                    {header}
+                    <div style={{ fontSize: '0.65rem', color: fieldByColumn.has(index) ? '#a5b4fc' : 'var(--text-muted)', fontWeight: 400 }}>
+                      {fieldByColumn.get(index) ?? 'Ignorada'}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sampleRows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {draft.sheet.headers.map((header, index) => (
+                    <td key={`${header}-${index}`} style={{ whiteSpace: 'nowrap', opacity: fieldByColumn.has(index) ? 1 : 0.5 }}>
+                      {String(row[index] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {error && <div className="negative" style={{ fontSize: '0.75rem', marginTop: '0.75rem' }}>{error}</div>}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginTop: '1rem' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.8rem' }}>
+            <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+            Recordar este mapeo para archivos con las mismas columnas
+          </label>
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            <button className="btn" onClick={cancelCatalogMapping}>Cancelar</button>
+            <button className="btn btn-primary" onClick={handleConfirm}>Cargar productos</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogColumnMappingWizard;
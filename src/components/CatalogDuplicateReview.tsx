@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { CopyX, X } from 'lucide-react';
+import {
+  CATALOG_DUPLICATE_KIND_LABELS,
+  findUnresolvedCatalogConflicts,
+  type CatalogDuplicateReport,
+  type CatalogDuplicateResolution,
+} from '../utils/catalogDuplicates';
+
+interface CatalogDuplicateReviewProps {
+  report: CatalogDuplicateReport;
+  resolveCatalogDuplicates: (resolutions: Record<string, CatalogDuplicateResolution>) => void;
+  cancelCatalogDuplicates: () => void;
+}
+
+const formatRowUSD = (value?: number) => (value ? `US$${value.toFixed(2)}` : '—');
+
+const CatalogDuplicateReview: React.FC<CatalogDuplicateReviewProps> = ({
+  report,
+  resolveCatalogDuplicates,
+  cancelCatalogDuplicates,
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, CatalogDuplicateResolution>>({});
+  const unresolvedCount = findUnresolvedCatalogConflicts(report, resolutions).length;
+
+  const choose = (conflictId: string, resolution: CatalogDuplicateResolution) => {
+    setResolutions((prev) => ({ ...prev, [conflictId]: resolution }));
+  };
+
+  return (
+    <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
+      <div style={{ background: '#1e1e1e', padding: '2rem', borderRadius: '12px', width: '92%', maxWidth: '820px', maxHeight: '85vh', display: 'flex', flexDirection: 'column', border: '1px solid var(--text-muted)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <CopyX size={18} /> Duplicados en la lista
+          </h3>
+          <button onClick={cancelCatalogDuplicates} title="Cerrar" style={{ background: 'transparent', border: 'none', color: 'var(--text-muted)', cursor: 'pointer' }}>
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: '1rem' }}>
+          Elige qué fila conservar en cada caso. {report.products.length} productos sin conflicto
+          {report.mergedRowCount > 0 ? ` · ${report.mergedRowCount} filas idénticas fusionadas` : ''}.
+        </p>
+
+        <div style={{ overflowY: 'auto', flex: 1, paddingRight: '0.5rem' }}>
+          {report.conflicts.map((conflict) => (
+            <div key={conflict.id} className="finance-card" style={{ marginBottom: '0.75rem' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.4rem', fontSize: '0.8rem' }}>
+                <strong>{conflict.kind === 'same_sku' ? `SKU ${conflict.key}` : conflict.key}</strong>
+                <span className="badge" style={{ fontSize: '0.6rem' }}>{CATALOG_DUPLICATE_KIND_LABELS[conflict.kind]}</span>
+              </div>
+              {conflict.candidates.map((candidate, index) => (
+                <label key={candidate.rowNumber} style={{ display: 'flex', gap: '0.6rem', alignItems: 'center', padding: '0.3rem 0.4rem', fontSize: '0.78rem', cursor: 'pointer' }}>
+                  <input type="radio" name={conflict.id} checked={resolutions[conflict.id] === index} onChange={() => choose(conflict.id, index)} />
+                  <span className="text-muted" style={{ fontSize: '0.68rem', minWidth: '3.5rem' }}>Fila {candidate.rowNumber}</span>
+                  <span style={{ flex: 1 }}>
+                    {candidate.product.sku ? `[${candidate.product.sku}] ` : ''}{candidate.product.name}
+                    <span className="text-muted"> · {candidate.product.category}</span>
+                  </span>
+                  <span>{formatRowUSD(candidate.product.costUSD)}</span>
+                  <span className="text-muted" style={{ minWidth: '5.5rem', textAlign: 'right' }}>MSRP {formatRowUSD(candidate.product.msrpUSD)}</span>
+                </label>
+              ))}
+              {conflict.kind === 'similar_name' && (
+                <label style={{ display: 'flex', gap: '0.6rem', alignItems: 'center', padding: '0.3rem 0.4rem', fontSize: '0.78rem', cursor: 'pointer' }}>
+                  <input type="radio" name={conflict.id} checked={resolutions[conflict.id] === 'all'} onChange={() => choose(conflict.id, 'all')} />
+                  Son productos distintos: conservar todas las filas
+                </label>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginTop: '1rem' }}>
+          <span className="text-muted" style={{ fontSize: '0.75rem' }}>
+            {unresolvedCount > 0 ? `${unresolvedCount} conflictos por resolver` : 'Todos los conflictos resueltos'}
+          </span>
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            <button className="btn" onClick={cancelCatalogDuplicates}>Cancelar</button>
+            <button className="btn btn-primary" onClick={() => resolveCatalogDuplicates(resolutions)} disabled={unresolvedCount > 0}>
+              Cargar productos
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogDuplicateReview;
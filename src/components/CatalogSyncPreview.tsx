@@ -0,0 +1,111 @@
+import React from 'react';
+import { CloudUpload, X } from 'lucide-react';
+import type { CatalogChange, CatalogChangeKind, CatalogDiff } from '../types/catalog';
+import { CATALOG_CHANGE_LABELS } from '../utils/catalogSync';
+
+interface CatalogSyncPreviewProps {
+  diff: CatalogDiff;
+  isSyncing: boolean;
+  toggleCatalogChange: (changeId: string) => void;
+  setCatalogChangeKindApproval: (kind: CatalogChangeKind, approved: boolean) => void;
+  applyCatalogSync: () => Promise<void>;
+  cancelCatalogSync: () => void;
+}
+
+const CHANGE_KIND_ORDER: CatalogChangeKind[] = ['add', 'cost_change', 'category_change', 'remove'];
+
+const CHANGE_KIND_COLORS: Record<CatalogChangeKind, string> = {
+  add: '#86efac',
+  cost_change: '#fcd34d',
+  category_change: '#93c5fd',
+  remove: '#fca5a5',
+};
+
+const formatCatalogUSD = (value?: number) => (value ? `US$${value.toFixed(2)}` : '—');
+
+const describeChange = (change: CatalogChange) => {
+  const { current, uploaded } = change;
+  if (change.kind === 'add') return `${uploaded?.category || 'General'} · costo ${formatCatalogUSD(uploaded?.costUSD)}`;
+  if (change.kind === 'remove') return `${current?.category} · se eliminara de la base de datos`;
+  if (change.kind === 'category_change') return `${current?.category} → ${uploaded?.category}`;
+  const msrpChange = uploaded?.suggestedPriceUSD && uploaded.suggestedPriceUSD !== current?.suggestedPriceUSD
+    ? ` · MSRP ${formatCatalogUSD(current?.suggestedPriceUSD)} → ${formatCatalogUSD(uploaded.suggestedPriceUSD)}`
+    : '';
+  const landedCostNote = (current?.landedCostCLP ?? 0) > 0
+    ? ' · mantiene su costo puesto en Chile, marcado como anterior a este cambio'
+    : '';
+  return `Costo ${formatCatalogUSD(current?.costUSD)} → ${formatCatalogUSD(uploaded?.costUSD)}${msrpChange}${landedCostNote}`;
+};
+
+const CatalogSyncPreview: React.FC<CatalogSyncPreviewProps> = ({
+  diff,
+  isSyncing,
+  toggleCatalogChange,
+  setCatalogChangeKindApproval,
+  applyCatalogSync,
+  cancelCatalogSync,
+}) => {
+  const approvedCount = diff.changes.filter((change) => change.approved).length;
+
+  return (
+    <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
+      <div style={{ background: '#1e1e1e', padding: '2rem', borderRadius: '12px', width: '92%', maxWidth: '760px', maxHeight: '85vh', display: 'flex', flexDirection: 'column', border: '1px solid var(--text-muted)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <h3>Sincronizar catálogo</h3>
+          <button onClick={cancelCatalogSync} title="Cerrar" style={{ background: 'transparent', border: 'none', color: 'var(--text-muted)', cursor: 'pointer' }}>
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: '1rem' }}>
+          Revisa los cambios contra la base de datos. Solo se aplican los marcados; los productos sin cambios conservan su ID.
+          {' '}{diff.unchangedCount} sin cambios{diff.duplicateUploadCount > 0 ? ` · ${diff.duplicateUploadCount} filas duplicadas ignoradas` : ''}.
+        </p>
+
+        <div style={{ overflowY: 'auto', flex: 1, paddingRight: '0.5rem' }}>
+          {CHANGE_KIND_ORDER.map((kind) => {
+            const changes = diff.changes.filter((change) => change.kind === kind);
+            if (changes.length === 0) return null;
+            const allApproved = changes.every((change) => change.approved);
+            return (
+              <div key={kind} style={{ marginBottom: '1rem' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.4rem' }}>
+                  <strong style={{ fontSize: '0.85rem', color: CHANGE_KIND_COLORS[kind] }}>
+                    {CATALOG_CHANGE_LABELS[kind]} ({changes.length})
+                  </strong>
+                  <button className="btn" style={{ fontSize: '0.7rem', padding: '0.2rem 0.6rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => setCatalogChangeKindApproval(kind, !allApproved)}>
+                    {allApproved ? 'Desmarcar todos' : 'Marcar todos'}
+                  </button>
+                </div>
+                {changes.map((change) => {
+                  const product = change.current ?? change.uploaded;
+                  return (
+                    <label key={change.id} style={{ display: 'flex', gap: '0.6rem', alignItems: 'flex-start', padding: '0.4rem 0.5rem', borderRadius: '8px', background: 'rgba(255,255,255,0.03)', marginBottom: '0.25rem', cursor: 'pointer' }}>
+                      <input type="checkbox" checked={change.approved} onChange={() => toggleCatalogChange(change.id)} style={{ marginTop: '0.2rem' }} />
+                      <div style={{ fontSize: '0.78rem' }}>
+                        <span className="text-muted" style={{ fontSize: '0.68rem' }}>[{product?.sku || 'S/SKU'}]</span>{' '}
+                        <strong>{product?.name}</strong>
+                        <div className="text-muted" style={{ fontSize: '0.7rem' }}>
+                          {describeChange(change)}
+                          {change.matchedBy === 'name' ? ' · coincide por nombre' : ''}
+                        </div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '1rem', marginTop: '1rem' }}>
+          <button className="btn" onClick={cancelCatalogSync}>Cancelar</button>
+          <button className="btn btn-primary" onClick={applyCatalogSync} disabled={isSyncing || approvedCount === 0}>
+            <CloudUpload size={14} /> {isSyncing ? 'Aplicando...' : `Aplicar ${approvedCount} cambios`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogSyncPreview;
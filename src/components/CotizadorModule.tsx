@@ -1,15 +1,64 @@
 import React from 'react';
-import type { Product } from '../data/mockProducts';
-import type { SavedSimulationRecord } from '../lib/appDataRepository';
-import type { QuoteCalculationResult, QuotePricingConfig } from '../types/quotation';
+import type { Product, ProductKitComponent } from '../data/mockProducts';
+import type { SavedSimulationRecord, SimulationStatusPatch } from '../lib/appDataRepository';
+import type { CatalogChangeKind, CatalogDiff, ProductCostHistoryEntry } from '../types/catalog';
+import type { FxRateComparison, FxSensitivityAnalysis } from '../types/fx';
+import type {
+  CotizadorTab,
+  QuoteApprovalStatus,
+  QuoteApproverSession,
+  QuoteBundlePromotion,
+  QuoteCalculationResult,
+  QuoteClient,
+  QuoteCurrency,
+  QuoteDiscountRule,
+  QuoteDocumentClient,
+  QuoteLineDefaultRule,
+  QuoteMarginApproval,
+  QuoteMarginFloorPolicy,
+  QuoteMarginGuardrailResult,
+  QuotePriceRoundingPolicy,
+  QuotePricingConfig,
+  QuoteRevisionRef,
+  QuoteVolumeTier,
+} from '../types/quotation';
 import type { LinePricingMode } from '../types/quotation';
+import { VOLUME_TIER_FALLBACK_CATEGORY } from '../data/quoteVolumeTiers';
+import { QUOTE_PROMOTION_CATALOG } from '../data/quotePromotions';
+import { QUOTE_TAX_PROFILES } from '../data/quoteTaxProfiles';
+import type { CatalogDuplicateReport, CatalogDuplicateResolution } from '../utils/catalogDuplicates';
+import type { CatalogColumnMapping, CatalogUploadDraft } from '../utils/fileParser';
+import type { QuoteClientInput } from '../utils/quoteClients';
+import { formatQuoteAmount, QUOTE_CURRENCIES } from '../utils/quoteCurrency';
+import { resolveProductCostCLP } from '../utils/landedCostCatalog';
+import { isKitProduct } from '../utils/productKits';
+import { LINE_MODES_WITHOUT_VALUE } from '../utils/quoteLineRules';
+import { buildQuoteValidUntil, countQuoteValidityDays } from '../utils/quoteLifecycle';
+import { formatQuoteRevisionLabel, groupQuotationRevisions } from '../utils/quoteRevisions';
+import CatalogColumnMappingWizard from './CatalogColumnMappingWizard';
+import CatalogDuplicateReview from './CatalogDuplicateReview';
+import CatalogSyncPreview from './CatalogSyncPreview';
+import FxSensitivityPanel from './FxSensitivityPanel';
+import ProductCostHistoryPanel from './ProductCostHistoryPanel';
+import ProductKitPanel from './ProductKitPanel';
+import QuoteClientPicker from './QuoteClientPicker';
+import QuoteFxRateNotice from './QuoteFxRateNotice';
+import QuoteLifecycleControls from './QuoteLifecycleControls';
+import QuoteLineRulesPanel from './QuoteLineRulesPanel';
+import QuoteMarginGuardrailPanel from './QuoteMarginGuardrailPanel';
+import QuotePdfExportForm from './QuotePdfExportForm';
+import QuoteRevisionHistory from './QuoteRevisionHistory';
+import QuoteWinLossReport from './QuoteWinLossReport';
 import {
+  BarChart3,
+  Boxes,
   Calculator,
   CloudUpload,
   Copy,
   Database,
   DollarSign,
   FolderPlus,
+  GitBranch,
   History,
   Image as ImageIcon,
   Percent,
@@ -18,10 +67,12 @@ import {
   Save,
   Search,
   Trash2,
+  TrendingUp,
   Upload,
   X,
   ArrowRight,
   CheckCircle2,
+  ListTree,
 } from 'lucide-react';
 
 const DEFAULT_QUOTE_MARGIN_PERCENT = 50;
@@ -35,15 +86,34 @@ const LINE_PRICING_MODE_OPTIONS: Array<{ value: LinePricingMode; label: string }
   { value: 'fixed_margin_percent', label: 'Margen fijo %' },
   { value: 'at_cost', label: 'Al costo' },
   { value: 'manual_net_unit', label: 'Manual unit.' },
+  { value: 'volume_tier', label: 'Tramo volumen' },
+  { value: 'msrp_discount', label: 'Dcto. sobre MSRP %' },
 ];
 
+const ROUNDING_POLICY_OPTIONS: Array<{ value: QuotePriceRoundingPolicy; label: string }> = [
+  { value: 'none', label: 'Sin redondeo' },
+  { value: 'nearest_100', label: 'Al 100 mas cercano' },
+  { value: 'nearest_1000', label: 'Al 1.000 mas cercano' },
+  { value: 'ending_990', label: 'Terminado en 990' },
+];
+
+const PERCENT_VALUE_LINE_MODES: LinePricingMode[] = ['fixed_margin_percent', 'msrp_discount'];
+
 const QUOTE_MODE_OPTIONS: Array<{ value: QuotePricingConfig['mode']; label: string }> = [
   { value: 'global_margin', label: 'Margen global' },
   { value: 'global_net', label: 'Neto global' },
+  { value: 'global_gross', label: 'Total con IVA' },
   { value: 'at_cost', label: 'Venta al costo' },
   { value: 'manual_lines', label: 'Manual por producto' },
+  { value: 'volume_tiers', label: 'Tramos por volumen' },
+  { value: 'msrp_list', label: 'Precio lista (MSRP)' },
 ];
 
+// Positive values are a discount off list; a negative one means the line sells above MSRP.
+const formatListDiscount = (percent: number) => (
+  percent >= 0 ? `-${percent.toFixed(1)}% vs lista` : `+${Math.abs(percent).toFixed(1)}% sobre lista`
+);
+
 const getQuoteModeLabel = (mode?: string) => {
   if (!mode || mode === 'legacy_global_net') return 'Cotizacion clasica';
   return QUOTE_MODE_OPTIONS.find((option) => option.value === mode)?.label || 'Cotizacion flexible';
@@ -70,14 +140,25 @@ const getQuoteStatus = (warnings?: string[]) => {
 };
 
 interface CotizadorModuleProps {
-  activeTab: 'simulator' | 'history';
-  setActiveTab: React.Dispatch<React.SetStateAction<'simulator' | 'history'>>;
+  activeTab: CotizadorTab;
+  setActiveTab: React.Dispatch<React.SetStateAction<CotizadorTab>>;
   logoMegaGen: string;
   backendLabel: string;
   fileInputRef: React.RefObject<HTMLInputElement | null>;
   handleFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => Promise<void>;
   syncProductsToDatabase: () => Promise<void>;
   isSyncing: boolean;
+  catalogUpload: CatalogUploadDraft | null;
+  confirmCatalogMapping: (mapping: CatalogColumnMapping, remember: boolean) => string | null;
+  cancelCatalogMapping: () => void;
+  catalogDuplicates: CatalogDuplicateReport | null;
+  resolveCatalogDuplicates: (resolutions: Record<string, CatalogDuplicateResolution>) => void;
+  cancelCatalogDuplicates: () => void;
+  catalogDiff: CatalogDiff | null;
+  toggleCatalogChange: (changeId: string) => void;
+  setCatalogChangeKindApproval: (kind: CatalogChangeKind, approved: boolean) => void;
+  applyCatalogSync: () => Promise<void>;
+  cancelCatalogSync: () => void;
   products: Product[];
   isLoading: boolean;
   searchTerm: string;
@@ -106,14 +187,66 @@ interface CotizadorModuleProps {
   removeProductFromList: (product: Product) => Promise<void>;
   deleteProduct: (product: Product) => Promise<void>;
   addItem: (product: Product) => void;
+  addKitComponents: (kit: Product) => void;
+  saveProductKit: (kit: Product, components: ProductKitComponent[]) => Promise<void>;
   clearDeal: () => void;
   saveSimulation: () => Promise<void>;
   quotePricingConfig: QuotePricingConfig;
   setQuotePricingConfig: React.Dispatch<React.SetStateAction<QuotePricingConfig>>;
   handleGlobalMarginChange: (rawValue: string) => void;
+  handleListDiscountChange: (rawValue: string) => void;
   handleNetSalePriceChange: (rawValue: string) => void;
   handleSalePriceWithIvaChange: (rawValue: string) => void;
   applyPricingPreset: (mode: QuotePricingConfig['mode']) => void;
+  setQuoteRoundingPolicy: (policy: QuotePriceRoundingPolicy) => void;
+  setQuoteCurrency: (currency: QuoteCurrency) => void;
+  handleQuoteCurrencyRateChange: (value: string) => void;
+  setQuoteTaxProfile: (profileId: string) => void;
+  updateQuoteLineRounding: (productId: string, policy: QuotePriceRoundingPolicy | 'inherit') => void;
+  addVolumeTierSchedule: (category: string) => void;
+  removeVolumeTierSchedule: (category: string) => void;
+  addVolumeTier: (category: string) => void;
+  updateVolumeTier: (category: string, tierIndex: number, field: keyof QuoteVolumeTier, rawValue: string) => void;
+  removeVolumeTier: (category: string, tierIndex: number) => void;
+  toggleQuotePromotion: (promotion: QuoteBundlePromotion) => void;
+  addQuoteDiscount: (type: QuoteDiscountRule['type']) => void;
+  updateQuoteDiscount: (id: string, field: 'label' | 'value', rawValue: string) => void;
+  removeQuoteDiscount: (id: string) => void;
+  activeQuoteRevision: QuoteRevisionRef | null;
+  setActiveQuoteRevision: React.Dispatch<React.SetStateAction<QuoteRevisionRef | null>>;
+  quoteValidUntil: string;
+  setQuoteValidUntil: React.Dispatch<React.SetStateAction<string>>;
+  reviseQuotation: (quotation: SavedSimulationRecord) => void;
+  quoteSalesRep: string;
+  quoteClient: QuoteClient | null;
+  clientDirectory: QuoteClient[];
+  refreshCRMClients: () => void;
+  selectQuoteClient: (client: QuoteClient | null) => void;
+  createQuoteClient: (input: QuoteClientInput) => Promise<string | null>;
+  historyClientFilter: string;
+  setHistoryClientFilter: React.Dispatch<React.SetStateAction<string>>;
+  historySalesRepFilter: string;
+  setHistorySalesRepFilter: React.Dispatch<React.SetStateAction<string>>;
+  setQuoteSalesRep: React.Dispatch<React.SetStateAction<string>>;
+  marginFloorPolicy: QuoteMarginFloorPolicy;
+  marginGuardrails: QuoteMarginGuardrailResult;
+  marginApproval: QuoteMarginApproval | null;
+  marginApprovalStatus: QuoteApprovalStatus;
+  quoteApproverSession: QuoteApproverSession | null;
+  signInMarginApprover: (email: string, password: string) => Promise<string | null>;
+  signOutMarginApprover: () => void;
+  updateMarginFloorDefault: (rawValue: string) => void;
+  setMarginFloor: (scope: 'categoryFloors' | 'userFloors', key: string, rawValue: string) => void;
+  removeMarginFloor: (scope: 'categoryFloors' | 'userFloors', key: string) => void;
+  setMarginApprovers: (rawValue: string) => void;
+  saveMarginFloorPolicy: () => Promise<string | null>;
+  approveQuoteMargin: (reason: string) => string | null;
+  revokeQuoteMarginApproval: () => void;
+  quoteLineRules: QuoteLineDefaultRule[];
+  addQuoteLineRule: () => void;
+  updateQuoteLineRule: (id: string, patch: Partial<Omit<QuoteLineDefaultRule, 'id'>>) => void;
+  removeQuoteLineRule: (id: string) => void;
+  saveQuoteLineRuleSet: () => Promise<string | null>;
   quoteLines: Array<{ locked?: boolean; pricingMode: LinePricingMode }>;
   quoteResult: QuoteCalculationResult;
   targetSalePrice: number;
@@ -126,14 +259,26 @@ interface CotizadorModuleProps {
   grossMarginValue: number;
   totalCostUSD: number;
   exchangeRate: number;
+  quoteFxComparison: FxRateComparison | null;
+  quoteAtCurrentFxRate: QuoteCalculationResult | null;
+  applyCurrentFxRate: () => void;
+  quoteFxSensitivity: FxSensitivityAnalysis | null;
+  quoteEurFxSensitivity: FxSensitivityAnalysis | null;
   formatCLP: (value: number) => string;
   formatUSD: (value: number) => string;
   savedQuotations: SavedSimulationRecord[];
   isLoadingQuotations: boolean;
+  productCostHistory: ProductCostHistoryEntry[];
+  isLoadingCostHistory: boolean;
+  costHistoryProductId: string;
+  setCostHistoryProductId: React.Dispatch<React.SetStateAction<string>>;
+  openProductCostHistory: (productId: string) => void;
   duplicateQuotation: (quotation: SavedSimulationRecord) => void;
   generateInternalExport: (quotation: SavedSimulationRecord) => Promise<void>;
   generateClientExport: (quotation: SavedSimulationRecord) => Promise<void>;
+  generateQuotePdf: (quotation: SavedSimulationRecord, client: QuoteDocumentClient, paymentTerms: string) => void;
   deleteQuotation: (id: string) => Promise<void>;
+  updateQuotationStatus: (quotation: SavedSimulationRecord, patch: SimulationStatusPatch) => Promise<boolean>;
   calculateIVA: (amount: number) => number;
 }
 
@@ -146,6 +291,17 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
   handleFileUpload,
   syncProductsToDatabase,
   isSyncing,
+  catalogUpload,
+  confirmCatalogMapping,
+  cancelCatalogMapping,
+  catalogDuplicates,
+  resolveCatalogDuplicates,
+  cancelCatalogDuplicates,
+  catalogDiff,
+  toggleCatalogChange,
+  setCatalogChangeKindApproval,
+  applyCatalogSync,
+  cancelCatalogSync,
   products,
   isLoading,
   searchTerm,
@@ -174,14 +330,66 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
   removeProductFromList,
   deleteProduct,
   addItem,
+  addKitComponents,
+  saveProductKit,
   clearDeal,
   saveSimulation,
   quotePricingConfig,
   setQuotePricingConfig,
   handleGlobalMarginChange,
+  handleListDiscountChange,
   handleNetSalePriceChange,
   handleSalePriceWithIvaChange,
   applyPricingPreset,
+  setQuoteRoundingPolicy,
+  setQuoteCurrency,
+  handleQuoteCurrencyRateChange,
+  setQuoteTaxProfile,
+  updateQuoteLineRounding,
+  addVolumeTierSchedule,
+  removeVolumeTierSchedule,
+  addVolumeTier,
+  updateVolumeTier,
+  removeVolumeTier,
+  toggleQuotePromotion,
+  addQuoteDiscount,
+  updateQuoteDiscount,
+  removeQuoteDiscount,
+  activeQuoteRevision,
+  setActiveQuoteRevision,
+  quoteValidUntil,
+  setQuoteValidUntil,
+  reviseQuotation,
+  quoteSalesRep,
+  setQuoteSalesRep,
+  quoteClient,
+  clientDirectory,
+  refreshCRMClients,
+  selectQuoteClient,
+  createQuoteClient,
+  historyClientFilter,
+  setHistoryClientFilter,
+  historySalesRepFilter,
+  setHistorySalesRepFilter,
+  marginFloorPolicy,
+  marginGuardrails,
+  marginApproval,
+  marginApprovalStatus,
+  quoteApproverSession,
+  signInMarginApprover,
+  signOutMarginApprover,
+  updateMarginFloorDefault,
+  setMarginFloor,
+  removeMarginFloor,
+  setMarginApprovers,
+  saveMarginFloorPolicy,
+  approveQuoteMargin,
+  revokeQuoteMarginApproval,
+  quoteLineRules,
+  addQuoteLineRule,
+  updateQuoteLineRule,
+  removeQuoteLineRule,
+  saveQuoteLineRuleSet,
   quoteLines,
   quoteResult,
   targetSalePrice,
@@ -194,16 +402,41 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
   grossMarginValue,
   totalCostUSD,
   exchangeRate,
+  quoteFxComparison,
+  quoteAtCurrentFxRate,
+  applyCurrentFxRate,
+  quoteFxSensitivity,
+  quoteEurFxSensitivity,
   formatCLP,
   formatUSD,
   savedQuotations,
   isLoadingQuotations,
+  productCostHistory,
+  isLoadingCostHistory,
+  costHistoryProductId,
+  setCostHistoryProductId,
+  openProductCostHistory,
   duplicateQuotation,
   generateInternalExport,
   generateClientExport,
+  generateQuotePdf,
   deleteQuotation,
+  updateQuotationStatus,
   calculateIVA,
 }) => {
+  const historyClientOptions = Array.from(new Map(
+    savedQuotations
+      .filter((quotation) => quotation.client_rut)
+      .map((quotation) => [quotation.client_rut as string, quotation.client_name || quotation.client_rut as string]),
+  ).entries()).sort((left, right) => left[1].localeCompare(right[1], 'es'));
+  const historySalesRepOptions = Array.from(new Set(
+    savedQuotations.map((quotation) => quotation.sales_rep?.trim() ?? '').filter(Boolean),
+  )).sort((left, right) => left.localeCompare(right, 'es'));
+  const historyGroups = groupQuotationRevisions(savedQuotations).filter(({ latest }) => (
+    (!historyClientFilter || latest.client_rut === historyClientFilter)
+    && (!historySalesRepFilter || latest.sales_rep?.trim() === historySalesRepFilter)
+  ));
+
   return (
     <>
       <header className="header">
@@ -239,6 +472,34 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
         </div>
       </header>
 
+      {catalogUpload && (
+        <CatalogColumnMappingWizard
+          key={catalogUpload.layoutKey + catalogUpload.fileName}
+          draft={catalogUpload}
+          confirmCatalogMapping={confirmCatalogMapping}
+          cancelCatalogMapping={cancelCatalogMapping}
+        />
+      )}
+
+      {catalogDuplicates && (
+        <CatalogDuplicateReview
+          report={catalogDuplicates}
+          resolveCatalogDuplicates={resolveCatalogDuplicates}
+          cancelCatalogDuplicates={cancelCatalogDuplicates}
+        />
+      )}
+
+      {catalogDiff && (
+        <CatalogSyncPreview
+          diff={catalogDiff}
+          isSyncing={isSyncing}
+          toggleCatalogChange={toggleCatalogChange}
+          setCatalogChangeKindApproval={setCatalogChangeKindApproval}
+          applyCatalogSync={applyCatalogSync}
+          cancelCatalogSync={cancelCatalogSync}
+        />
+      )}
+
       <div className="tabs-nav" style={{ display: 'flex', gap: '0.5rem', marginBottom: '2rem', borderBottom: '2px solid var(--border)', padding: '0 0.5rem' }}>
         <button
           className={`btn ${activeTab === 'simulator' ? 'btn-primary' : ''}`}
@@ -268,6 +529,48 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
           <History size={16} style={{ marginRight: '0.5rem' }} />
           Historial de Cotizaciones
         </button>
+        <button
+          className={`btn ${activeTab === 'report' ? 'btn-primary' : ''}`}
+          style={{
+            background: activeTab === 'report' ? 'var(--primary)' : 'transparent',
+            borderRadius: '8px 8px 0 0',
+            border: 'none',
+            borderBottom: activeTab === 'report' ? '3px solid var(--primary)' : '3px solid transparent',
+            padding: '0.75rem 1.5rem'
+          }}
+          onClick={() => setActiveTab('report')}
+        >
+          <BarChart3 size={16} style={{ marginRight: '0.5rem' }} />
+          Resultados
+        </button>
+        <button
+          className={`btn ${activeTab === 'costs' ? 'btn-primary' : ''}`}
+          style={{
+            background: activeTab === 'costs' ? 'var(--primary)' : 'transparent',
+            borderRadius: '8px 8px 0 0',
+            border: 'none',
+            borderBottom: activeTab === 'costs' ? '3px solid var(--primary)' : '3px solid transparent',
+            padding: '0.75rem 1.5rem'
+          }}
+          onClick={() => setActiveTab('costs')}
+        >
+          <TrendingUp size={16} style={{ marginRight: '0.5rem' }} />
+          Costos
+        </button>
+        <button
+          className={`btn ${activeTab === 'kits' ? 'btn-primary' : ''}`}
+          style={{
+            background: activeTab === 'kits' ? 'var(--primary)' : 'transparent',
+            borderRadius: '8px 8px 0 0',
+            border: 'none',
+            borderBottom: activeTab === 'kits' ? '3px solid var(--primary)' : '3px solid transparent',
+            padding: '0.75rem 1.5rem'
+          }}
+          onClick={() => setActiveTab('kits')}
+        >
+          <Boxes size={16} style={{ marginRight: '0.5rem' }} />
+          Kits
+        </button>
       </div>
 
       {activeTab === 'simulator' && (
@@ -423,11 +726,24 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                         <div style={{ fontWeight: '600', fontSize: '0.9rem' }}>{product.name}</div>
                       </div>
                       <div className="text-muted" style={{ fontSize: '0.75rem' }}>
-                        USD: {formatUSD(product.costUSD)} | CLP: {formatCLP(product.costUSD * exchangeRate)}
+                        USD: {formatUSD(product.costUSD)} | CLP: {formatCLP(resolveProductCostCLP(product, exchangeRate))}
+                        {(product.landedCostCLP ?? 0) > 0 && (product.landedCostStale
+                          ? ' (puesto en Chile, anterior al ultimo costo de lista)'
+                          : ' (puesto en Chile)')}
+                      </div>
+                      <div style={{ display: 'flex', gap: '0.3rem', marginTop: '0.2rem' }}>
+                        <div className="badge" style={{ padding: '0.05rem 0.3rem', fontSize: '0.6rem', opacity: 0.8 }}>{product.category}</div>
+                        {isKitProduct(product) && (
+                          <div className="badge" style={{ padding: '0.05rem 0.3rem', fontSize: '0.6rem', background: 'rgba(59,130,246,0.16)', color: '#93c5fd' }} title={(product.components || []).map((component) => `${component.quantity} x ${component.sku}`).join(', ')}>
+                            Kit · {product.components?.length} componentes
+                          </div>
+                        )}
                       </div>
-                      <div className="badge" style={{ marginTop: '0.2rem', padding: '0.05rem 0.3rem', fontSize: '0.6rem', opacity: 0.8 }}>{product.category}</div>
                     </div>
                     <div className="quote-catalog-actions" style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="btn" style={{ padding: '0.4rem', background: 'rgba(255,255,255,0.1)', color: 'var(--text-muted)' }} onClick={() => openProductCostHistory(product.id)} title="Ver historial de costo">
+                        <TrendingUp size={14} />
+                      </button>
                       <button className="btn" style={{ padding: '0.4rem', background: 'rgba(255,255,255,0.1)', color: 'var(--text-muted)' }} onClick={() => moveProductToList(product)} title="Mover a otra lista">
                         <ArrowRight size={14} />
                       </button>
@@ -441,7 +757,12 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                           <Trash2 size={14} />
                         </button>
                       )}
-                      <button className="btn btn-primary" style={{ padding: '0.4rem' }} onClick={() => addItem(product)}>
+                      {isKitProduct(product) && (
+                        <button className="btn" style={{ padding: '0.4rem', background: 'rgba(59,130,246,0.16)', color: '#93c5fd' }} onClick={() => addKitComponents(product)} title="Agregar desglosado por componente">
+                          <ListTree size={14} />
+                        </button>
+                      )}
+                      <button className="btn btn-primary" style={{ padding: '0.4rem' }} onClick={() => addItem(product)} title={isKitProduct(product) ? 'Agregar kit como una linea' : undefined}>
                         <Plus size={14} />
                       </button>
                     </div>
@@ -456,17 +777,35 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
               <div className="quote-card-head" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
                 <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                   <Calculator size={18} /> Configuración de la Oferta
+                  {activeQuoteRevision && (
+                    <span className="badge" style={{ fontSize: '0.65rem', background: 'rgba(59,130,246,0.16)', color: '#93c5fd', display: 'flex', alignItems: 'center', gap: '0.35rem' }} title="Al guardar se creara la siguiente revision">
+                      {activeQuoteRevision.quoteNumber} · v{activeQuoteRevision.revision + 1}
+                      <button onClick={() => setActiveQuoteRevision(null)} style={{ background: 'transparent', border: 'none', color: 'inherit', cursor: 'pointer', padding: 0, display: 'flex' }} title="Guardar como cotizacion nueva">
+                        <X size={12} />
+                      </button>
+                    </span>
+                  )}
                 </h3>
                 <div className="quote-card-head-actions" style={{ display: 'flex', gap: '0.5rem' }}>
                   <button className="btn" style={{ background: 'rgba(239, 68, 68, 0.1)', color: 'var(--error)', fontSize: '0.75rem' }} onClick={clearDeal}>
                     <Trash2 size={14} /> Limpiar
                   </button>
-                  <button className="btn btn-primary" style={{ background: 'var(--secondary)', fontSize: '0.75rem' }} onClick={saveSimulation}>
+                  <button className="btn btn-primary" style={{ background: 'var(--secondary)', fontSize: '0.75rem', opacity: marginApprovalStatus === 'pending' ? 0.6 : 1 }} onClick={saveSimulation} title={marginApprovalStatus === 'pending' ? 'Requiere aprobacion de margen minimo' : undefined}>
                     <Save size={14} /> Guardar Deal
                   </button>
                 </div>
               </div>
 
+              {quoteFxComparison && (
+                <QuoteFxRateNotice
+                  comparison={quoteFxComparison}
+                  quoteResult={quoteResult}
+                  quoteAtCurrentFxRate={quoteAtCurrentFxRate}
+                  applyCurrentFxRate={applyCurrentFxRate}
+                  formatCLP={formatCLP}
+                />
+              )}
+
               <div style={{ marginBottom: '1rem', padding: '1rem', borderRadius: '12px', background: 'rgba(0,0,0,0.18)' }}>
                 <div className="quote-strategy-grid" style={{ display: 'grid', gridTemplateColumns: '1.1fr 1fr 1fr', gap: '0.75rem', alignItems: 'end' }}>
                   <div>
@@ -478,11 +817,18 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                     </select>
                   </div>
 
-                  {quotePricingConfig.mode === 'global_margin' ? (
+                  {quotePricingConfig.mode === 'global_margin' || quotePricingConfig.mode === 'volume_tiers' ? (
                     <div>
-                      <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>MARGEN GLOBAL %</label>
+                      <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>
+                        {quotePricingConfig.mode === 'volume_tiers' ? 'MARGEN SIN TRAMO %' : 'MARGEN GLOBAL %'}
+                      </label>
                       <input type="number" className="input-field" value={quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT} onChange={(e) => handleGlobalMarginChange(e.target.value)} />
                     </div>
+                  ) : quotePricingConfig.mode === 'msrp_list' ? (
+                    <div>
+                      <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>DCTO. SOBRE MSRP %</label>
+                      <input type="number" className="input-field" value={quotePricingConfig.listDiscountPercent ?? 0} onChange={(e) => handleListDiscountChange(e.target.value)} title="0% cotiza el precio lista convertido al tipo de cambio" />
+                    </div>
                   ) : quotePricingConfig.mode === 'global_net' ? (
                     <div>
                       <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>NETO GLOBAL CLP</label>
@@ -492,14 +838,18 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                     <div>
                       <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>REFERENCIA</label>
                       <div className="finance-card" style={{ padding: '0.7rem', minHeight: '42px' }}>
-                        {quotePricingConfig.mode === 'at_cost' ? 'Toda la oferta al costo' : 'Control por producto'}
+                        {quotePricingConfig.mode === 'at_cost'
+                          ? 'Toda la oferta al costo'
+                          : quotePricingConfig.mode === 'global_gross'
+                            ? `Neto resultante ${formatCLP(quoteResult.totalNetCLP)}`
+                            : 'Control por producto'}
                       </div>
                     </div>
                   )}
 
                   <div>
                     <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>TOTAL CON IVA</label>
-                    <input type="number" className="input-field" value={quoteResult.totalWithIvaCLP} onChange={(e) => handleSalePriceWithIvaChange(e.target.value)} disabled={quotePricingConfig.mode === 'manual_lines' || quotePricingConfig.mode === 'at_cost'} />
+                    <input type="number" className="input-field" value={quotePricingConfig.mode === 'global_gross' ? (quotePricingConfig.targetTotalWithIvaCLP ?? quoteResult.totalWithIvaCLP) : quoteResult.totalWithIvaCLP} onChange={(e) => handleSalePriceWithIvaChange(e.target.value)} disabled={quotePricingConfig.mode === 'manual_lines' || quotePricingConfig.mode === 'at_cost'} />
                   </div>
                 </div>
 
@@ -507,7 +857,162 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                   <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => applyPricingPreset('at_cost')}>Todo al costo</button>
                   <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(74, 222, 128, 0.12)', color: 'var(--success)' }} onClick={() => applyPricingPreset('global_margin')}>Margen global 50%</button>
                   <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(59, 130, 246, 0.18)', color: '#93c5fd' }} onClick={() => applyPricingPreset('global_net')}>Fijar neto total</button>
+                  <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(59, 130, 246, 0.18)', color: '#93c5fd' }} onClick={() => applyPricingPreset('global_gross')}>Fijar total con IVA</button>
                   <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(245, 158, 11, 0.14)', color: '#fbbf24' }} onClick={() => applyPricingPreset('manual_lines')}>Pasar todo a manual</button>
+                  <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(168, 85, 247, 0.14)', color: '#d8b4fe' }} onClick={() => applyPricingPreset('volume_tiers')}>Tramos por volumen</button>
+                  <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(20, 184, 166, 0.14)', color: '#5eead4' }} onClick={() => applyPricingPreset('msrp_list')}>Precio lista MSRP</button>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.85rem' }}>
+                  <label style={{ fontSize: '0.65rem', color: 'var(--text-muted)' }}>REDONDEO DE PRECIOS</label>
+                  <select className="input-field" style={{ maxWidth: '220px' }} value={quotePricingConfig.roundingPolicy ?? 'none'} onChange={(e) => setQuoteRoundingPolicy(e.target.value as QuotePriceRoundingPolicy)}>
+                    {ROUNDING_POLICY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.85rem', flexWrap: 'wrap' }}>
+                  <label style={{ fontSize: '0.65rem', color: 'var(--text-muted)' }}>MONEDA CLIENTE</label>
+                  <select className="input-field" style={{ maxWidth: '90px' }} value={quoteResult.currencyTotals.currency} onChange={(e) => setQuoteCurrency(e.target.value as QuoteCurrency)}>
+                    {QUOTE_CURRENCIES.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                  {(quotePricingConfig.currency ?? 'CLP') !== 'CLP' && (
+                    <input
+                      type="number"
+                      className="input-field"
+                      style={{ maxWidth: '130px' }}
+                      title={`CLP por 1 ${quotePricingConfig.currency}`}
+                      placeholder={quotePricingConfig.currency === 'USD' ? `Dolar ${exchangeRate}` : 'CLP por EUR'}
+                      value={quotePricingConfig.currencyRateCLP ?? ''}
+                      onChange={(e) => handleQuoteCurrencyRateChange(e.target.value)}
+                    />
+                  )}
+                  <label style={{ fontSize: '0.65rem', color: 'var(--text-muted)', marginLeft: '0.5rem' }}>IMPUESTO</label>
+                  <select className="input-field" style={{ maxWidth: '200px' }} value={quoteResult.currencyTotals.taxProfile.id} onChange={(e) => setQuoteTaxProfile(e.target.value)}>
+                    {QUOTE_TAX_PROFILES.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.85rem', flexWrap: 'wrap' }}>
+                  <label style={{ fontSize: '0.65rem', color: 'var(--text-muted)' }}>VALIDA HASTA</label>
+                  <input type="date" className="input-field" style={{ maxWidth: '160px' }} value={quoteValidUntil} onChange={(e) => setQuoteValidUntil(e.target.value)} />
+                  <input
+                    type="number"
+                    className="input-field"
+                    style={{ maxWidth: '80px' }}
+                    min={0}
+                    title="Dias de validez desde hoy"
+                    value={quoteValidUntil ? countQuoteValidityDays(quoteValidUntil) : ''}
+                    onChange={(e) => {
+                      const days = Number(e.target.value);
+                      if (e.target.value !== '' && Number.isInteger(days) && days >= 0) setQuoteValidUntil(buildQuoteValidUntil(new Date(), days));
+                    }}
+                  />
+                  <span className="text-muted" style={{ fontSize: '0.65rem' }}>dias</span>
+                </div>
+
+                {(quotePricingConfig.mode === 'volume_tiers' || quoteLines.some((line) => line.pricingMode === 'volume_tier')) && (
+                  <div style={{ marginTop: '0.85rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                    {(quotePricingConfig.volumeTiers ?? []).map((schedule) => (
+                      <div key={schedule.category} className="finance-card" style={{ padding: '0.75rem' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                          <strong style={{ fontSize: '0.8rem' }}>
+                            {schedule.category === VOLUME_TIER_FALLBACK_CATEGORY ? 'Todas las categorias' : schedule.category}
+                          </strong>
+                          <div style={{ display: 'flex', gap: '0.35rem' }}>
+                            <button className="btn" style={{ fontSize: '0.65rem', padding: '0.25rem 0.5rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => addVolumeTier(schedule.category)}>
+                              <Plus size={12} /> Tramo
+                            </button>
+                            <button className="btn" style={{ fontSize: '0.65rem', padding: '0.25rem 0.5rem', background: 'rgba(239, 68, 68, 0.1)', color: 'var(--error)' }} onClick={() => removeVolumeTierSchedule(schedule.category)} title="Quitar tramos de la categoria">
+                              <Trash2 size={12} />
+                            </button>
+                          </div>
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1.3fr auto', gap: '0.4rem', alignItems: 'center', fontSize: '0.6rem' }} className="text-muted">
+                          <span>DESDE (U.)</span>
+                          <span>HASTA (U.)</span>
+                          <span>MARGEN %</span>
+                          <span>ETIQUETA</span>
+                          <span />
+                          {schedule.tiers.map((tier, tierIndex) => (
+                            <React.Fragment key={`${schedule.category}-${tierIndex}`}>
+                              <input type="number" className="input-field" value={tier.minQuantity} onChange={(e) => updateVolumeTier(schedule.category, tierIndex, 'minQuantity', e.target.value)} />
+                              <input type="number" className="input-field" placeholder="Sin limite" value={tier.maxQuantity ?? ''} onChange={(e) => updateVolumeTier(schedule.category, tierIndex, 'maxQuantity', e.target.value)} />
+                              <input type="number" className="input-field" value={tier.marginPercent} onChange={(e) => updateVolumeTier(schedule.category, tierIndex, 'marginPercent', e.target.value)} />
+                              <input type="text" className="input-field" placeholder="Ej: 10-49 u." value={tier.label ?? ''} onChange={(e) => updateVolumeTier(schedule.category, tierIndex, 'label', e.target.value)} />
+                              <button onClick={() => removeVolumeTier(schedule.category, tierIndex)} style={{ background: 'transparent', border: 'none', color: 'var(--error)', cursor: 'pointer', padding: '0.2rem' }}>
+                                <Trash2 size={12} />
+                              </button>
+                            </React.Fragment>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                    <select
+                      className="input-field"
+                      value=""
+                      onChange={(e) => addVolumeTierSchedule(e.target.value)}
+                    >
+                      <option value="">+ Agregar tramos para una categoria...</option>
+                      {[VOLUME_TIER_FALLBACK_CATEGORY, ...categories.filter((category) => category !== 'All')]
+                        .filter((category) => !(quotePricingConfig.volumeTiers ?? []).some((schedule) => schedule.category === category))
+                        .map((category) => (
+                          <option key={category} value={category}>
+                            {category === VOLUME_TIER_FALLBACK_CATEGORY ? 'Todas las categorias (respaldo)' : category}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                )}
+
+                <div style={{ marginTop: '0.85rem', paddingTop: '0.85rem', borderTop: '1px solid rgba(255,255,255,0.08)' }}>
+                  <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.5rem' }}>DESCUENTOS Y PROMOCIONES (VISIBLES PARA EL CLIENTE)</label>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.6rem' }}>
+                    {QUOTE_PROMOTION_CATALOG.map((promotion) => {
+                      const isActive = (quotePricingConfig.promotions ?? []).some((entry) => entry.id === promotion.id);
+                      return (
+                        <label key={promotion.id} className="badge" style={{ cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.35rem', background: isActive ? 'rgba(74, 222, 128, 0.15)' : 'transparent', color: isActive ? 'var(--success)' : 'var(--text-muted)', border: '1px solid rgba(255,255,255,0.1)' }}>
+                          <input type="checkbox" checked={isActive} onChange={() => toggleQuotePromotion(promotion)} />
+                          {promotion.label}
+                        </label>
+                      );
+                    })}
+                  </div>
+                  {(quotePricingConfig.discounts ?? []).map((discount) => (
+                    <div key={discount.id} style={{ display: 'grid', gridTemplateColumns: '1.6fr 1fr auto', gap: '0.4rem', alignItems: 'center', marginBottom: '0.4rem' }}>
+                      <input type="text" className="input-field" placeholder={discount.type === 'percent' ? 'Ej: Descuento congreso' : 'Ej: Descuento apertura'} value={discount.label} onChange={(e) => updateQuoteDiscount(discount.id, 'label', e.target.value)} />
+                      <div style={{ position: 'relative' }}>
+                        <input type="number" className="input-field" style={{ paddingRight: '38px' }} value={discount.value} onChange={(e) => updateQuoteDiscount(discount.id, 'value', e.target.value)} />
+                        <span style={{ position: 'absolute', right: '10px', top: '50%', transform: 'translateY(-50%)', color: 'var(--text-muted)', fontSize: '0.7rem' }}>{discount.type === 'percent' ? '%' : 'CLP'}</span>
+                      </div>
+                      <button onClick={() => removeQuoteDiscount(discount.id)} style={{ background: 'transparent', border: 'none', color: 'var(--error)', cursor: 'pointer', padding: '0.2rem' }}>
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button className="btn" style={{ fontSize: '0.65rem', padding: '0.25rem 0.5rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => addQuoteDiscount('percent')}>
+                      <Plus size={12} /> Descuento %
+                    </button>
+                    <button className="btn" style={{ fontSize: '0.65rem', padding: '0.25rem 0.5rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => addQuoteDiscount('fixed_clp')}>
+                      <Plus size={12} /> Descuento CLP
+                    </button>
+                  </div>
+                  {quoteResult.discounts.length > 0 && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', marginTop: '0.6rem', fontSize: '0.75rem' }}>
+                      {quoteResult.discounts.map((entry) => (
+                        <div key={entry.id} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                          <span className="text-muted">{entry.label}{entry.detail ? ` (${entry.detail})` : ''}</span>
+                          <strong className="negative">-{formatCLP(entry.amountCLP)}</strong>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', marginTop: '0.85rem' }}>
@@ -540,11 +1045,28 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                       const lineModeLabel = LINE_PRICING_MODE_OPTIONS.find((option) => option.value === item.pricingMode)?.label || item.pricingMode;
                       return (
                         <tr key={item.productId}>
-                          <td style={{ fontSize: '0.75rem' }}>{item.productName}</td>
+                          <td style={{ fontSize: '0.75rem' }}>
+                            {item.productName}
+                            {item.appliedVolumeTier && (
+                              <div className="badge" style={{ marginTop: '0.2rem', fontSize: '0.6rem', background: 'rgba(168,85,247,0.14)', color: '#d8b4fe' }} title={`${item.appliedVolumeTier.basisQuantity} u. en ${item.appliedVolumeTier.category}`}>
+                                Tramo {item.appliedVolumeTier.label} · {item.appliedVolumeTier.marginPercent}%
+                              </div>
+                            )}
+                            {item.discountVsListPercent !== null && (
+                              <div className="badge" style={{ marginTop: '0.2rem', fontSize: '0.6rem', background: 'rgba(20,184,166,0.14)', color: '#5eead4' }} title={`MSRP ${formatCLP(item.listUnitCLP)} por unidad`}>
+                                MSRP {formatCLP(item.listUnitCLP)} · {formatListDiscount(item.discountVsListPercent)}
+                              </div>
+                            )}
+                          </td>
                           <td style={{ textAlign: 'center' }}>
                             <input type="number" className="input-field" style={{ width: '50px', padding: '0.2rem', textAlign: 'center' }} value={item.quantity} onChange={(e) => updateQuantity(item.productId, parseInt(e.target.value) || 0)} />
                           </td>
-                          <td style={{ textAlign: 'right', fontSize: '0.85rem' }}>{formatCLP(item.costUnitCLP)}</td>
+                          <td style={{ textAlign: 'right', fontSize: '0.85rem' }}>
+                            {formatCLP(item.costUnitCLP)}
+                            <div className="text-muted" style={{ fontSize: '0.6rem' }} title={item.costSource === 'landed_cost' ? 'Costo puesto en Chile del ultimo embarque aplicado' : `US$${item.costUSD.toFixed(2)} al tipo de cambio de la cotizacion`}>
+                              {item.costSource === 'landed_cost' ? 'Puesto en Chile' : 'USD x TC'}
+                            </div>
+                          </td>
                           <td style={{ textAlign: 'right', fontSize: '0.85rem' }}>{formatCLP(item.costTotalCLP)}</td>
                           <td style={{ minWidth: '150px' }}>
                             <select className="input-field" style={{ minWidth: '140px' }} value={item.pricingMode} onChange={(e) => updateQuoteLineMode(item.productId, e.target.value as LinePricingMode)} title={lineModeLabel}>
@@ -552,12 +1074,26 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                                 <option key={option.value} value={option.value}>{option.label}</option>
                               ))}
                             </select>
+                            <select className="input-field" style={{ minWidth: '140px', marginTop: '0.3rem', fontSize: '0.7rem' }} value={item.roundingPolicy ?? 'inherit'} onChange={(e) => updateQuoteLineRounding(item.productId, e.target.value as QuotePriceRoundingPolicy | 'inherit')} title="Redondeo de la linea">
+                              <option value="inherit">Redondeo global</option>
+                              {ROUNDING_POLICY_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
                           </td>
                           <td style={{ minWidth: '110px' }}>
-                            <input type="number" className="input-field" disabled={item.pricingMode === 'inherit' || item.pricingMode === 'at_cost'} value={item.value ?? ''} onChange={(e) => updateQuoteLineValue(item.productId, e.target.value)} placeholder={item.pricingMode === 'fixed_margin_percent' ? '%' : 'CLP'} />
+                            <input type="number" className="input-field" disabled={LINE_MODES_WITHOUT_VALUE.includes(item.pricingMode)} value={item.value ?? ''} onChange={(e) => updateQuoteLineValue(item.productId, e.target.value)} placeholder={PERCENT_VALUE_LINE_MODES.includes(item.pricingMode) ? '%' : 'CLP'} />
                           </td>
                           <td style={{ textAlign: 'right', fontSize: '0.85rem', color: item.effectiveMode === 'at_cost' ? 'var(--success)' : 'var(--primary)', fontWeight: '600' }}>{formatCLP(item.netUnitCLP)}</td>
-                          <td style={{ textAlign: 'right', fontSize: '0.85rem', color: item.effectiveMode === 'at_cost' ? 'var(--success)' : 'var(--primary)', fontWeight: '600' }}>{formatCLP(item.netTotalCLP)}</td>
+                          <td style={{ textAlign: 'right', fontSize: '0.85rem', color: item.effectiveMode === 'at_cost' ? 'var(--success)' : 'var(--primary)', fontWeight: '600' }}>
+                            {formatCLP(item.netTotalCLP)}
+                            {quoteResult.currencyTotals.currency !== 'CLP' && (
+                              <div className="text-muted" style={{ fontSize: '0.65rem', fontWeight: 500 }}>{formatQuoteAmount(item.netTotalInCurrency, quoteResult.currencyTotals.currency)}</div>
+                            )}
+                            {item.discountTotalCLP > 0 && (
+                              <div className="negative" style={{ fontSize: '0.65rem', fontWeight: 500 }}>-{formatCLP(item.discountTotalCLP)}</div>
+                            )}
+                          </td>
                           <td style={{ textAlign: 'right', fontSize: '0.85rem' }} className={item.profitTotalCLP >= 0 ? 'positive' : 'negative'}>{formatCLP(item.profitTotalCLP)}</td>
                           <td style={{ textAlign: 'right', fontSize: '0.85rem' }} className={item.marginPercent >= 0 ? 'positive' : 'negative'}>{item.marginPercent.toFixed(1)}%</td>
                           <td style={{ textAlign: 'center' }}>
@@ -584,7 +1120,19 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                 {quoteResult.lines.map((item) => (
                   <div key={`card-${item.productId}`} className="finance-card quote-line-card">
                     <div className="quote-line-card-head">
-                      <div style={{ fontWeight: 700 }}>{item.productName}</div>
+                      <div style={{ fontWeight: 700 }}>
+                        {item.productName}
+                        {item.appliedVolumeTier && (
+                          <span className="badge" style={{ marginLeft: '0.4rem', fontSize: '0.6rem', background: 'rgba(168,85,247,0.14)', color: '#d8b4fe' }}>
+                            Tramo {item.appliedVolumeTier.label}
+                          </span>
+                        )}
+                        {item.discountVsListPercent !== null && (
+                          <span className="badge" style={{ marginLeft: '0.4rem', fontSize: '0.6rem', background: 'rgba(20,184,166,0.14)', color: '#5eead4' }}>
+                            MSRP {formatListDiscount(item.discountVsListPercent)}
+                          </span>
+                        )}
+                      </div>
                       <button onClick={() => removeItem(item.productId)} style={{ background: 'transparent', border: 'none', color: 'var(--error)', cursor: 'pointer', padding: 0 }}>
                         <Trash2 size={16} />
                       </button>
@@ -603,15 +1151,24 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                           ))}
                         </select>
                       </label>
+                      <label>
+                        <span className="text-muted quote-field-label">Redondeo</span>
+                        <select className="input-field" value={item.roundingPolicy ?? 'inherit'} onChange={(e) => updateQuoteLineRounding(item.productId, e.target.value as QuotePriceRoundingPolicy | 'inherit')}>
+                          <option value="inherit">Redondeo global</option>
+                          {ROUNDING_POLICY_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </label>
                       <label>
                         <span className="text-muted quote-field-label">Valor regla</span>
                         <input
                           type="number"
                           className="input-field"
-                          disabled={item.pricingMode === 'inherit' || item.pricingMode === 'at_cost'}
+                          disabled={LINE_MODES_WITHOUT_VALUE.includes(item.pricingMode)}
                           value={item.value ?? ''}
                           onChange={(e) => updateQuoteLineValue(item.productId, e.target.value)}
-                          placeholder={item.pricingMode === 'fixed_margin_percent' ? '%' : 'CLP'}
+                          placeholder={PERCENT_VALUE_LINE_MODES.includes(item.pricingMode) ? '%' : 'CLP'}
                         />
                       </label>
                       <label className="quote-lock-field">
@@ -682,7 +1239,7 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                   </label>
                   <div className="quote-margin-row" style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
                     <div style={{ position: 'relative', flex: 1 }}>
-                      <input type="number" placeholder="Ej: 40" className="input-field" style={{ paddingRight: '25px', width: '100%' }} value={quotePricingConfig.mode === 'global_margin' ? (quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT) : ''} onChange={(e) => handleGlobalMarginChange(e.target.value)} />
+                      <input type="number" placeholder="Ej: 40" className="input-field" style={{ paddingRight: '25px', width: '100%' }} value={quotePricingConfig.mode === 'global_margin' || quotePricingConfig.mode === 'volume_tiers' ? (quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT) : ''} onChange={(e) => handleGlobalMarginChange(e.target.value)} />
                       <span style={{ position: 'absolute', right: '10px', top: '50%', transform: 'translateY(-50%)', color: 'var(--text-muted)', fontSize: '0.8rem' }}>%</span>
                     </div>
                     <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)', maxWidth: '160px', lineHeight: '1.2' }}>
@@ -710,14 +1267,22 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                   <div className="finance-card" style={{ padding: '0.75rem' }}>
                     <div className="text-muted" style={{ fontSize: '0.6rem' }}>NETO TOTAL</div>
                     <div style={{ fontSize: '1rem', fontWeight: 'bold' }}>{formatCLP(quoteResult.totalNetCLP)}</div>
+                    {quoteResult.totalDiscountCLP > 0 && (
+                      <div className="text-muted" style={{ fontSize: '0.55rem' }}>Dcto: -{formatCLP(quoteResult.totalDiscountCLP)}</div>
+                    )}
                   </div>
                   <div className="finance-card" style={{ padding: '0.75rem' }}>
                     <div className="text-muted" style={{ fontSize: '0.6rem' }}>UTILIDAD TOTAL</div>
                     <div style={{ fontSize: '1rem', fontWeight: 'bold' }} className={quoteResult.totalProfitCLP >= 0 ? 'positive' : 'negative'}>{formatCLP(quoteResult.totalProfitCLP)}</div>
                   </div>
                   <div className="finance-card" style={{ padding: '0.75rem', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)' }}>
-                    <div className="text-muted" style={{ fontSize: '0.6rem', color: 'var(--text-muted)' }}>TOTAL CON IVA</div>
+                    <div className="text-muted" style={{ fontSize: '0.6rem', color: 'var(--text-muted)' }}>TOTAL · {quoteResult.currencyTotals.taxProfile.documentLabel.toUpperCase()}</div>
                     <div style={{ fontSize: '1rem', fontWeight: 'bold', color: '#fff' }}>{formatCLP(quoteResult.totalWithIvaCLP)}</div>
+                    {quoteResult.currencyTotals.currency !== 'CLP' && (
+                      <div className="text-muted" style={{ fontSize: '0.55rem' }} title={`Neto ${formatQuoteAmount(quoteResult.currencyTotals.totalNet, quoteResult.currencyTotals.currency)} a ${formatCLP(quoteResult.currencyTotals.rateCLP)}`}>
+                        Cliente: {formatQuoteAmount(quoteResult.currencyTotals.totalWithTax, quoteResult.currencyTotals.currency)}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -759,7 +1324,55 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                   </div>
                 </div>
               </div>
+
+              {quoteFxSensitivity && (
+                <div style={{ marginTop: '1.25rem' }}>
+                  <FxSensitivityPanel analysis={quoteFxSensitivity} currencyLabel="USD" formatCLP={formatCLP} />
+                </div>
+              )}
+              {quoteEurFxSensitivity && (
+                <div style={{ marginTop: '0.75rem' }}>
+                  <FxSensitivityPanel analysis={quoteEurFxSensitivity} currencyLabel="EUR" formatCLP={formatCLP} />
+                </div>
+              )}
             </div>
+
+            <QuoteClientPicker
+              quoteClient={quoteClient}
+              clientDirectory={clientDirectory}
+              refreshCRMClients={refreshCRMClients}
+              selectQuoteClient={selectQuoteClient}
+              createQuoteClient={createQuoteClient}
+            />
+
+            <QuoteMarginGuardrailPanel
+              categories={categories}
+              quoteSalesRep={quoteSalesRep}
+              setQuoteSalesRep={setQuoteSalesRep}
+              marginFloorPolicy={marginFloorPolicy}
+              marginGuardrails={marginGuardrails}
+              marginApproval={marginApproval}
+              marginApprovalStatus={marginApprovalStatus}
+              quoteApproverSession={quoteApproverSession}
+              signInMarginApprover={signInMarginApprover}
+              signOutMarginApprover={signOutMarginApprover}
+              updateMarginFloorDefault={updateMarginFloorDefault}
+              setMarginFloor={setMarginFloor}
+              removeMarginFloor={removeMarginFloor}
+              setMarginApprovers={setMarginApprovers}
+              saveMarginFloorPolicy={saveMarginFloorPolicy}
+              approveQuoteMargin={approveQuoteMargin}
+              revokeQuoteMarginApproval={revokeQuoteMarginApproval}
+            />
+
+            <QuoteLineRulesPanel
+              quoteLineRules={quoteLineRules}
+              lineModeOptions={LINE_PRICING_MODE_OPTIONS}
+              addQuoteLineRule={addQuoteLineRule}
+              updateQuoteLineRule={updateQuoteLineRule}
+              removeQuoteLineRule={removeQuoteLineRule}
+              saveQuoteLineRuleSet={saveQuoteLineRuleSet}
+            />
           </div>
         </div>
       )}
@@ -772,6 +1385,23 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
               Cotizaciones Guardadas
             </h2>
 
+            {savedQuotations.length > 0 && (
+              <div className="grid" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '0.75rem', marginBottom: '1.5rem' }}>
+                <select className="input-field" value={historyClientFilter} onChange={(e) => setHistoryClientFilter(e.target.value)}>
+                  <option value="">Todos los clientes</option>
+                  {historyClientOptions.map(([rut, name]) => (
+                    <option key={rut} value={rut}>{name} ({rut})</option>
+                  ))}
+                </select>
+                <select className="input-field" value={historySalesRepFilter} onChange={(e) => setHistorySalesRepFilter(e.target.value)}>
+                  <option value="">Todos los vendedores</option>
+                  {historySalesRepOptions.map((salesRep) => (
+                    <option key={salesRep} value={salesRep}>{salesRep}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {isLoadingQuotations ? (
               <div style={{ textAlign: 'center', padding: '3rem' }}>
                 <RefreshCw size={32} className="spin" style={{ opacity: 0.5 }} />
@@ -785,9 +1415,11 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                   Crear una cotización
                 </button>
               </div>
+            ) : historyGroups.length === 0 ? (
+              <p className="text-muted" style={{ textAlign: 'center', padding: '2rem' }}>No hay cotizaciones para este cliente o vendedor.</p>
             ) : (
               <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                {savedQuotations.map((quotation) => {
+                {historyGroups.map(({ latest: quotation, revisions }) => {
                   const subtotal = quotation.sale_price_clp;
                   const iva = calculateIVA(subtotal);
                   const total = subtotal + iva;
@@ -822,14 +1454,32 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                           </div>
 
                           <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+                            <span className="badge" style={{ background: 'rgba(255,255,255,0.12)', color: '#fff', fontWeight: 700 }}>{formatQuoteRevisionLabel(quotation)}</span>
                             <span className="badge" style={{ background: 'rgba(59,130,246,0.16)', color: '#93c5fd' }}>{getQuoteTypeLabel(quotation.pricing_mode)}</span>
                             <span className="badge" style={{ background: 'rgba(168,85,247,0.16)', color: '#d8b4fe' }}>{getQuoteModeLabel(quotation.pricing_mode)}</span>
                             <span className="badge" style={{ background: quoteStatus.background, color: quoteStatus.color }}>{quoteStatus.label}</span>
                             {quotation.target_margin_percent != null && quotation.pricing_mode === 'global_margin' && (
                               <span className="badge">Objetivo: {Math.round(quotation.target_margin_percent)}%</span>
                             )}
+                            {quotation.client_name && (
+                              <span className="badge" style={{ background: 'rgba(20,184,166,0.16)', color: '#5eead4' }}>
+                                Cliente: {quotation.client_name}{quotation.client_rut ? ` · ${quotation.client_rut}` : ''}
+                              </span>
+                            )}
+                            {quotation.sales_rep && (
+                              <span className="badge">Vendedor: {quotation.sales_rep}</span>
+                            )}
+                            {quotation.approval_status === 'approved' && (
+                              <span className="badge" style={{ background: 'rgba(59,130,246,0.18)', color: '#93c5fd' }} title={quotation.approval_reason ?? undefined}>
+                                Bajo piso · aprobada por {quotation.approved_by}
+                              </span>
+                            )}
                           </div>
 
+                          <QuoteLifecycleControls quotation={quotation} updateQuotationStatus={updateQuotationStatus} />
+
+                          <QuoteRevisionHistory revisions={revisions} formatCLP={formatCLP} />
+
                           {quotation.warnings && quotation.warnings.length > 0 && (
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem', marginBottom: '1rem' }}>
                               {quotation.warnings.map((warning, index) => (
@@ -852,6 +1502,11 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                                       {LINE_PRICING_MODE_OPTIONS.find((option) => option.value === item.pricing_mode)?.label || item.pricing_mode}
                                     </div>
                                   )}
+                                  {item.volume_tier_label && (
+                                    <div className="badge" style={{ fontSize: '0.68rem', background: 'rgba(168,85,247,0.14)', color: '#d8b4fe' }}>
+                                      Tramo {item.volume_tier_label}
+                                    </div>
+                                  )}
                                   <div className="text-muted" style={{ fontSize: '0.9rem' }}>${Math.round(item.cost_usd)} USD</div>
                                   {item.net_total_clp != null && <div style={{ fontSize: '0.9rem', fontWeight: '600' }}>{formatCLP(item.net_total_clp)}</div>}
                                 </div>
@@ -870,15 +1525,21 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
                         </div>
 
                         <div className="mobile-full-width" style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                          {quotation.quote_number && (
+                            <button className="btn btn-secondary mobile-full-width" style={{ background: 'var(--secondary)', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem' }} onClick={() => reviseQuotation(quotation)} title="Cargar en el simulador y guardar como nueva revision">
+                              <GitBranch size={16} style={{ marginRight: '0.5rem' }} /> Nueva revision
+                            </button>
+                          )}
                           <button className="btn btn-secondary mobile-full-width" style={{ background: 'var(--primary)', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem' }} onClick={() => duplicateQuotation(quotation)} title="Cargar esta cotización en el simulador">
                             <Copy size={16} style={{ marginRight: '0.5rem' }} /> Duplicar
                           </button>
-                          <button className="btn btn-secondary mobile-full-width" style={{ background: 'var(--success)', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem' }} onClick={() => generateInternalExport(quotation)} title="Descargar imagen interna (con costos y margenes)">
-                            <ImageIcon size={16} style={{ marginRight: '0.5rem' }} /> Exportar (Interno)
+                          <button className="btn btn-secondary mobile-full-width" style={{ background: 'var(--success)', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem' }} onClick={() => generateInternalExport(quotation)} title="Vista interna: costos, margen y COGS. No enviar al cliente">
+                            <ImageIcon size={16} style={{ marginRight: '0.5rem' }} /> Analisis interno (PNG)
                           </button>
-                          <button className="btn btn-secondary mobile-full-width" style={{ background: '#3b82f6', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem', color: 'white' }} onClick={() => generateClientExport(quotation)} title="Descargar imagen para cliente (sin costos)">
-                            <ImageIcon size={16} style={{ marginRight: '0.5rem' }} /> Exportar (Cliente)
+                          <button className="btn btn-secondary mobile-full-width" style={{ background: '#3b82f6', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem', color: 'white' }} onClick={() => generateClientExport(quotation)} title="Vista cliente: solo precios, descuentos y condiciones">
+                            <ImageIcon size={16} style={{ marginRight: '0.5rem' }} /> Cotizacion cliente (PNG)
                           </button>
+                          <QuotePdfExportForm quotation={quotation} generateQuotePdf={generateQuotePdf} />
                           <button className="btn btn-secondary mobile-full-width" style={{ background: 'var(--error)', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem', color: 'white', marginTop: 'auto' }} onClick={() => deleteQuotation(quotation.id)} title="Eliminar esta cotización">
                             <Trash2 size={16} style={{ marginRight: '0.5rem' }} /> Eliminar
                           </button>
@@ -892,6 +1553,24 @@ const CotizadorModule: React.FC<CotizadorModuleProps> = ({
           </div>
         </div>
       )}
+
+      {activeTab === 'report' && (
+        <QuoteWinLossReport savedQuotations={savedQuotations} isLoadingQuotations={isLoadingQuotations} formatCLP={formatCLP} />
+      )}
+
+      {activeTab === 'costs' && (
+        <ProductCostHistoryPanel
+          products={products}
+          costHistory={productCostHistory}
+          isLoadingCostHistory={isLoadingCostHistory}
+          costHistoryProductId={costHistoryProductId}
+          setCostHistoryProductId={setCostHistoryProductId}
+        />
+      )}
+
+      {activeTab === 'kits' && (
+        <ProductKitPanel products={products} saveProductKit={saveProductKit} />
+      )}
     </>
   );
 };
@@ -7,11 +7,9 @@ import type {
   ProductMovementClassification,
   ProductMovementDirection,
 } from '../types/dailyProductMovements';
-import { parseDailyProductMovementsFile } from '../utils/dailyProductMovementsParser';
+import { DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY, parseDailyProductMovementsFile } from '../utils/dailyProductMovementsParser';
 import { findImplantDefinition, IMPLANT_DEFINITIONS, type ImplantModelKey } from '../data/implantDefinitions';
 
-const STORAGE_KEY = 'megagen.dailyProductMovements.state';
-
 interface PersistedState {
   sourceFileName: string;
   parsed: DailyProductMovementsParseResult;
@@ -35,7 +33,7 @@ const formatCopyQty = (value: number): string => {
 
 const readStoredState = (): PersistedState | null => {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = localStorage.getItem(DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY);
     if (!raw) return null;
     return JSON.parse(raw) as PersistedState;
   } catch {
@@ -101,11 +99,11 @@ const DailyProductMovementsModule: React.FC = () => {
 
   useEffect(() => {
     if (!parsed || !sourceFileName) {
-      localStorage.removeItem(STORAGE_KEY);
+      localStorage.removeItem(DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY);
       return;
     }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({ sourceFileName, parsed }));
+    localStorage.setItem(DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY, JSON.stringify({ sourceFileName, parsed }));
   }, [parsed, sourceFileName]);
 
   const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -136,7 +134,7 @@ const DailyProductMovementsModule: React.FC = () => {
     setSearch('');
     setDocumentFilter('Todos');
     setDirectionFilter('ALL');
-    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY);
   };
 
   const copyQuantityValue = async (key: string, value: number) => {
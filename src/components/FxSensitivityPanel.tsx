@@ -0,0 +1,64 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import type { FxSensitivityAnalysis } from '../types/fx';
+
+interface FxSensitivityPanelProps {
+  analysis: FxSensitivityAnalysis;
+  currencyLabel: string;
+  formatCLP: (value: number) => string;
+}
+
+const formatRate = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+
+const FxSensitivityPanel: React.FC<FxSensitivityPanelProps> = ({ analysis, currencyLabel, formatCLP }) => (
+  <div className="finance-card" style={{ padding: '0.85rem' }}>
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap', marginBottom: '0.6rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontWeight: 700, fontSize: '0.85rem' }}>
+        <Activity size={15} /> Sensibilidad al tipo de cambio ({currencyLabel} {formatRate(analysis.baseRate)})
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.7rem' }}>
+        <span className="badge" title="Tipo de cambio en que la utilidad llega a cero">
+          Margen 0% a {formatRate(analysis.breakEvenRate)}
+        </span>
+        <span className="badge" title="Tipo de cambio en que el margen baja al objetivo">
+          Margen {analysis.targetMarginPercent.toFixed(1)}% a {formatRate(analysis.targetMarginRate)}
+        </span>
+      </div>
+    </div>
+    <p className="text-muted" style={{ fontSize: '0.68rem', marginBottom: '0.6rem' }}>
+      {analysis.revenueFollowsRate
+        ? 'La venta en moneda extranjera y el costo en moneda extranjera se mueven con el tipo de cambio; el costo en pesos queda fijo.'
+        : 'Precios de venta fijos en CLP; solo se mueve el costo en moneda extranjera.'}
+    </p>
+    <div className="table-container">
+      <table style={{ width: '100%', fontSize: '0.75rem' }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left' }}>Variacion</th>
+            <th style={{ textAlign: 'right' }}>Tipo de cambio</th>
+            {analysis.revenueFollowsRate && <th style={{ textAlign: 'right' }}>Venta</th>}
+            <th style={{ textAlign: 'right' }}>Costo</th>
+            <th style={{ textAlign: 'right' }}>Utilidad</th>
+            <th style={{ textAlign: 'right' }}>Margen</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analysis.scenarios.map((scenario) => (
+            <tr key={scenario.shiftPercent} style={scenario.shiftPercent === 0 ? { fontWeight: 700 } : undefined}>
+              <td>{scenario.shiftPercent === 0 ? 'Actual' : `${scenario.shiftPercent > 0 ? '+' : ''}${scenario.shiftPercent}%`}</td>
+              <td style={{ textAlign: 'right' }}>{formatRate(scenario.rate)}</td>
+              {analysis.revenueFollowsRate && <td style={{ textAlign: 'right' }}>{formatCLP(scenario.netCLP)}</td>}
+              <td style={{ textAlign: 'right' }}>{formatCLP(scenario.costCLP)}</td>
+              <td style={{ textAlign: 'right' }} className={scenario.profitCLP >= 0 ? 'positive' : 'negative'}>{formatCLP(scenario.profitCLP)}</td>
+              <td style={{ textAlign: 'right' }} className={scenario.marginPercent >= analysis.targetMarginPercent ? 'positive' : scenario.marginPercent >= 0 ? 'warning' : 'negative'}>
+                {scenario.marginPercent.toFixed(1)}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default FxSensitivityPanel;
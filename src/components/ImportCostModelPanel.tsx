@@ -0,0 +1,104 @@
+import React from 'react';
+import { IMPORT_TRADE_AGREEMENTS, IMPORT_VAT_PERCENT } from '../data/importTradeAgreements';
+import type { ImportCostCharge, ImportCostModelSettings } from '../types/imports';
+import type { ImportCurrencyCode } from '../utils/importCosting';
+import { convertImportCharge } from '../utils/importLandedCost';
+
+interface ImportCostModelPanelProps {
+  settings: ImportCostModelSettings;
+  setSettings: React.Dispatch<React.SetStateAction<ImportCostModelSettings>>;
+  dutyPercent: number;
+  usdRate: number;
+  eurRate: number;
+  formatCLP: (value: number) => string;
+}
+
+type ChargeKey = 'insurance' | 'agentFees' | 'portCharges' | 'localTransport';
+
+const CHARGE_FIELDS: Array<{ key: ChargeKey; label: string }> = [
+  { key: 'insurance', label: 'SEGURO INTERNACIONAL' },
+  { key: 'agentFees', label: 'HONORARIOS AGENTE DE ADUANA' },
+  { key: 'portCharges', label: 'PUERTO Y MANIPULACION' },
+  { key: 'localTransport', label: 'TRANSPORTE LOCAL' },
+];
+
+const CURRENCIES: ImportCurrencyCode[] = ['CLP', 'USD', 'EUR'];
+
+const ImportCostModelPanel: React.FC<ImportCostModelPanelProps> = ({
+  settings,
+  setSettings,
+  dutyPercent,
+  usdRate,
+  eurRate,
+  formatCLP,
+}) => {
+  const agreement = IMPORT_TRADE_AGREEMENTS.find((entry) => entry.id === settings.tradeAgreementId);
+  const updateCharge = (key: ChargeKey, patch: Partial<ImportCostCharge>) => {
+    setSettings((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: '0.75rem', gridTemplateColumns: 'repeat(auto-fit, minmax(210px, 1fr))', marginBottom: '1rem' }}>
+      {CHARGE_FIELDS.map(({ key, label }) => (
+        <label key={key} className="finance-card" style={{ display: 'block' }}>
+          <div className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.45rem' }}>{label}</div>
+          <div style={{ display: 'flex', gap: '0.35rem' }}>
+            <input
+              type="number"
+              className="input-field"
+              value={settings[key].amount}
+              onChange={(e) => updateCharge(key, { amount: parseFloat(e.target.value) || 0 })}
+            />
+            <select
+              className="input-field"
+              style={{ width: '80px' }}
+              value={settings[key].currency}
+              onChange={(e) => updateCharge(key, { currency: e.target.value as ImportCurrencyCode })}
+            >
+              {CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </div>
+          {settings[key].currency !== 'CLP' && (
+            <div className="text-muted" style={{ fontSize: '0.68rem', marginTop: '0.3rem' }}>
+              Equivalente CLP: {formatCLP(convertImportCharge(settings[key], usdRate, eurRate))}
+            </div>
+          )}
+        </label>
+      ))}
+
+      <div className="finance-card">
+        <div className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.45rem' }}>ARANCEL AD VALOREM SOBRE CIF</div>
+        <select
+          className="input-field"
+          style={{ marginBottom: '0.45rem' }}
+          value={settings.tradeAgreementId}
+          onChange={(e) => setSettings((prev) => ({ ...prev, tradeAgreementId: e.target.value }))}
+        >
+          {IMPORT_TRADE_AGREEMENTS.map((entry) => (
+            <option key={entry.id} value={entry.id}>{entry.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className="input-field"
+          value={settings.adValoremPercent}
+          disabled={agreement?.dutyPercent != null}
+          title={agreement?.dutyPercent != null ? 'El acuerdo comercial fija la tasa' : 'Tasa ad valorem general (%)'}
+          onChange={(e) => setSettings((prev) => ({ ...prev, adValoremPercent: parseFloat(e.target.value) || 0 }))}
+        />
+        <div className="text-muted" style={{ fontSize: '0.68rem', marginTop: '0.3rem' }}>
+          Tasa aplicada: {dutyPercent.toFixed(1)}% (los items exentos no pagan)
+        </div>
+      </div>
+
+      <div className="finance-card" style={{ fontSize: '0.72rem' }}>
+        <div className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.45rem' }}>IVA DE IMPORTACION</div>
+        IVA {IMPORT_VAT_PERCENT}% sobre CIF + ad valorem. Se registra como credito fiscal recuperable y no se suma al costo puesto en Chile.
+      </div>
+    </div>
+  );
+};
+
+export default ImportCostModelPanel;
@@ -0,0 +1,323 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Download, GitCompare, RefreshCw, Upload } from 'lucide-react';
+import type { DailyProductMovementsParseResult } from '../types/dailyProductMovements';
+import type { ImportReconciliationInvoice, ImportReconciliationStatus, PurchaseOrderRecord } from '../types/imports';
+import { DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY } from '../utils/dailyProductMovementsParser';
+import {
+  appendPurchaseOrder,
+  buildImportReconciliation,
+  collectReceivedQuantities,
+  DEFAULT_RECONCILIATION_PRICE_TOLERANCE_PERCENT,
+  IMPORT_RECONCILIATION_STATUS_LABELS,
+  listReceptionDocuments,
+  parsePurchaseOrderSheetRows,
+  parseStoredPurchaseOrders,
+  PURCHASE_ORDER_HISTORY_STORAGE_KEY,
+} from '../utils/importReconciliation';
+
+interface ImportReconciliationPanelProps {
+  invoices: ImportReconciliationInvoice[];
+  formatCLP: (value: number) => string;
+}
+
+interface StoredMovements {
+  sourceFileName: string;
+  parsed: DailyProductMovementsParseResult;
+}
+
+const statusColors: Record<ImportReconciliationStatus, string> = {
+  ok: 'var(--success)',
+  not_invoiced: '#B45309',
+  not_ordered: '#7c3aed',
+  not_received: 'var(--error)',
+  quantity_variance: 'var(--error)',
+  price_variance: '#B45309',
+};
+
+const readStoredMovements = (): StoredMovements | null => {
+  try {
+    const raw = localStorage.getItem(DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredMovements;
+    return Array.isArray(parsed?.parsed?.rows) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const formatQty = (value: number) => new Intl.NumberFormat('es-CL', { maximumFractionDigits: 2 }).format(value);
+
+const formatSignedQty = (value: number) => `${value > 0 ? '+' : ''}${formatQty(value)}`;
+
+const ImportReconciliationPanel: React.FC<ImportReconciliationPanelProps> = ({ invoices, formatCLP }) => {
+  const [orders, setOrders] = useState<PurchaseOrderRecord[]>(() => parseStoredPurchaseOrders(localStorage.getItem(PURCHASE_ORDER_HISTORY_STORAGE_KEY)));
+  const [orderId, setOrderId] = useState(() => orders[0]?.id ?? '');
+  const [invoiceId, setInvoiceId] = useState('');
+  const [movements, setMovements] = useState<StoredMovements | null>(readStoredMovements);
+  const [receptionDocuments, setReceptionDocuments] = useState<string[]>([]);
+  const [receivedFrom, setReceivedFrom] = useState(() => orders[0]?.createdAt.slice(0, 10) ?? '');
+  const [priceTolerancePercent, setPriceTolerancePercent] = useState(DEFAULT_RECONCILIATION_PRICE_TOLERANCE_PERCENT);
+  const [onlyVariances, setOnlyVariances] = useState(false);
+
+  const order = orders.find((entry) => entry.id === orderId) ?? null;
+  const invoice = invoices.find((entry) => entry.id === invoiceId) ?? invoices[0] ?? null;
+  const availableDocuments = useMemo(() => listReceptionDocuments(movements?.parsed.rows ?? [], receivedFrom), [movements, receivedFrom]);
+
+  const report = useMemo(() => {
+    if (!invoice) return null;
+    // A marked type with no receptions since the date is hidden, so it no longer narrows the count.
+    const documents = receptionDocuments.filter((document) => availableDocuments.includes(document));
+    const received = collectReceivedQuantities(movements?.parsed.rows ?? [], receivedFrom, documents);
+    return buildImportReconciliation(order, invoice, received, priceTolerancePercent);
+  }, [availableDocuments, invoice, movements, order, priceTolerancePercent, receivedFrom, receptionDocuments]);
+
+  const visibleRows = (report?.rows ?? []).filter((row) => !onlyVariances || row.status !== 'ok');
+
+  const selectOrder = (nextOrderId: string) => {
+    setOrderId(nextOrderId);
+    const next = orders.find((entry) => entry.id === nextOrderId);
+    if (next) setReceivedFrom(next.createdAt.slice(0, 10));
+  };
+
+  const handleOrderUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const lines = parsePurchaseOrderSheetRows(XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }));
+      if (!lines.length) {
+        alert('El archivo no tiene filas con SKU y Cantidad Sugerida.');
+        return;
+      }
+
+      const createdAt = new Date().toISOString();
+      const uploaded: PurchaseOrderRecord = {
+        id: `${file.name}-${createdAt}`,
+        supplierName: file.name.replace(/\.[^.]+$/, ''),
+        createdAt,
+        lines,
+      };
+      const nextOrders = appendPurchaseOrder(orders, uploaded);
+      localStorage.setItem(PURCHASE_ORDER_HISTORY_STORAGE_KEY, JSON.stringify(nextOrders));
+      setOrders(nextOrders);
+      setOrderId(uploaded.id);
+      setReceivedFrom('');
+    } catch (error) {
+      alert('Error al leer la orden de compra: ' + (error as Error).message);
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const toggleDocument = (document: string, checked: boolean) => {
+    setReceptionDocuments((prev) => (checked ? [...prev, document] : prev.filter((entry) => entry !== document)));
+  };
+
+  const exportReport = () => {
+    if (!report || !invoice) return;
+    const rows = report.rows.map((row) => ({
+      SKU: row.sku,
+      Nombre: row.name,
+      Pedido: row.orderedQty,
+      Facturado: row.invoicedQty,
+      Recibido: row.receivedQty,
+      'Dif. Factura vs Pedido': row.invoiceQtyVariance,
+      'Dif. Recepcion vs Factura': row.receptionQtyVariance,
+      'Costo Pedido CLP': row.orderedUnitCLP === null ? '' : Math.round(row.orderedUnitCLP),
+      'Costo Factura CLP': row.invoicedUnitCLP === null ? '' : Math.round(row.invoicedUnitCLP),
+      'Dif. Precio CLP': row.priceVarianceUnitCLP === null ? '' : Math.round(row.priceVarianceUnitCLP),
+      'Dif. Precio %': row.priceVariancePercent === null ? '' : Number(row.priceVariancePercent.toFixed(2)),
+      Estado: IMPORT_RECONCILIATION_STATUS_LABELS[row.status],
+    }));
+
+    const worksheet = XLSX.utils.json_to_sheet(rows);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Conciliacion');
+    const fileSafe = invoice.label.replace(/[\\/:*?"<>|]/g, '_');
+    XLSX.writeFile(workbook, `Conciliacion-${fileSafe}-${new Date().toISOString().slice(0, 10)}.xlsx`);
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: '1rem', textAlign: 'left' }}>
+      <div className="glass card">
+        <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+          <GitCompare size={18} /> Conciliacion pedido / factura / recepcion
+        </h3>
+        <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: '1rem' }}>
+          El pedido viene de las ordenes de compra exportadas en Inventario, la factura de la calculadora o de un calculo guardado,
+          y lo recibido de las entradas de compra del archivo de Movimientos diarios.
+        </p>
+
+        <div style={{ display: 'grid', gap: '0.9rem', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', marginBottom: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>ORDEN DE COMPRA</label>
+            <select className="input-field" value={orderId} onChange={(e) => selectOrder(e.target.value)}>
+              <option value="">Sin orden (solo factura vs recepcion)</option>
+              {orders.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.supplierName} - {new Date(entry.createdAt).toLocaleDateString('es-CL')} ({entry.lines.length} SKU)
+                </option>
+              ))}
+            </select>
+            <label className="btn" style={{ marginTop: '0.45rem', background: 'rgba(255,255,255,0.1)', cursor: 'pointer', fontSize: '0.75rem' }}>
+              <Upload size={14} /> Subir OC (Excel)
+              <input type="file" accept=".xlsx,.xls,.csv" onChange={handleOrderUpload} style={{ display: 'none' }} />
+            </label>
+          </div>
+          <div>
+            <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>FACTURA DEL PROVEEDOR</label>
+            <select className="input-field" value={invoice?.id ?? ''} onChange={(e) => setInvoiceId(e.target.value)} disabled={!invoices.length}>
+              {invoices.map((entry) => (
+                <option key={entry.id} value={entry.id}>{entry.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>RECIBIDO DESDE</label>
+            <input type="date" className="input-field" value={receivedFrom} onChange={(e) => setReceivedFrom(e.target.value)} />
+          </div>
+          <div>
+            <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>TOLERANCIA DE PRECIO (%)</label>
+            <input
+              type="number"
+              className="input-field"
+              min={0}
+              step={0.5}
+              value={priceTolerancePercent}
+              onChange={(e) => setPriceTolerancePercent(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.6rem', flexWrap: 'wrap', fontSize: '0.75rem' }}>
+          <span className="text-muted">
+            Movimientos: <strong>{movements ? movements.sourceFileName : 'sin archivo cargado'}</strong>
+          </span>
+          <button className="btn" style={{ background: 'rgba(255,255,255,0.1)', padding: '0.35rem 0.6rem' }} onClick={() => setMovements(readStoredMovements())}>
+            <RefreshCw size={13} /> Recargar
+          </button>
+        </div>
+        {availableDocuments.length > 0 && (
+          <div style={{ display: 'flex', gap: '0.8rem', flexWrap: 'wrap', marginTop: '0.6rem', fontSize: '0.75rem' }}>
+            <span className="text-muted">Documentos de recepcion desde la fecha (ninguno marcado = todos):</span>
+            {availableDocuments.map((document) => (
+              <label key={document} style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+                <input type="checkbox" checked={receptionDocuments.includes(document)} onChange={(e) => toggleDocument(document, e.target.checked)} />
+                {document}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!invoice || !report ? (
+        <div style={{ padding: '1rem', border: '1px dashed var(--border)', borderRadius: '12px', background: 'var(--surface)' }}>
+          Carga una factura en la calculadora o guarda un calculo de importacion para conciliarlo.
+        </div>
+      ) : (
+        <div className="glass card">
+          <div style={{ display: 'grid', gap: '0.9rem', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', marginBottom: '1rem' }}>
+            <div className="finance-card">
+              <div className="text-muted" style={{ fontSize: '0.7rem' }}>PEDIDO / FACTURADO / RECIBIDO</div>
+              <div style={{ fontWeight: 700 }}>
+                {formatQty(report.totalOrderedQty)} / {formatQty(report.totalInvoicedQty)} / {formatQty(report.totalReceivedQty)}
+              </div>
+            </div>
+            <div className="finance-card">
+              <div className="text-muted" style={{ fontSize: '0.7rem' }}>SKU QUE CUADRAN</div>
+              <div style={{ fontWeight: 700, color: 'var(--success)' }}>{report.statusCounts.ok} de {report.rows.length}</div>
+            </div>
+            <div className="finance-card">
+              <div className="text-muted" style={{ fontSize: '0.7rem' }}>DIFERENCIA DE PRECIO FACTURADA</div>
+              <div style={{ fontWeight: 700, color: report.priceVarianceAmountCLP > 0 ? 'var(--error)' : 'var(--text)' }}>
+                {formatCLP(report.priceVarianceAmountCLP)}
+              </div>
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.6rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+            <div style={{ display: 'flex', gap: '0.8rem', flexWrap: 'wrap', fontSize: '0.72rem' }}>
+              {(Object.keys(IMPORT_RECONCILIATION_STATUS_LABELS) as ImportReconciliationStatus[])
+                .filter((status) => report.statusCounts[status] > 0)
+                .map((status) => (
+                  <span key={status} style={{ color: statusColors[status], fontWeight: 600 }}>
+                    {IMPORT_RECONCILIATION_STATUS_LABELS[status]}: {report.statusCounts[status]}
+                  </span>
+                ))}
+            </div>
+            <div style={{ display: 'flex', gap: '0.6rem', alignItems: 'center' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', fontSize: '0.75rem' }}>
+                <input type="checkbox" checked={onlyVariances} onChange={(e) => setOnlyVariances(e.target.checked)} />
+                Solo diferencias
+              </label>
+              <button className="btn" style={{ background: 'rgba(255,255,255,0.1)' }} onClick={exportReport} disabled={!report.rows.length}>
+                <Download size={14} /> Exportar
+              </button>
+            </div>
+          </div>
+
+          <div className="table-container">
+            <table style={{ width: '100%', fontSize: '0.8rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left' }}>SKU</th>
+                  <th style={{ textAlign: 'left' }}>Nombre</th>
+                  <th style={{ textAlign: 'right' }}>Pedido</th>
+                  <th style={{ textAlign: 'right' }}>Facturado</th>
+                  <th style={{ textAlign: 'right' }}>Recibido</th>
+                  <th style={{ textAlign: 'right' }}>Fact. vs Pedido</th>
+                  <th style={{ textAlign: 'right' }}>Recep. vs Fact.</th>
+                  <th style={{ textAlign: 'right' }}>Costo Pedido</th>
+                  <th style={{ textAlign: 'right' }}>Costo Factura</th>
+                  <th style={{ textAlign: 'right' }}>Dif. Precio</th>
+                  <th style={{ textAlign: 'left' }}>Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row) => (
+                  <tr key={row.sku}>
+                    <td>{row.sku}</td>
+                    <td>{row.name || '—'}</td>
+                    <td style={{ textAlign: 'right' }}>{order ? formatQty(row.orderedQty) : '—'}</td>
+                    <td style={{ textAlign: 'right' }}>{formatQty(row.invoicedQty)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatQty(row.receivedQty)}</td>
+                    <td style={{ textAlign: 'right', color: order && row.invoiceQtyVariance !== 0 ? 'var(--error)' : undefined }}>
+                      {order ? formatSignedQty(row.invoiceQtyVariance) : '—'}
+                    </td>
+                    <td style={{ textAlign: 'right', color: row.receptionQtyVariance !== 0 ? 'var(--error)' : undefined }}>
+                      {formatSignedQty(row.receptionQtyVariance)}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>{row.orderedUnitCLP === null ? '—' : formatCLP(row.orderedUnitCLP)}</td>
+                    <td style={{ textAlign: 'right' }}>{row.invoicedUnitCLP === null ? '—' : formatCLP(row.invoicedUnitCLP)}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      {row.priceVarianceUnitCLP === null || row.priceVariancePercent === null
+                        ? '—'
+                        : `${formatCLP(row.priceVarianceUnitCLP)} (${row.priceVariancePercent > 0 ? '+' : ''}${row.priceVariancePercent.toFixed(1)}%)`}
+                    </td>
+                    <td style={{ color: statusColors[row.status], fontWeight: 600 }}>{IMPORT_RECONCILIATION_STATUS_LABELS[row.status]}</td>
+                  </tr>
+                ))}
+                {visibleRows.length === 0 && (
+                  <tr>
+                    <td colSpan={11} className="text-muted" style={{ textAlign: 'center', padding: '1rem' }}>
+                      {report.rows.length ? 'Todos los SKU cuadran.' : 'La factura no tiene lineas con SKU para conciliar.'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-muted" style={{ fontSize: '0.72rem', marginTop: '0.6rem' }}>
+            Costos unitarios en CLP: el pedido usa el costo de catalogo en USD al exportar la OC y la factura su precio al tipo de cambio del calculo.
+            Las diferencias de precio dentro de la tolerancia se consideran cuadradas.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportReconciliationPanel;
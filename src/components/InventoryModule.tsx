@@ -2,12 +2,14 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as XLSX from 'xlsx';
 import {
   AlertTriangle,
+  Boxes,
   Database,
   Download,
   Factory,
   RefreshCw,
   Upload,
 } from 'lucide-react';
+import type { Product } from '../data/mockProducts';
 import type {
   CurrentStock,
   DatasetUploadMeta,
@@ -30,7 +32,12 @@ import {
   parseStockFile,
   parseSupplierMasterFile,
 } from '../utils/inventoryParser';
-import { buildInventoryCalculations } from '../utils/inventoryEngine';
+import { buildInventoryCalculations, buildKitAvailability } from '../utils/inventoryEngine';
+import {
+  appendPurchaseOrder,
+  parseStoredPurchaseOrders,
+  PURCHASE_ORDER_HISTORY_STORAGE_KEY,
+} from '../utils/importReconciliation';
 
 const META_STORAGE_KEY = 'megagen.inventory.uploadMeta';
 const SETTINGS_STORAGE_KEY = 'megagen.inventory.settings';
@@ -73,7 +80,11 @@ const readStoredMetadata = (): InventoryUploadMetadata => {
   }
 };
 
-const InventoryModule: React.FC = () => {
+interface InventoryModuleProps {
+  products?: Product[];
+}
+
+const InventoryModule: React.FC<InventoryModuleProps> = ({ products = [] }) => {
   const supplierInputRef = useRef<HTMLInputElement>(null);
   const rotationInputRef = useRef<HTMLInputElement>(null);
   const stockInputRef = useRef<HTMLInputElement>(null);
@@ -207,6 +218,8 @@ const InventoryModule: React.FC = () => {
     return buildInventoryCalculations(suppliers, rotations, stocks, settings);
   }, [suppliers, rotations, stocks, settings]);
 
+  const kitAvailability = useMemo(() => buildKitAvailability(products, calculations), [products, calculations]);
+
   const suppliersList = useMemo(() => {
     const providerSet = new Set(calculations.map((item) => item.supplierName || 'SIN_PROVEEDOR'));
     return ['Todos', ...Array.from(providerSet).sort((a, b) => a.localeCompare(b, 'es'))];
@@ -236,19 +249,32 @@ const InventoryModule: React.FC = () => {
       return;
     }
 
-    const rows = filteredCalculations
+    const catalogCostBySku = new Map(
+      products
+        .filter((product) => product.sku && product.costUSD > 0)
+        .map((product) => [(product.sku || '').trim().toUpperCase(), product.costUSD]),
+    );
+    const lines = filteredCalculations
       .filter((item) => item.suggestedOrderQuantity > 0)
       .map((item) => ({
-        SKU: item.sku,
-        Nombre: item.name,
-        'Cantidad Sugerida': Math.ceil(item.suggestedOrderQuantity),
+        sku: item.sku,
+        name: item.name,
+        quantity: Math.ceil(item.suggestedOrderQuantity),
+        unitCostUSD: catalogCostBySku.get(item.sku.trim().toUpperCase()) ?? null,
       }));
 
-    if (!rows.length) {
+    if (!lines.length) {
       alert('No hay cantidades sugeridas para exportar con el proveedor actual.');
       return;
     }
 
+    const rows = lines.map((line) => ({
+      SKU: line.sku,
+      Nombre: line.name,
+      'Cantidad Sugerida': line.quantity,
+      'Costo Unit. USD': line.unitCostUSD ?? '',
+    }));
+
     const worksheet = XLSX.utils.json_to_sheet(rows);
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'PO');
@@ -256,6 +282,16 @@ const InventoryModule: React.FC = () => {
     const datePart = new Date().toISOString().slice(0, 10);
     const providerSafe = selectedSupplier.replace(/[\\/:*?"<>|]/g, '_');
     XLSX.writeFile(workbook, `PO-${providerSafe}-${datePart}.xlsx`);
+
+    // Kept so the imports module can reconcile the supplier invoice and the reception against this order.
+    const createdAt = new Date().toISOString();
+    const history = parseStoredPurchaseOrders(localStorage.getItem(PURCHASE_ORDER_HISTORY_STORAGE_KEY));
+    localStorage.setItem(PURCHASE_ORDER_HISTORY_STORAGE_KEY, JSON.stringify(appendPurchaseOrder(history, {
+      id: `${providerSafe}-${createdAt}`,
+      supplierName: selectedSupplier,
+      createdAt,
+      lines,
+    })));
   };
 
   const downloadImporterTemplate = (dataset: 'suppliers' | 'rotation' | 'stock') => {
@@ -532,6 +568,45 @@ const InventoryModule: React.FC = () => {
               </tbody>
             </table>
           </div>
+
+          {kitAvailability.length > 0 && (
+            <div style={{ marginTop: '1rem' }}>
+              <h4 style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', marginBottom: '0.5rem' }}>
+                <Boxes size={16} /> Disponibilidad de kits
+              </h4>
+              <div className="table-container">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Kit</th>
+                      <th>Componentes (stock / requerido)</th>
+                      <th style={{ textAlign: 'right' }}>Kits armables</th>
+                      <th>Limitante</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {kitAvailability.map((kit) => (
+                      <tr key={kit.kitId}>
+                        <td>{kit.kitSku ? `[${kit.kitSku}] ` : ''}{kit.kitName}</td>
+                        <td style={{ fontSize: '0.75rem' }}>
+                          {kit.components.map((component) => (
+                            <div key={component.sku} style={{ color: component.status ? statusColors[component.status] : 'var(--text-muted)' }}>
+                              {component.sku}: {component.currentStock.toFixed(0)} / {component.requiredPerKit}
+                              {component.status === null ? ' (sin datos de stock)' : ''}
+                            </div>
+                          ))}
+                        </td>
+                        <td style={{ textAlign: 'right', fontWeight: 700, color: kit.buildableUnits > 0 ? 'var(--success)' : 'var(--error)' }}>
+                          {kit.buildableUnits}
+                        </td>
+                        <td>{kit.limitingSku ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
         </>
       )}
     </section>
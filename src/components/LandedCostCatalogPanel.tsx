@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PackageCheck, X } from 'lucide-react';
+import type { Product } from '../data/mockProducts';
+import type { SavedImportSnapshotRecord, SavedSimulationRecord } from '../lib/appDataRepository';
+import { fetchWeeklyStock } from '../lib/inventorySupabase';
+import type { LandedCostPolicy, LandedCostUpdatePlan } from '../types/catalog';
+import type { ImportSnapshotCostInput } from '../utils/importLandedCost';
+import {
+  buildLandedCostUpdatePlan,
+  buildOpenQuoteLandedCostImpact,
+  LANDED_COST_POLICIES,
+  LANDED_COST_POLICY_LABELS,
+} from '../utils/landedCostCatalog';
+
+interface LandedCostCatalogPanelProps {
+  snapshot: ImportSnapshotCostInput & Pick<SavedImportSnapshotRecord, 'name' | 'catalogAppliedAt'>;
+  products: Product[];
+  quotations: SavedSimulationRecord[];
+  exchangeRate: number;
+  policy: LandedCostPolicy;
+  setPolicy: (policy: LandedCostPolicy) => void;
+  formatCLP: (value: number) => string;
+  onApply: (plan: LandedCostUpdatePlan) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatSignedPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const LandedCostCatalogPanel: React.FC<LandedCostCatalogPanelProps> = ({
+  snapshot,
+  products,
+  quotations,
+  exchangeRate,
+  policy,
+  setPolicy,
+  formatCLP,
+  onApply,
+  onClose,
+}) => {
+  const [isApplying, setIsApplying] = useState(false);
+  const [stockBySku, setStockBySku] = useState<Map<string, number> | undefined>();
+  const [stockDate, setStockDate] = useState('');
+  const isAlreadyApplied = Boolean(snapshot.catalogAppliedAt);
+
+  // Without an inventory upload the average falls back to the units stored with each product.
+  useEffect(() => {
+    let cancelled = false;
+    fetchWeeklyStock()
+      .then((stock) => {
+        if (cancelled || stock.length === 0) return;
+        setStockBySku(new Map(stock.map((entry) => [entry.sku, entry.stockLevel])));
+        setStockDate(stock.reduce((latest, entry) => (entry.lastUpdated > latest ? entry.lastUpdated : latest), ''));
+      })
+      .catch((error) => console.error('Error loading stock for landed cost:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  const plan = useMemo(
+    () => buildLandedCostUpdatePlan(snapshot, products, policy, exchangeRate, stockBySku),
+    [snapshot, products, policy, exchangeRate, stockBySku],
+  );
+  const quoteImpacts = useMemo(() => buildOpenQuoteLandedCostImpact(quotations, plan), [quotations, plan]);
+
+  const apply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(plan);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="glass card" style={{ textAlign: 'left', marginTop: '1rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginBottom: '0.5rem' }}>
+        <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <PackageCheck size={18} /> Costo puesto en Chile al catalogo
+        </h3>
+        <button className="btn" style={{ padding: '0.35rem', background: 'rgba(255,255,255,0.1)' }} onClick={onClose} title="Cerrar">
+          <X size={14} />
+        </button>
+      </div>
+      <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: '1rem' }}>
+        {snapshot.name}: las cotizaciones nuevas usaran el costo puesto en Chile de estos SKU en lugar del costo USD al tipo de cambio del dia.
+      </p>
+
+      {snapshot.catalogAppliedAt && (
+        <div className="warning" style={{ fontSize: '0.75rem', marginBottom: '0.75rem' }}>
+          Este calculo ya se aplico al catalogo el {new Date(snapshot.catalogAppliedAt).toLocaleString('es-CL')}.
+          No se puede aplicar otra vez: el embarque quedaria contado dos veces.
+        </div>
+      )}
+
+      {policy === 'weighted_average' && (
+        <p className="text-muted" style={{ fontSize: '0.72rem', marginBottom: '0.75rem' }}>
+          {stockBySku
+            ? `El costo anterior pesa solo por las unidades que siguen en bodega segun el stock del ${stockDate.slice(0, 10)}.`
+            : 'Sin stock cargado en Inventario: el costo anterior pesa por las unidades de embarques anteriores.'}
+        </p>
+      )}
+
+      <div style={{ marginBottom: '1rem', maxWidth: '320px' }}>
+        <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>POLITICA DE COSTO</label>
+        <select className="input-field" value={policy} onChange={(e) => setPolicy(e.target.value as LandedCostPolicy)}>
+          {LANDED_COST_POLICIES.map((option) => (
+            <option key={option} value={option}>{LANDED_COST_POLICY_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="table-container" style={{ marginBottom: '0.75rem' }}>
+        <table style={{ width: '100%', fontSize: '0.8rem' }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left' }}>SKU</th>
+              <th style={{ textAlign: 'left' }}>Producto</th>
+              <th style={{ textAlign: 'right' }}>Cant. embarque</th>
+              <th style={{ textAlign: 'right' }}>Costo actual CLP</th>
+              <th style={{ textAlign: 'right' }}>Unid. a costo actual</th>
+              <th style={{ textAlign: 'right' }}>Costo embarque CLP</th>
+              <th style={{ textAlign: 'right' }}>Nuevo costo CLP</th>
+              <th style={{ textAlign: 'right' }}>Var.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.rows.map((row) => (
+              <tr key={row.productId}>
+                <td>{row.sku}</td>
+                <td>{row.productName}</td>
+                <td style={{ textAlign: 'right' }}>{row.shipmentQuantity}</td>
+                <td style={{ textAlign: 'right' }} title={row.previousLandedCostCLP === null ? 'Costo USD al tipo de cambio actual' : 'Costo puesto en Chile guardado'}>
+                  {formatCLP(row.currentUnitCLP)}
+                </td>
+                <td style={{ textAlign: 'right' }}>{policy === 'weighted_average' ? row.previousLandedCostUnits : '—'}</td>
+                <td style={{ textAlign: 'right' }}>{formatCLP(row.shipmentUnitCLP)}</td>
+                <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatCLP(row.nextLandedCostCLP)}</td>
+                <td style={{ textAlign: 'right' }} className={row.nextLandedCostCLP > row.currentUnitCLP ? 'negative' : undefined}>
+                  {row.currentUnitCLP > 0 ? formatSignedPercent(((row.nextLandedCostCLP - row.currentUnitCLP) / row.currentUnitCLP) * 100) : '—'}
+                </td>
+              </tr>
+            ))}
+            {plan.rows.length === 0 && (
+              <tr>
+                <td colSpan={8} className="text-muted" style={{ textAlign: 'center', padding: '1rem' }}>
+                  Ningun SKU del calculo coincide con el catalogo.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {plan.unmatchedSkus.length > 0 && (
+        <div className="warning" style={{ fontSize: '0.72rem', marginBottom: '1rem' }}>
+          Sin producto en el catalogo: {plan.unmatchedSkus.join(', ')}.
+        </div>
+      )}
+
+      <h4 style={{ marginBottom: '0.5rem' }}>Impacto en cotizaciones abiertas</h4>
+      {quoteImpacts.length > 0 ? (
+        <div className="table-container" style={{ marginBottom: '1rem' }}>
+          <table style={{ width: '100%', fontSize: '0.8rem' }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left' }}>Cotizacion</th>
+                <th style={{ textAlign: 'left' }}>Cliente</th>
+                <th style={{ textAlign: 'right' }}>Neto CLP</th>
+                <th style={{ textAlign: 'right' }}>Margen actual</th>
+                <th style={{ textAlign: 'right' }}>Margen con nuevo costo</th>
+                <th style={{ textAlign: 'right' }}>Lineas</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quoteImpacts.map((impact) => (
+                <tr key={impact.quoteId}>
+                  <td>{impact.quoteNumber} v{impact.revision}</td>
+                  <td>{impact.clientName}</td>
+                  <td style={{ textAlign: 'right' }}>{formatCLP(impact.netTotalCLP)}</td>
+                  <td style={{ textAlign: 'right' }}>{formatPercent(impact.currentMarginPercent)}</td>
+                  <td style={{ textAlign: 'right', fontWeight: 700 }} className={impact.nextMarginPercent < impact.currentMarginPercent ? 'negative' : undefined}>
+                    {formatPercent(impact.nextMarginPercent)}
+                  </td>
+                  <td style={{ textAlign: 'right' }}>{impact.affectedLineCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: '1rem' }}>
+          Ninguna cotizacion en borrador o enviada incluye estos productos.
+        </p>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <button className="btn btn-primary" onClick={apply} disabled={isApplying || isAlreadyApplied || plan.rows.length === 0}>
+          <PackageCheck size={14} /> {isApplying ? 'Aplicando...' : `Aplicar a ${plan.rows.length} producto(s)`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LandedCostCatalogPanel;
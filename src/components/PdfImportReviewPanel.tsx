@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { FileSearch } from 'lucide-react';
+import { PDF_IMPORT_PROFILES, PDF_IMPORT_REVIEW_CONFIDENCE } from '../data/pdfImportProfiles';
+import type { PdfImportLine, PdfImportParseResult } from '../types/imports';
+import { parsePdfImportPages } from '../utils/pdfImportProfileParser';
+import type { PdfImportDocument } from '../utils/pdfImportParser';
+
+interface PdfImportReviewPanelProps {
+  fileName: string;
+  pdfDocument: PdfImportDocument;
+  onConfirm: (lines: PdfImportLine[]) => void;
+  onCancel: () => void;
+}
+
+const defaultSelection = (lines: PdfImportLine[]) => lines.map((line) => line.confidence >= PDF_IMPORT_REVIEW_CONFIDENCE);
+
+const confidenceColor = (confidence: number) => {
+  if (confidence >= PDF_IMPORT_REVIEW_CONFIDENCE) return 'var(--success)';
+  if (confidence >= 0.5) return '#B45309';
+  return 'var(--error)';
+};
+
+const profileLabel = (profileId: string | null) => (
+  PDF_IMPORT_PROFILES.find((profile) => profile.id === profileId)?.label ?? 'Ninguno'
+);
+
+const PdfImportReviewPanel: React.FC<PdfImportReviewPanelProps> = ({ fileName, pdfDocument, onConfirm, onCancel }) => {
+  const [profileOverride, setProfileOverride] = useState('');
+  const [result, setResult] = useState<PdfImportParseResult>(pdfDocument);
+  const [selected, setSelected] = useState<boolean[]>(() => defaultSelection(pdfDocument.lines));
+
+  const changeProfile = (profileId: string) => {
+    const next = profileId ? parsePdfImportPages(pdfDocument.pages, profileId) : pdfDocument;
+    setProfileOverride(profileId);
+    setResult(next);
+    setSelected(defaultSelection(next.lines));
+  };
+
+  // A corrected line is treated as reviewed, so it is marked for loading.
+  const updateLine = (index: number, patch: Partial<Pick<PdfImportLine, 'quantity' | 'unitCost'>>) => {
+    setResult((prev) => ({ ...prev, lines: prev.lines.map((line, i) => (i === index ? { ...line, ...patch } : line)) }));
+    setSelected((prev) => prev.map((value, i) => (i === index ? true : value)));
+  };
+
+  const selectedLines = result.lines.filter((_, index) => selected[index]);
+  const doubtfulCount = result.lines.filter((line) => line.confidence < PDF_IMPORT_REVIEW_CONFIDENCE).length;
+
+  return (
+    <div className="glass card" style={{ textAlign: 'left', marginBottom: '1.25rem' }}>
+      <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        <FileSearch size={18} /> Revision de PDF: {fileName}
+      </h3>
+      <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: '1rem' }}>
+        Perfil detectado: <strong>{profileLabel(result.detectedProfileId)}</strong>
+        {result.profileId !== result.detectedProfileId && <> | Perfil usado: <strong>{profileLabel(result.profileId)}</strong></>}
+        {' '}| Las lineas con confianza menor a {Math.round(PDF_IMPORT_REVIEW_CONFIDENCE * 100)}% quedan sin marcar.
+        {' '}Corrige la cantidad o el costo aqui antes de cargar.
+      </p>
+
+      <div style={{ marginBottom: '1rem', maxWidth: '360px' }}>
+        <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>PERFIL DE LECTURA</label>
+        <select className="input-field" value={profileOverride} onChange={(e) => changeProfile(e.target.value)}>
+          <option value="">Automatico</option>
+          {PDF_IMPORT_PROFILES.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="table-container" style={{ marginBottom: '0.75rem' }}>
+        <table style={{ width: '100%', fontSize: '0.8rem' }}>
+          <thead>
+            <tr>
+              <th />
+              <th style={{ textAlign: 'right' }}>Pag.</th>
+              <th style={{ textAlign: 'left' }}>SKU</th>
+              <th style={{ textAlign: 'left' }}>Descripcion</th>
+              <th style={{ textAlign: 'right' }}>Cant.</th>
+              <th style={{ textAlign: 'right' }}>Costo Unit.</th>
+              <th style={{ textAlign: 'right' }}>Confianza</th>
+              <th style={{ textAlign: 'left' }}>Observaciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.lines.map((line, index) => (
+              <tr key={`${line.sku}-${index}`}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={Boolean(selected[index])}
+                    onChange={(e) => setSelected((prev) => prev.map((value, i) => (i === index ? e.target.checked : value)))}
+                  />
+                </td>
+                <td style={{ textAlign: 'right' }}>{line.page}</td>
+                <td>{line.sku || '—'}</td>
+                <td>{line.name || '—'}</td>
+                <td style={{ textAlign: 'right' }}>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    style={{ width: '70px', textAlign: 'right', padding: '0.25rem 0.4rem' }}
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  />
+                </td>
+                <td style={{ textAlign: 'right' }}>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="input-field"
+                    style={{ width: '90px', textAlign: 'right', padding: '0.25rem 0.4rem' }}
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  />
+                </td>
+                <td style={{ textAlign: 'right', fontWeight: 700, color: confidenceColor(line.confidence) }}>
+                  {Math.round(line.confidence * 100)}%
+                </td>
+                <td className="text-muted" style={{ fontSize: '0.72rem' }}>{line.issues.join('; ') || 'OK'}</td>
+              </tr>
+            ))}
+            {result.lines.length === 0 && (
+              <tr>
+                <td colSpan={8} className="text-muted" style={{ textAlign: 'center', padding: '1rem' }}>
+                  No se detectaron filas de productos con este perfil. Prueba otro perfil o sube el Excel.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <div className="text-muted" style={{ fontSize: '0.75rem' }}>
+          {selectedLines.length} de {result.lines.length} lineas marcadas | {doubtfulCount} por revisar
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button className="btn" style={{ background: 'rgba(255,255,255,0.1)' }} onClick={() => setSelected(result.lines.map(() => true))}>
+            Marcar todas
+          </button>
+          <button className="btn" style={{ background: 'rgba(239,68,68,0.12)', color: 'var(--error)' }} onClick={onCancel}>
+            Descartar
+          </button>
+          <button className="btn btn-primary" onClick={() => onConfirm(selectedLines)} disabled={selectedLines.length === 0}>
+            Cargar {selectedLines.length} linea(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfImportReviewPanel;
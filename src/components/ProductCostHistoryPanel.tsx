@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import type { Product } from '../data/mockProducts';
+import type { ProductCostHistoryEntry } from '../types/catalog';
+import {
+  buildProductCostChangeReport,
+  buildProductCostTimeline,
+  PRODUCT_COST_SOURCE_LABELS,
+} from '../utils/productCostHistory';
+
+interface ProductCostHistoryPanelProps {
+  products: Product[];
+  costHistory: ProductCostHistoryEntry[];
+  isLoadingCostHistory: boolean;
+  costHistoryProductId: string;
+  setCostHistoryProductId: React.Dispatch<React.SetStateAction<string>>;
+}
+
+const DEFAULT_REPORT_WINDOW_DAYS = 90;
+const DEFAULT_THRESHOLD_PERCENT = 5;
+
+const formatCostUSD = (value: number) => `US$${value.toFixed(2)}`;
+
+const formatCostCLP = (value: number) => new Intl.NumberFormat('es-CL', { style: 'currency', currency: 'CLP', maximumFractionDigits: 0 }).format(value);
+
+const formatChangePercent = (value: number | null) => (value == null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`);
+
+const formatHistoryDate = (value: string) => new Date(value).toLocaleDateString('es-CL');
+
+const defaultSinceDate = () => {
+  const since = new Date();
+  since.setDate(since.getDate() - DEFAULT_REPORT_WINDOW_DAYS);
+  return since.toISOString().slice(0, 10);
+};
+
+const ProductCostHistoryPanel: React.FC<ProductCostHistoryPanelProps> = ({
+  products,
+  costHistory,
+  isLoadingCostHistory,
+  costHistoryProductId,
+  setCostHistoryProductId,
+}) => {
+  const [sinceDate, setSinceDate] = useState(defaultSinceDate);
+  const [thresholdPercent, setThresholdPercent] = useState(DEFAULT_THRESHOLD_PERCENT);
+  const reportRows = useMemo(
+    () => buildProductCostChangeReport(costHistory, products, sinceDate, thresholdPercent),
+    [costHistory, products, sinceDate, thresholdPercent],
+  );
+  const timeline = useMemo(
+    () => (costHistoryProductId ? buildProductCostTimeline(costHistory, costHistoryProductId) : []),
+    [costHistory, costHistoryProductId],
+  );
+  const selectedProduct = products.find((product) => product.id === costHistoryProductId);
+
+  return (
+    <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+      <div className="glass card">
+        <h2 style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <TrendingUp size={24} />
+          Variacion de Costos
+        </h2>
+        <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: '1rem' }}>
+          Compara el costo vigente en la fecha elegida con el costo actual del catalogo.
+        </p>
+        <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+          <div>
+            <label className="text-muted" style={{ display: 'block', fontSize: '0.75rem', marginBottom: '0.3rem' }}>Desde</label>
+            <input type="date" className="input-field" value={sinceDate} onChange={(e) => setSinceDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-muted" style={{ display: 'block', fontSize: '0.75rem', marginBottom: '0.3rem' }}>Variacion minima (%)</label>
+            <input
+              type="number"
+              className="input-field"
+              min={0}
+              step={0.5}
+              value={thresholdPercent}
+              onChange={(e) => setThresholdPercent(Math.max(0, Number(e.target.value) || 0))}
+              style={{ width: '120px' }}
+            />
+          </div>
+        </div>
+
+        {isLoadingCostHistory ? (
+          <p className="text-muted">Cargando historial de costos...</p>
+        ) : reportRows.length === 0 ? (
+          <p className="text-muted">Ningun producto cambio su costo mas de {thresholdPercent}% desde esa fecha.</p>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '0.85rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left' }}>Producto</th>
+                  <th style={{ textAlign: 'left' }}>Categoria</th>
+                  <th style={{ textAlign: 'right' }}>Costo base</th>
+                  <th style={{ textAlign: 'right' }}>Costo actual</th>
+                  <th style={{ textAlign: 'right' }}>Variacion</th>
+                  <th style={{ textAlign: 'center' }}>Cambios</th>
+                  <th style={{ textAlign: 'right' }}>Ultimo cambio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reportRows.map((row) => (
+                  <tr key={row.productId} onClick={() => setCostHistoryProductId(row.productId)} style={{ cursor: 'pointer' }}>
+                    <td>
+                      <span className="text-muted" style={{ fontSize: '0.7rem' }}>[{row.sku || 'S/SKU'}]</span> {row.productName}
+                    </td>
+                    <td>{row.category ?? 'Eliminado del catalogo'}</td>
+                    <td style={{ textAlign: 'right' }}>{formatCostUSD(row.baselineCostUSD)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatCostUSD(row.currentCostUSD)}</td>
+                    <td style={{ textAlign: 'right', fontWeight: 700 }} className={row.changePercent > 0 ? 'negative' : 'positive'}>
+                      {formatChangePercent(row.changePercent)}
+                    </td>
+                    <td style={{ textAlign: 'center' }}>{row.changeCount}</td>
+                    <td style={{ textAlign: 'right' }}>{formatHistoryDate(row.lastChangedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="glass card" style={{ marginTop: '1.5rem' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+          <h3>Historial por Producto</h3>
+          <select className="input-field" value={costHistoryProductId} onChange={(e) => setCostHistoryProductId(e.target.value)} style={{ maxWidth: '420px' }}>
+            <option value="">Selecciona un producto...</option>
+            {products.map((product) => (
+              <option key={product.id} value={product.id}>{product.sku ? `[${product.sku}] ` : ''}{product.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {!costHistoryProductId ? (
+          <p className="text-muted" style={{ fontSize: '0.8rem' }}>Elige un producto o haz clic en una fila del reporte para ver su linea de tiempo.</p>
+        ) : timeline.length === 0 ? (
+          <p className="text-muted" style={{ fontSize: '0.8rem' }}>
+            {selectedProduct?.name ?? 'Este producto'} aun no tiene costos registrados. El historial parte con la proxima sincronizacion.
+          </p>
+        ) : (
+          <table style={{ width: '100%', fontSize: '0.85rem' }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left' }}>Fecha</th>
+                <th style={{ textAlign: 'left' }}>Origen</th>
+                <th style={{ textAlign: 'right' }}>Costo anterior</th>
+                <th style={{ textAlign: 'right' }}>Costo</th>
+                <th style={{ textAlign: 'right' }}>Variacion</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...timeline].reverse().map((point, index) => (
+                <tr key={`${point.recordedAt}-${index}`}>
+                  <td>{formatHistoryDate(point.recordedAt)}</td>
+                  <td>{PRODUCT_COST_SOURCE_LABELS[point.source]}</td>
+                  {point.source === 'import_landed_cost' ? (
+                    <>
+                      <td style={{ textAlign: 'right' }}>{point.previousLandedCostCLP == null ? '—' : formatCostCLP(point.previousLandedCostCLP)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatCostCLP(point.landedCostCLP ?? 0)}</td>
+                    </>
+                  ) : (
+                    <>
+                      <td style={{ textAlign: 'right' }}>{point.previousCostUSD == null ? '—' : formatCostUSD(point.previousCostUSD)}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatCostUSD(point.costUSD)}</td>
+                    </>
+                  )}
+                  <td style={{ textAlign: 'right' }} className={point.changePercent && point.changePercent > 0 ? 'negative' : 'positive'}>
+                    {formatChangePercent(point.changePercent)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductCostHistoryPanel;
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { Boxes, Plus, Save, Trash2 } from 'lucide-react';
+import type { Product, ProductKitComponent } from '../data/mockProducts';
+import { deriveKitCost, isKitProduct, normalizeKitComponents } from '../utils/productKits';
+
+interface ProductKitPanelProps {
+  products: Product[];
+  saveProductKit: (kit: Product, components: ProductKitComponent[]) => Promise<void>;
+}
+
+const formatCostUSD = (value: number) => `US$${value.toFixed(2)}`;
+
+// Null for blank, non-numeric or non-positive input, so a cleared field is never read as 0.
+const parseKitQuantity = (rawValue: string): number | null => {
+  const quantity = Number(rawValue.trim().replace(',', '.'));
+  return rawValue.trim() && Number.isFinite(quantity) && quantity > 0 ? quantity : null;
+};
+
+const ProductKitPanel: React.FC<ProductKitPanelProps> = ({ products, saveProductKit }) => {
+  const [kitId, setKitId] = useState('');
+  const [draft, setDraft] = useState<ProductKitComponent[]>([]);
+  const [componentSku, setComponentSku] = useState('');
+  const [componentQuantity, setComponentQuantity] = useState('1');
+  // Raw text of edited quantities, keyed by SKU; the draft only takes values that parse.
+  const [quantityInputs, setQuantityInputs] = useState<Record<string, string>>({});
+  const [draftError, setDraftError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const kit = products.find((product) => product.id === kitId) || null;
+  const kitOptions = useMemo(
+    () => [...products].sort((a, b) => Number(isKitProduct(b)) - Number(isKitProduct(a)) || a.name.localeCompare(b.name, 'es')),
+    [products],
+  );
+  // Components are referenced by SKU, and nested kits are not supported.
+  const componentOptions = useMemo(
+    () => products.filter((product) => product.sku && product.id !== kitId && !isKitProduct(product)),
+    [products, kitId],
+  );
+  const productBySku = useMemo(
+    () => new Map(products.filter((product) => product.sku).map((product) => [(product.sku || '').trim().toUpperCase(), product])),
+    [products],
+  );
+  const breakdown = kit ? deriveKitCost({ ...kit, components: draft }, products) : null;
+  const invalidQuantitySkus = draft
+    .filter((component) => component.sku in quantityInputs && parseKitQuantity(quantityInputs[component.sku]) === null)
+    .map((component) => component.sku);
+
+  const selectKit = (nextKitId: string) => {
+    setKitId(nextKitId);
+    setDraft(products.find((product) => product.id === nextKitId)?.components ?? []);
+    setQuantityInputs({});
+    setDraftError('');
+  };
+
+  const forgetQuantityInput = (sku: string) => {
+    setQuantityInputs((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== sku)));
+  };
+
+  const addComponent = () => {
+    const quantity = parseKitQuantity(componentQuantity);
+    if (!componentSku) return;
+    if (quantity === null) {
+      setDraftError('Ingresa una cantidad mayor a cero para el componente.');
+      return;
+    }
+    setDraft((prev) => normalizeKitComponents([...prev, { sku: componentSku, quantity }]));
+    forgetQuantityInput(componentSku);
+    setDraftError('');
+    setComponentSku('');
+    setComponentQuantity('1');
+  };
+
+  const updateComponentQuantity = (sku: string, rawValue: string) => {
+    setQuantityInputs((prev) => ({ ...prev, [sku]: rawValue }));
+    const quantity = parseKitQuantity(rawValue);
+    if (quantity === null) return;
+    setDraft((prev) => prev.map((component) => (component.sku === sku ? { ...component, quantity } : component)));
+  };
+
+  const removeComponent = (sku: string) => {
+    setDraft((prev) => prev.filter((row) => row.sku !== sku));
+    forgetQuantityInput(sku);
+  };
+
+  const saveDraft = async () => {
+    if (!kit) return;
+    if (invalidQuantitySkus.length > 0) {
+      setDraftError(`Revisa la cantidad de ${invalidQuantitySkus.join(', ')}: debe ser mayor a cero. Para sacar un componente usa el boton de quitar.`);
+      return;
+    }
+    setDraftError('');
+    setIsSaving(true);
+    try {
+      await saveProductKit(kit, normalizeKitComponents(draft));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass card" style={{ textAlign: 'left' }}>
+      <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        <Boxes size={18} /> Kits y composicion
+      </h3>
+      <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: '1rem' }}>
+        Un kit se cotiza como una sola linea y su costo es la suma de sus componentes del catalogo.
+      </p>
+
+      <div style={{ marginBottom: '1rem', maxWidth: '480px' }}>
+        <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>PRODUCTO KIT</label>
+        <select className="input-field" value={kitId} onChange={(e) => selectKit(e.target.value)}>
+          <option value="">Selecciona un producto</option>
+          {kitOptions.map((product) => (
+            <option key={product.id} value={product.id}>
+              {isKitProduct(product) ? '[Kit] ' : ''}{product.name}{product.sku ? ` (${product.sku})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {kit && (
+        <>
+          <div className="table-container" style={{ marginBottom: '0.75rem' }}>
+            <table style={{ width: '100%', fontSize: '0.8rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left' }}>SKU</th>
+                  <th style={{ textAlign: 'left' }}>Componente</th>
+                  <th style={{ textAlign: 'right' }}>Cantidad</th>
+                  <th style={{ textAlign: 'right' }}>Costo unit.</th>
+                  <th style={{ textAlign: 'right' }}>Subtotal</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.map((component) => {
+                  const product = productBySku.get(component.sku.trim().toUpperCase());
+                  return (
+                    <tr key={component.sku}>
+                      <td>{component.sku}</td>
+                      <td className={product ? undefined : 'negative'}>{product?.name ?? 'No esta en el catalogo'}</td>
+                      <td style={{ textAlign: 'right' }}>
+                        <input
+                          className="input-field"
+                          type="number"
+                          min={0}
+                          style={{ width: '80px', textAlign: 'right', borderColor: invalidQuantitySkus.includes(component.sku) ? 'var(--error)' : undefined }}
+                          value={quantityInputs[component.sku] ?? component.quantity}
+                          onChange={(e) => updateComponentQuantity(component.sku, e.target.value)}
+                        />
+                      </td>
+                      <td style={{ textAlign: 'right' }}>{product ? formatCostUSD(product.costUSD) : '—'}</td>
+                      <td style={{ textAlign: 'right' }}>{product ? formatCostUSD(product.costUSD * component.quantity) : '—'}</td>
+                      <td style={{ textAlign: 'right' }}>
+                        <button
+                          className="btn"
+                          style={{ padding: '0.3rem', background: 'rgba(239, 68, 68, 0.1)', color: 'var(--error)' }}
+                          onClick={() => removeComponent(component.sku)}
+                          title="Quitar componente"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {draft.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="text-muted" style={{ textAlign: 'center', padding: '1rem' }}>
+                      Sin componentes: el producto se cotiza como un item simple.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'end', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            <div style={{ flex: '1 1 280px' }}>
+              <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>COMPONENTE</label>
+              <select className="input-field" value={componentSku} onChange={(e) => setComponentSku(e.target.value)}>
+                <option value="">Selecciona un SKU</option>
+                {componentOptions.map((product) => (
+                  <option key={product.id} value={product.sku}>{product.sku} · {product.name}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ width: '100px' }}>
+              <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>CANTIDAD</label>
+              <input className="input-field" value={componentQuantity} onChange={(e) => setComponentQuantity(e.target.value)} />
+            </div>
+            <button className="btn" style={{ background: 'rgba(255,255,255,0.1)' }} onClick={addComponent} disabled={!componentSku}>
+              <Plus size={14} /> Agregar
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+            <div style={{ fontSize: '0.8rem' }}>
+              <div>
+                Costo derivado: <strong>{formatCostUSD(breakdown?.costUSD ?? 0)}</strong>
+                {breakdown?.suggestedPriceUSD !== undefined && (
+                  <span className="text-muted"> · Lista componentes: {formatCostUSD(breakdown.suggestedPriceUSD)}</span>
+                )}
+              </div>
+              {breakdown && breakdown.missingSkus.length > 0 && (
+                <div className="warning" style={{ fontSize: '0.72rem', marginTop: '0.2rem' }}>
+                  Faltan en el catalogo: {breakdown.missingSkus.join(', ')}. Se mantiene el costo guardado del kit.
+                </div>
+              )}
+              {draftError && <div className="negative" style={{ fontSize: '0.72rem', marginTop: '0.2rem' }}>{draftError}</div>}
+            </div>
+            <button className="btn btn-primary" onClick={saveDraft} disabled={isSaving}>
+              <Save size={14} /> {isSaving ? 'Guardando...' : 'Guardar composicion'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProductKitPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Building2, UserPlus, X } from 'lucide-react';
+import type { QuoteClient } from '../types/quotation';
+import { searchQuoteClients, type QuoteClientInput } from '../utils/quoteClients';
+
+interface QuoteClientPickerProps {
+  quoteClient: QuoteClient | null;
+  clientDirectory: QuoteClient[];
+  refreshCRMClients: () => void;
+  selectQuoteClient: (client: QuoteClient | null) => void;
+  createQuoteClient: (input: QuoteClientInput) => Promise<string | null>;
+}
+
+const EMPTY_CLIENT_INPUT: QuoteClientInput = { rut: '', name: '', salesRep: '', contact: {} };
+
+const QuoteClientPicker: React.FC<QuoteClientPickerProps> = ({
+  quoteClient,
+  clientDirectory,
+  refreshCRMClients,
+  selectQuoteClient,
+  createQuoteClient,
+}) => {
+  const [query, setQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [clientInput, setClientInput] = useState<QuoteClientInput>(EMPTY_CLIENT_INPUT);
+  const [createError, setCreateError] = useState('');
+  const matches = searchQuoteClients(clientDirectory, query);
+  const crmClientCount = clientDirectory.filter((client) => client.source === 'crm').length;
+
+  const handleSelect = (client: QuoteClient) => {
+    selectQuoteClient(client);
+    setQuery('');
+  };
+
+  const handleCreate = async () => {
+    const error = await createQuoteClient(clientInput);
+    setCreateError(error ?? '');
+    if (!error) {
+      setClientInput(EMPTY_CLIENT_INPUT);
+      setIsCreating(false);
+    }
+  };
+
+  const updateContact = (field: 'name' | 'email' | 'phone', value: string) => {
+    setClientInput((prev) => ({ ...prev, contact: { ...prev.contact, [field]: value } }));
+  };
+
+  return (
+    <div className="glass card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Building2 size={18} /> Cliente
+        </h3>
+        <span className="text-muted" style={{ fontSize: '0.65rem' }}>{crmClientCount} clientes en CRM</span>
+      </div>
+
+      {quoteClient ? (
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '0.5rem', padding: '0.75rem', borderRadius: '10px', background: 'rgba(0,0,0,0.18)' }}>
+          <div style={{ fontSize: '0.8rem' }}>
+            <strong>{quoteClient.name}</strong>
+            <div className="text-muted" style={{ fontSize: '0.7rem' }}>
+              RUT {quoteClient.rut} · {quoteClient.salesRep ? `Vendedor: ${quoteClient.salesRep}` : 'Sin vendedor asignado'}
+            </div>
+            {quoteClient.contact.name && (
+              <div className="text-muted" style={{ fontSize: '0.7rem' }}>
+                {[quoteClient.contact.name, quoteClient.contact.email, quoteClient.contact.phone].filter(Boolean).join(' · ')}
+              </div>
+            )}
+            <span className="badge" style={{ marginTop: '0.35rem', fontSize: '0.6rem', background: quoteClient.source === 'crm' ? 'rgba(59,130,246,0.18)' : 'rgba(255,255,255,0.1)', color: quoteClient.source === 'crm' ? '#93c5fd' : undefined }}>
+              {quoteClient.source === 'crm' ? 'CRM' : 'Creado en cotizador'}
+            </span>
+          </div>
+          <button onClick={() => selectQuoteClient(null)} title="Quitar cliente" style={{ background: 'transparent', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: '0.2rem' }}>
+            <X size={14} />
+          </button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem' }}>
+          <input
+            type="text"
+            className="input-field"
+            placeholder="Buscar por razon social, RUT o vendedor..."
+            value={query}
+            onFocus={refreshCRMClients}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          {matches.map((client) => (
+            <button
+              key={client.rut}
+              className="btn"
+              style={{ justifyContent: 'space-between', fontSize: '0.72rem', background: 'rgba(255,255,255,0.05)', textAlign: 'left' }}
+              onClick={() => handleSelect(client)}
+            >
+              <span>{client.name}</span>
+              <span className="text-muted">{client.rut}{client.salesRep ? ` · ${client.salesRep}` : ''}</span>
+            </button>
+          ))}
+          {query.trim() && matches.length === 0 && (
+            <div className="text-muted" style={{ fontSize: '0.7rem' }}>Sin coincidencias en la base de clientes.</div>
+          )}
+
+          {isCreating ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', marginTop: '0.4rem' }}>
+              <div className="grid" style={{ gridTemplateColumns: '0.8fr 1.2fr', gap: '0.4rem' }}>
+                <input type="text" className="input-field" placeholder="RUT" value={clientInput.rut} onChange={(e) => setClientInput((prev) => ({ ...prev, rut: e.target.value }))} />
+                <input type="text" className="input-field" placeholder="Razon social" value={clientInput.name} onChange={(e) => setClientInput((prev) => ({ ...prev, name: e.target.value }))} />
+              </div>
+              <input type="text" className="input-field" placeholder="Vendedor (por defecto el de la cotizacion)" value={clientInput.salesRep} onChange={(e) => setClientInput((prev) => ({ ...prev, salesRep: e.target.value }))} />
+              <div className="grid" style={{ gridTemplateColumns: '1fr 1fr 1fr', gap: '0.4rem' }}>
+                <input type="text" className="input-field" placeholder="Contacto" value={clientInput.contact?.name ?? ''} onChange={(e) => updateContact('name', e.target.value)} />
+                <input type="email" className="input-field" placeholder="Email" value={clientInput.contact?.email ?? ''} onChange={(e) => updateContact('email', e.target.value)} />
+                <input type="text" className="input-field" placeholder="Telefono" value={clientInput.contact?.phone ?? ''} onChange={(e) => updateContact('phone', e.target.value)} />
+              </div>
+              {createError && <div className="negative" style={{ fontSize: '0.7rem' }}>{createError}</div>}
+              <div style={{ display: 'flex', gap: '0.4rem' }}>
+                <button className="btn btn-primary" style={{ flex: 1, fontSize: '0.75rem' }} onClick={() => { void handleCreate(); }}>Crear y asignar</button>
+                <button className="btn" style={{ fontSize: '0.75rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => setIsCreating(false)}>Cancelar</button>
+              </div>
+            </div>
+          ) : (
+            <button className="btn" style={{ fontSize: '0.72rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => setIsCreating(true)}>
+              <UserPlus size={14} style={{ marginRight: '0.35rem' }} /> Nuevo cliente
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteClientPicker;
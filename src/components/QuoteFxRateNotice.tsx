@@ -0,0 +1,42 @@
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import type { FxRateComparison } from '../types/fx';
+import type { QuoteCalculationResult } from '../types/quotation';
+import { formatFxDate } from '../utils/fxRates';
+
+interface QuoteFxRateNoticeProps {
+  comparison: FxRateComparison;
+  quoteResult: QuoteCalculationResult;
+  quoteAtCurrentFxRate: QuoteCalculationResult | null;
+  applyCurrentFxRate: () => void;
+  formatCLP: (value: number) => string;
+}
+
+const QuoteFxRateNotice: React.FC<QuoteFxRateNoticeProps> = ({
+  comparison,
+  quoteResult,
+  quoteAtCurrentFxRate,
+  applyCurrentFxRate,
+  formatCLP,
+}) => (
+  <div style={{ marginBottom: '1rem', padding: '0.75rem 1rem', borderRadius: '12px', background: 'rgba(245, 158, 11, 0.1)', border: '1px solid rgba(245, 158, 11, 0.35)', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+    <div style={{ fontSize: '0.75rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontWeight: 700, color: '#fbbf24' }}>
+        <CalendarClock size={14} /> Dolar fijado al {formatFxDate(comparison.pinnedDate)}: {formatCLP(comparison.pinnedRate)}
+      </div>
+      <div className="text-muted" style={{ marginTop: '0.2rem' }}>
+        Ultimo publicado ({formatFxDate(comparison.currentDate)}): {formatCLP(comparison.currentRate)} · {comparison.changePercent > 0 ? '+' : ''}{comparison.changePercent.toFixed(1)}%
+      </div>
+      {quoteAtCurrentFxRate && (
+        <div className="text-muted" style={{ marginTop: '0.2rem' }}>
+          Con ese dolar: neto {formatCLP(quoteAtCurrentFxRate.totalNetCLP)} (hoy {formatCLP(quoteResult.totalNetCLP)}) · margen {quoteAtCurrentFxRate.totalMarginPercent.toFixed(1)}% (hoy {quoteResult.totalMarginPercent.toFixed(1)}%)
+        </div>
+      )}
+    </div>
+    <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(245, 158, 11, 0.18)', color: '#fbbf24' }} onClick={applyCurrentFxRate}>
+      Recalcular con dolar actual
+    </button>
+  </div>
+);
+
+export default QuoteFxRateNotice;
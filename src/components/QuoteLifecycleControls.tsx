@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { QUOTE_LOSS_REASONS } from '../data/quoteLossReasons';
+import type { SavedSimulationRecord, SimulationStatusPatch } from '../lib/appDataRepository';
+import type { QuoteLifecycleStatus } from '../types/quotation';
+import { QUOTE_STATUS_LABELS, QUOTE_STATUS_TRANSITIONS, resolveQuoteStatus } from '../utils/quoteLifecycle';
+
+interface QuoteLifecycleControlsProps {
+  quotation: SavedSimulationRecord;
+  updateQuotationStatus: (quotation: SavedSimulationRecord, patch: SimulationStatusPatch) => Promise<boolean>;
+}
+
+const QUOTE_STATUS_STYLES: Record<QuoteLifecycleStatus, { color: string; background: string }> = {
+  draft: { color: '#e5e7eb', background: 'rgba(255,255,255,0.12)' },
+  sent: { color: '#93c5fd', background: 'rgba(59,130,246,0.18)' },
+  accepted: { color: '#86efac', background: 'rgba(34,197,94,0.15)' },
+  rejected: { color: '#fca5a5', background: 'rgba(239,68,68,0.15)' },
+  expired: { color: '#fcd34d', background: 'rgba(245,158,11,0.15)' },
+};
+
+const ACTION_LABELS: Record<QuoteLifecycleStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Marcar enviada',
+  accepted: 'Aceptada',
+  rejected: 'Rechazada',
+  expired: 'Vencida',
+};
+
+const QuoteLifecycleControls: React.FC<QuoteLifecycleControlsProps> = ({ quotation, updateQuotationStatus }) => {
+  const [pendingLoss, setPendingLoss] = useState<'rejected' | 'expired' | null>(null);
+  const [lossReason, setLossReason] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const status = resolveQuoteStatus(quotation);
+  const statusStyle = QUOTE_STATUS_STYLES[status];
+  // Transitions follow the stored status, so a quote that lapsed on its own can still be closed.
+  const nextStatuses = QUOTE_STATUS_TRANSITIONS[quotation.status];
+
+  const applyStatus = async (patch: SimulationStatusPatch) => {
+    setIsUpdating(true);
+    const updated = await updateQuotationStatus(quotation, patch);
+    setIsUpdating(false);
+    if (updated) {
+      setPendingLoss(null);
+      setLossReason('');
+    }
+  };
+
+  const handleAction = (nextStatus: QuoteLifecycleStatus) => {
+    if (nextStatus === 'rejected' || nextStatus === 'expired') {
+      setPendingLoss(pendingLoss === nextStatus ? null : nextStatus);
+      return;
+    }
+    void applyStatus({ status: nextStatus });
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.75rem' }}>
+        <span className="badge" style={{ background: statusStyle.background, color: statusStyle.color, fontWeight: 700 }}>
+          {QUOTE_STATUS_LABELS[status]}
+        </span>
+        {quotation.valid_until && (
+          <span className="text-muted" style={{ display: 'inline-flex', alignItems: 'center', gap: '0.3rem' }}>
+            <CalendarClock size={12} /> Valida hasta {new Date(`${quotation.valid_until}T00:00:00`).toLocaleDateString('es-CL')}
+          </span>
+        )}
+        {quotation.loss_reason && (
+          <span className="text-muted">Motivo: {quotation.loss_reason}</span>
+        )}
+        {nextStatuses.map((nextStatus) => (
+          <button
+            key={nextStatus}
+            className="btn"
+            disabled={isUpdating}
+            style={{ fontSize: '0.65rem', padding: '0.2rem 0.6rem', background: QUOTE_STATUS_STYLES[nextStatus].background, color: QUOTE_STATUS_STYLES[nextStatus].color }}
+            onClick={() => handleAction(nextStatus)}
+          >
+            {ACTION_LABELS[nextStatus]}
+          </button>
+        ))}
+      </div>
+
+      {pendingLoss && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: '0.4rem', maxWidth: '420px' }}>
+          <select className="input-field" value={lossReason} onChange={(e) => setLossReason(e.target.value)}>
+            <option value="">{pendingLoss === 'rejected' ? 'Motivo de perdida...' : 'Motivo (opcional)...'}</option>
+            {QUOTE_LOSS_REASONS.map((reason) => (
+              <option key={reason} value={reason}>{reason}</option>
+            ))}
+          </select>
+          <button
+            className="btn btn-primary"
+            disabled={isUpdating || (pendingLoss === 'rejected' && !lossReason)}
+            style={{ fontSize: '0.7rem' }}
+            onClick={() => void applyStatus({ status: pendingLoss, loss_reason: lossReason })}
+          >
+            Confirmar {QUOTE_STATUS_LABELS[pendingLoss].toLowerCase()}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteLifecycleControls;
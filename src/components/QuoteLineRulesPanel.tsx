@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ListChecks, Plus, Save, Trash2 } from 'lucide-react';
+import type {
+  LinePricingMode,
+  QuoteLineDefaultRule,
+  QuoteLineRuleField,
+  QuoteLineRuleOperator,
+} from '../types/quotation';
+import {
+  LINE_MODES_WITHOUT_VALUE,
+  QUOTE_LINE_RULE_FIELD_LABELS,
+  QUOTE_LINE_RULE_OPERATOR_LABELS,
+} from '../utils/quoteLineRules';
+
+interface QuoteLineRulesPanelProps {
+  quoteLineRules: QuoteLineDefaultRule[];
+  lineModeOptions: Array<{ value: LinePricingMode; label: string }>;
+  addQuoteLineRule: () => void;
+  updateQuoteLineRule: (id: string, patch: Partial<Omit<QuoteLineDefaultRule, 'id'>>) => void;
+  removeQuoteLineRule: (id: string) => void;
+  saveQuoteLineRuleSet: () => Promise<string | null>;
+}
+
+const QuoteLineRulesPanel: React.FC<QuoteLineRulesPanelProps> = ({
+  quoteLineRules,
+  lineModeOptions,
+  addQuoteLineRule,
+  updateQuoteLineRule,
+  removeQuoteLineRule,
+  saveQuoteLineRuleSet,
+}) => {
+  const [saveMessage, setSaveMessage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const error = await saveQuoteLineRuleSet();
+    setIsSaving(false);
+    setSaveMessage(error ?? 'Reglas guardadas para todos los vendedores.');
+  };
+
+  return (
+    <div className="glass card">
+      <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        <ListChecks size={18} /> Reglas por producto
+      </h3>
+      <p className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.85rem' }}>
+        Al agregar un producto se aplica la primera regla que calce. Los productos que ya estan en la cotizacion no cambian.
+      </p>
+
+      <details>
+        <summary style={{ cursor: 'pointer', fontSize: '0.7rem', color: 'var(--text-muted)' }}>
+          {quoteLineRules.length} reglas activas
+        </summary>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.6rem', marginTop: '0.6rem' }}>
+          {quoteLineRules.map((rule) => (
+            <div key={rule.id} className="finance-card" style={{ padding: '0.6rem', display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '0.4rem', alignItems: 'center' }}>
+              <select className="input-field" value={rule.field} onChange={(e) => updateQuoteLineRule(rule.id, { field: e.target.value as QuoteLineRuleField })}>
+                {Object.entries(QUOTE_LINE_RULE_FIELD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select className="input-field" value={rule.operator} onChange={(e) => updateQuoteLineRule(rule.id, { operator: e.target.value as QuoteLineRuleOperator })}>
+                {Object.entries(QUOTE_LINE_RULE_OPERATOR_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button onClick={() => removeQuoteLineRule(rule.id)} title="Quitar regla" style={{ background: 'transparent', border: 'none', color: 'var(--error)', cursor: 'pointer', padding: '0.2rem' }}>
+                <Trash2 size={12} />
+              </button>
+              <input type="text" className="input-field" style={{ gridColumn: '1 / span 2' }} placeholder="Texto a buscar" value={rule.value} onChange={(e) => updateQuoteLineRule(rule.id, { value: e.target.value })} />
+              <span />
+              <select className="input-field" value={rule.pricingMode} onChange={(e) => updateQuoteLineRule(rule.id, { pricingMode: e.target.value as LinePricingMode })}>
+                {lineModeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                className="input-field"
+                placeholder="Valor"
+                disabled={LINE_MODES_WITHOUT_VALUE.includes(rule.pricingMode)}
+                value={rule.pricingValue ?? ''}
+                onChange={(e) => updateQuoteLineRule(rule.id, { pricingValue: e.target.value === '' ? undefined : Number(e.target.value) })}
+              />
+              <span />
+              <input type="text" className="input-field" style={{ gridColumn: '1 / span 2' }} placeholder="Nota / motivo" value={rule.note} onChange={(e) => updateQuoteLineRule(rule.id, { note: e.target.value })} />
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: '0.4rem' }}>
+            <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(255,255,255,0.08)' }} onClick={addQuoteLineRule}>
+              <Plus size={12} /> Agregar regla
+            </button>
+            <button className="btn btn-primary" style={{ fontSize: '0.7rem' }} disabled={isSaving} onClick={() => { void handleSave(); }}>
+              <Save size={12} /> {isSaving ? 'Guardando...' : 'Guardar reglas'}
+            </button>
+          </div>
+          {saveMessage && <div className="text-muted" style={{ fontSize: '0.7rem' }}>{saveMessage}</div>}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default QuoteLineRulesPanel;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { LogOut, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { MARGIN_APPROVALS_SUPPORTED } from '../lib/quoteMarginRepository';
+import type {
+  QuoteApprovalStatus,
+  QuoteApproverSession,
+  QuoteMarginApproval,
+  QuoteMarginFloorPolicy,
+  QuoteMarginGuardrailResult,
+} from '../types/quotation';
+
+interface QuoteMarginGuardrailPanelProps {
+  categories: string[];
+  quoteSalesRep: string;
+  setQuoteSalesRep: React.Dispatch<React.SetStateAction<string>>;
+  marginFloorPolicy: QuoteMarginFloorPolicy;
+  marginGuardrails: QuoteMarginGuardrailResult;
+  marginApproval: QuoteMarginApproval | null;
+  marginApprovalStatus: QuoteApprovalStatus;
+  quoteApproverSession: QuoteApproverSession | null;
+  signInMarginApprover: (email: string, password: string) => Promise<string | null>;
+  signOutMarginApprover: () => void;
+  updateMarginFloorDefault: (rawValue: string) => void;
+  setMarginFloor: (scope: 'categoryFloors' | 'userFloors', key: string, rawValue: string) => void;
+  removeMarginFloor: (scope: 'categoryFloors' | 'userFloors', key: string) => void;
+  setMarginApprovers: (rawValue: string) => void;
+  saveMarginFloorPolicy: () => Promise<string | null>;
+  approveQuoteMargin: (reason: string) => string | null;
+  revokeQuoteMarginApproval: () => void;
+}
+
+const APPROVAL_STATUS_STYLES: Record<QuoteApprovalStatus, { label: string; color: string; background: string }> = {
+  not_required: { label: 'Sobre el margen minimo', color: '#86efac', background: 'rgba(34, 197, 94, 0.15)' },
+  pending: { label: 'Requiere aprobacion', color: '#fca5a5', background: 'rgba(239, 68, 68, 0.15)' },
+  approved: { label: 'Aprobada por gerencia', color: '#93c5fd', background: 'rgba(59, 130, 246, 0.18)' },
+};
+
+const QuoteMarginGuardrailPanel: React.FC<QuoteMarginGuardrailPanelProps> = ({
+  categories,
+  quoteSalesRep,
+  setQuoteSalesRep,
+  marginFloorPolicy,
+  marginGuardrails,
+  marginApproval,
+  marginApprovalStatus,
+  quoteApproverSession,
+  signInMarginApprover,
+  signOutMarginApprover,
+  updateMarginFloorDefault,
+  setMarginFloor,
+  removeMarginFloor,
+  setMarginApprovers,
+  saveMarginFloorPolicy,
+  approveQuoteMargin,
+  revokeQuoteMarginApproval,
+}) => {
+  const [approverEmail, setApproverEmail] = useState('');
+  const [approverPassword, setApproverPassword] = useState('');
+  const [signInError, setSignInError] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [approvalReason, setApprovalReason] = useState('');
+  const [approvalError, setApprovalError] = useState('');
+  const [newUserFloorName, setNewUserFloorName] = useState('');
+  const [policyMessage, setPolicyMessage] = useState('');
+  const statusStyle = APPROVAL_STATUS_STYLES[marginApprovalStatus];
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    const error = await signInMarginApprover(approverEmail, approverPassword);
+    setIsSigningIn(false);
+    setSignInError(error ?? '');
+    if (!error) setApproverPassword('');
+  };
+
+  const handleApprove = () => {
+    const error = approveQuoteMargin(approvalReason);
+    setApprovalError(error ?? '');
+    if (!error) setApprovalReason('');
+  };
+
+  const handleSavePolicy = async () => {
+    const error = await saveMarginFloorPolicy();
+    setPolicyMessage(error ?? 'Pisos guardados.');
+  };
+
+  const handleAddUserFloor = () => {
+    if (!newUserFloorName.trim()) return;
+    setMarginFloor('userFloors', newUserFloorName, String(marginFloorPolicy.defaultFloorPercent));
+    setNewUserFloorName('');
+  };
+
+  const renderFloorRows = (scope: 'categoryFloors' | 'userFloors') => Object.entries(marginFloorPolicy[scope]).map(([key, floor]) => (
+    <div key={`${scope}-${key}`} style={{ display: 'grid', gridTemplateColumns: '1.4fr 0.8fr auto', gap: '0.4rem', alignItems: 'center' }}>
+      <span style={{ fontSize: '0.75rem' }}>{key}</span>
+      <input type="number" className="input-field" value={floor} onChange={(e) => setMarginFloor(scope, key, e.target.value)} />
+      <button onClick={() => removeMarginFloor(scope, key)} style={{ background: 'transparent', border: 'none', color: 'var(--error)', cursor: 'pointer', padding: '0.2rem' }}>
+        <Trash2 size={12} />
+      </button>
+    </div>
+  ));
+
+  return (
+    <div className="glass card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <h3 style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          {marginApprovalStatus === 'pending' ? <ShieldAlert size={18} /> : <ShieldCheck size={18} />} Margen minimo
+        </h3>
+        <span className="badge" style={{ background: statusStyle.background, color: statusStyle.color }}>{statusStyle.label}</span>
+      </div>
+
+      <div style={{ marginBottom: '0.85rem' }}>
+        <label style={{ display: 'block', fontSize: '0.65rem', color: 'var(--text-muted)', marginBottom: '0.35rem' }}>VENDEDOR</label>
+        <input type="text" className="input-field" placeholder="Nombre del vendedor" value={quoteSalesRep} onChange={(e) => setQuoteSalesRep(e.target.value)} />
+      </div>
+      <div className="text-muted" style={{ fontSize: '0.7rem', marginBottom: '0.85rem' }}>
+        Piso aplicado al total: <strong>{marginGuardrails.quoteFloorPercent}%</strong>
+      </div>
+
+      {!quoteApproverSession && (
+        <details style={{ marginBottom: '0.85rem' }}>
+          <summary style={{ cursor: 'pointer', fontSize: '0.7rem', color: 'var(--text-muted)' }}>Acceso gerencia</summary>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', marginTop: '0.6rem' }}>
+            <input type="email" className="input-field" placeholder="Correo del gerente" value={approverEmail} onChange={(e) => setApproverEmail(e.target.value)} />
+            <input type="password" className="input-field" placeholder="Clave" value={approverPassword} onChange={(e) => setApproverPassword(e.target.value)} />
+            {signInError && <div className="negative" style={{ fontSize: '0.7rem' }}>{signInError}</div>}
+            <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(255,255,255,0.08)' }} disabled={isSigningIn} onClick={() => { void handleSignIn(); }}>
+              {isSigningIn ? 'Ingresando...' : 'Ingresar como gerente'}
+            </button>
+          </div>
+        </details>
+      )}
+
+      {quoteApproverSession && (
+        <details style={{ marginBottom: '0.85rem' }}>
+          <summary style={{ cursor: 'pointer', fontSize: '0.7rem', color: 'var(--text-muted)' }}>Pisos de margen ({quoteApproverSession.email})</summary>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', marginTop: '0.6rem' }}>
+            <label style={{ fontSize: '0.6rem', color: 'var(--text-muted)' }}>PISO GENERAL %</label>
+            <input type="number" className="input-field" value={marginFloorPolicy.defaultFloorPercent} onChange={(e) => updateMarginFloorDefault(e.target.value)} />
+
+            <label style={{ fontSize: '0.6rem', color: 'var(--text-muted)', marginTop: '0.4rem' }}>POR CATEGORIA (CADA LINEA)</label>
+            {renderFloorRows('categoryFloors')}
+            <select className="input-field" value="" onChange={(e) => setMarginFloor('categoryFloors', e.target.value, String(marginFloorPolicy.defaultFloorPercent))}>
+              <option value="">+ Agregar piso para una categoria...</option>
+              {categories
+                .filter((category) => category !== 'All' && !(category in marginFloorPolicy.categoryFloors))
+                .map((category) => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+            </select>
+
+            <label style={{ fontSize: '0.6rem', color: 'var(--text-muted)', marginTop: '0.4rem' }}>POR VENDEDOR (TOTAL COTIZACION)</label>
+            {renderFloorRows('userFloors')}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: '0.4rem' }}>
+              <input type="text" className="input-field" placeholder="Nombre del vendedor" value={newUserFloorName} onChange={(e) => setNewUserFloorName(e.target.value)} />
+              <button className="btn" style={{ fontSize: '0.65rem', background: 'rgba(255,255,255,0.08)' }} onClick={handleAddUserFloor}>Agregar</button>
+            </div>
+
+            <label style={{ fontSize: '0.6rem', color: 'var(--text-muted)', marginTop: '0.4rem' }}>APROBADORES (CORREOS, VACIO = CUALQUIER GERENTE)</label>
+            <input
+              type="text"
+              className="input-field"
+              key={marginFloorPolicy.approvers.join(',')}
+              defaultValue={marginFloorPolicy.approvers.join(', ')}
+              onBlur={(e) => setMarginApprovers(e.target.value)}
+            />
+            {policyMessage && <div className="text-muted" style={{ fontSize: '0.7rem' }}>{policyMessage}</div>}
+            <div style={{ display: 'flex', gap: '0.4rem' }}>
+              <button className="btn btn-primary" style={{ fontSize: '0.7rem' }} onClick={() => { void handleSavePolicy(); }}>Guardar pisos</button>
+              <button className="btn" style={{ fontSize: '0.7rem', background: 'rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center', gap: '0.3rem' }} onClick={signOutMarginApprover}>
+                <LogOut size={12} /> Salir
+              </button>
+            </div>
+          </div>
+        </details>
+      )}
+
+      {marginGuardrails.violations.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.3rem', marginBottom: '0.85rem', fontSize: '0.75rem' }}>
+          {marginGuardrails.violations.map((violation) => (
+            <div key={`${violation.scope}-${violation.productId ?? 'total'}`} style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <span className="text-muted">{violation.label}</span>
+              <strong className="negative">{violation.marginPercent.toFixed(1)}% / min {violation.floorPercent}%</strong>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {marginApprovalStatus === 'pending' && !MARGIN_APPROVALS_SUPPORTED && (
+        <div className="text-muted" style={{ fontSize: '0.7rem' }}>
+          Con PocketBase no hay aprobaciones de margen: la cotizacion debe quedar sobre el minimo para guardarse.
+        </div>
+      )}
+
+      {marginApprovalStatus === 'pending' && MARGIN_APPROVALS_SUPPORTED && !quoteApproverSession && (
+        <div className="text-muted" style={{ fontSize: '0.7rem' }}>
+          Un gerente debe ingresar en "Acceso gerencia" para aprobar la excepcion.
+        </div>
+      )}
+
+      {marginApprovalStatus === 'pending' && MARGIN_APPROVALS_SUPPORTED && quoteApproverSession && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <input type="text" className="input-field" placeholder="Motivo de la excepcion" value={approvalReason} onChange={(e) => setApprovalReason(e.target.value)} />
+          {approvalError && <div className="negative" style={{ fontSize: '0.7rem' }}>{approvalError}</div>}
+          <button className="btn btn-primary" style={{ fontSize: '0.75rem' }} onClick={handleApprove}>Aprobar excepcion</button>
+        </div>
+      )}
+
+      {marginApprovalStatus === 'approved' && marginApproval && (
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', fontSize: '0.75rem' }}>
+          <span className="text-muted">
+            {marginApproval.approvedBy}: {marginApproval.reason}
+          </span>
+          <button className="btn" style={{ fontSize: '0.65rem', background: 'rgba(239, 68, 68, 0.1)', color: 'var(--error)' }} onClick={revokeQuoteMarginApproval}>Revocar</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteMarginGuardrailPanel;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import { QUOTE_PAYMENT_TERMS } from '../data/quoteDocumentSettings';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type { QuoteDocumentClient } from '../types/quotation';
+
+interface QuotePdfExportFormProps {
+  quotation: SavedSimulationRecord;
+  generateQuotePdf: (quotation: SavedSimulationRecord, client: QuoteDocumentClient, paymentTerms: string) => void;
+}
+
+// Quotes attached to a client start with its data; the form only fills the gaps.
+const clientFromQuotation = (quotation: SavedSimulationRecord): QuoteDocumentClient => ({
+  rut: quotation.client_rut ?? '',
+  businessName: quotation.client_name ?? '',
+  contactName: quotation.client_contact?.name ?? '',
+  contactEmail: quotation.client_contact?.email ?? '',
+  contactPhone: quotation.client_contact?.phone ?? '',
+});
+
+const QuotePdfExportForm: React.FC<QuotePdfExportFormProps> = ({ quotation, generateQuotePdf }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [client, setClient] = useState<QuoteDocumentClient>(() => clientFromQuotation(quotation));
+  const [paymentTerms, setPaymentTerms] = useState(QUOTE_PAYMENT_TERMS[0] ?? '');
+
+  const updateClient = (field: keyof QuoteDocumentClient, value: string) => {
+    setClient((prev) => ({ ...prev, [field]: value }));
+  };
+
+  if (!isOpen) {
+    return (
+      <button className="btn btn-secondary mobile-full-width" style={{ background: '#0f766e', whiteSpace: 'nowrap', fontSize: '0.85rem', padding: '0.6rem 1rem', color: 'white' }} onClick={() => setIsOpen(true)} title="Vista cliente: solo precios, descuentos y condiciones">
+        <FileText size={16} style={{ marginRight: '0.5rem' }} /> Cotizacion cliente (PDF)
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', padding: '0.75rem', borderRadius: '10px', background: 'rgba(0,0,0,0.18)', minWidth: '240px' }}>
+      <div className="text-muted" style={{ fontSize: '0.65rem', textTransform: 'uppercase' }}>Datos del cliente para el PDF</div>
+      <input type="text" className="input-field" placeholder="Razon social" value={client.businessName} onChange={(e) => updateClient('businessName', e.target.value)} />
+      <input type="text" className="input-field" placeholder="RUT" value={client.rut} onChange={(e) => updateClient('rut', e.target.value)} />
+      <input type="text" className="input-field" placeholder="Contacto" value={client.contactName} onChange={(e) => updateClient('contactName', e.target.value)} />
+      <input type="email" className="input-field" placeholder="Email de contacto" value={client.contactEmail} onChange={(e) => updateClient('contactEmail', e.target.value)} />
+      <input type="text" className="input-field" placeholder="Telefono de contacto" value={client.contactPhone} onChange={(e) => updateClient('contactPhone', e.target.value)} />
+      <select className="input-field" value={paymentTerms} onChange={(e) => setPaymentTerms(e.target.value)}>
+        {QUOTE_PAYMENT_TERMS.map((terms) => (
+          <option key={terms} value={terms}>{terms}</option>
+        ))}
+      </select>
+      <div style={{ display: 'flex', gap: '0.4rem' }}>
+        <button className="btn btn-primary" style={{ flex: 1, fontSize: '0.75rem' }} onClick={() => generateQuotePdf(quotation, client, paymentTerms)}>
+          <FileText size={14} style={{ marginRight: '0.35rem' }} /> Descargar PDF
+        </button>
+        <button className="btn" style={{ fontSize: '0.75rem', background: 'rgba(255,255,255,0.08)' }} onClick={() => setIsOpen(false)}>Cerrar</button>
+      </div>
+    </div>
+  );
+};
+
+export default QuotePdfExportForm;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type { QuoteRevisionLineChangeType } from '../types/quotation';
+import { diffQuoteRevisions } from '../utils/quoteRevisions';
+
+interface QuoteRevisionHistoryProps {
+  revisions: SavedSimulationRecord[];
+  formatCLP: (value: number) => string;
+}
+
+const CHANGE_TYPE_STYLES: Record<QuoteRevisionLineChangeType, { label: string; color: string }> = {
+  added: { label: 'Agregado', color: '#86efac' },
+  removed: { label: 'Quitado', color: '#fca5a5' },
+  changed: { label: 'Modificado', color: '#fcd34d' },
+};
+
+const QuoteRevisionHistory: React.FC<QuoteRevisionHistoryProps> = ({ revisions, formatCLP }) => {
+  const [comparedRevisionId, setComparedRevisionId] = useState<string | null>(null);
+  if (revisions.length < 2) return null;
+
+  // `revisions` is newest first, so the previous revision is the next entry.
+  const comparedIndex = revisions.findIndex((revision) => revision.id === comparedRevisionId);
+  const diff = comparedIndex >= 0 && comparedIndex < revisions.length - 1
+    ? diffQuoteRevisions(revisions[comparedIndex + 1], revisions[comparedIndex])
+    : null;
+
+  const formatOptionalCLP = (value: number | null) => (value == null ? '—' : formatCLP(value));
+
+  return (
+    <div style={{ marginBottom: '1rem', padding: '0.75rem', borderRadius: '10px', background: 'rgba(0,0,0,0.18)' }}>
+      <div className="text-muted" style={{ fontSize: '0.65rem', textTransform: 'uppercase', marginBottom: '0.5rem' }}>
+        Revisiones ({revisions.length})
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+        {revisions.map((revision, index) => (
+          <div key={revision.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.75rem', flexWrap: 'wrap' }}>
+            <strong style={{ minWidth: '32px' }}>v{revision.revision}</strong>
+            <span className="text-muted">{new Date(revision.created_at).toLocaleDateString('es-CL')}</span>
+            <span>{formatCLP(revision.sale_price_clp)}</span>
+            <span className="text-muted">{Math.round(revision.margin_percent)}%</span>
+            {index < revisions.length - 1 && (
+              <button
+                className="btn"
+                style={{ marginLeft: 'auto', fontSize: '0.65rem', padding: '0.2rem 0.5rem', background: comparedRevisionId === revision.id ? 'rgba(59,130,246,0.25)' : 'rgba(255,255,255,0.08)' }}
+                onClick={() => setComparedRevisionId(comparedRevisionId === revision.id ? null : revision.id)}
+              >
+                <GitCompare size={12} /> vs v{revisions[index + 1].revision}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {diff && (
+        <div style={{ marginTop: '0.75rem', borderTop: '1px solid rgba(255,255,255,0.08)', paddingTop: '0.75rem' }}>
+          <div style={{ fontSize: '0.75rem', marginBottom: '0.5rem' }}>
+            Neto: {formatCLP(diff.previousNetCLP)} → <strong>{formatCLP(diff.nextNetCLP)}</strong>
+            <span className="text-muted"> · Margen: {Math.round(diff.previousMarginPercent)}% → {Math.round(diff.nextMarginPercent)}%</span>
+          </div>
+          {diff.lineChanges.length === 0 ? (
+            <div className="text-muted" style={{ fontSize: '0.7rem' }}>Sin cambios en lineas, cantidades ni precios.</div>
+          ) : (
+            <table style={{ width: '100%', fontSize: '0.7rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left' }}>Producto</th>
+                  <th style={{ textAlign: 'left' }}>Cambio</th>
+                  <th style={{ textAlign: 'center' }}>Cant.</th>
+                  <th style={{ textAlign: 'right' }}>Neto Unit.</th>
+                  <th style={{ textAlign: 'right' }}>Neto Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.lineChanges.map((change) => (
+                  <tr key={change.key}>
+                    <td>{change.productName}</td>
+                    <td style={{ color: CHANGE_TYPE_STYLES[change.changeType].color }}>{CHANGE_TYPE_STYLES[change.changeType].label}</td>
+                    <td style={{ textAlign: 'center' }}>{change.previousQuantity ?? '—'} → {change.nextQuantity ?? '—'}</td>
+                    <td style={{ textAlign: 'right' }}>{formatOptionalCLP(change.previousNetUnitCLP)} → {formatOptionalCLP(change.nextNetUnitCLP)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatOptionalCLP(change.previousNetTotalCLP)} → {formatOptionalCLP(change.nextNetTotalCLP)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteRevisionHistory;
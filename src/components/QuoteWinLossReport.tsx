@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import { buildQuoteClientReport } from '../utils/quoteClients';
+import { buildQuoteWinLossReport } from '../utils/quoteLifecycle';
+
+interface QuoteWinLossReportProps {
+  savedQuotations: SavedSimulationRecord[];
+  isLoadingQuotations: boolean;
+  formatCLP: (value: number) => string;
+}
+
+const formatOptionalPercent = (value: number | null) => (value == null ? '—' : `${value.toFixed(1)}%`);
+
+const QuoteWinLossReport: React.FC<QuoteWinLossReportProps> = ({ savedQuotations, isLoadingQuotations, formatCLP }) => {
+  const rows = useMemo(() => buildQuoteWinLossReport(savedQuotations), [savedQuotations]);
+  const clientRows = useMemo(() => buildQuoteClientReport(savedQuotations), [savedQuotations]);
+
+  return (
+    <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+      <div className="glass card">
+        <h2 style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <BarChart3 size={24} />
+          Resultados por Vendedor
+        </h2>
+        <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: '1.5rem' }}>
+          Considera solo la ultima revision de cada cotizacion. Las rechazadas y vencidas cuentan como perdidas.
+        </p>
+
+        {isLoadingQuotations ? (
+          <p className="text-muted">Cargando cotizaciones...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-muted">No hay cotizaciones guardadas aún.</p>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '0.85rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left' }}>Vendedor</th>
+                  <th style={{ textAlign: 'center' }}>Cotizaciones</th>
+                  <th style={{ textAlign: 'center' }}>Abiertas</th>
+                  <th style={{ textAlign: 'center' }}>Ganadas</th>
+                  <th style={{ textAlign: 'center' }}>Perdidas</th>
+                  <th style={{ textAlign: 'right' }}>Tasa de cierre</th>
+                  <th style={{ textAlign: 'right' }}>Margen ganadas</th>
+                  <th style={{ textAlign: 'right' }}>Margen perdidas</th>
+                  <th style={{ textAlign: 'right' }}>Neto ganado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.salesRep}>
+                    <td>{row.salesRep}</td>
+                    <td style={{ textAlign: 'center' }}>{row.totalQuotes}</td>
+                    <td style={{ textAlign: 'center' }}>{row.openQuotes}</td>
+                    <td style={{ textAlign: 'center' }} className="positive">{row.wonQuotes}</td>
+                    <td style={{ textAlign: 'center' }} className="negative">{row.lostQuotes}</td>
+                    <td style={{ textAlign: 'right', fontWeight: 700 }}>
+                      {row.wonQuotes + row.lostQuotes > 0 ? `${row.winRatePercent.toFixed(0)}%` : '—'}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>{formatOptionalPercent(row.avgWonMarginPercent)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatOptionalPercent(row.avgLostMarginPercent)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatCLP(row.wonNetCLP)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {clientRows.length > 0 && (
+        <div className="glass card" style={{ marginTop: '1.5rem' }}>
+          <h3 style={{ marginBottom: '1rem' }}>Cotizaciones por Cliente</h3>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '0.85rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left' }}>Cliente</th>
+                  <th style={{ textAlign: 'left' }}>Vendedor</th>
+                  <th style={{ textAlign: 'center' }}>Cotizaciones</th>
+                  <th style={{ textAlign: 'center' }}>Abiertas</th>
+                  <th style={{ textAlign: 'center' }}>Ganadas</th>
+                  <th style={{ textAlign: 'center' }}>Perdidas</th>
+                  <th style={{ textAlign: 'right' }}>Neto cotizado</th>
+                  <th style={{ textAlign: 'right' }}>Neto ganado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {clientRows.map((row) => (
+                  <tr key={row.clientRut}>
+                    <td>
+                      {row.clientName}
+                      <div className="text-muted" style={{ fontSize: '0.7rem' }}>{row.clientRut}</div>
+                    </td>
+                    <td>{row.salesRep || '—'}</td>
+                    <td style={{ textAlign: 'center' }}>{row.totalQuotes}</td>
+                    <td style={{ textAlign: 'center' }}>{row.openQuotes}</td>
+                    <td style={{ textAlign: 'center' }} className="positive">{row.wonQuotes}</td>
+                    <td style={{ textAlign: 'center' }} className="negative">{row.lostQuotes}</td>
+                    <td style={{ textAlign: 'right' }}>{formatCLP(row.quotedNetCLP)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatCLP(row.wonNetCLP)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteWinLossReport;
@@ -0,0 +1,30 @@
+import type { ImportCostModelSettings, ImportTradeAgreement } from '../types/imports';
+
+// General Chilean ad-valorem rate and IVA on imports, both applied over the CIF value.
+export const GENERAL_AD_VALOREM_PERCENT = 6;
+export const IMPORT_VAT_PERCENT = 19;
+
+// Edit this list to add agreements; goods need a certificate of origin to use the agreement rate.
+export const IMPORT_TRADE_AGREEMENTS: ImportTradeAgreement[] = [
+  { id: 'none', label: 'Sin acuerdo (arancel general)', dutyPercent: null },
+  { id: 'korea_fta', label: 'TLC Chile-Corea', dutyPercent: 0 },
+  { id: 'eu_association', label: 'Acuerdo de Asociacion Chile-UE', dutyPercent: 0 },
+  { id: 'usa_fta', label: 'TLC Chile-Estados Unidos', dutyPercent: 0 },
+];
+
+// MegaGen product ships from Korea, so new imports start under the Korea FTA.
+export const DEFAULT_IMPORT_COST_MODEL: ImportCostModelSettings = {
+  insurance: { amount: 0, currency: 'USD' },
+  adValoremPercent: GENERAL_AD_VALOREM_PERCENT,
+  tradeAgreementId: 'korea_fta',
+  agentFees: { amount: 0, currency: 'CLP' },
+  portCharges: { amount: 0, currency: 'CLP' },
+  localTransport: { amount: 0, currency: 'CLP' },
+};
+
+// Snapshots saved before the cost model existed only had freight and a customs lump sum.
+export const LEGACY_IMPORT_COST_MODEL: ImportCostModelSettings = {
+  ...DEFAULT_IMPORT_COST_MODEL,
+  adValoremPercent: 0,
+  tradeAgreementId: 'none',
+};
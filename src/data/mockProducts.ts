@@ -1,3 +1,8 @@
+export interface ProductKitComponent {
+    sku: string;
+    quantity: number;
+}
+
 export interface Product {
     id: string;
     sku?: string;
@@ -5,6 +10,14 @@ export interface Product {
     category: string;
     costUSD: number;
     suggestedPriceUSD?: number;
+    // Present only on kits; the kit's cost is derived from these catalog SKUs.
+    components?: ProductKitComponent[];
+    // Unit cost landed in Chile from applied import snapshots; when set, quotes use it instead of costUSD at the quote rate.
+    landedCostCLP?: number;
+    // Units received across the shipments averaged into landedCostCLP.
+    landedCostUnits?: number;
+    // The supplier cost changed after landedCostCLP was averaged; it still prices the stock on hand until the next import is applied.
+    landedCostStale?: boolean;
 }
 
 export const initialProducts: Product[] = [
@@ -0,0 +1,115 @@
+import type { PdfImportParserProfile } from '../types/imports';
+
+export const GENERIC_PDF_IMPORT_PROFILE_ID = 'generic';
+
+// Lines scored below this start unselected so they are reviewed before entering the calculation.
+export const PDF_IMPORT_REVIEW_CONFIDENCE = 0.75;
+
+// MegaGen codes are upper-case letters and digits with at least one digit, e.g. AR3510C or SAAF4010.
+const MEGAGEN_SKU_PATTERN = /\b(?=[A-Z0-9-]*\d)[A-Z]{1,6}[A-Z0-9-]{3,}\b/;
+// European article numbers mix digits with dots, dashes or slashes, e.g. KH-2040 or 12.345/6.
+const EUROPEAN_SKU_PATTERN = /\b(?=[A-Z0-9.\-/]*\d)[A-Z0-9][A-Z0-9.\-/]{3,}\b/i;
+
+// Add a profile per supplier layout. Column ranges are a fallback for pages where the header row is not found;
+// detection and header anchors are matched without case or accents.
+export const PDF_IMPORT_PROFILES: PdfImportParserProfile[] = [
+  {
+    id: 'megagen_proforma',
+    label: 'MegaGen Corea - Proforma Invoice',
+    detectAnchors: ['megagen', 'proforma invoice'],
+    headerAnchors: {
+      sku: ['item code', 'code'],
+      name: ['description'],
+      quantity: ["q'ty", 'qty', 'quantity'],
+      unitPrice: ['unit price'],
+      amount: ['amount'],
+    },
+    columns: {
+      sku: [30, 120],
+      name: [120, 340],
+      quantity: [340, 400],
+      unitPrice: [400, 480],
+      amount: [480, 580],
+    },
+    skuPattern: MEGAGEN_SKU_PATTERN,
+    stopAnchors: ['total', 'bank information'],
+    decimalSeparator: '.',
+  },
+  {
+    id: 'megagen_commercial_invoice',
+    label: 'MegaGen Corea - Commercial Invoice',
+    detectAnchors: ['megagen', 'commercial invoice'],
+    headerAnchors: {
+      sku: ['product code', 'code'],
+      name: ['description of goods', 'description'],
+      quantity: ['quantity', "q'ty"],
+      unitPrice: ['unit price'],
+      amount: ['amount'],
+    },
+    columns: {
+      sku: [50, 140],
+      name: [140, 360],
+      quantity: [360, 420],
+      unitPrice: [420, 495],
+      amount: [495, 580],
+    },
+    skuPattern: MEGAGEN_SKU_PATTERN,
+    stopAnchors: ['total', 'country of origin', 'signed by'],
+    decimalSeparator: '.',
+  },
+  {
+    id: 'european_invoice_de',
+    label: 'Proveedor europeo - Rechnung (aleman)',
+    // Bank and tax words also appear on MegaGen invoices, so the anchors are the German column labels.
+    detectAnchors: ['bezeichnung', 'einzelpreis'],
+    headerAnchors: {
+      sku: ['art.-nr', 'artikel'],
+      name: ['bezeichnung'],
+      quantity: ['menge'],
+      unitPrice: ['einzelpreis'],
+      amount: ['gesamtpreis', 'gesamt'],
+    },
+    columns: {
+      sku: [40, 130],
+      name: [130, 350],
+      quantity: [350, 410],
+      unitPrice: [410, 490],
+      amount: [490, 580],
+    },
+    skuPattern: EUROPEAN_SKU_PATTERN,
+    stopAnchors: ['summe', 'zwischensumme', 'nettobetrag'],
+    decimalSeparator: ',',
+  },
+  {
+    id: 'european_invoice_fr',
+    label: 'Proveedor europeo - Facture (frances)',
+    detectAnchors: ['designation', 'prix unitaire'],
+    headerAnchors: {
+      sku: ['reference', 'ref'],
+      name: ['designation'],
+      quantity: ['quantite', 'qte'],
+      unitPrice: ['prix unitaire'],
+      amount: ['montant'],
+    },
+    columns: {
+      sku: [40, 130],
+      name: [130, 350],
+      quantity: [350, 410],
+      unitPrice: [410, 490],
+      amount: [490, 580],
+    },
+    skuPattern: EUROPEAN_SKU_PATTERN,
+    stopAnchors: ['sous-total', 'total ht'],
+    decimalSeparator: ',',
+  },
+  {
+    id: GENERIC_PDF_IMPORT_PROFILE_ID,
+    label: 'Generico (por linea)',
+    detectAnchors: [],
+    headerAnchors: {},
+    columns: {},
+    skuPattern: /^[A-Z0-9][A-Z0-9\-_.]{2,}$/i,
+    stopAnchors: [],
+    decimalSeparator: null,
+  },
+];
@@ -0,0 +1,31 @@
+import type { QuoteCurrency, QuoteDocumentCompany } from '../types/quotation';
+
+// Edit this block to change the company data printed on the header of PDF quotes.
+export const QUOTE_DOCUMENT_COMPANY: QuoteDocumentCompany = {
+  name: 'MegaGen Chile',
+  rut: '',
+  address: 'Santiago, Chile',
+  phone: '',
+  email: '',
+  website: 'www.megagen.cl',
+};
+
+// Edit this list to change the payment terms offered when exporting a PDF quote.
+export const QUOTE_PAYMENT_TERMS = [
+  'Transferencia contra factura',
+  'Pago a 30 dias',
+  'Pago a 60 dias',
+  '50% anticipo y 50% contra entrega',
+];
+
+// Edit these names to change how each quote currency is described in the fine print.
+export const QUOTE_DOCUMENT_CURRENCY_NAMES: Record<QuoteCurrency, string> = {
+  CLP: 'pesos chilenos',
+  USD: 'dolares estadounidenses',
+  EUR: 'euros',
+};
+
+// Edit these notes to change the fine print printed under the totals, after the currency and tax notes.
+export const QUOTE_DOCUMENT_NOTES = [
+  'Precios sujetos a disponibilidad de stock.',
+];
@@ -0,0 +1,9 @@
+import type { QuoteLineDefaultRule } from '../types/quotation';
+
+// Edit these rules to change which products enter a quote with their own pricing mode instead of the global one.
+export const DEFAULT_QUOTE_LINE_RULES: QuoteLineDefaultRule[] = [
+  { id: 'productos-unicos', field: 'category', operator: 'equals', value: 'Productos Únicos', pricingMode: 'at_cost', note: 'Productos unicos se cobran al costo' },
+  { id: 'item-especial', field: 'name', operator: 'contains', value: 'item especial', pricingMode: 'at_cost', note: 'Items especiales' },
+  { id: 'manual', field: 'name', operator: 'contains', value: 'manual', pricingMode: 'at_cost', note: 'Items manuales' },
+  { id: 'task', field: 'name', operator: 'contains', value: 'task', pricingMode: 'at_cost', note: 'Servicios (task)' },
+];
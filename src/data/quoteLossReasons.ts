@@ -0,0 +1,9 @@
+// Edit this list to change the loss reasons offered when a quote is rejected or expires.
+export const QUOTE_LOSS_REASONS = [
+  'Precio',
+  'Eligio a la competencia',
+  'Sin presupuesto',
+  'Plazo de entrega',
+  'Sin respuesta del cliente',
+  'Otro',
+];
@@ -0,0 +1,13 @@
+import type { QuoteMarginFloorPolicy } from '../types/quotation';
+
+// Used until the shared policy loads from the database, and when that table is missing.
+// Managers edit the real floors and approver emails from the quote screen.
+export const DEFAULT_QUOTE_MARGIN_FLOOR_POLICY: QuoteMarginFloorPolicy = {
+  defaultFloorPercent: 30,
+  categoryFloors: {
+    Implantes: 35,
+    Aditamentos: 30,
+  },
+  userFloors: {},
+  approvers: [],
+};
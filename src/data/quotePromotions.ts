@@ -0,0 +1,23 @@
+import type { QuoteBundlePromotion } from '../types/quotation';
+
+// Edit this list to publish or retire the bundle promotions offered by the sales team.
+export const QUOTE_PROMOTION_CATALOG: QuoteBundlePromotion[] = [
+  {
+    id: 'ar-10-cover-screw-2',
+    label: 'AnyRidge 10 + 2 Cover Screw',
+    triggerImplantKey: 'AR',
+    triggerQuantity: 10,
+    rewardProductText: 'cover screw',
+    rewardQuantity: 2,
+    repeatable: true,
+  },
+  {
+    id: 'bd-10-healing-2',
+    label: 'BlueDiamond 10 + 2 Healing Abutment',
+    triggerImplantKey: 'BD',
+    triggerQuantity: 10,
+    rewardProductText: 'healing abutment',
+    rewardQuantity: 2,
+    repeatable: true,
+  },
+];
@@ -0,0 +1,10 @@
+import type { QuoteTaxProfile } from '../types/quotation';
+
+// Edit these profiles to offer other tax treatments in the cotizador; the first one is the default.
+export const QUOTE_TAX_PROFILES: QuoteTaxProfile[] = [
+  { id: 'iva_19', label: 'Afecta IVA 19%', documentLabel: 'IVA (19%)', ratePercent: 19 },
+  { id: 'exenta', label: 'Exenta de IVA', documentLabel: 'Exento de IVA', ratePercent: 0 },
+  { id: 'exportacion', label: 'Exportacion (sin IVA)', documentLabel: 'Exportacion, sin IVA', ratePercent: 0 },
+];
+
+export const DEFAULT_QUOTE_TAX_PROFILE = QUOTE_TAX_PROFILES[0];
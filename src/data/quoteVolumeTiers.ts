@@ -0,0 +1,15 @@
+import type { QuoteVolumeTierSchedule } from '../types/quotation';
+
+export const VOLUME_TIER_FALLBACK_CATEGORY = 'All';
+
+// Edit this list to change the default price breaks offered to clinics.
+export const DEFAULT_QUOTE_VOLUME_TIERS: QuoteVolumeTierSchedule[] = [
+  {
+    category: 'Implantes',
+    tiers: [
+      { minQuantity: 1, maxQuantity: 9, marginPercent: 55, label: '1-9 u.' },
+      { minQuantity: 10, maxQuantity: 49, marginPercent: 50, label: '10-49 u.' },
+      { minQuantity: 50, maxQuantity: null, marginPercent: 45, label: '50+ u.' },
+    ],
+  },
+];
@@ -1,31 +1,187 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { Product } from '../data/mockProducts';
+import type { CRMClientAggregate } from '../types/crm';
+import { CRM_SINGLE_FILE_STORAGE_KEY } from '../utils/crmEngine';
+import { DEFAULT_QUOTE_LINE_RULES } from '../data/quoteLineRules';
+import { DEFAULT_QUOTE_MARGIN_FLOOR_POLICY } from '../data/quoteMarginFloors';
+import { fetchQuoteClients, insertQuoteClient } from '../lib/quoteClientRepository';
+import { fetchQuoteLineRules, saveQuoteLineRules } from '../lib/quoteLineRuleRepository';
+import {
+  fetchQuoteMarginPolicy,
+  MARGIN_APPROVALS_SUPPORTED,
+  saveQuoteMarginPolicy,
+  signInQuoteApprover,
+} from '../lib/quoteMarginRepository';
+import { QUOTE_TAX_PROFILES } from '../data/quoteTaxProfiles';
+import { DEFAULT_QUOTE_VOLUME_TIERS } from '../data/quoteVolumeTiers';
+import {
+  evaluateMarginGuardrails,
+  resolveQuoteApprovalStatus,
+  validateMarginApproval,
+} from '../utils/quoteMarginGuardrails';
+import {
+  buildManualQuoteClient,
+  buildQuoteClientDirectory,
+  validateQuoteClientInput,
+  type QuoteClientInput,
+} from '../utils/quoteClients';
+import { expandKitComponents } from '../utils/productKits';
+import { LINE_MODES_WITHOUT_VALUE, resolveQuoteLineDefaults } from '../utils/quoteLineRules';
+import { buildQuoteValidUntil } from '../utils/quoteLifecycle';
 import { calculateQuote } from '../utils/quotePricingEngine';
-import type { LinePricingMode, QuoteLineDraft, QuotePricingConfig } from '../types/quotation';
+import type {
+  CotizadorTab,
+  LinePricingMode,
+  QuoteBundlePromotion,
+  QuoteClient,
+  QuoteCurrency,
+  QuoteDiscountRule,
+  QuoteLineDefaultRule,
+  QuoteLineDraft,
+  QuoteApproverSession,
+  QuoteMarginApproval,
+  QuoteMarginFloorPolicy,
+  QuotePriceRoundingPolicy,
+  QuotePricingConfig,
+  QuoteRevisionRef,
+  QuoteVolumeTier,
+  QuoteVolumeTierSchedule,
+} from '../types/quotation';
 
 const DEFAULT_QUOTE_MARGIN_PERCENT = 50;
+const QUOTE_VOLUME_TIERS_STORAGE_KEY = 'megagen.quote.volumeTiers';
+const QUOTE_SALES_REP_STORAGE_KEY = 'megagen.quote.salesRep';
+const QUOTE_CLIENTS_STORAGE_KEY = 'megagen.quote.clients';
+
+const readStoredVolumeTiers = (): QuoteVolumeTierSchedule[] => {
+  try {
+    const raw = localStorage.getItem(QUOTE_VOLUME_TIERS_STORAGE_KEY);
+    if (!raw) return DEFAULT_QUOTE_VOLUME_TIERS;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as QuoteVolumeTierSchedule[] : DEFAULT_QUOTE_VOLUME_TIERS;
+  } catch {
+    return DEFAULT_QUOTE_VOLUME_TIERS;
+  }
+};
+
+const readStoredCRMClients = (): CRMClientAggregate[] => {
+  try {
+    const raw = localStorage.getItem(CRM_SINGLE_FILE_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as { clientsHistory?: CRMClientAggregate[] };
+    return Array.isArray(parsed.clientsHistory) ? parsed.clientsHistory : [];
+  } catch {
+    return [];
+  }
+};
+
+const readStoredQuoteClients = (): QuoteClient[] => {
+  try {
+    const raw = localStorage.getItem(QUOTE_CLIENTS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as QuoteClient[] : [];
+  } catch {
+    return [];
+  }
+};
+
+// Manual clients used to live only in this browser; upload those once and drop the local copy.
+const loadQuoteClients = (apply: (clients: QuoteClient[]) => void) => {
+  fetchQuoteClients()
+    .then(async (clients) => {
+      const storedRuts = new Set(clients.map((client) => client.rut));
+      const localClients = readStoredQuoteClients().filter((client) => client.rut && !storedRuts.has(client.rut));
+      const uploaded: QuoteClient[] = [];
+      for (const client of localClients) {
+        try {
+          await insertQuoteClient(client);
+          uploaded.push(client);
+        } catch (error) {
+          console.error('Error uploading local quote client:', error);
+        }
+      }
+      if (uploaded.length === localClients.length) localStorage.removeItem(QUOTE_CLIENTS_STORAGE_KEY);
+      apply([...clients, ...uploaded]);
+    })
+    .catch((error) => console.error('Error loading quote clients:', error));
+};
+
+const loadMarginFloorPolicy = (apply: (policy: QuoteMarginFloorPolicy) => void) => {
+  fetchQuoteMarginPolicy()
+    .then(apply)
+    .catch((error) => console.error('Error loading margin floors:', error));
+};
+
+const loadQuoteLineRules = (apply: (rules: QuoteLineDefaultRule[]) => void) => {
+  fetchQuoteLineRules()
+    .then(apply)
+    .catch((error) => console.error('Error loading quote line rules:', error));
+};
 
 interface UseCotizadorStateArgs {
   products: Product[];
   exchangeRate: number;
+  euroRate: number;
   normalizeText: (text: string) => string;
-  checkIsAtCost: (item: { name: string; category?: string }) => boolean;
 }
 
 export const useCotizadorState = ({
   products,
   exchangeRate,
+  euroRate,
   normalizeText,
-  checkIsAtCost,
 }: UseCotizadorStateArgs) => {
   const [quoteLines, setQuoteLines] = useState<QuoteLineDraft[]>([]);
-  const [quotePricingConfig, setQuotePricingConfig] = useState<QuotePricingConfig>({
+  const [quotePricingConfig, setQuotePricingConfig] = useState<QuotePricingConfig>(() => ({
     mode: 'global_margin',
     targetMarginPercent: DEFAULT_QUOTE_MARGIN_PERCENT,
-  });
+    volumeTiers: readStoredVolumeTiers(),
+  }));
+  // Floors are shared settings in the database; only a signed-in manager may change them.
+  const [marginFloorPolicy, setMarginFloorPolicy] = useState<QuoteMarginFloorPolicy>(DEFAULT_QUOTE_MARGIN_FLOOR_POLICY);
+  const [quoteApproverSession, setQuoteApproverSession] = useState<QuoteApproverSession | null>(null);
+  // Line rules are shared by every rep and saved explicitly, like the floors.
+  const [quoteLineRules, setQuoteLineRules] = useState<QuoteLineDefaultRule[]>(DEFAULT_QUOTE_LINE_RULES);
+  const [quoteSalesRep, setQuoteSalesRep] = useState(() => localStorage.getItem(QUOTE_SALES_REP_STORAGE_KEY) || '');
+  const [quoteClient, setQuoteClient] = useState<QuoteClient | null>(null);
+  const [crmClients, setCrmClients] = useState<CRMClientAggregate[]>(readStoredCRMClients);
+  const [manualQuoteClients, setManualQuoteClients] = useState<QuoteClient[]>([]);
+  const [historyClientFilter, setHistoryClientFilter] = useState('');
+  const [historySalesRepFilter, setHistorySalesRepFilter] = useState('');
+  const [marginApproval, setMarginApproval] = useState<QuoteMarginApproval | null>(null);
+  const [activeQuoteRevision, setActiveQuoteRevision] = useState<QuoteRevisionRef | null>(null);
+  // YYYY-MM-DD; a revision keeps the date of the quote it revises until someone changes it.
+  const [quoteValidUntil, setQuoteValidUntil] = useState(() => buildQuoteValidUntil());
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
-  const [activeTab, setActiveTab] = useState<'simulator' | 'history'>('simulator');
+  const [activeTab, setActiveTab] = useState<CotizadorTab>('simulator');
+  const [costHistoryProductId, setCostHistoryProductId] = useState('');
+
+  useEffect(() => {
+    localStorage.setItem(QUOTE_VOLUME_TIERS_STORAGE_KEY, JSON.stringify(quotePricingConfig.volumeTiers ?? []));
+  }, [quotePricingConfig.volumeTiers]);
+
+  useEffect(() => {
+    loadMarginFloorPolicy(setMarginFloorPolicy);
+  }, []);
+
+  useEffect(() => {
+    loadQuoteLineRules(setQuoteLineRules);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(QUOTE_SALES_REP_STORAGE_KEY, quoteSalesRep);
+  }, [quoteSalesRep]);
+
+  useEffect(() => {
+    loadQuoteClients(setManualQuoteClients);
+  }, []);
+
+  const clientDirectory = useMemo(
+    () => buildQuoteClientDirectory(crmClients, manualQuoteClients),
+    [crmClients, manualQuoteClients],
+  );
 
   const parseInputNumber = (rawValue: string): number | null => {
     const normalized = rawValue.trim().replace(',', '.');
@@ -41,10 +197,10 @@ export const useCotizadorState = ({
     sku: product.sku,
     quantity: 1,
     costUSD: product.costUSD,
+    landedCostCLP: product.landedCostCLP,
+    msrpUSD: product.suggestedPriceUSD,
     category: product.category,
-    pricingMode: checkIsAtCost({ name: product.name, category: product.category }) ? 'at_cost' : 'inherit',
-    value: undefined,
-    locked: false,
+    ...resolveQuoteLineDefaults(quoteLineRules, product),
   });
 
   const filteredProducts = useMemo(() => {
@@ -75,7 +231,13 @@ export const useCotizadorState = ({
     });
   }, [exchangeRate, quoteLines, quotePricingConfig]);
 
-  const targetSalePrice = quoteResult.totalNetCLP;
+  const marginGuardrails = useMemo(
+    () => evaluateMarginGuardrails(quoteResult, marginFloorPolicy, quoteSalesRep),
+    [quoteResult, marginFloorPolicy, quoteSalesRep],
+  );
+  const marginApprovalStatus = resolveQuoteApprovalStatus(marginGuardrails, marginApproval);
+
+  const targetSalePrice = quoteResult.totalNetBeforeDiscountCLP;
   const grossMarginValue = quoteResult.totalProfitCLP;
   const grossMarginPercent = quoteResult.totalMarginPercent;
 
@@ -83,10 +245,16 @@ export const useCotizadorState = ({
     if (quoteLines.length === 0) return;
     if (confirm('¿Estás seguro de que deseas limpiar la simulación actual?')) {
       setQuoteLines([]);
-      setQuotePricingConfig({
+      setQuoteClient(null);
+      setMarginApproval(null);
+      setActiveQuoteRevision(null);
+      setQuoteValidUntil(buildQuoteValidUntil());
+      setQuotePricingConfig((prev) => ({
         mode: 'global_margin',
         targetMarginPercent: DEFAULT_QUOTE_MARGIN_PERCENT,
-      });
+        roundingPolicy: prev.roundingPolicy,
+        volumeTiers: prev.volumeTiers,
+      }));
     }
   };
 
@@ -102,6 +270,21 @@ export const useCotizadorState = ({
     setQuoteLines([...quoteLines, createQuoteLineFromProduct(product)]);
   };
 
+  // Adds each component of the kit as its own line instead of the single kit line.
+  const addKitComponents = (kit: Product) => {
+    const { items, missingSkus } = expandKitComponents(kit, products);
+    if (missingSkus.length > 0) {
+      alert(`Componentes del kit que no estan en el catalogo: ${missingSkus.join(', ')}`);
+    }
+    if (items.length === 0) return;
+
+    setQuoteLines((prev) => items.reduce((lines, { product, quantity }) => (
+      lines.some((line) => line.productId === product.id)
+        ? lines.map((line) => (line.productId === product.id ? { ...line, quantity: line.quantity + quantity } : line))
+        : [...lines, { ...createQuoteLineFromProduct(product), quantity }]
+    ), prev));
+  };
+
   const removeItem = (productId: string) => {
     setQuoteLines(quoteLines.filter((item) => item.productId !== productId));
   };
@@ -121,7 +304,9 @@ export const useCotizadorState = ({
     setQuoteLines((prev) => prev.map((line) => {
       if (line.productId !== productId) return line;
 
-      const nextValue = pricingMode === 'inherit' || pricingMode === 'at_cost' ? undefined : line.value ?? 0;
+      const nextValue = LINE_MODES_WITHOUT_VALUE.includes(pricingMode)
+        ? undefined
+        : line.value ?? 0;
       return {
         ...line,
         pricingMode,
@@ -142,6 +327,14 @@ export const useCotizadorState = ({
     )));
   };
 
+  const updateQuoteLineRounding = (productId: string, policy: QuotePriceRoundingPolicy | 'inherit') => {
+    setQuoteLines((prev) => prev.map((line) => (
+      line.productId === productId
+        ? { ...line, roundingPolicy: policy === 'inherit' ? undefined : policy }
+        : line
+    )));
+  };
+
   const toggleQuoteLineLock = (productId: string) => {
     setQuoteLines((prev) => prev.map((line) => (
       line.productId === productId ? { ...line, locked: !line.locked } : line
@@ -161,11 +354,10 @@ export const useCotizadorState = ({
   const handleSalePriceWithIvaChange = (rawValue: string) => {
     const parsedGross = parseInputNumber(rawValue);
     if (parsedGross === null) return;
-    const netPrice = parsedGross / 1.19;
     setQuotePricingConfig((prev) => ({
       ...prev,
-      mode: 'global_net',
-      targetNetTotalCLP: Math.max(0, Math.round(netPrice)),
+      mode: 'global_gross',
+      targetTotalWithIvaCLP: Math.max(0, Math.round(parsedGross)),
     }));
   };
 
@@ -174,19 +366,39 @@ export const useCotizadorState = ({
     if (parsed === null) return;
     setQuotePricingConfig((prev) => ({
       ...prev,
-      mode: 'global_margin',
+      mode: prev.mode === 'volume_tiers' ? 'volume_tiers' : 'global_margin',
       targetMarginPercent: Math.max(0, Math.min(99, parsed)),
     }));
   };
 
+  const handleListDiscountChange = (rawValue: string) => {
+    const parsed = parseInputNumber(rawValue);
+    if (parsed === null) return;
+    setQuotePricingConfig((prev) => ({
+      ...prev,
+      mode: 'msrp_list',
+      listDiscountPercent: Math.max(0, Math.min(100, parsed)),
+    }));
+  };
+
   const applyPricingPreset = (mode: QuotePricingConfig['mode']) => {
+    const carriedConfig: Pick<QuotePricingConfig, 'roundingPolicy' | 'volumeTiers' | 'discounts' | 'promotions' | 'currency' | 'currencyRateCLP' | 'taxProfile'> = {
+      roundingPolicy: quotePricingConfig.roundingPolicy,
+      volumeTiers: quotePricingConfig.volumeTiers,
+      discounts: quotePricingConfig.discounts,
+      promotions: quotePricingConfig.promotions,
+      currency: quotePricingConfig.currency,
+      currencyRateCLP: quotePricingConfig.currencyRateCLP,
+      taxProfile: quotePricingConfig.taxProfile,
+    };
+
     if (mode === 'at_cost') {
-      setQuotePricingConfig({ mode: 'at_cost' });
+      setQuotePricingConfig({ mode: 'at_cost', ...carriedConfig });
       return;
     }
 
     if (mode === 'manual_lines') {
-      setQuotePricingConfig({ mode: 'manual_lines' });
+      setQuotePricingConfig({ mode: 'manual_lines', ...carriedConfig });
       setQuoteLines((prev) => prev.map((line, index) => ({
         ...line,
         pricingMode: 'manual_net_unit',
@@ -201,6 +413,36 @@ export const useCotizadorState = ({
         mode: 'global_net',
         targetNetTotalCLP: quoteResult.totalNetCLP,
         targetMarginPercent: quotePricingConfig.targetMarginPercent,
+        ...carriedConfig,
+      });
+      return;
+    }
+
+    if (mode === 'global_gross') {
+      setQuotePricingConfig({
+        mode: 'global_gross',
+        targetTotalWithIvaCLP: quoteResult.totalWithIvaCLP,
+        targetMarginPercent: quotePricingConfig.targetMarginPercent,
+        ...carriedConfig,
+      });
+      return;
+    }
+
+    if (mode === 'msrp_list') {
+      setQuotePricingConfig({
+        mode: 'msrp_list',
+        listDiscountPercent: quotePricingConfig.listDiscountPercent ?? 0,
+        targetMarginPercent: quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
+        ...carriedConfig,
+      });
+      return;
+    }
+
+    if (mode === 'volume_tiers') {
+      setQuotePricingConfig({
+        mode: 'volume_tiers',
+        targetMarginPercent: quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT,
+        ...carriedConfig,
       });
       return;
     }
@@ -209,7 +451,272 @@ export const useCotizadorState = ({
       mode: 'global_margin',
       targetMarginPercent: DEFAULT_QUOTE_MARGIN_PERCENT,
       targetNetTotalCLP: quoteResult.totalNetCLP,
+      ...carriedConfig,
+    });
+  };
+
+  const setQuoteRoundingPolicy = (policy: QuotePriceRoundingPolicy) => {
+    setQuotePricingConfig((prev) => ({ ...prev, roundingPolicy: policy }));
+  };
+
+  // USD quotes follow the cost exchange rate until a rate is typed; EUR quotes pin today's euro.
+  const setQuoteCurrency = (currency: QuoteCurrency) => {
+    setQuotePricingConfig((prev) => ({
+      ...prev,
+      currency,
+      currencyRateCLP: currency === 'EUR' && euroRate > 0 ? euroRate : undefined,
+    }));
+  };
+
+  const handleQuoteCurrencyRateChange = (rawValue: string) => {
+    const parsed = parseInputNumber(rawValue);
+    if (parsed === null) return;
+    setQuotePricingConfig((prev) => ({ ...prev, currencyRateCLP: parsed > 0 ? parsed : undefined }));
+  };
+
+  const setQuoteTaxProfile = (profileId: string) => {
+    const profile = QUOTE_TAX_PROFILES.find((candidate) => candidate.id === profileId);
+    if (!profile) return;
+    setQuotePricingConfig((prev) => ({ ...prev, taxProfile: profile }));
+  };
+
+  const updateVolumeTierSchedules = (updater: (schedules: QuoteVolumeTierSchedule[]) => QuoteVolumeTierSchedule[]) => {
+    setQuotePricingConfig((prev) => ({
+      ...prev,
+      volumeTiers: updater(prev.volumeTiers ?? []),
+    }));
+  };
+
+  const addVolumeTierSchedule = (category: string) => {
+    const normalizedCategory = category.trim();
+    if (!normalizedCategory) return;
+    updateVolumeTierSchedules((schedules) => (
+      schedules.some((schedule) => normalizeText(schedule.category) === normalizeText(normalizedCategory))
+        ? schedules
+        : [...schedules, {
+          category: normalizedCategory,
+          tiers: [{ minQuantity: 1, maxQuantity: null, marginPercent: quotePricingConfig.targetMarginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT }],
+        }]
+    ));
+  };
+
+  const removeVolumeTierSchedule = (category: string) => {
+    updateVolumeTierSchedules((schedules) => schedules.filter((schedule) => schedule.category !== category));
+  };
+
+  const addVolumeTier = (category: string) => {
+    updateVolumeTierSchedules((schedules) => schedules.map((schedule) => {
+      if (schedule.category !== category) return schedule;
+      const lastTier = schedule.tiers[schedule.tiers.length - 1];
+      const nextMin = lastTier ? (lastTier.maxQuantity ?? lastTier.minQuantity) + 1 : 1;
+      return {
+        ...schedule,
+        tiers: [...schedule.tiers, { minQuantity: nextMin, maxQuantity: null, marginPercent: lastTier?.marginPercent ?? DEFAULT_QUOTE_MARGIN_PERCENT }],
+      };
+    }));
+  };
+
+  const updateVolumeTier = (category: string, tierIndex: number, field: keyof QuoteVolumeTier, rawValue: string) => {
+    let nextValue: string | number | null = rawValue;
+    if (field !== 'label') {
+      if (field === 'maxQuantity' && !rawValue.trim()) {
+        nextValue = null;
+      } else {
+        const parsed = parseInputNumber(rawValue);
+        if (parsed === null) return;
+        nextValue = field === 'marginPercent' ? Math.max(0, Math.min(99, parsed)) : Math.max(0, Math.round(parsed));
+      }
+    }
+
+    updateVolumeTierSchedules((schedules) => schedules.map((schedule) => (
+      schedule.category !== category
+        ? schedule
+        : {
+          ...schedule,
+          tiers: schedule.tiers.map((tier, index) => (index === tierIndex ? { ...tier, [field]: nextValue } : tier)),
+        }
+    )));
+  };
+
+  const toggleQuotePromotion = (promotion: QuoteBundlePromotion) => {
+    setQuotePricingConfig((prev) => {
+      const activePromotions = prev.promotions ?? [];
+      return {
+        ...prev,
+        promotions: activePromotions.some((entry) => entry.id === promotion.id)
+          ? activePromotions.filter((entry) => entry.id !== promotion.id)
+          : [...activePromotions, promotion],
+      };
+    });
+  };
+
+  const addQuoteDiscount = (type: QuoteDiscountRule['type']) => {
+    setQuotePricingConfig((prev) => ({
+      ...prev,
+      discounts: [...(prev.discounts ?? []), { id: `discount-${Date.now()}`, label: '', type, value: 0 }],
+    }));
+  };
+
+  const updateQuoteDiscount = (id: string, field: 'label' | 'value', rawValue: string) => {
+    let nextValue: string | number = rawValue;
+    if (field === 'value') {
+      const parsed = parseInputNumber(rawValue);
+      if (parsed === null) return;
+      nextValue = Math.max(0, parsed);
+    }
+
+    setQuotePricingConfig((prev) => ({
+      ...prev,
+      discounts: (prev.discounts ?? []).map((discount) => (discount.id === id ? { ...discount, [field]: nextValue } : discount)),
+    }));
+  };
+
+  const removeQuoteDiscount = (id: string) => {
+    setQuotePricingConfig((prev) => ({
+      ...prev,
+      discounts: (prev.discounts ?? []).filter((discount) => discount.id !== id),
+    }));
+  };
+
+  const removeVolumeTier = (category: string, tierIndex: number) => {
+    updateVolumeTierSchedules((schedules) => schedules.map((schedule) => (
+      schedule.category !== category
+        ? schedule
+        : { ...schedule, tiers: schedule.tiers.filter((_, index) => index !== tierIndex) }
+    )));
+  };
+
+  const updateMarginFloorDefault = (rawValue: string) => {
+    const parsed = parseInputNumber(rawValue);
+    if (!quoteApproverSession || parsed === null) return;
+    setMarginFloorPolicy((prev) => ({ ...prev, defaultFloorPercent: Math.max(-100, Math.min(99, parsed)) }));
+  };
+
+  const setMarginFloor = (scope: 'categoryFloors' | 'userFloors', key: string, rawValue: string) => {
+    const normalizedKey = key.trim();
+    const parsed = parseInputNumber(rawValue);
+    if (!quoteApproverSession || !normalizedKey || parsed === null) return;
+    setMarginFloorPolicy((prev) => ({
+      ...prev,
+      [scope]: { ...prev[scope], [normalizedKey]: Math.max(-100, Math.min(99, parsed)) },
+    }));
+  };
+
+  const removeMarginFloor = (scope: 'categoryFloors' | 'userFloors', key: string) => {
+    if (!quoteApproverSession) return;
+    setMarginFloorPolicy((prev) => {
+      const nextFloors = { ...prev[scope] };
+      delete nextFloors[key];
+      return { ...prev, [scope]: nextFloors };
+    });
+  };
+
+  const setMarginApprovers = (rawValue: string) => {
+    if (!quoteApproverSession) return;
+    const approvers = rawValue.split(/[,;\s]+/).map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+    setMarginFloorPolicy((prev) => ({ ...prev, approvers }));
+  };
+
+  const saveMarginFloorPolicy = async (): Promise<string | null> => {
+    if (!quoteApproverSession) return 'Inicia sesion como gerente para editar los pisos.';
+    try {
+      await saveQuoteMarginPolicy(marginFloorPolicy, quoteApproverSession);
+      return null;
+    } catch (error) {
+      return `No se pudieron guardar los pisos: ${(error as Error).message}`;
+    }
+  };
+
+  const signInMarginApprover = async (email: string, password: string): Promise<string | null> => {
+    if (!email.trim() || !password) return 'Ingresa el correo y la clave del gerente.';
+    try {
+      setQuoteApproverSession(await signInQuoteApprover(email, password));
+      return null;
+    } catch (error) {
+      return `No se pudo iniciar sesion: ${(error as Error).message}`;
+    }
+  };
+
+  // Dropping the manager also drops their approval and any unsaved floor edits.
+  const signOutMarginApprover = () => {
+    setQuoteApproverSession(null);
+    setMarginApproval(null);
+    loadMarginFloorPolicy(setMarginFloorPolicy);
+  };
+
+  const addQuoteLineRule = () => {
+    setQuoteLineRules((prev) => [...prev, {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      field: 'name',
+      operator: 'contains',
+      value: '',
+      pricingMode: 'at_cost',
+      note: '',
+    }]);
+  };
+
+  const updateQuoteLineRule = (id: string, patch: Partial<Omit<QuoteLineDefaultRule, 'id'>>) => {
+    setQuoteLineRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const removeQuoteLineRule = (id: string) => {
+    setQuoteLineRules((prev) => prev.filter((rule) => rule.id !== id));
+  };
+
+  const saveQuoteLineRuleSet = async (): Promise<string | null> => {
+    try {
+      await saveQuoteLineRules(quoteLineRules);
+      return null;
+    } catch (error) {
+      return `No se pudieron guardar las reglas: ${(error as Error).message}`;
+    }
+  };
+
+  const approveQuoteMargin = (reason: string): string | null => {
+    if (!MARGIN_APPROVALS_SUPPORTED) return 'Con PocketBase no hay aprobaciones de margen: ajusta la cotizacion al minimo.';
+    const validationError = validateMarginApproval(marginFloorPolicy, quoteApproverSession, quoteSalesRep, reason);
+    if (validationError || !quoteApproverSession) return validationError;
+    setMarginApproval({
+      approvedBy: quoteApproverSession.email,
+      reason: reason.trim(),
+      approvedAt: new Date().toISOString(),
+      signature: marginGuardrails.signature,
     });
+    return null;
+  };
+
+  const revokeQuoteMarginApproval = () => {
+    setMarginApproval(null);
+  };
+
+  // The CRM module may have imported new sales since this hook mounted.
+  const refreshCRMClients = () => {
+    setCrmClients(readStoredCRMClients());
+  };
+
+  // Picking a client also hands the quote to the rep that owns the client in the CRM.
+  const selectQuoteClient = (client: QuoteClient | null) => {
+    setQuoteClient(client);
+    if (client?.salesRep) setQuoteSalesRep(client.salesRep);
+  };
+
+  const createQuoteClient = async (input: QuoteClientInput): Promise<string | null> => {
+    const validationError = validateQuoteClientInput(input, clientDirectory);
+    if (validationError) return validationError;
+    const client = buildManualQuoteClient({ ...input, salesRep: input.salesRep || quoteSalesRep });
+    try {
+      await insertQuoteClient(client);
+    } catch (error) {
+      return `No se pudo guardar el cliente: ${(error as Error).message}`;
+    }
+    setManualQuoteClients((prev) => [...prev, client]);
+    selectQuoteClient(client);
+    return null;
+  };
+
+  const openProductCostHistory = (productId: string) => {
+    setCostHistoryProductId(productId);
+    setActiveTab('costs');
   };
 
   return {
@@ -223,6 +730,9 @@ export const useCotizadorState = ({
     setSelectedCategory,
     activeTab,
     setActiveTab,
+    costHistoryProductId,
+    setCostHistoryProductId,
+    openProductCostHistory,
     filteredProducts,
     totalCostUSD,
     quoteResult,
@@ -231,6 +741,7 @@ export const useCotizadorState = ({
     grossMarginPercent,
     clearDeal,
     addItem,
+    addKitComponents,
     removeItem,
     updateQuantity,
     updateQuoteLineMode,
@@ -239,6 +750,56 @@ export const useCotizadorState = ({
     handleNetSalePriceChange,
     handleSalePriceWithIvaChange,
     handleGlobalMarginChange,
+    handleListDiscountChange,
     applyPricingPreset,
+    setQuoteRoundingPolicy,
+    setQuoteCurrency,
+    handleQuoteCurrencyRateChange,
+    setQuoteTaxProfile,
+    updateQuoteLineRounding,
+    addVolumeTierSchedule,
+    removeVolumeTierSchedule,
+    addVolumeTier,
+    updateVolumeTier,
+    removeVolumeTier,
+    toggleQuotePromotion,
+    addQuoteDiscount,
+    updateQuoteDiscount,
+    removeQuoteDiscount,
+    activeQuoteRevision,
+    setActiveQuoteRevision,
+    quoteValidUntil,
+    setQuoteValidUntil,
+    quoteSalesRep,
+    setQuoteSalesRep,
+    quoteClient,
+    setQuoteClient,
+    clientDirectory,
+    refreshCRMClients,
+    selectQuoteClient,
+    createQuoteClient,
+    historyClientFilter,
+    setHistoryClientFilter,
+    historySalesRepFilter,
+    setHistorySalesRepFilter,
+    marginFloorPolicy,
+    quoteLineRules,
+    addQuoteLineRule,
+    updateQuoteLineRule,
+    removeQuoteLineRule,
+    saveQuoteLineRuleSet,
+    marginGuardrails,
+    marginApproval,
+    marginApprovalStatus,
+    quoteApproverSession,
+    signInMarginApprover,
+    signOutMarginApprover,
+    updateMarginFloorDefault,
+    setMarginFloor,
+    removeMarginFloor,
+    setMarginApprovers,
+    saveMarginFloorPolicy,
+    approveQuoteMargin,
+    revokeQuoteMarginApproval,
   };
 };
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tables = vi.hoisted(() => ({
+  historyError: null as { message: string } | null,
+  historyRows: [] as Array<Record<string, unknown>>,
+  rejectedIds: new Set<string>(),
+}));
+
+vi.mock('./supabase', () => ({
+  createSupabaseSessionClient: vi.fn(),
+  supabase: {
+    from: (table: string) => ({
+      insert: (rows: Array<Record<string, unknown>> | Record<string, unknown>) => {
+        const inserted = Array.isArray(rows) ? rows : [rows];
+        if (table === 'product_cost_history') {
+          tables.historyRows.push(...inserted);
+          return Promise.resolve({ error: tables.historyError });
+        }
+        return {
+          select: () => ({
+            single: () => Promise.resolve({ data: { id: 'p-1', ...inserted[0] }, error: null }),
+          }),
+        };
+      },
+      update: () => ({
+        eq: (_column: string, id: string) => Promise.resolve({
+          error: tables.rejectedIds.has(id) ? { message: 'new row violates row-level security policy' } : null,
+        }),
+      }),
+    }),
+  },
+}));
+
+import { applyCatalogSyncPlan, createProductRecord } from './appDataRepository';
+
+const newProduct = { name: 'Fixture AR 4.5x10', category: 'Implantes', sku: 'AR4510C', costUSD: 45, suggestedPriceUSD: 90 };
+
+describe('createProductRecord', () => {
+  beforeEach(() => {
+    tables.historyError = null;
+    tables.historyRows = [];
+  });
+
+  it('devuelve el producto creado cuando el historial se registra', async () => {
+    const result = await createProductRecord(newProduct);
+
+    expect(result.product).toMatchObject({ id: 'p-1', sku: 'AR4510C', costUSD: 45 });
+    expect(result.historyError).toBeNull();
+  });
+
+  it('no falla la creacion si el historial de costos no se registra', async () => {
+    tables.historyError = { message: 'relation "product_cost_history" does not exist' };
+
+    const result = await createProductRecord(newProduct);
+
+    expect(result.product.id).toBe('p-1');
+    expect(result.historyError).toBe('relation "product_cost_history" does not exist');
+  });
+});
+
+describe('applyCatalogSyncPlan', () => {
+  const products = [
+    { id: 'db-1', name: 'Fixture AR 4.0x10', category: 'Implantes', sku: 'AR4010C', costUSD: 40, suggestedPriceUSD: 80 },
+    { id: 'db-2', name: 'Pilar recto', category: 'Aditamentos', sku: 'PR-01', costUSD: 12, suggestedPriceUSD: 30 },
+  ];
+  const costChange = (productId: string, costUSD: number) => ({
+    productId,
+    productName: productId,
+    costUSD,
+    previousCostUSD: 1,
+    source: 'catalog_sync' as const,
+  });
+
+  beforeEach(() => {
+    tables.historyError = null;
+    tables.historyRows = [];
+    tables.rejectedIds = new Set(['db-2']);
+  });
+
+  it('sigue con las demas filas e informa cual fallo', async () => {
+    const result = await applyCatalogSyncPlan({
+      creates: [],
+      updates: [{ id: 'db-1', patch: { costUSD: 42 } }, { id: 'db-2', patch: { costUSD: 14 } }],
+      removals: [],
+      costChanges: [costChange('db-1', 42), costChange('db-2', 14)],
+    }, products);
+
+    expect(result.applied).toEqual({ creates: 0, updates: 1, removals: 0 });
+    expect(result.failures).toEqual([{
+      action: 'update',
+      sku: 'PR-01',
+      productName: 'Pilar recto',
+      message: 'new row violates row-level security policy',
+    }]);
+    expect(tables.historyRows.map((row) => row.product_id)).toEqual(['db-1']);
+  });
+});
@@ -1,26 +1,70 @@
-import type { Product } from '../data/mockProducts';
+import { DEFAULT_IMPORT_COST_MODEL } from '../data/importTradeAgreements';
+import type { Product, ProductKitComponent } from '../data/mockProducts';
+import type {
+  CatalogProductPatch,
+  CatalogSyncFailure,
+  CatalogSyncPlan,
+  CatalogSyncResult,
+  ProductCreateResult,
+  LandedCostApplyFailure,
+  LandedCostApplyResult,
+  LandedCostUpdateRow,
+  ProductCostHistoryEntry,
+  ProductCostHistoryPayload,
+  ProductCostSource,
+} from '../types/catalog';
+import type { FxRateEntry } from '../types/fx';
+import type { ImportCostCharge, ImportCostModelSettings } from '../types/imports';
+import type {
+  QuoteApprovalStatus,
+  QuoteApproverSession,
+  QuoteBundlePromotion,
+  QuoteClientContact,
+  QuoteCurrency,
+  QuoteDiscountRule,
+  QuoteLifecycleStatus,
+  QuoteMarginViolation,
+  QuotePriceRoundingPolicy,
+  QuoteTaxProfile,
+  QuoteVolumeTierSchedule,
+} from '../types/quotation';
+import { isImportAllocationMethod, type ImportAllocationMethod } from '../utils/importCosting';
+import { normalizeKitComponents } from '../utils/productKits';
+import { buildQuoteValidUntil, isQuoteLifecycleStatus, validateQuoteStatusChange } from '../utils/quoteLifecycle';
+import { buildNextQuoteNumber, getQuoteNumberYearPrefix } from '../utils/quoteRevisions';
 import { DATA_PROVIDER, DATA_PROVIDER_LABEL, isPocketBaseProvider } from './dataProvider';
 import { pocketbase } from './pocketbase';
-import { supabase } from './supabase';
+import { MARGIN_APPROVALS_SUPPORTED } from './quoteMarginRepository';
+import { createSupabaseSessionClient, supabase } from './supabase';
 
 export interface SimulationItemPayload {
   product_id?: string;
   name: string;
   qty: number;
   cost_usd: number;
+  landed_cost_clp?: number | null;
+  msrp_usd?: number | null;
   category?: string;
   pricing_mode?: string;
   pricing_value?: number | null;
   locked?: boolean;
+  rounding_policy?: QuotePriceRoundingPolicy | null;
   net_unit_clp?: number;
   net_total_clp?: number;
   profit_total_clp?: number;
   margin_percent?: number;
+  volume_tier_label?: string | null;
+  discount_total_clp?: number;
+  discount_vs_list_percent?: number | null;
 }
 
 export interface SaveSimulationPayload {
+  // Set to add a revision to an existing quote; omitted, a new quote number is assigned.
+  quote_number?: string | null;
   sale_price_clp: number;
   exchange_rate: number;
+  // Day the exchange rate was published for; reopening the quote keeps this rate.
+  exchange_rate_date?: string | null;
   total_cost_usd: number;
   total_cost_clp: number;
   margin_percent: number;
@@ -28,15 +72,47 @@ export interface SaveSimulationPayload {
   pricing_mode?: string;
   target_margin_percent?: number | null;
   target_net_total_clp?: number | null;
+  target_total_with_iva_clp?: number | null;
+  list_discount_percent?: number | null;
+  quote_currency?: QuoteCurrency;
+  // CLP per unit of `quote_currency`; null keeps a USD quote on `exchange_rate`.
+  quote_currency_rate?: number | null;
+  tax_profile?: QuoteTaxProfile | null;
+  rounding_policy?: QuotePriceRoundingPolicy;
+  volume_tiers?: QuoteVolumeTierSchedule[] | null;
+  discounts?: QuoteDiscountRule[];
+  promotions?: QuoteBundlePromotion[];
+  total_discount_clp?: number;
+  client_rut?: string | null;
+  client_name?: string | null;
+  client_contact?: QuoteClientContact | null;
+  sales_rep?: string | null;
+  margin_floor_percent?: number | null;
+  margin_violations?: QuoteMarginViolation[];
+  approval_status?: QuoteApprovalStatus;
+  approved_by?: string | null;
+  approval_reason?: string | null;
+  approved_at?: string | null;
+  // Defaults to a draft valid for QUOTE_VALIDITY_DAYS from today.
+  valid_until?: string | null;
   warnings?: string[];
   items: SimulationItemPayload[];
 }
 
+export interface SimulationStatusPatch {
+  status: QuoteLifecycleStatus;
+  loss_reason?: string | null;
+}
+
 export interface SavedSimulationRecord {
   id: string;
   created_at: string;
+  quote_number: string;
+  revision: number;
   sale_price_clp: number;
   exchange_rate: number;
+  // Day the exchange rate was published for; reopening the quote keeps this rate.
+  exchange_rate_date?: string | null;
   total_cost_usd: number;
   total_cost_clp: number;
   margin_percent: number;
@@ -44,6 +120,31 @@ export interface SavedSimulationRecord {
   pricing_mode?: string;
   target_margin_percent?: number | null;
   target_net_total_clp?: number | null;
+  target_total_with_iva_clp?: number | null;
+  list_discount_percent?: number | null;
+  quote_currency?: QuoteCurrency;
+  // CLP per unit of `quote_currency`; null keeps a USD quote on `exchange_rate`.
+  quote_currency_rate?: number | null;
+  tax_profile?: QuoteTaxProfile | null;
+  rounding_policy?: QuotePriceRoundingPolicy;
+  volume_tiers?: QuoteVolumeTierSchedule[] | null;
+  discounts?: QuoteDiscountRule[];
+  promotions?: QuoteBundlePromotion[];
+  total_discount_clp?: number;
+  client_rut?: string | null;
+  client_name?: string | null;
+  client_contact?: QuoteClientContact | null;
+  sales_rep?: string | null;
+  margin_floor_percent?: number | null;
+  margin_violations?: QuoteMarginViolation[];
+  approval_status?: QuoteApprovalStatus;
+  approved_by?: string | null;
+  approval_reason?: string | null;
+  approved_at?: string | null;
+  status: QuoteLifecycleStatus;
+  valid_until?: string | null;
+  loss_reason?: string | null;
+  status_updated_at?: string | null;
   warnings?: string[];
   items: SimulationItemPayload[];
 }
@@ -53,6 +154,9 @@ export interface ImportSnapshotItemPayload {
   name: string;
   quantity: number;
   unitCost: number;
+  unitWeight?: number;
+  allocationShare?: number;
+  dutyExempt?: boolean;
 }
 
 export interface SaveImportSnapshotPayload {
@@ -64,13 +168,23 @@ export interface SaveImportSnapshotPayload {
   shippingCost: number;
   shippingCurrency: 'CLP' | 'USD' | 'EUR';
   customsCostCLP: number;
+  shippingAllocationMethod: ImportAllocationMethod;
+  customsAllocationMethod: ImportAllocationMethod;
+  // Null on snapshots saved before insurance, duty and local charges were modeled.
+  costModel: ImportCostModelSettings | null;
   targetGrossMarginPercent: number;
+  // Day of the exchange rates the snapshot was calculated with.
+  fxRateDate?: string | null;
+  // Day the import USD rate was typed in; it is entered by hand, not fetched.
+  usdRateDate?: string | null;
   items: ImportSnapshotItemPayload[];
 }
 
 export interface SavedImportSnapshotRecord extends SaveImportSnapshotPayload {
   id: string;
   createdAt: string;
+  // Set once the snapshot's landed costs were pushed into the catalog.
+  catalogAppliedAt: string | null;
 }
 
 interface ProductRecord {
@@ -80,6 +194,10 @@ interface ProductRecord {
   category: string;
   cost_usd: number;
   msrp_usd?: number;
+  components?: unknown;
+  landed_cost_clp?: number | null;
+  landed_cost_units?: number | null;
+  landed_cost_stale?: boolean | null;
 }
 
 const toNumber = (value: unknown): number => {
@@ -87,14 +205,37 @@ const toNumber = (value: unknown): number => {
   return Number.isFinite(parsed) ? parsed : 0;
 };
 
-const toProduct = (record: ProductRecord): Product => ({
-  id: record.id,
-  sku: record.sku,
-  name: record.name,
-  category: record.category,
-  costUSD: toNumber(record.cost_usd),
-  suggestedPriceUSD: toNumber(record.msrp_usd),
-});
+const toKitComponents = (value: unknown): ProductKitComponent[] => {
+  if (!Array.isArray(value)) return [];
+  return normalizeKitComponents(value.map((row) => ({
+    sku: String((row as Record<string, unknown>)?.sku ?? ''),
+    quantity: toNumber((row as Record<string, unknown>)?.quantity),
+  })));
+};
+
+const toProduct = (record: ProductRecord): Product => {
+  const components = toKitComponents(record.components);
+  return {
+    id: record.id,
+    sku: record.sku,
+    name: record.name,
+    category: record.category,
+    costUSD: toNumber(record.cost_usd),
+    suggestedPriceUSD: toNumber(record.msrp_usd),
+    ...(components.length > 0 ? { components } : {}),
+    ...(toNumber(record.landed_cost_clp) > 0
+      ? {
+        landedCostCLP: toNumber(record.landed_cost_clp),
+        landedCostUnits: toNumber(record.landed_cost_units),
+        ...(record.landed_cost_stale ? { landedCostStale: true } : {}),
+      }
+      : {}),
+  };
+};
+
+const isRoundingPolicy = (value: unknown): value is QuotePriceRoundingPolicy => (
+  value === 'none' || value === 'nearest_100' || value === 'nearest_1000' || value === 'ending_990'
+);
 
 const normalizeItems = (value: unknown): SimulationItemPayload[] => {
   if (!Array.isArray(value)) return [];
@@ -105,18 +246,74 @@ const normalizeItems = (value: unknown): SimulationItemPayload[] => {
       name: String(row.name || ''),
       qty: toNumber(row.qty),
       cost_usd: toNumber(row.cost_usd),
+      landed_cost_clp: row.landed_cost_clp == null ? null : toNumber(row.landed_cost_clp),
+      msrp_usd: row.msrp_usd == null ? null : toNumber(row.msrp_usd),
       category: row.category ? String(row.category) : undefined,
       pricing_mode: row.pricing_mode ? String(row.pricing_mode) : undefined,
       pricing_value: row.pricing_value == null ? null : toNumber(row.pricing_value),
       locked: Boolean(row.locked),
+      rounding_policy: isRoundingPolicy(row.rounding_policy) ? row.rounding_policy : null,
       net_unit_clp: row.net_unit_clp == null ? undefined : toNumber(row.net_unit_clp),
       net_total_clp: row.net_total_clp == null ? undefined : toNumber(row.net_total_clp),
       profit_total_clp: row.profit_total_clp == null ? undefined : toNumber(row.profit_total_clp),
       margin_percent: row.margin_percent == null ? undefined : toNumber(row.margin_percent),
+      volume_tier_label: row.volume_tier_label ? String(row.volume_tier_label) : null,
+      discount_total_clp: row.discount_total_clp == null ? undefined : toNumber(row.discount_total_clp),
+      discount_vs_list_percent: row.discount_vs_list_percent == null ? null : toNumber(row.discount_vs_list_percent),
     };
   });
 };
 
+const normalizeVolumeTiers = (value: unknown): QuoteVolumeTierSchedule[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value.map((entry) => {
+    const row = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    return {
+      category: String(row.category || ''),
+      tiers: Array.isArray(row.tiers)
+        ? row.tiers.map((tier) => {
+          const tierRow = (tier && typeof tier === 'object' ? tier : {}) as Record<string, unknown>;
+          return {
+            minQuantity: toNumber(tierRow.minQuantity),
+            maxQuantity: tierRow.maxQuantity == null ? null : toNumber(tierRow.maxQuantity),
+            marginPercent: toNumber(tierRow.marginPercent),
+            label: tierRow.label ? String(tierRow.label) : undefined,
+          };
+        })
+        : [],
+    };
+  });
+};
+
+const normalizeDiscountRules = (value: unknown): QuoteDiscountRule[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map((entry) => {
+    const row = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    return {
+      id: String(row.id || ''),
+      label: String(row.label || ''),
+      type: row.type === 'fixed_clp' ? 'fixed_clp' : 'percent',
+      value: toNumber(row.value),
+    };
+  });
+};
+
+const normalizePromotions = (value: unknown): QuoteBundlePromotion[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((row) => ({
+      id: String(row.id || ''),
+      label: String(row.label || ''),
+      triggerImplantKey: row.triggerImplantKey ? String(row.triggerImplantKey) as QuoteBundlePromotion['triggerImplantKey'] : undefined,
+      triggerProductText: row.triggerProductText ? String(row.triggerProductText) : undefined,
+      triggerQuantity: toNumber(row.triggerQuantity),
+      rewardProductText: String(row.rewardProductText || ''),
+      rewardQuantity: toNumber(row.rewardQuantity),
+      repeatable: Boolean(row.repeatable),
+    }));
+};
+
 const normalizeImportSnapshotItems = (value: unknown): ImportSnapshotItemPayload[] => {
   if (!Array.isArray(value)) return [];
   return value.map((item) => {
@@ -126,10 +323,40 @@ const normalizeImportSnapshotItems = (value: unknown): ImportSnapshotItemPayload
       name: String(row.name || ''),
       quantity: toNumber(row.quantity),
       unitCost: toNumber(row.unit_cost ?? row.unitCost),
+      ...(row.unit_weight != null ? { unitWeight: toNumber(row.unit_weight) } : {}),
+      ...(row.allocation_share != null ? { allocationShare: toNumber(row.allocation_share) } : {}),
+      ...(row.duty_exempt ? { dutyExempt: true } : {}),
     };
   });
 };
 
+const normalizeAllocationMethod = (value: unknown): ImportAllocationMethod => (
+  isImportAllocationMethod(value) ? value : 'value'
+);
+
+const normalizeImportCostCharge = (value: unknown, fallback: ImportCostCharge): ImportCostCharge => {
+  if (!value || typeof value !== 'object') return fallback;
+  const row = value as Record<string, unknown>;
+  const currency = String(row.currency || '').toUpperCase();
+  return {
+    amount: toNumber(row.amount),
+    currency: currency === 'USD' || currency === 'EUR' ? currency : 'CLP',
+  };
+};
+
+const normalizeImportCostModel = (value: unknown): ImportCostModelSettings | null => {
+  if (!value || typeof value !== 'object') return null;
+  const row = value as Record<string, unknown>;
+  return {
+    insurance: normalizeImportCostCharge(row.insurance, DEFAULT_IMPORT_COST_MODEL.insurance),
+    adValoremPercent: toNumber(row.adValoremPercent ?? row.ad_valorem_percent),
+    tradeAgreementId: String(row.tradeAgreementId ?? row.trade_agreement_id ?? 'none'),
+    agentFees: normalizeImportCostCharge(row.agentFees ?? row.agent_fees, DEFAULT_IMPORT_COST_MODEL.agentFees),
+    portCharges: normalizeImportCostCharge(row.portCharges ?? row.port_charges, DEFAULT_IMPORT_COST_MODEL.portCharges),
+    localTransport: normalizeImportCostCharge(row.localTransport ?? row.local_transport, DEFAULT_IMPORT_COST_MODEL.localTransport),
+  };
+};
+
 const toSavedImportSnapshotRecord = (row: Record<string, unknown>): SavedImportSnapshotRecord => ({
   id: String(row.id || ''),
   createdAt: String(row.created_at || row.created || ''),
@@ -145,8 +372,14 @@ const toSavedImportSnapshotRecord = (row: Record<string, unknown>): SavedImportS
       ? 'EUR'
       : 'CLP',
   customsCostCLP: toNumber(row.customs_cost_clp ?? row.customsCostCLP),
+  shippingAllocationMethod: normalizeAllocationMethod(row.shipping_allocation_method),
+  customsAllocationMethod: normalizeAllocationMethod(row.customs_allocation_method),
+  costModel: normalizeImportCostModel(row.cost_model),
   targetGrossMarginPercent: toNumber(row.target_gross_margin_percent ?? row.targetGrossMarginPercent),
+  fxRateDate: row.fx_rate_date ? String(row.fx_rate_date).slice(0, 10) : null,
+  usdRateDate: row.usd_rate_date ? String(row.usd_rate_date).slice(0, 10) : null,
   items: normalizeImportSnapshotItems(row.items),
+  catalogAppliedAt: row.catalog_applied_at ? String(row.catalog_applied_at) : null,
 });
 
 const isPocketBaseCollectionContextError = (error: unknown): boolean => {
@@ -165,11 +398,12 @@ const mapPocketBaseCollectionError = (error: unknown, collectionName: string): E
   return error instanceof Error ? error : new Error('Error desconocido de PocketBase.');
 };
 
-const deleteAllPocketBaseRecords = async (collectionName: string): Promise<void> => {
-  const rows = await pocketbase.collection(collectionName).getFullList<{ id: string }>({ fields: 'id' });
-  for (const row of rows) {
-    await pocketbase.collection(collectionName).delete(row.id);
-  }
+// Unique (quote_number, revision) violations: Postgres 23505, PocketBase's per-field validation_not_unique.
+const isQuoteNumberConflictError = (error: unknown): boolean => {
+  const candidate = error as { code?: string; status?: number; response?: { data?: Record<string, { code?: string }> } } | null;
+  if (candidate?.code === '23505') return true;
+  const fieldErrors = candidate?.status === 400 ? candidate.response?.data : undefined;
+  return Object.values(fieldErrors ?? {}).some((fieldError) => fieldError?.code === 'validation_not_unique');
 };
 
 export const getDataBackendLabel = (): string => DATA_PROVIDER_LABEL;
@@ -189,53 +423,406 @@ export const fetchProductsList = async (): Promise<Product[]> => {
   return data.map((row) => toProduct(row));
 };
 
-export const replaceProductsCatalog = async (products: Product[]): Promise<void> => {
-  const payload = products.map((p) => ({
-    sku: p.sku,
-    name: p.name,
-    category: p.category,
-    cost_usd: p.costUSD,
-    msrp_usd: p.suggestedPriceUSD,
-  }));
+const toProductPayload = (patch: CatalogProductPatch) => ({
+  ...(patch.sku !== undefined ? { sku: patch.sku } : {}),
+  ...(patch.category !== undefined ? { category: patch.category } : {}),
+  ...(patch.costUSD !== undefined ? { cost_usd: patch.costUSD } : {}),
+  ...(patch.suggestedPriceUSD !== undefined ? { msrp_usd: patch.suggestedPriceUSD } : {}),
+  ...(patch.markLandedCostStale ? { landed_cost_stale: true } : {}),
+});
 
-  if (!isPocketBaseProvider) {
-    const { error: deleteError } = await supabase
-      .from('products')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000');
+const toProductCostHistoryEntry = (row: Record<string, unknown>): ProductCostHistoryEntry => ({
+  id: String(row.id || ''),
+  productId: String(row.product_id || ''),
+  sku: row.sku ? String(row.sku) : undefined,
+  productName: String(row.product_name || ''),
+  costUSD: toNumber(row.cost_usd),
+  previousCostUSD: row.previous_cost_usd == null ? null : toNumber(row.previous_cost_usd),
+  suggestedPriceUSD: row.msrp_usd == null ? undefined : toNumber(row.msrp_usd),
+  landedCostCLP: row.landed_cost_clp == null ? null : toNumber(row.landed_cost_clp),
+  previousLandedCostCLP: row.previous_landed_cost_clp == null ? null : toNumber(row.previous_landed_cost_clp),
+  source: row.source === 'manual' || row.source === 'import_landed_cost' || row.source === 'kit_composition'
+    ? row.source
+    : 'catalog_sync',
+  recordedAt: String(row.recorded_at || row.created || ''),
+});
 
-    if (deleteError) throw deleteError;
+const costHistoryFromProduct = (product: Product, source: ProductCostSource): ProductCostHistoryPayload => ({
+  productId: product.id,
+  sku: product.sku,
+  productName: product.name,
+  costUSD: product.costUSD,
+  previousCostUSD: null,
+  suggestedPriceUSD: product.suggestedPriceUSD,
+  source,
+});
 
-    if (!payload.length) return;
+const insertProductCostHistory = async (entries: ProductCostHistoryPayload[]): Promise<void> => {
+  if (!entries.length) return;
+  const recordedAt = new Date().toISOString();
+  const payload = entries.map((entry) => ({
+    product_id: entry.productId,
+    sku: entry.sku ?? null,
+    product_name: entry.productName,
+    cost_usd: entry.costUSD,
+    previous_cost_usd: entry.previousCostUSD,
+    msrp_usd: entry.suggestedPriceUSD ?? null,
+    landed_cost_clp: entry.landedCostCLP ?? null,
+    previous_landed_cost_clp: entry.previousLandedCostCLP ?? null,
+    source: entry.source,
+    recorded_at: recordedAt,
+  }));
 
-    const { error: insertError } = await supabase
-      .from('products')
+  if (!isPocketBaseProvider) {
+    const { error } = await supabase
+      .from('product_cost_history')
       .insert(payload);
 
-    if (insertError) throw insertError;
+    if (error) throw error;
     return;
   }
 
-  await deleteAllPocketBaseRecords('products');
-  for (const row of payload) {
-    await pocketbase.collection('products').create(row);
+  try {
+    for (const row of payload) {
+      await pocketbase.collection('product_cost_history').create(row);
+    }
+  } catch (error) {
+    throw mapPocketBaseCollectionError(error, 'product_cost_history');
   }
 };
 
-export const saveSimulationRecord = async (payload: SaveSimulationPayload): Promise<void> => {
+const toFxRateEntry = (row: Record<string, unknown>): FxRateEntry => ({
+  currency: row.currency === 'EUR' || row.currency === 'UF' ? row.currency : 'USD',
+  date: String(row.rate_date || '').slice(0, 10),
+  valueCLP: toNumber(row.value_clp),
+  source: String(row.source || ''),
+});
+
+export const fetchFxRateRecords = async (): Promise<FxRateEntry[]> => {
+  if (!isPocketBaseProvider) {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('*')
+      .order('rate_date', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((row) => toFxRateEntry(row as Record<string, unknown>));
+  }
+
+  try {
+    const rows = await pocketbase.collection('fx_rates').getFullList<Record<string, unknown>>({ sort: 'rate_date' });
+    return rows.map((row) => toFxRateEntry(row));
+  } catch (error) {
+    throw mapPocketBaseCollectionError(error, 'fx_rates');
+  }
+};
+
+// One row per currency and day: fetching again the same day overwrites the stored value.
+export const saveFxRateRecord = async (entry: FxRateEntry): Promise<void> => {
+  const payload = {
+    currency: entry.currency,
+    rate_date: entry.date,
+    value_clp: entry.valueCLP,
+    source: entry.source,
+    updated_at: new Date().toISOString(),
+  };
+
   if (!isPocketBaseProvider) {
     const { error } = await supabase
-      .from('simulations')
-      .insert(payload);
+      .from('fx_rates')
+      .upsert(payload, { onConflict: 'currency,rate_date' });
 
     if (error) throw error;
     return;
   }
 
-  await pocketbase.collection('simulations').create({
-    ...payload,
-    created_at: new Date().toISOString(),
+  try {
+    const existing = await pocketbase.collection('fx_rates').getFullList<Record<string, unknown>>({
+      filter: `currency="${entry.currency}" && rate_date="${entry.date}"`,
+    });
+    if (existing[0]) {
+      await pocketbase.collection('fx_rates').update(String(existing[0].id), payload);
+    } else {
+      await pocketbase.collection('fx_rates').create(payload);
+    }
+  } catch (error) {
+    throw mapPocketBaseCollectionError(error, 'fx_rates');
+  }
+};
+
+export const fetchProductCostHistory = async (): Promise<ProductCostHistoryEntry[]> => {
+  if (!isPocketBaseProvider) {
+    const { data, error } = await supabase
+      .from('product_cost_history')
+      .select('*')
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((row) => toProductCostHistoryEntry(row as Record<string, unknown>));
+  }
+
+  try {
+    const rows = await pocketbase.collection('product_cost_history').getFullList<Record<string, unknown>>({ sort: 'recorded_at' });
+    return rows.map((row) => toProductCostHistoryEntry(row));
+  } catch (error) {
+    throw mapPocketBaseCollectionError(error, 'product_cost_history');
+  }
+};
+
+// Rows are updated in place so product IDs referenced by saved simulations survive an upload.
+// Each row is its own write: a rejected row is reported as a failure and the rest still apply.
+// Every cost that lands in the catalog also gets a dated row in product_cost_history; a failed
+// history insert comes back in the result while the catalog keeps its changes.
+export const applyCatalogSyncPlan = async (plan: CatalogSyncPlan, products: Product[]): Promise<CatalogSyncResult> => {
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const createdProducts: Product[] = [];
+  const failedUpdateIds = new Set<string>();
+  const failures: CatalogSyncFailure[] = [];
+  let updates = 0;
+  let removals = 0;
+
+  const writeRow = async (
+    failure: Omit<CatalogSyncFailure, 'message'>,
+    write: () => Promise<void>,
+  ): Promise<boolean> => {
+    try {
+      await write();
+      return true;
+    } catch (error) {
+      const mapped = isPocketBaseProvider ? mapPocketBaseCollectionError(error, 'products') : error as Error;
+      failures.push({ ...failure, message: mapped.message });
+      return false;
+    }
+  };
+  const describe = (action: CatalogSyncFailure['action'], id: string) => ({
+    action,
+    sku: productsById.get(id)?.sku ?? '',
+    productName: productsById.get(id)?.name ?? id,
+  });
+
+  for (const { id, patch } of plan.updates) {
+    const written = await writeRow(describe('update', id), async () => {
+      if (!isPocketBaseProvider) {
+        const { error } = await supabase.from('products').update(toProductPayload(patch)).eq('id', id);
+        if (error) throw error;
+      } else {
+        await pocketbase.collection('products').update(id, toProductPayload(patch));
+      }
+    });
+    if (written) updates += 1;
+    else failedUpdateIds.add(id);
+  }
+
+  for (const product of plan.creates) {
+    const payload = { name: product.name, ...toProductPayload(product) };
+    await writeRow({ action: 'create', sku: product.sku ?? '', productName: product.name }, async () => {
+      if (!isPocketBaseProvider) {
+        const { data, error } = await supabase.from('products').insert(payload).select().single();
+        if (error) throw error;
+        createdProducts.push(toProduct(data as ProductRecord));
+      } else {
+        createdProducts.push(toProduct(await pocketbase.collection('products').create<ProductRecord>(payload)));
+      }
+    });
+  }
+
+  for (const id of plan.removals) {
+    const written = await writeRow(describe('remove', id), async () => {
+      if (!isPocketBaseProvider) {
+        const { error } = await supabase.from('products').delete().eq('id', id);
+        if (error) throw error;
+      } else {
+        await pocketbase.collection('products').delete(id);
+      }
+    });
+    if (written) removals += 1;
+  }
+
+  const applied = { creates: createdProducts.length, updates, removals };
+  const historyEntries = [
+    ...plan.costChanges.filter((entry) => !failedUpdateIds.has(entry.productId)),
+    ...createdProducts.map((product) => costHistoryFromProduct(product, 'catalog_sync')),
+  ];
+  try {
+    await insertProductCostHistory(historyEntries);
+    return { applied, failures, historyRows: historyEntries.length, historyError: null };
+  } catch (error) {
+    return { applied, failures, historyRows: 0, historyError: (error as Error).message };
+  }
+};
+
+const normalizeMarginViolations = (value: unknown): QuoteMarginViolation[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((row) => ({
+      scope: row.scope === 'line' ? 'line' : 'quote',
+      productId: row.productId ? String(row.productId) : undefined,
+      label: String(row.label || ''),
+      marginPercent: toNumber(row.marginPercent),
+      floorPercent: toNumber(row.floorPercent),
+    }));
+};
+
+const normalizeClientContact = (value: unknown): QuoteClientContact | null => {
+  if (!value || typeof value !== 'object') return null;
+  const contact = value as Record<string, unknown>;
+  return {
+    name: contact.name ? String(contact.name) : undefined,
+    email: contact.email ? String(contact.email) : undefined,
+    phone: contact.phone ? String(contact.phone) : undefined,
+  };
+};
+
+const normalizeQuoteCurrency = (value: unknown): QuoteCurrency => (
+  value === 'USD' || value === 'EUR' ? value : 'CLP'
+);
+
+const normalizeTaxProfile = (value: unknown): QuoteTaxProfile | null => {
+  if (!value || typeof value !== 'object') return null;
+  const profile = value as Record<string, unknown>;
+  if (!profile.id) return null;
+  return {
+    id: String(profile.id),
+    label: String(profile.label || profile.id),
+    documentLabel: String(profile.documentLabel || profile.label || profile.id),
+    ratePercent: Math.max(0, toNumber(profile.ratePercent)),
+  };
+};
+
+const normalizeApprovalStatus = (value: unknown): QuoteApprovalStatus => (
+  value === 'pending' || value === 'approved' ? value : 'not_required'
+);
+
+const toSimulationRecord = (row: Record<string, unknown>): SavedSimulationRecord => ({
+  id: String(row.id || ''),
+  created_at: String(row.created_at || row.created || ''),
+  quote_number: row.quote_number ? String(row.quote_number) : '',
+  revision: Math.max(1, toNumber(row.revision)),
+  sale_price_clp: toNumber(row.sale_price_clp),
+  exchange_rate: toNumber(row.exchange_rate),
+  exchange_rate_date: row.exchange_rate_date ? String(row.exchange_rate_date).slice(0, 10) : null,
+  total_cost_usd: toNumber(row.total_cost_usd),
+  total_cost_clp: toNumber(row.total_cost_clp),
+  margin_percent: toNumber(row.margin_percent),
+  net_profit_clp: toNumber(row.net_profit_clp),
+  pricing_mode: row.pricing_mode ? String(row.pricing_mode) : undefined,
+  target_margin_percent: row.target_margin_percent == null ? null : toNumber(row.target_margin_percent),
+  target_net_total_clp: row.target_net_total_clp == null ? null : toNumber(row.target_net_total_clp),
+  target_total_with_iva_clp: row.target_total_with_iva_clp == null ? null : toNumber(row.target_total_with_iva_clp),
+  list_discount_percent: row.list_discount_percent == null ? null : toNumber(row.list_discount_percent),
+  quote_currency: normalizeQuoteCurrency(row.quote_currency),
+  quote_currency_rate: row.quote_currency_rate == null ? null : toNumber(row.quote_currency_rate),
+  tax_profile: normalizeTaxProfile(row.tax_profile),
+  rounding_policy: isRoundingPolicy(row.rounding_policy) ? row.rounding_policy : 'none',
+  volume_tiers: normalizeVolumeTiers(row.volume_tiers),
+  discounts: normalizeDiscountRules(row.discounts),
+  promotions: normalizePromotions(row.promotions),
+  total_discount_clp: toNumber(row.total_discount_clp),
+  client_rut: row.client_rut ? String(row.client_rut) : null,
+  client_name: row.client_name ? String(row.client_name) : null,
+  client_contact: normalizeClientContact(row.client_contact),
+  sales_rep: row.sales_rep ? String(row.sales_rep) : null,
+  margin_floor_percent: row.margin_floor_percent == null ? null : toNumber(row.margin_floor_percent),
+  margin_violations: normalizeMarginViolations(row.margin_violations),
+  approval_status: normalizeApprovalStatus(row.approval_status),
+  approved_by: row.approved_by ? String(row.approved_by) : null,
+  approval_reason: row.approval_reason ? String(row.approval_reason) : null,
+  approved_at: row.approved_at ? String(row.approved_at) : null,
+  status: isQuoteLifecycleStatus(row.status) ? row.status : 'draft',
+  valid_until: row.valid_until ? String(row.valid_until).slice(0, 10) : null,
+  loss_reason: row.loss_reason ? String(row.loss_reason) : null,
+  status_updated_at: row.status_updated_at ? String(row.status_updated_at) : null,
+  warnings: Array.isArray(row.warnings) ? row.warnings.map((entry) => String(entry)) : [],
+  items: normalizeItems(row.items),
+});
+
+// The database re-checks the floors and takes the approver from the token; this only fails fast.
+const assertSimulationApproval = (payload: SaveSimulationPayload, approverSession?: QuoteApproverSession | null) => {
+  if ((payload.margin_violations?.length ?? 0) === 0) return;
+  if (!MARGIN_APPROVALS_SUPPORTED) {
+    throw new Error('La cotizacion esta bajo el margen minimo y PocketBase no admite aprobaciones de margen.');
+  }
+  if (payload.approval_status !== 'approved' || !payload.approval_reason?.trim() || !approverSession
+    || payload.approved_by?.trim().toLowerCase() !== approverSession.email.toLowerCase()) {
+    throw new Error('La cotizacion esta bajo el margen minimo y necesita la aprobacion de un gerente con sesion iniciada.');
+  }
+};
+
+const escapePocketBaseValue = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+const fetchQuoteNumberRows = async (column: 'quote_number' | 'revision', filter: { prefix?: string; quoteNumber?: string }) => {
+  if (!isPocketBaseProvider) {
+    let query = supabase.from('simulations').select('quote_number, revision');
+    query = filter.quoteNumber
+      ? query.eq('quote_number', filter.quoteNumber)
+      : query.like('quote_number', `${filter.prefix}%`);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map((row) => (row as Record<string, unknown>)[column]);
+  }
+
+  const rows = await pocketbase.collection('simulations').getFullList<Record<string, unknown>>({
+    filter: filter.quoteNumber
+      ? `quote_number="${escapePocketBaseValue(filter.quoteNumber)}"`
+      : `quote_number~"${escapePocketBaseValue(filter.prefix || '')}"`,
+    fields: 'quote_number,revision',
   });
+  return rows.map((row) => row[column]);
+};
+
+const QUOTE_NUMBER_ALLOCATION_ATTEMPTS = 5;
+
+const resolveQuoteRevision = async (quoteNumber?: string | null): Promise<{ quote_number: string; revision: number }> => {
+  if (quoteNumber) {
+    const revisions = await fetchQuoteNumberRows('revision', { quoteNumber });
+    const lastRevision = revisions.reduce<number>((max, revision) => Math.max(max, toNumber(revision)), 0);
+    return { quote_number: quoteNumber, revision: lastRevision + 1 };
+  }
+
+  const existingNumbers = await fetchQuoteNumberRows('quote_number', { prefix: getQuoteNumberYearPrefix() });
+  return { quote_number: buildNextQuoteNumber(existingNumbers.map((value) => String(value || ''))), revision: 1 };
+};
+
+// Approved quotes are inserted with the approving manager's token so the backend can verify who approved.
+export const saveSimulationRecord = async (
+  payload: SaveSimulationPayload,
+  approverSession?: QuoteApproverSession | null,
+): Promise<SavedSimulationRecord> => {
+  assertSimulationApproval(payload, approverSession);
+
+  // Two saves can read the same last revision; the unique (quote_number, revision) index rejects
+  // the second one, which then re-reads and takes the next number.
+  for (let attempt = 1; ; attempt += 1) {
+    const recordPayload = {
+      ...payload,
+      ...(await resolveQuoteRevision(payload.quote_number)),
+      status: 'draft' as const,
+      valid_until: payload.valid_until || buildQuoteValidUntil(),
+    };
+
+    try {
+      if (!isPocketBaseProvider) {
+        const client = approverSession ? createSupabaseSessionClient(approverSession.accessToken) : supabase;
+        const { data, error } = await client
+          .from('simulations')
+          .insert(recordPayload)
+          .select('*')
+          .single();
+
+        if (error) throw error;
+        return toSimulationRecord(data as Record<string, unknown>);
+      }
+
+      const created = await pocketbase.collection('simulations').create<Record<string, unknown>>({
+        ...recordPayload,
+        created_at: new Date().toISOString(),
+      }, approverSession ? { headers: { Authorization: approverSession.accessToken } } : undefined);
+      return toSimulationRecord(created);
+    } catch (error) {
+      if (attempt >= QUOTE_NUMBER_ALLOCATION_ATTEMPTS || !isQuoteNumberConflictError(error)) throw error;
+    }
+  }
 };
 
 export const fetchSimulationRecords = async (): Promise<SavedSimulationRecord[]> => {
@@ -247,23 +834,7 @@ export const fetchSimulationRecords = async (): Promise<SavedSimulationRecord[]>
 
     if (error) throw error;
 
-    return (data || []).map((row) => ({
-      id: String((row as Record<string, unknown>).id || ''),
-      created_at: String((row as Record<string, unknown>).created_at || ''),
-      sale_price_clp: toNumber((row as Record<string, unknown>).sale_price_clp),
-      exchange_rate: toNumber((row as Record<string, unknown>).exchange_rate),
-      total_cost_usd: toNumber((row as Record<string, unknown>).total_cost_usd),
-      total_cost_clp: toNumber((row as Record<string, unknown>).total_cost_clp),
-      margin_percent: toNumber((row as Record<string, unknown>).margin_percent),
-      net_profit_clp: toNumber((row as Record<string, unknown>).net_profit_clp),
-      pricing_mode: (row as Record<string, unknown>).pricing_mode ? String((row as Record<string, unknown>).pricing_mode) : undefined,
-      target_margin_percent: (row as Record<string, unknown>).target_margin_percent == null ? null : toNumber((row as Record<string, unknown>).target_margin_percent),
-      target_net_total_clp: (row as Record<string, unknown>).target_net_total_clp == null ? null : toNumber((row as Record<string, unknown>).target_net_total_clp),
-      warnings: Array.isArray((row as Record<string, unknown>).warnings)
-        ? ((row as Record<string, unknown>).warnings as unknown[]).map((entry) => String(entry))
-        : [],
-      items: normalizeItems((row as Record<string, unknown>).items),
-    }));
+    return (data || []).map((row) => toSimulationRecord(row as Record<string, unknown>));
   }
 
   let rows: Record<string, unknown>[] = [];
@@ -273,21 +844,34 @@ export const fetchSimulationRecords = async (): Promise<SavedSimulationRecord[]>
     rows = await pocketbase.collection('simulations').getFullList<Record<string, unknown>>();
   }
 
-  return rows.map((row) => ({
-    id: String(row.id || ''),
-    created_at: String(row.created_at || row.created || ''),
-    sale_price_clp: toNumber(row.sale_price_clp),
-    exchange_rate: toNumber(row.exchange_rate),
-    total_cost_usd: toNumber(row.total_cost_usd),
-    total_cost_clp: toNumber(row.total_cost_clp),
-    margin_percent: toNumber(row.margin_percent),
-    net_profit_clp: toNumber(row.net_profit_clp),
-    pricing_mode: row.pricing_mode ? String(row.pricing_mode) : undefined,
-    target_margin_percent: row.target_margin_percent == null ? null : toNumber(row.target_margin_percent),
-    target_net_total_clp: row.target_net_total_clp == null ? null : toNumber(row.target_net_total_clp),
-    warnings: Array.isArray(row.warnings) ? row.warnings.map((entry) => String(entry)) : [],
-    items: normalizeItems(row.items),
-  }));
+  return rows.map(toSimulationRecord);
+};
+
+export const updateSimulationStatus = async (
+  quotation: SavedSimulationRecord,
+  patch: SimulationStatusPatch,
+): Promise<SavedSimulationRecord> => {
+  const validationError = validateQuoteStatusChange(quotation.status, patch.status, patch.loss_reason);
+  if (validationError) throw new Error(validationError);
+
+  const changes = {
+    status: patch.status,
+    loss_reason: patch.status === 'rejected' || patch.status === 'expired' ? patch.loss_reason?.trim() || null : null,
+    status_updated_at: new Date().toISOString(),
+  };
+
+  if (!isPocketBaseProvider) {
+    const { error } = await supabase
+      .from('simulations')
+      .update(changes)
+      .eq('id', quotation.id);
+
+    if (error) throw error;
+    return { ...quotation, ...changes };
+  }
+
+  await pocketbase.collection('simulations').update(quotation.id, changes);
+  return { ...quotation, ...changes };
 };
 
 export const deleteSimulationRecord = async (id: string): Promise<void> => {
@@ -314,12 +898,20 @@ export const saveImportSnapshotRecord = async (payload: SaveImportSnapshotPayloa
     shipping_cost: payload.shippingCost,
     shipping_currency: payload.shippingCurrency,
     customs_cost_clp: payload.customsCostCLP,
+    shipping_allocation_method: payload.shippingAllocationMethod,
+    customs_allocation_method: payload.customsAllocationMethod,
+    cost_model: payload.costModel,
     target_gross_margin_percent: payload.targetGrossMarginPercent,
+    fx_rate_date: payload.fxRateDate ?? null,
+    usd_rate_date: payload.usdRateDate ?? null,
     items: payload.items.map((item) => ({
       sku: item.sku,
       name: item.name,
       quantity: item.quantity,
       unit_cost: item.unitCost,
+      unit_weight: item.unitWeight ?? null,
+      allocation_share: item.allocationShare ?? null,
+      duty_exempt: Boolean(item.dutyExempt),
     })),
   };
 
@@ -402,13 +994,25 @@ export const deleteProductRecord = async (id: string): Promise<void> => {
   await pocketbase.collection('products').delete(id);
 };
 
-export const createProductRecord = async (product: Omit<Product, 'id'>): Promise<Product> => {
+const recordCreatedProductHistory = async (product: Product): Promise<ProductCreateResult> => {
+  try {
+    await insertProductCostHistory([costHistoryFromProduct(product, 'manual')]);
+    return { product, historyError: null };
+  } catch (error) {
+    return { product, historyError: (error as Error).message };
+  }
+};
+
+// The product row is committed before its first history row, so a failed history insert is returned
+// instead of thrown: throwing would send the user to create the same product again.
+export const createProductRecord = async (product: Omit<Product, 'id'>): Promise<ProductCreateResult> => {
   const payload = {
     name: product.name,
     cost_usd: product.costUSD,
     category: product.category,
     sku: product.sku,
     msrp_usd: product.suggestedPriceUSD,
+    components: product.components ?? [],
   };
 
   if (!isPocketBaseProvider) {
@@ -419,11 +1023,10 @@ export const createProductRecord = async (product: Omit<Product, 'id'>): Promise
       .single();
 
     if (error) throw error;
-    return toProduct(data as ProductRecord);
+    return recordCreatedProductHistory(toProduct(data as ProductRecord));
   }
 
-  const data = await pocketbase.collection('products').create<ProductRecord>(payload);
-  return toProduct(data);
+  return recordCreatedProductHistory(toProduct(await pocketbase.collection('products').create<ProductRecord>(payload)));
 };
 
 export const updateProductCategoryRecord = async (id: string, newCategory: string): Promise<void> => {
@@ -440,4 +1043,129 @@ export const updateProductCategoryRecord = async (id: string, newCategory: strin
   await pocketbase.collection('products').update(id, { category: newCategory });
 };
 
+// Saving a kit also stores the derived cost so the stored row stays usable if a component later leaves the catalog.
+// A changed cost gets its history row; if only that insert fails the kit is saved and the error is returned as a warning.
+export const updateProductKitRecord = async (
+  kit: Product,
+  components: ProductKitComponent[],
+  costUSD: number,
+): Promise<string | null> => {
+  const payload = { components: normalizeKitComponents(components), cost_usd: costUSD };
+
+  if (!isPocketBaseProvider) {
+    const { error } = await supabase
+      .from('products')
+      .update(payload)
+      .eq('id', kit.id);
+
+    if (error) throw error;
+  } else {
+    await pocketbase.collection('products').update(kit.id, payload);
+  }
+
+  if (costUSD === kit.costUSD) return null;
+  try {
+    await insertProductCostHistory([{
+      ...costHistoryFromProduct({ ...kit, costUSD }, 'kit_composition'),
+      previousCostUSD: kit.costUSD,
+    }]);
+    return null;
+  } catch (error) {
+    return `El kit se guardo, pero no se registro el cambio de costo en el historial: ${(error as Error).message}`;
+  }
+};
+
+const claimImportSnapshotForCatalog = async (snapshotId: string): Promise<string> => {
+  const appliedAt = new Date().toISOString();
+  const alreadyApplied = new Error('Este calculo ya se aplico al catalogo; aplicarlo otra vez contaria el embarque dos veces.');
+
+  if (!isPocketBaseProvider) {
+    const { data, error } = await supabase
+      .from('import_snapshots')
+      .update({ catalog_applied_at: appliedAt })
+      .eq('id', snapshotId)
+      .is('catalog_applied_at', null)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) throw alreadyApplied;
+    return appliedAt;
+  }
+
+  try {
+    const snapshot = await pocketbase.collection('import_snapshots').getOne<Record<string, unknown>>(snapshotId, {
+      fields: 'id,catalog_applied_at',
+    });
+    if (snapshot.catalog_applied_at) throw alreadyApplied;
+    await pocketbase.collection('import_snapshots').update(snapshotId, { catalog_applied_at: appliedAt });
+  } catch (error) {
+    throw mapPocketBaseCollectionError(error, 'import_snapshots');
+  }
+  return appliedAt;
+};
+
+const releaseImportSnapshotClaim = async (snapshotId: string): Promise<void> => {
+  if (!isPocketBaseProvider) {
+    const { error } = await supabase.from('import_snapshots').update({ catalog_applied_at: null }).eq('id', snapshotId);
+    if (error) throw error;
+    return;
+  }
+
+  await pocketbase.collection('import_snapshots').update(snapshotId, { catalog_applied_at: null });
+};
+
+// Stamps the snapshot first, so a second apply of the same shipment is refused instead of averaged in twice,
+// then writes each product and its cost history row. Failed products are reported, not rolled back; when none
+// could be written the stamp is removed again so the snapshot can be retried.
+export const applyImportLandedCostRecords = async (
+  snapshotId: string,
+  rows: LandedCostUpdateRow[],
+  products: Product[],
+): Promise<LandedCostApplyResult> => {
+  const appliedAt = await claimImportSnapshotForCatalog(snapshotId);
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const appliedRows: LandedCostUpdateRow[] = [];
+  const failures: LandedCostApplyFailure[] = [];
+
+  for (const row of rows) {
+    const payload = { landed_cost_clp: row.nextLandedCostCLP, landed_cost_units: row.nextLandedCostUnits, landed_cost_stale: false };
+    try {
+      if (!isPocketBaseProvider) {
+        const { error } = await supabase.from('products').update(payload).eq('id', row.productId);
+        if (error) throw error;
+      } else {
+        await pocketbase.collection('products').update(row.productId, payload);
+      }
+      appliedRows.push(row);
+    } catch (error) {
+      failures.push({ sku: row.sku, productName: row.productName, message: (error as Error).message });
+    }
+  }
+
+  if (appliedRows.length === 0) {
+    await releaseImportSnapshotClaim(snapshotId);
+    return { appliedAt, appliedRows, failures };
+  }
+
+  try {
+    await insertProductCostHistory(appliedRows.map((row) => {
+      const costUSD = productsById.get(row.productId)?.costUSD ?? 0;
+      return {
+        productId: row.productId,
+        sku: row.sku,
+        productName: row.productName,
+        costUSD,
+        previousCostUSD: costUSD,
+        landedCostCLP: row.nextLandedCostCLP,
+        previousLandedCostCLP: row.previousLandedCostCLP,
+        source: 'import_landed_cost' as const,
+      };
+    }));
+  } catch (error) {
+    failures.push({ sku: '', productName: 'Historial de costos', message: (error as Error).message });
+  }
+
+  return { appliedAt, appliedRows, failures };
+};
+
 export const currentDataProvider = (): 'supabase' | 'pocketbase' => DATA_PROVIDER;
@@ -0,0 +1,34 @@
+import type { FxCurrency, FxRateEntry, FxRateFetcher } from '../types/fx';
+import { findFxRateOn, formatFxDate, parseMindicadorSerie, toFxDateKey } from '../utils/fxRates';
+
+export type FxProvider = 'mindicador' | 'local';
+
+const rawProvider = String(import.meta.env.VITE_FX_PROVIDER || 'mindicador').toLowerCase();
+
+export const FX_PROVIDER: FxProvider = rawProvider === 'local' ? 'local' : 'mindicador';
+
+const MINDICADOR_INDICATORS: Record<FxCurrency, string> = {
+  USD: 'dolar',
+  EUR: 'euro',
+  UF: 'uf',
+};
+
+export const mindicadorFxFetcher: FxRateFetcher = {
+  label: 'mindicador.cl',
+  fetchRate: async (currency, date) => {
+    const path = date ? `${MINDICADOR_INDICATORS[currency]}/${formatFxDate(date)}` : MINDICADOR_INDICATORS[currency];
+    const response = await fetch(`https://mindicador.cl/api/${path}?t=${Date.now()}`);
+    if (!response.ok) throw new Error('API Response not OK');
+    return parseMindicadorSerie(await response.json(), currency, 'mindicador');
+  },
+};
+
+// Offline stand-in: answers from rates already stored, as of the requested day.
+export const createLocalFxFetcher = (readEntries: () => FxRateEntry[]): FxRateFetcher => ({
+  label: 'Tabla local',
+  fetchRate: async (currency, date) => findFxRateOn(readEntries(), currency, date ?? toFxDateKey()),
+});
+
+export const resolveFxFetcher = (readEntries: () => FxRateEntry[]): FxRateFetcher => (
+  FX_PROVIDER === 'local' ? createLocalFxFetcher(readEntries) : mindicadorFxFetcher
+);
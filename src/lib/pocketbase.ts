@@ -1,4 +1,4 @@
-import PocketBase from 'pocketbase';
+import PocketBase, { BaseAuthStore } from 'pocketbase';
 import { isPocketBaseProvider } from './dataProvider';
 
 const pocketbaseUrl = import.meta.env.VITE_POCKETBASE_URL;
@@ -11,3 +11,10 @@ const fallbackUrl = 'http://127.0.0.1:8090';
 
 export const pocketbase = new PocketBase(pocketbaseUrl || fallbackUrl);
 pocketbase.autoCancellation(false);
+
+// Signs a manager in without touching the shared client's persisted auth store.
+export const createPocketBaseSessionClient = () => {
+  const client = new PocketBase(pocketbaseUrl || fallbackUrl, new BaseAuthStore());
+  client.autoCancellation(false);
+  return client;
+};
@@ -0,0 +1,59 @@
+import { isPocketBaseProvider } from './dataProvider';
+import { pocketbase } from './pocketbase';
+import { supabase } from './supabase';
+import type { QuoteClient, QuoteClientContact } from '../types/quotation';
+
+type GenericRow = Record<string, unknown>;
+
+const toContact = (value: unknown): QuoteClientContact => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const row = value as GenericRow;
+  return {
+    name: typeof row.name === 'string' && row.name ? row.name : undefined,
+    email: typeof row.email === 'string' && row.email ? row.email : undefined,
+    phone: typeof row.phone === 'string' && row.phone ? row.phone : undefined,
+  };
+};
+
+const toQuoteClient = (row: GenericRow): QuoteClient => ({
+  rut: String(row.rut || ''),
+  name: String(row.name || ''),
+  salesRep: String(row.sales_rep || ''),
+  contact: toContact(row.contact),
+  source: 'manual',
+});
+
+// Clients created from the cotizador; CRM clients keep coming from the CRM import.
+export const fetchQuoteClients = async (): Promise<QuoteClient[]> => {
+  if (!isPocketBaseProvider) {
+    const { data, error } = await supabase
+      .from('quote_clients')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map((row) => toQuoteClient(row as GenericRow)).filter((client) => client.rut);
+  }
+
+  const rows = await pocketbase.collection('quote_clients').getFullList<GenericRow>({ sort: 'name' });
+  return rows.map(toQuoteClient).filter((client) => client.rut);
+};
+
+// The RUT is unique, so a client another rep created meanwhile is rejected instead of duplicated.
+export const insertQuoteClient = async (client: QuoteClient): Promise<void> => {
+  const payload = {
+    rut: client.rut,
+    name: client.name,
+    sales_rep: client.salesRep,
+    contact: client.contact,
+    created_at: new Date().toISOString(),
+  };
+
+  if (!isPocketBaseProvider) {
+    const { error } = await supabase.from('quote_clients').insert(payload);
+    if (error) throw error;
+    return;
+  }
+
+  await pocketbase.collection('quote_clients').create(payload);
+};
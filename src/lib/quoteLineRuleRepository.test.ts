@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const backend = vi.hoisted(() => ({
+  pocketbase: false,
+  upsert: vi.fn(),
+  rows: [] as Array<Record<string, unknown>>,
+  create: vi.fn(),
+  update: vi.fn(),
+}));
+
+vi.mock('./dataProvider', () => ({
+  get isPocketBaseProvider() {
+    return backend.pocketbase;
+  },
+}));
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: () => ({ upsert: backend.upsert }),
+  },
+}));
+
+vi.mock('./pocketbase', () => ({
+  pocketbase: {
+    collection: () => ({
+      getFullList: () => Promise.resolve(backend.rows),
+      create: backend.create,
+      update: backend.update,
+    }),
+  },
+}));
+
+import { saveQuoteLineRules } from './quoteLineRuleRepository';
+
+const rules = [{ id: 'r1', field: 'sku' as const, operator: 'equals' as const, value: 'AR4510C', pricingMode: 'at_cost' as const, note: '' }];
+
+describe('saveQuoteLineRules', () => {
+  beforeEach(() => {
+    backend.pocketbase = false;
+    backend.rows = [];
+    backend.upsert.mockReset().mockResolvedValue({ error: null });
+    backend.create.mockReset().mockResolvedValue({});
+    backend.update.mockReset().mockResolvedValue({});
+  });
+
+  it('guarda en Supabase con upsert sobre la clave del conjunto', async () => {
+    await saveQuoteLineRules(rules);
+
+    expect(backend.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ rule_set_key: 'default', rules }),
+      { onConflict: 'rule_set_key' },
+    );
+  });
+
+  it('actualiza la fila en PocketBase si otro gerente la creo primero', async () => {
+    backend.pocketbase = true;
+    backend.create.mockImplementation(() => {
+      backend.rows = [{ id: 'pb-1', rule_set_key: 'default' }];
+      return Promise.reject({ status: 400, response: { data: { rule_set_key: { code: 'validation_not_unique' } } } });
+    });
+
+    await saveQuoteLineRules(rules);
+
+    expect(backend.update).toHaveBeenCalledWith('pb-1', expect.objectContaining({ rules }));
+  });
+
+  it('no oculta otros errores de PocketBase al crear', async () => {
+    backend.pocketbase = true;
+    backend.create.mockRejectedValue({ status: 403, response: { data: {} } });
+
+    await expect(saveQuoteLineRules(rules)).rejects.toMatchObject({ status: 403 });
+    expect(backend.update).not.toHaveBeenCalled();
+  });
+});
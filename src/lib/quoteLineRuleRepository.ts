@@ -0,0 +1,121 @@
+import { isPocketBaseProvider } from './dataProvider';
+import { pocketbase } from './pocketbase';
+import { supabase } from './supabase';
+import { DEFAULT_QUOTE_LINE_RULES } from '../data/quoteLineRules';
+import type { LinePricingMode, QuoteLineDefaultRule } from '../types/quotation';
+
+type GenericRow = Record<string, unknown>;
+
+// One shared rule set for every rep; the key leaves room for more sets later.
+const RULE_SET_KEY = 'default';
+
+const LINE_PRICING_MODES: LinePricingMode[] = [
+  'inherit',
+  'fixed_net_unit',
+  'fixed_net_total',
+  'fixed_profit_unit',
+  'fixed_profit_total',
+  'fixed_margin_percent',
+  'at_cost',
+  'manual_net_unit',
+  'volume_tier',
+  'msrp_discount',
+];
+
+const parseLineRule = (value: unknown): QuoteLineDefaultRule | null => {
+  if (!value || typeof value !== 'object') return null;
+  const row = value as GenericRow;
+  const field = String(row.field || '');
+  const operator = String(row.operator || '');
+  const pricingMode = String(row.pricingMode || '') as LinePricingMode;
+  if (
+    (field !== 'name' && field !== 'sku' && field !== 'category')
+    || (operator !== 'equals' && operator !== 'contains')
+    || !LINE_PRICING_MODES.includes(pricingMode)
+  ) {
+    return null;
+  }
+  const pricingValue = Number(row.pricingValue);
+  return {
+    id: String(row.id || ''),
+    field,
+    operator,
+    value: String(row.value || ''),
+    pricingMode,
+    pricingValue: row.pricingValue == null || !Number.isFinite(pricingValue) ? undefined : pricingValue,
+    note: String(row.note || ''),
+  };
+};
+
+const parseRuleSet = (row: GenericRow): QuoteLineDefaultRule[] => (
+  Array.isArray(row.rules)
+    ? row.rules.map(parseLineRule).filter((rule): rule is QuoteLineDefaultRule => Boolean(rule))
+    : DEFAULT_QUOTE_LINE_RULES
+);
+
+const findPocketBaseRuleSet = async (): Promise<GenericRow | null> => {
+  const rows = await pocketbase.collection('quote_line_rule_sets').getFullList<GenericRow>({
+    filter: `rule_set_key="${RULE_SET_KEY}"`,
+  });
+  return rows[0] ?? null;
+};
+
+// Until someone saves a rule set the shipped defaults apply.
+export const fetchQuoteLineRules = async (): Promise<QuoteLineDefaultRule[]> => {
+  if (!isPocketBaseProvider) {
+    const { data, error } = await supabase
+      .from('quote_line_rule_sets')
+      .select('*')
+      .eq('rule_set_key', RULE_SET_KEY)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? parseRuleSet(data as GenericRow) : DEFAULT_QUOTE_LINE_RULES;
+  }
+
+  const row = await findPocketBaseRuleSet();
+  return row ? parseRuleSet(row) : DEFAULT_QUOTE_LINE_RULES;
+};
+
+// Two managers saving at once both miss the row; PocketBase rejects the second create per field.
+const isRuleSetKeyConflictError = (error: unknown): boolean => {
+  const candidate = error as { status?: number; response?: { data?: Record<string, { code?: string }> } } | null;
+  const fieldErrors = candidate?.status === 400 ? candidate.response?.data : undefined;
+  return fieldErrors?.rule_set_key?.code === 'validation_not_unique';
+};
+
+export const saveQuoteLineRules = async (rules: QuoteLineDefaultRule[]): Promise<void> => {
+  const payload = {
+    rules,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (!isPocketBaseProvider) {
+    // `created_at` keeps its column default on insert and is left alone on update.
+    const { error } = await supabase
+      .from('quote_line_rule_sets')
+      .upsert({ rule_set_key: RULE_SET_KEY, ...payload }, { onConflict: 'rule_set_key' });
+
+    if (error) throw error;
+    return;
+  }
+
+  const existing = await findPocketBaseRuleSet();
+  if (existing) {
+    await pocketbase.collection('quote_line_rule_sets').update(String(existing.id), payload);
+    return;
+  }
+
+  try {
+    await pocketbase.collection('quote_line_rule_sets').create({
+      rule_set_key: RULE_SET_KEY,
+      ...payload,
+      created_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (!isRuleSetKeyConflictError(error)) throw error;
+    const created = await findPocketBaseRuleSet();
+    if (!created) throw error;
+    await pocketbase.collection('quote_line_rule_sets').update(String(created.id), payload);
+  }
+};
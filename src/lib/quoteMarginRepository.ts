@@ -0,0 +1,115 @@
+import { isPocketBaseProvider } from './dataProvider';
+import { createPocketBaseSessionClient, pocketbase } from './pocketbase';
+import { createSupabaseSessionClient, supabase } from './supabase';
+import { DEFAULT_QUOTE_MARGIN_FLOOR_POLICY } from '../data/quoteMarginFloors';
+import type { QuoteApproverSession, QuoteMarginFloorPolicy } from '../types/quotation';
+
+type GenericRow = Record<string, unknown>;
+
+const POLICY_ID = 'default';
+// PocketBase auth collection holding the manager accounts.
+const POCKETBASE_APPROVER_COLLECTION = 'users';
+
+// PocketBase has no triggers to re-check the floors, so it does not accept approved exceptions:
+// quotes under the floor can only be saved against Supabase.
+export const MARGIN_APPROVALS_SUPPORTED = !isPocketBaseProvider;
+
+const toFloorMap = (value: unknown): Record<string, number> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as GenericRow)
+      .map(([key, floor]) => [key, Number(floor)] as const)
+      .filter(([key, floor]) => key.trim() && Number.isFinite(floor)),
+  );
+};
+
+const parseMarginPolicy = (row: GenericRow): QuoteMarginFloorPolicy => {
+  const defaultFloorPercent = Number(row.default_floor_percent);
+  return {
+    defaultFloorPercent: Number.isFinite(defaultFloorPercent)
+      ? defaultFloorPercent
+      : DEFAULT_QUOTE_MARGIN_FLOOR_POLICY.defaultFloorPercent,
+    categoryFloors: toFloorMap(row.category_floors),
+    userFloors: toFloorMap(row.user_floors),
+    approvers: Array.isArray(row.approvers)
+      ? row.approvers.filter((entry): entry is string => typeof entry === 'string' && Boolean(entry.trim()))
+      : [],
+  };
+};
+
+const toPolicyPayload = (policy: QuoteMarginFloorPolicy, session: QuoteApproverSession) => ({
+  default_floor_percent: policy.defaultFloorPercent,
+  category_floors: policy.categoryFloors,
+  user_floors: policy.userFloors,
+  approvers: policy.approvers.map((entry) => entry.trim().toLowerCase()).filter(Boolean),
+  updated_by: session.email,
+  updated_at: new Date().toISOString(),
+});
+
+export const fetchQuoteMarginPolicy = async (): Promise<QuoteMarginFloorPolicy> => {
+  if (!isPocketBaseProvider) {
+    const { data, error } = await supabase
+      .from('quote_margin_policies')
+      .select('*')
+      .eq('id', POLICY_ID)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? parseMarginPolicy(data as GenericRow) : DEFAULT_QUOTE_MARGIN_FLOOR_POLICY;
+  }
+
+  const rows = await pocketbase.collection('quote_margin_policies').getFullList<GenericRow>({
+    filter: `policy_id="${POLICY_ID}"`,
+  });
+  return rows[0] ? parseMarginPolicy(rows[0]) : DEFAULT_QUOTE_MARGIN_FLOOR_POLICY;
+};
+
+// Writes go out with the manager's token; the database refuses them from an anonymous session.
+export const saveQuoteMarginPolicy = async (
+  policy: QuoteMarginFloorPolicy,
+  session: QuoteApproverSession,
+): Promise<void> => {
+  const payload = toPolicyPayload(policy, session);
+
+  if (!isPocketBaseProvider) {
+    const { error } = await createSupabaseSessionClient(session.accessToken)
+      .from('quote_margin_policies')
+      .upsert({ id: POLICY_ID, ...payload }, { onConflict: 'id' });
+    if (error) throw error;
+    return;
+  }
+
+  const options = { headers: { Authorization: session.accessToken } };
+  const rows = await pocketbase.collection('quote_margin_policies').getFullList<GenericRow>({
+    filter: `policy_id="${POLICY_ID}"`,
+    fields: 'id',
+  });
+  if (rows[0]) {
+    await pocketbase.collection('quote_margin_policies').update(String(rows[0].id), payload, options);
+  } else {
+    await pocketbase.collection('quote_margin_policies').create({ policy_id: POLICY_ID, ...payload }, options);
+  }
+};
+
+export const signInQuoteApprover = async (email: string, password: string): Promise<QuoteApproverSession> => {
+  if (!isPocketBaseProvider) {
+    const { data, error } = await createSupabaseSessionClient().auth.signInWithPassword({ email: email.trim(), password });
+    if (error) throw error;
+    if (!data.session || !data.user.email) throw new Error('No se pudo iniciar la sesion del gerente.');
+    const metadata = data.user.user_metadata ?? {};
+    return {
+      email: data.user.email.toLowerCase(),
+      name: String(metadata.full_name || metadata.name || '').trim(),
+      accessToken: data.session.access_token,
+    };
+  }
+
+  const auth = await createPocketBaseSessionClient()
+    .collection(POCKETBASE_APPROVER_COLLECTION)
+    .authWithPassword(email.trim(), password);
+  return {
+    email: String(auth.record.email || email).trim(),
+    name: String(auth.record.name || '').trim(),
+    accessToken: auth.token,
+  };
+};
@@ -14,3 +14,14 @@ const fallbackUrl = 'http://127.0.0.1:54321';
 const fallbackKey = 'public-anon-key';
 
 export const supabase = createClient(supabaseUrl || fallbackUrl, supabaseAnonKey || fallbackKey);
+
+// A client for one signed-in manager: it never writes the session to storage, so the
+// rep's tab keeps browsing anonymously once the manager is done.
+export const createSupabaseSessionClient = (accessToken?: string) => createClient(
+    supabaseUrl || fallbackUrl,
+    supabaseAnonKey || fallbackKey,
+    {
+        auth: { persistSession: false, autoRefreshToken: false, storageKey: 'megagen.quote.approver' },
+        global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    },
+);
@@ -0,0 +1,151 @@
+import type { Product } from '../data/mockProducts';
+
+export type CatalogChangeKind = 'add' | 'cost_change' | 'category_change' | 'remove';
+
+export type CatalogMatchField = 'sku' | 'name';
+
+export interface CatalogChange {
+  id: string;
+  kind: CatalogChangeKind;
+  // Product as stored in the database; missing for additions.
+  current?: Product;
+  // Row from the uploaded price list; missing for removals.
+  uploaded?: Product;
+  matchedBy?: CatalogMatchField;
+  approved: boolean;
+}
+
+export interface CatalogDiff {
+  changes: CatalogChange[];
+  unchangedCount: number;
+  duplicateUploadCount: number;
+}
+
+export interface CatalogProductPatch {
+  sku?: string;
+  category?: string;
+  costUSD?: number;
+  suggestedPriceUSD?: number;
+  // A new supplier cost keeps the landed cost of the stock already received but flags it as built on the previous price.
+  markLandedCostStale?: boolean;
+}
+
+export type ProductCostSource = 'catalog_sync' | 'manual' | 'import_landed_cost' | 'kit_composition';
+
+// One row per recorded cost; previousCostUSD is null for the first cost a product ever had.
+// `import_landed_cost` rows keep costUSD unchanged and record the landed CLP cost instead.
+export interface ProductCostHistoryEntry {
+  id: string;
+  productId: string;
+  sku?: string;
+  productName: string;
+  costUSD: number;
+  previousCostUSD: number | null;
+  suggestedPriceUSD?: number;
+  landedCostCLP?: number | null;
+  previousLandedCostCLP?: number | null;
+  source: ProductCostSource;
+  recordedAt: string;
+}
+
+export type ProductCostHistoryPayload = Omit<ProductCostHistoryEntry, 'id' | 'recordedAt'>;
+
+export interface CatalogSyncPlan {
+  creates: Omit<Product, 'id'>[];
+  updates: Array<{ id: string; patch: CatalogProductPatch }>;
+  removals: string[];
+  costChanges: ProductCostHistoryPayload[];
+}
+
+export interface CatalogSyncFailure {
+  action: 'create' | 'update' | 'remove';
+  sku: string;
+  productName: string;
+  message: string;
+}
+
+// Rows are written one by one and the upload is not a transaction, so a rejected row is reported
+// next to what was applied instead of aborting the rest. A history failure is reported the same way.
+export interface CatalogSyncResult {
+  applied: { creates: number; updates: number; removals: number };
+  failures: CatalogSyncFailure[];
+  historyRows: number;
+  historyError: string | null;
+}
+
+// Same rule for a product created by hand: the product exists even when its first history row does not.
+export interface ProductCreateResult {
+  product: Product;
+  historyError: string | null;
+}
+
+export interface ProductCostTimelinePoint {
+  recordedAt: string;
+  costUSD: number;
+  previousCostUSD: number | null;
+  changePercent: number | null;
+  landedCostCLP?: number | null;
+  previousLandedCostCLP?: number | null;
+  source: ProductCostSource;
+}
+
+export interface ProductCostChangeRow {
+  productId: string;
+  sku?: string;
+  productName: string;
+  category?: string;
+  baselineCostUSD: number;
+  currentCostUSD: number;
+  changePercent: number;
+  changeCount: number;
+  lastChangedAt: string;
+}
+
+export type LandedCostPolicy = 'latest' | 'weighted_average';
+
+export interface LandedCostUpdateRow {
+  productId: string;
+  sku: string;
+  productName: string;
+  shipmentQuantity: number;
+  shipmentUnitCLP: number;
+  // Unit cost quotes use today: the stored landed cost, or costUSD at the quote rate when there is none.
+  currentUnitCLP: number;
+  previousLandedCostCLP: number | null;
+  // Units still valued at the previous landed cost: the stored count, capped by the stock on hand when known.
+  previousLandedCostUnits: number;
+  nextLandedCostCLP: number;
+  nextLandedCostUnits: number;
+}
+
+export interface LandedCostUpdatePlan {
+  rows: LandedCostUpdateRow[];
+  // Snapshot SKUs with no catalog product; their landed cost is not applied.
+  unmatchedSkus: string[];
+}
+
+export interface LandedCostApplyFailure {
+  sku: string;
+  productName: string;
+  message: string;
+}
+
+// Products are written one by one; rows that fail are reported instead of aborting the rest.
+export interface LandedCostApplyResult {
+  appliedAt: string;
+  appliedRows: LandedCostUpdateRow[];
+  failures: LandedCostApplyFailure[];
+}
+
+export interface OpenQuoteLandedCostImpact {
+  quoteId: string;
+  quoteNumber: string;
+  revision: number;
+  clientName: string;
+  netTotalCLP: number;
+  currentCostCLP: number;
+  nextCostCLP: number;
+  currentMarginPercent: number;
+  nextMarginPercent: number;
+  affectedLineCount: number;
+}
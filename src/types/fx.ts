@@ -0,0 +1,46 @@
+export type FxCurrency = 'USD' | 'EUR' | 'UF';
+
+// One CLP value per currency and day; `date` is the YYYY-MM-DD the rate is published for.
+export interface FxRateEntry {
+  currency: FxCurrency;
+  date: string;
+  valueCLP: number;
+  source: string;
+}
+
+// Pluggable rate source: mindicador.cl online, or the stored table when working offline.
+export interface FxRateFetcher {
+  label: string;
+  // Without `date`, returns the latest published rate.
+  fetchRate: (currency: FxCurrency, date?: string) => Promise<FxRateEntry | null>;
+}
+
+export interface FxRateComparison {
+  currency: FxCurrency;
+  pinnedRate: number;
+  pinnedDate: string;
+  currentRate: number;
+  currentDate: string;
+  changePercent: number;
+}
+
+// One row of a sensitivity table: the exchange rate moved by `shiftPercent` with sale prices held in CLP.
+export interface FxSensitivityScenario {
+  shiftPercent: number;
+  rate: number;
+  netCLP: number;
+  costCLP: number;
+  profitCLP: number;
+  marginPercent: number;
+}
+
+export interface FxSensitivityAnalysis {
+  baseRate: number;
+  // True when part of the sale is billed in a foreign currency and its CLP value moves with the rate.
+  revenueFollowsRate: boolean;
+  scenarios: FxSensitivityScenario[];
+  targetMarginPercent: number;
+  // Rates at which the margin falls to 0% and to the target; null when no foreign cost is exposed.
+  breakEvenRate: number | null;
+  targetMarginRate: number | null;
+}
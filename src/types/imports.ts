@@ -0,0 +1,150 @@
+import type { ImportCurrencyCode } from '../utils/importCosting';
+
+export interface ImportCostCharge {
+  amount: number;
+  currency: ImportCurrencyCode;
+}
+
+// A free-trade agreement replaces the general ad-valorem rate for goods with a certificate of origin.
+export interface ImportTradeAgreement {
+  id: string;
+  label: string;
+  // Null means no agreement: the import's own ad-valorem rate applies.
+  dutyPercent: number | null;
+}
+
+// Cost inputs beyond FOB and international freight; freight keeps its own amount and currency.
+export interface ImportCostModelSettings {
+  insurance: ImportCostCharge;
+  adValoremPercent: number;
+  tradeAgreementId: string;
+  agentFees: ImportCostCharge;
+  portCharges: ImportCostCharge;
+  localTransport: ImportCostCharge;
+}
+
+// Per-line landed cost in CLP. IVA on the import is a recoverable tax credit and is not part of landedTotalCLP.
+export interface ImportLandedCostLine {
+  fobCLP: number;
+  freightCLP: number;
+  insuranceCLP: number;
+  cifCLP: number;
+  dutyPercent: number;
+  dutyCLP: number;
+  otherCustomsCLP: number;
+  agentFeesCLP: number;
+  portChargesCLP: number;
+  localTransportCLP: number;
+  landedTotalCLP: number;
+  importVatCreditCLP: number;
+}
+
+export type ImportLandedCostTotals = ImportLandedCostLine;
+
+export type PdfImportColumnKey = 'sku' | 'name' | 'quantity' | 'unitPrice' | 'amount';
+
+// X range in PDF points (an A4 page is 595 wide): start inclusive, end exclusive.
+export type PdfImportColumnRange = [number, number];
+
+export interface PdfImportParserProfile {
+  id: string;
+  label: string;
+  // Every anchor must appear on the first page for the profile to be detected.
+  detectAnchors: string[];
+  // Header labels per column; once the header row is found, column ranges are rebuilt from its x positions.
+  headerAnchors: Partial<Record<PdfImportColumnKey, string[]>>;
+  // Used when the header row is not found on a page. Empty means the line-by-line heuristic.
+  columns: Partial<Record<PdfImportColumnKey, PdfImportColumnRange>>;
+  skuPattern: RegExp;
+  // A row without a SKU that contains one of these ends the item table on that page.
+  stopAnchors: string[];
+  // Null lets each number decide from the position of its separators.
+  decimalSeparator: ',' | '.' | null;
+}
+
+export interface PdfImportLine {
+  page: number;
+  sku: string;
+  name: string;
+  quantity: number;
+  unitCost: number;
+  // From 0 to 1; lines below PDF_IMPORT_REVIEW_CONFIDENCE start unselected in the review.
+  confidence: number;
+  issues: string[];
+}
+
+export interface PdfImportParseResult {
+  profileId: string;
+  // Null when no profile matched and the generic heuristic was used.
+  detectedProfileId: string | null;
+  lines: PdfImportLine[];
+}
+
+export interface PurchaseOrderLine {
+  sku: string;
+  name: string;
+  quantity: number;
+  // Catalog cost when the order was exported; null when the SKU was not in the catalog.
+  unitCostUSD: number | null;
+}
+
+// Suggested order exported from the inventory module, kept so the invoice and the reception can be checked against it.
+export interface PurchaseOrderRecord {
+  id: string;
+  supplierName: string;
+  createdAt: string;
+  lines: PurchaseOrderLine[];
+}
+
+export interface ImportReconciliationInvoiceLine {
+  sku: string;
+  name: string;
+  quantity: number;
+  unitCost: number;
+}
+
+// Supplier invoice to reconcile: the calculator's current lines or a saved snapshot, with its rates to reach CLP.
+export interface ImportReconciliationInvoice {
+  id: string;
+  label: string;
+  items: ImportReconciliationInvoiceLine[];
+  // CLP per unit of the invoice currency.
+  fxRateCLP: number;
+  // CLP per USD, to value the order's catalog cost.
+  usdRateCLP: number;
+}
+
+export type ImportReconciliationStatus =
+  | 'ok'
+  | 'not_invoiced'
+  | 'not_ordered'
+  | 'not_received'
+  | 'quantity_variance'
+  | 'price_variance';
+
+export interface ImportReconciliationRow {
+  sku: string;
+  name: string;
+  orderedQty: number;
+  invoicedQty: number;
+  receivedQty: number;
+  // Invoiced minus ordered, and received minus invoiced.
+  invoiceQtyVariance: number;
+  receptionQtyVariance: number;
+  orderedUnitCLP: number | null;
+  invoicedUnitCLP: number | null;
+  // Invoiced minus ordered unit price; null when either side has no price.
+  priceVarianceUnitCLP: number | null;
+  priceVariancePercent: number | null;
+  status: ImportReconciliationStatus;
+}
+
+export interface ImportReconciliationReport {
+  rows: ImportReconciliationRow[];
+  totalOrderedQty: number;
+  totalInvoicedQty: number;
+  totalReceivedQty: number;
+  // Sum of unit price variance times invoiced quantity.
+  priceVarianceAmountCLP: number;
+  statusCounts: Record<ImportReconciliationStatus, number>;
+}
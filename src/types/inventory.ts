@@ -34,6 +34,25 @@ export interface InventoryCalculation {
   coverageDays: number;
 }
 
+export interface KitComponentAvailability {
+  sku: string;
+  name: string;
+  requiredPerKit: number;
+  currentStock: number;
+  buildableUnits: number;
+  // Null when the SKU is not in the supplier/stock data at all.
+  status: InventoryStatus | null;
+}
+
+export interface KitAvailability {
+  kitId: string;
+  kitName: string;
+  kitSku?: string;
+  buildableUnits: number;
+  limitingSku: string | null;
+  components: KitComponentAvailability[];
+}
+
 export interface InventorySettings {
   safetyDays: number;
   coverageDays: number;
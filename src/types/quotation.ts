@@ -1,8 +1,13 @@
+import type { ImplantModelKey } from '../data/implantDefinitions';
+
 export type QuotePricingMode =
   | 'global_margin'
   | 'global_net'
+  | 'global_gross'
   | 'at_cost'
   | 'manual_lines'
+  | 'volume_tiers'
+  | 'msrp_list'
   | 'legacy_global_net';
 
 export type LinePricingMode =
@@ -13,12 +18,91 @@ export type LinePricingMode =
   | 'fixed_profit_total'
   | 'fixed_margin_percent'
   | 'at_cost'
-  | 'manual_net_unit';
+  | 'manual_net_unit'
+  | 'volume_tier'
+  | 'msrp_discount';
+
+export type QuotePriceRoundingPolicy = 'none' | 'nearest_100' | 'nearest_1000' | 'ending_990';
+
+export interface QuoteVolumeTier {
+  minQuantity: number;
+  maxQuantity?: number | null;
+  marginPercent: number;
+  label?: string;
+}
+
+// `category` matches QuoteLineDraft.category; 'All' acts as the fallback schedule.
+export interface QuoteVolumeTierSchedule {
+  category: string;
+  tiers: QuoteVolumeTier[];
+}
+
+export interface AppliedQuoteVolumeTier {
+  category: string;
+  label: string;
+  minQuantity: number;
+  maxQuantity: number | null;
+  marginPercent: number;
+  basisQuantity: number;
+}
+
+export type QuoteDiscountType = 'percent' | 'fixed_clp';
+
+export interface QuoteDiscountRule {
+  id: string;
+  label: string;
+  type: QuoteDiscountType;
+  value: number;
+}
+
+// Trigger lines are matched by implant family (IMPLANT_DEFINITIONS) or by name text;
+// reward lines must already be on the quote for their units to be discounted.
+export interface QuoteBundlePromotion {
+  id: string;
+  label: string;
+  triggerImplantKey?: ImplantModelKey;
+  triggerProductText?: string;
+  triggerQuantity: number;
+  rewardProductText: string;
+  rewardQuantity: number;
+  repeatable: boolean;
+}
+
+export interface QuoteDiscountBreakdownEntry {
+  id: string;
+  label: string;
+  kind: QuoteDiscountType | 'bundle';
+  amountCLP: number;
+  detail?: string;
+}
+
+export type QuoteCurrency = 'CLP' | 'USD' | 'EUR';
+
+// Tax treatment of the whole quote; exempt and export sales carry a 0% rate.
+export interface QuoteTaxProfile {
+  id: string;
+  label: string;
+  documentLabel: string;
+  ratePercent: number;
+}
 
 export interface QuotePricingConfig {
   mode: QuotePricingMode;
   targetMarginPercent?: number;
   targetNetTotalCLP?: number;
+  targetTotalWithIvaCLP?: number;
+  // Percent off MSRP for `msrp_list` lines; 0 quotes the list price converted at the exchange rate.
+  listDiscountPercent?: number;
+  // Applies to engine-priced lines; typed net prices only round through the line's own policy.
+  roundingPolicy?: QuotePriceRoundingPolicy;
+  volumeTiers?: QuoteVolumeTierSchedule[];
+  discounts?: QuoteDiscountRule[];
+  promotions?: QuoteBundlePromotion[];
+  // Prices are always solved in CLP; the currency only changes what the client sees.
+  currency?: QuoteCurrency;
+  // CLP per unit of `currency`; a USD quote without it follows the cost exchange rate.
+  currencyRateCLP?: number;
+  taxProfile?: QuoteTaxProfile;
 }
 
 export interface QuoteLineDraft {
@@ -27,32 +111,263 @@ export interface QuoteLineDraft {
   sku?: string;
   quantity: number;
   costUSD: number;
+  // Landed unit cost in Chile from the catalog; takes precedence over costUSD at the exchange rate.
+  // A catalog sync that changes costUSD clears it, so it never outlives the supplier price it was built on.
+  landedCostCLP?: number;
+  // Manufacturer list price per unit; lines without one can't be priced off list.
+  msrpUSD?: number;
   category?: string;
   pricingMode: LinePricingMode;
   value?: number;
   locked?: boolean;
+  roundingPolicy?: QuotePriceRoundingPolicy;
 }
 
+export type QuoteLineCostSource = 'landed_cost' | 'usd_rate';
+
 export interface CalculatedQuoteLine extends QuoteLineDraft {
   costUnitCLP: number;
+  costSource: QuoteLineCostSource;
   costTotalCLP: number;
   netUnitCLP: number;
   netTotalCLP: number;
+  // Profit and margin are measured on the net after quote discounts.
   profitUnitCLP: number;
   profitTotalCLP: number;
   marginPercent: number;
-  effectiveMode: LinePricingMode | 'global_margin' | 'global_net' | 'at_cost';
+  effectiveMode: LinePricingMode | 'global_margin' | 'global_net' | 'global_gross' | 'at_cost';
   locked: boolean;
+  appliedVolumeTier?: AppliedQuoteVolumeTier;
+  discountTotalCLP: number;
+  listUnitCLP: number;
+  // Discount of the final net (after quote discounts) against MSRP; null when the line has no MSRP.
+  discountVsListPercent: number | null;
+  netUnitInCurrency: number;
+  netTotalInCurrency: number;
+}
+
+// Client-facing totals in the quote currency. Cost, profit and margin stay in CLP on the result.
+export interface QuoteCurrencyTotals {
+  currency: QuoteCurrency;
+  rateCLP: number;
+  taxProfile: QuoteTaxProfile;
+  totalNetBeforeDiscount: number;
+  totalDiscount: number;
+  totalNet: number;
+  totalTax: number;
+  totalWithTax: number;
 }
 
 export interface QuoteCalculationResult {
   lines: CalculatedQuoteLine[];
   totalCostCLP: number;
+  totalNetBeforeDiscountCLP: number;
+  totalDiscountCLP: number;
+  discounts: QuoteDiscountBreakdownEntry[];
   totalNetCLP: number;
+  // Tax at the quote's tax profile rate (IVA 19% unless the quote says otherwise).
   totalIvaCLP: number;
   totalWithIvaCLP: number;
   totalProfitCLP: number;
   totalMarginPercent: number;
+  // Net pesos still missing from the target; in `global_gross` it is measured on the total with IVA.
   unresolvedAmountCLP: number;
+  currencyTotals: QuoteCurrencyTotals;
   warnings: string[];
 }
+
+export type QuoteLineRuleField = 'name' | 'sku' | 'category';
+export type QuoteLineRuleOperator = 'equals' | 'contains';
+
+// The first matching rule decides the pricing mode a product starts with when it is added to a quote.
+export interface QuoteLineDefaultRule {
+  id: string;
+  field: QuoteLineRuleField;
+  operator: QuoteLineRuleOperator;
+  value: string;
+  pricingMode: LinePricingMode;
+  pricingValue?: number;
+  note: string;
+}
+
+// Line floors come from `categoryFloors`; the quote total must clear the sales rep's
+// entry in `userFloors`, falling back to `defaultFloorPercent`. `approvers` holds the
+// emails of the manager accounts allowed to approve exceptions.
+export interface QuoteMarginFloorPolicy {
+  defaultFloorPercent: number;
+  categoryFloors: Record<string, number>;
+  userFloors: Record<string, number>;
+  approvers: string[];
+}
+
+export interface QuoteMarginViolation {
+  scope: 'line' | 'quote';
+  productId?: string;
+  label: string;
+  marginPercent: number;
+  floorPercent: number;
+}
+
+export interface QuoteMarginGuardrailResult {
+  quoteFloorPercent: number;
+  violations: QuoteMarginViolation[];
+  requiresApproval: boolean;
+  signature: string;
+}
+
+export type QuoteApprovalStatus = 'not_required' | 'pending' | 'approved';
+
+// A manager signed in on top of the rep's session; only kept in memory.
+// `name` is the account's display name, compared with the sales rep to block self-approval.
+export interface QuoteApproverSession {
+  email: string;
+  name: string;
+  accessToken: string;
+}
+
+// `signature` pins the approval to the violations the manager saw; any later edit
+// that changes them puts the quote back in `pending`.
+export interface QuoteMarginApproval {
+  approvedBy: string;
+  reason: string;
+  approvedAt: string;
+  signature: string;
+}
+
+export interface QuoteRevisionRef {
+  quoteNumber: string;
+  revision: number;
+}
+
+export type QuoteRevisionLineChangeType = 'added' | 'removed' | 'changed';
+
+export interface QuoteRevisionLineChange {
+  key: string;
+  productName: string;
+  changeType: QuoteRevisionLineChangeType;
+  previousQuantity: number | null;
+  nextQuantity: number | null;
+  previousNetUnitCLP: number | null;
+  nextNetUnitCLP: number | null;
+  previousNetTotalCLP: number | null;
+  nextNetTotalCLP: number | null;
+}
+
+export interface QuoteRevisionDiff {
+  fromRevision: number;
+  toRevision: number;
+  lineChanges: QuoteRevisionLineChange[];
+  previousNetCLP: number;
+  nextNetCLP: number;
+  previousMarginPercent: number;
+  nextMarginPercent: number;
+}
+
+export type QuoteLifecycleStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
+export interface QuoteSalesRepResult {
+  salesRep: string;
+  totalQuotes: number;
+  openQuotes: number;
+  wonQuotes: number;
+  lostQuotes: number;
+  winRatePercent: number;
+  avgWonMarginPercent: number | null;
+  avgLostMarginPercent: number | null;
+  wonNetCLP: number;
+}
+
+export type CotizadorTab = 'simulator' | 'history' | 'report' | 'costs' | 'kits';
+
+export interface QuoteDocumentCompany {
+  name: string;
+  rut: string;
+  address: string;
+  phone: string;
+  email: string;
+  website: string;
+}
+
+export interface QuoteDocumentClient {
+  rut: string;
+  businessName: string;
+  contactName: string;
+  contactEmail?: string;
+  contactPhone?: string;
+}
+
+export type QuoteDocumentAudience = 'client' | 'internal';
+
+export interface QuoteClientDocumentLine {
+  productName: string;
+  sku?: string;
+  quantity: number;
+  netUnit: number;
+  netTotal: number;
+}
+
+// Everything a clinic may see. Built field by field so cost data can never leak into it.
+export interface QuoteClientDocumentView {
+  audience: 'client';
+  quoteLabel: string;
+  issuedAt: string;
+  validUntil: string | null;
+  lines: QuoteClientDocumentLine[];
+  // Every amount is in `currency`.
+  currency: QuoteCurrency;
+  taxLabel: string;
+  discounts: Array<{ label: string; amount: number }>;
+  totalNetBeforeDiscount: number;
+  totalDiscount: number;
+  totalNet: number;
+  totalTax: number;
+  totalWithTax: number;
+  terms: string[];
+}
+
+export interface QuoteInternalDocumentLine extends QuoteClientDocumentLine {
+  costUSD: number;
+  costTotalCLP: number;
+  marginPercent: number;
+  atCost: boolean;
+}
+
+export interface QuoteInternalDocumentView extends Omit<QuoteClientDocumentView, 'audience' | 'lines'> {
+  audience: 'internal';
+  lines: QuoteInternalDocumentLine[];
+  exchangeRate: number;
+  totalNetCLP: number;
+  totalCostCLP: number;
+  totalProfitCLP: number;
+  marginPercent: number;
+  cogsPercent: number;
+  salesRep: string | null;
+  approvalNote: string | null;
+}
+
+export interface QuoteClientContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+// `rut` is always stored normalized through `normalizeCRMRut` so quotes and CRM rows join on it.
+export interface QuoteClient {
+  rut: string;
+  name: string;
+  salesRep: string;
+  contact: QuoteClientContact;
+  source: 'crm' | 'manual';
+}
+
+export interface QuoteClientResult {
+  clientRut: string;
+  clientName: string;
+  salesRep: string;
+  totalQuotes: number;
+  openQuotes: number;
+  wonQuotes: number;
+  lostQuotes: number;
+  quotedNetCLP: number;
+  wonNetCLP: number;
+}
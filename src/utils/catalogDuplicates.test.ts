@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { RawProduct } from './fileParser';
+import {
+  applyCatalogDuplicateResolutions,
+  buildCatalogDuplicateReport,
+  catalogNameSimilarity,
+  findUnresolvedCatalogConflicts,
+} from './catalogDuplicates';
+
+const createRow = (overrides: Partial<RawProduct>): RawProduct => ({
+  sku: 'AR-4010',
+  name: 'AnyRidge 4.0 x 10',
+  category: 'Implantes',
+  costUSD: 45,
+  msrpUSD: 0,
+  ...overrides,
+});
+
+describe('catalogDuplicates', () => {
+  it('mantiene SKUs distintos con la misma descripcion y fusiona filas identicas del mismo SKU', () => {
+    const report = buildCatalogDuplicateReport([
+      createRow({}),
+      createRow({ sku: 'ar-4010 ', name: 'ANYRIDGE 4.0 x 10' }),
+      createRow({ sku: 'AR-4010-S', name: 'AnyRidge 4.0 x 10' }),
+    ]);
+
+    expect(report.conflicts).toEqual([]);
+    expect(report.mergedRowCount).toBe(1);
+    expect(report.products.map((product) => product.sku)).toEqual(['AR-4010', 'AR-4010-S']);
+  });
+
+  it('reporta conflictos por SKU con datos distintos y por nombres parecidos sin SKU', () => {
+    const report = buildCatalogDuplicateReport([
+      createRow({}),
+      createRow({ name: 'Any Ridge 4.0x10 mm', costUSD: 47 }),
+      createRow({ sku: 'TB-NH', name: 'Ti-Base Non Hex', category: 'Aditamentos', costUSD: 15 }),
+      createRow({ sku: '', name: 'Ti Base Non-Hex', category: 'Aditamentos', costUSD: 15 }),
+      createRow({ sku: '', name: 'Guia quirurgica', category: 'General', costUSD: 80 }),
+    ]);
+
+    expect(report.products.map((product) => product.name)).toEqual(['Guia quirurgica']);
+    expect(report.conflicts.map((conflict) => [conflict.kind, conflict.key, conflict.candidates.map((candidate) => candidate.rowNumber)])).toEqual([
+      ['same_sku', 'AR-4010', [1, 2]],
+      ['similar_name', 'Ti-Base Non Hex', [3, 4]],
+    ]);
+    expect(catalogNameSimilarity('Ti-Base Non Hex', 'Ti Base Non-Hex')).toBe(1);
+    expect(catalogNameSimilarity('AnyRidge 4.0 x 10', 'Healing Abutment 4.5')).toBeLessThan(0.5);
+  });
+
+  it('exige resolver cada conflicto antes de devolver el catalogo final', () => {
+    const report = buildCatalogDuplicateReport([
+      createRow({}),
+      createRow({ costUSD: 47 }),
+      createRow({ sku: 'TB-NH', name: 'Ti-Base Non Hex', costUSD: 15 }),
+      createRow({ sku: '', name: 'Ti Base Non Hex.', costUSD: 16 }),
+    ]);
+    const [skuConflict, nameConflict] = report.conflicts;
+
+    expect(findUnresolvedCatalogConflicts(report, { [skuConflict.id]: 'all' })).toHaveLength(2);
+    expect(() => applyCatalogDuplicateResolutions(report, { [skuConflict.id]: 1 })).toThrow(/sin resolver/);
+    expect(applyCatalogDuplicateResolutions(report, { [skuConflict.id]: 1, [nameConflict.id]: 'all' }).map((product) => [product.sku, product.costUSD])).toEqual([
+      ['AR-4010', 47],
+      ['TB-NH', 15],
+      ['', 16],
+    ]);
+  });
+});
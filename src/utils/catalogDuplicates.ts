@@ -0,0 +1,157 @@
+import type { RawProduct } from './fileParser';
+import { normalizeCatalogName, normalizeCatalogSku } from './catalogSync';
+
+export type CatalogDuplicateKind = 'same_sku' | 'similar_name';
+
+export interface CatalogDuplicateCandidate {
+  rowNumber: number;
+  product: RawProduct;
+}
+
+export interface CatalogDuplicateConflict {
+  id: string;
+  kind: CatalogDuplicateKind;
+  key: string;
+  candidates: CatalogDuplicateCandidate[];
+}
+
+export interface CatalogDuplicateReport {
+  products: RawProduct[];
+  conflicts: CatalogDuplicateConflict[];
+  mergedRowCount: number;
+}
+
+// Index of the candidate to keep, or 'all' to keep every candidate as a separate product.
+export type CatalogDuplicateResolution = number | 'all';
+
+export const CATALOG_DUPLICATE_KIND_LABELS: Record<CatalogDuplicateKind, string> = {
+  same_sku: 'Mismo SKU con datos distintos',
+  similar_name: 'Nombre parecido sin SKU',
+};
+
+export const SIMILAR_NAME_THRESHOLD = 0.88;
+
+const compactName = (name: string) => normalizeCatalogName(name).replace(/[^a-z0-9]/g, '');
+
+const toBigrams = (text: string) => {
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < text.length - 1; index += 1) {
+    const bigram = text.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+// Dice coefficient over character bigrams of the compacted names: 1 for identical, 0 for unrelated.
+export const catalogNameSimilarity = (left: string, right: string): number => {
+  const a = compactName(left);
+  const b = compactName(right);
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const leftBigrams = toBigrams(a);
+  let overlap = 0;
+  for (const [bigram, count] of toBigrams(b)) {
+    overlap += Math.min(count, leftBigrams.get(bigram) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+};
+
+const isSameRow = (left: RawProduct, right: RawProduct) => (
+  normalizeCatalogName(left.name) === normalizeCatalogName(right.name)
+  && left.costUSD === right.costUSD
+  && (left.msrpUSD ?? 0) === (right.msrpUSD ?? 0)
+  && normalizeCatalogName(left.category) === normalizeCatalogName(right.category)
+);
+
+// SKU is the identity: rows sharing a SKU are one product, and rows with different SKUs are never
+// merged even when their descriptions match. Fuzzy name matching only applies to rows without SKU.
+export const buildCatalogDuplicateReport = (rows: RawProduct[]): CatalogDuplicateReport => {
+  const skuGroups = new Map<string, CatalogDuplicateCandidate[]>();
+  const rowsWithoutSku: CatalogDuplicateCandidate[] = [];
+  rows.forEach((product, index) => {
+    const candidate = { rowNumber: index + 1, product };
+    const sku = normalizeCatalogSku(product.sku);
+    if (!sku) {
+      rowsWithoutSku.push(candidate);
+      return;
+    }
+    skuGroups.set(sku, [...(skuGroups.get(sku) ?? []), candidate]);
+  });
+
+  const accepted: CatalogDuplicateCandidate[] = [];
+  const conflicts: CatalogDuplicateConflict[] = [];
+  let mergedRowCount = 0;
+
+  for (const [sku, group] of skuGroups) {
+    const variants = group.filter((candidate, index) => (
+      group.findIndex((other) => isSameRow(other.product, candidate.product)) === index
+    ));
+    mergedRowCount += group.length - variants.length;
+    if (variants.length === 1) {
+      accepted.push(variants[0]);
+    } else {
+      conflicts.push({ id: `sku:${sku}`, kind: 'same_sku', key: sku, candidates: variants });
+    }
+  }
+
+  const nameConflicts = new Map<CatalogDuplicateCandidate, CatalogDuplicateConflict>();
+  for (const candidate of rowsWithoutSku) {
+    const exact = accepted.find((existing) => isSameRow(existing.product, candidate.product));
+    if (exact) {
+      mergedRowCount += 1;
+      continue;
+    }
+
+    const similar = accepted.find((existing) => (
+      catalogNameSimilarity(existing.product.name, candidate.product.name) >= SIMILAR_NAME_THRESHOLD
+    ));
+    if (!similar) {
+      accepted.push(candidate);
+      continue;
+    }
+
+    const conflict = nameConflicts.get(similar) ?? {
+      id: `name:${similar.rowNumber}`,
+      kind: 'similar_name' as const,
+      key: similar.product.name,
+      candidates: [similar],
+    };
+    conflict.candidates.push(candidate);
+    nameConflicts.set(similar, conflict);
+  }
+
+  return {
+    products: accepted.filter((candidate) => !nameConflicts.has(candidate)).map(({ product }) => product),
+    conflicts: [...conflicts, ...nameConflicts.values()],
+    mergedRowCount,
+  };
+};
+
+export const findUnresolvedCatalogConflicts = (
+  report: CatalogDuplicateReport,
+  resolutions: Record<string, CatalogDuplicateResolution>,
+) => report.conflicts.filter((conflict) => {
+  const resolution = resolutions[conflict.id];
+  if (resolution === undefined) return true;
+  if (resolution === 'all') return conflict.kind === 'same_sku';
+  return !conflict.candidates[resolution];
+});
+
+export const applyCatalogDuplicateResolutions = (
+  report: CatalogDuplicateReport,
+  resolutions: Record<string, CatalogDuplicateResolution>,
+): RawProduct[] => {
+  if (findUnresolvedCatalogConflicts(report, resolutions).length > 0) {
+    throw new Error('Quedan duplicados sin resolver.');
+  }
+
+  return [
+    ...report.products,
+    ...report.conflicts.flatMap((conflict) => {
+      const resolution = resolutions[conflict.id];
+      return resolution === 'all'
+        ? conflict.candidates.map(({ product }) => product)
+        : [conflict.candidates[resolution].product];
+    }),
+  ];
+};
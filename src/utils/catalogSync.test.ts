@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../data/mockProducts';
+import { buildCatalogDiff, buildCatalogSyncPlan } from './catalogSync';
+
+const createProduct = (overrides: Partial<Product>): Product => ({
+  id: 'db-1',
+  sku: 'AR-4010',
+  name: 'Implante AnyRidge 4.0 x 10',
+  category: 'Implantes',
+  costUSD: 45,
+  suggestedPriceUSD: 120,
+  ...overrides,
+});
+
+describe('catalogSync', () => {
+  it('detecta altas, cambios de costo, cambios de categoria y bajas por SKU o nombre normalizado', () => {
+    const current = [
+      createProduct({}),
+      createProduct({ id: 'db-2', sku: undefined, name: 'Ti-Base Non Hex', category: 'Mi lista', costUSD: 15, suggestedPriceUSD: 45 }),
+      createProduct({ id: 'db-3', sku: 'OLD-1', name: 'Producto descontinuado', costUSD: 10 }),
+      createProduct({ id: 'unique-1', sku: 'UNIQUE-1', name: 'Guia quirurgica especial', category: 'Productos Únicos' }),
+    ];
+    const uploaded = [
+      createProduct({ id: 'upl-0', sku: ' ar-4010 ', name: 'AnyRidge 4.0x10', costUSD: 47.5 }),
+      createProduct({ id: 'upl-1', sku: 'TB-NH', name: 'TI-BASE  non hex', category: 'Aditamentos', costUSD: 15, suggestedPriceUSD: 0 }),
+      createProduct({ id: 'upl-2', sku: 'AO-3508', name: 'Implante AnyOne 3.5 x 8', costUSD: 38 }),
+      createProduct({ id: 'upl-3', sku: 'AO-3508', name: 'Implante AnyOne 3.5 x 8 (duplicado)', costUSD: 38 }),
+    ];
+
+    const diff = buildCatalogDiff(current, uploaded);
+
+    expect(diff.changes.map((change) => [change.kind, change.current?.id ?? change.uploaded?.id, change.approved])).toEqual([
+      ['cost_change', 'db-1', true],
+      ['category_change', 'db-2', false],
+      ['add', 'upl-2', true],
+      ['remove', 'db-3', false],
+    ]);
+    expect(diff.changes[0].matchedBy).toBe('sku');
+    expect(diff.changes[1].matchedBy).toBe('name');
+    expect(diff.unchangedCount).toBe(0);
+    expect(diff.duplicateUploadCount).toBe(1);
+  });
+
+  it('arma el plan solo con los cambios aprobados y agrupa las actualizaciones por producto', () => {
+    const current = [
+      createProduct({ id: 'db-2', sku: undefined, name: 'Ti-Base Non Hex', category: 'Mi lista', costUSD: 15 }),
+      createProduct({ id: 'db-3', sku: 'OLD-1', name: 'Producto descontinuado' }),
+    ];
+    const uploaded = [
+      createProduct({ id: 'upl-0', sku: 'TB-NH', name: 'Ti-Base Non Hex', category: 'Aditamentos', costUSD: 16, suggestedPriceUSD: 48 }),
+      createProduct({ id: 'upl-1', sku: 'AO-3508', name: 'Implante AnyOne 3.5 x 8', costUSD: 38, suggestedPriceUSD: 95 }),
+    ];
+    const changes = buildCatalogDiff(current, uploaded).changes.map((change) => ({ ...change, approved: change.kind !== 'remove' }));
+
+    expect(buildCatalogSyncPlan(changes)).toEqual({
+      creates: [{ sku: 'AO-3508', name: 'Implante AnyOne 3.5 x 8', category: 'Implantes', costUSD: 38, suggestedPriceUSD: 95 }],
+      updates: [{ id: 'db-2', patch: { costUSD: 16, suggestedPriceUSD: 48, sku: 'TB-NH', category: 'Aditamentos' } }],
+      removals: [],
+      costChanges: [{
+        productId: 'db-2',
+        sku: 'TB-NH',
+        productName: 'Ti-Base Non Hex',
+        costUSD: 16,
+        previousCostUSD: 15,
+        suggestedPriceUSD: 48,
+        source: 'catalog_sync',
+      }],
+    });
+  });
+
+  it('no propone cambios cuando la lista coincide con el catalogo', () => {
+    const current = [createProduct({})];
+    const diff = buildCatalogDiff(current, [createProduct({ id: 'upl-0', costUSD: 45.001 })]);
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchangedCount).toBe(1);
+    expect(buildCatalogSyncPlan(diff.changes)).toEqual({ creates: [], updates: [], removals: [], costChanges: [] });
+  });
+
+  it('conserva el costo puesto en Chile y lo marca desactualizado cuando cambia el costo del proveedor', () => {
+    const current = [createProduct({ landedCostCLP: 52000, landedCostUnits: 20 })];
+    const changes = buildCatalogDiff(current, [createProduct({ id: 'upl-0', costUSD: 50 })]).changes;
+
+    expect(buildCatalogSyncPlan(changes).updates).toEqual([
+      { id: 'db-1', patch: { costUSD: 50, suggestedPriceUSD: 120, markLandedCostStale: true } },
+    ]);
+  });
+
+  it('no marca el costo puesto en Chile si solo cambia la categoria', () => {
+    const current = [createProduct({ landedCostCLP: 52000, landedCostUnits: 20 })];
+    const changes = buildCatalogDiff(current, [createProduct({ id: 'upl-0', category: 'Aditamentos' })]).changes
+      .map((change) => ({ ...change, approved: true }));
+
+    expect(buildCatalogSyncPlan(changes).updates).toEqual([{ id: 'db-1', patch: { category: 'Aditamentos' } }]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { Product } from '../data/mockProducts';
+import type {
+  CatalogChange,
+  CatalogChangeKind,
+  CatalogDiff,
+  CatalogMatchField,
+  CatalogProductPatch,
+  CatalogSyncPlan,
+} from '../types/catalog';
+import { normalizeCRMText } from './crmWorkbookAliases';
+
+export const CATALOG_CHANGE_LABELS: Record<CatalogChangeKind, string> = {
+  add: 'Nuevos',
+  cost_change: 'Cambios de costo',
+  category_change: 'Cambios de categoria',
+  remove: 'No vienen en la lista',
+};
+
+const PRICE_TOLERANCE_USD = 0.005;
+
+export const normalizeCatalogSku = (sku?: string) => (sku ?? '').trim().toUpperCase().replace(/\s+/g, '');
+
+export const normalizeCatalogName = (name: string) => normalizeCRMText(name).replace(/\s+/g, ' ');
+
+// Products created by hand in the cotizador never come in a supplier price list.
+export const isManualCatalogProduct = (product: Product) => (
+  product.id.startsWith('unique-') || Boolean(product.sku?.startsWith('UNIQUE-'))
+);
+
+const hasPriceChange = (current: Product, uploaded: Product) => (
+  Math.abs(current.costUSD - uploaded.costUSD) > PRICE_TOLERANCE_USD
+  || (Boolean(uploaded.suggestedPriceUSD)
+    && Math.abs((current.suggestedPriceUSD ?? 0) - (uploaded.suggestedPriceUSD ?? 0)) > PRICE_TOLERANCE_USD)
+);
+
+// Additions and price updates are approved by default. Category changes and removals are
+// opt-in because they usually undo a manual move or drop a product the list simply omits.
+export const buildCatalogDiff = (current: Product[], uploaded: Product[]): CatalogDiff => {
+  const bySku = new Map<string, Product>();
+  const byName = new Map<string, Product>();
+  for (const product of current) {
+    const sku = normalizeCatalogSku(product.sku);
+    if (sku && !bySku.has(sku)) bySku.set(sku, product);
+    const name = normalizeCatalogName(product.name);
+    if (name && !byName.has(name)) byName.set(name, product);
+  }
+
+  const changes: CatalogChange[] = [];
+  const matchedIds = new Set<string>();
+  const addedKeys = new Set<string>();
+  let unchangedCount = 0;
+  let duplicateUploadCount = 0;
+
+  uploaded.forEach((row, index) => {
+    const sku = normalizeCatalogSku(row.sku);
+    const name = normalizeCatalogName(row.name);
+    const skuMatch = sku ? bySku.get(sku) : undefined;
+    const match = skuMatch ?? byName.get(name);
+    const matchedBy: CatalogMatchField = skuMatch ? 'sku' : 'name';
+
+    if (!match) {
+      const key = sku || `name:${name}`;
+      if (addedKeys.has(key)) {
+        duplicateUploadCount += 1;
+        return;
+      }
+      addedKeys.add(key);
+      changes.push({ id: `add:${index}`, kind: 'add', uploaded: row, approved: true });
+      return;
+    }
+
+    if (matchedIds.has(match.id)) {
+      duplicateUploadCount += 1;
+      return;
+    }
+    matchedIds.add(match.id);
+
+    const priceChanged = hasPriceChange(match, row);
+    const categoryChanged = Boolean(row.category.trim())
+      && normalizeCRMText(row.category) !== normalizeCRMText(match.category);
+    if (priceChanged) {
+      changes.push({ id: `cost_change:${match.id}`, kind: 'cost_change', current: match, uploaded: row, matchedBy, approved: true });
+    }
+    if (categoryChanged) {
+      changes.push({ id: `category_change:${match.id}`, kind: 'category_change', current: match, uploaded: row, matchedBy, approved: false });
+    }
+    if (!priceChanged && !categoryChanged) unchangedCount += 1;
+  });
+
+  for (const product of current) {
+    if (matchedIds.has(product.id) || isManualCatalogProduct(product)) continue;
+    changes.push({ id: `remove:${product.id}`, kind: 'remove', current: product, approved: false });
+  }
+
+  return { changes, unchangedCount, duplicateUploadCount };
+};
+
+export const buildCatalogSyncPlan = (changes: CatalogChange[]): CatalogSyncPlan => {
+  const creates: CatalogSyncPlan['creates'] = [];
+  const patches = new Map<string, CatalogProductPatch>();
+  const removals: string[] = [];
+  const costChanges: CatalogSyncPlan['costChanges'] = [];
+
+  for (const change of changes) {
+    if (!change.approved) continue;
+    const { current, uploaded } = change;
+    if (change.kind === 'add' && uploaded) {
+      creates.push({
+        sku: uploaded.sku,
+        name: uploaded.name,
+        category: uploaded.category,
+        costUSD: uploaded.costUSD,
+        suggestedPriceUSD: uploaded.suggestedPriceUSD,
+      });
+    } else if (change.kind === 'remove' && current) {
+      removals.push(current.id);
+    } else if (current && uploaded) {
+      const patch = patches.get(current.id) ?? {};
+      if (change.kind === 'cost_change') {
+        patch.costUSD = uploaded.costUSD;
+        if (uploaded.suggestedPriceUSD) patch.suggestedPriceUSD = uploaded.suggestedPriceUSD;
+        // Name-matched products pick up the SKU so the next upload matches them directly.
+        if (!current.sku && uploaded.sku) patch.sku = uploaded.sku;
+        if (patch.costUSD !== current.costUSD) {
+          if ((current.landedCostCLP ?? 0) > 0) patch.markLandedCostStale = true;
+          costChanges.push({
+            productId: current.id,
+            sku: current.sku || uploaded.sku,
+            productName: current.name,
+            costUSD: uploaded.costUSD,
+            previousCostUSD: current.costUSD,
+            suggestedPriceUSD: patch.suggestedPriceUSD ?? current.suggestedPriceUSD,
+            source: 'catalog_sync',
+          });
+        }
+      } else {
+        patch.category = uploaded.category;
+      }
+      patches.set(current.id, patch);
+    }
+  }
+
+  return {
+    creates,
+    updates: Array.from(patches.entries()).map(([id, patch]) => ({ id, patch })),
+    removals,
+    costChanges,
+  };
+};
@@ -1,5 +1,8 @@
 import type { CRMClientAggregate, CRMPeriodRow } from '../types/crm';
 
+// The CRM module keeps its last import here; the cotizador reads the client base from it.
+export const CRM_SINGLE_FILE_STORAGE_KEY = 'megagen.crm.singleFileData';
+
 const normalizeClientCode = (value: string): string => value.trim().toUpperCase();
 const MONTHS = 12;
 
@@ -8,6 +8,9 @@ import type {
   ProductMovementDirection,
 } from '../types/dailyProductMovements';
 
+// The movements module keeps the last parsed file here; the import reconciliation reads receptions from it.
+export const DAILY_PRODUCT_MOVEMENTS_STORAGE_KEY = 'megagen.dailyProductMovements.state';
+
 const normalize = (text: string): string => text
   .toLowerCase()
   .normalize('NFD')
@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'vitest';
-import { mapRowsToImportItems } from './fileParser';
+import {
+    buildCatalogLayoutKey,
+    buildCatalogSheet,
+    mapCatalogRows,
+    mapRowsToImportItems,
+    suggestCatalogColumnMapping,
+    validateCatalogColumnMapping,
+} from './fileParser';
 
 describe('fileParser import rows', () => {
     it('prioriza la columna de nombre correcta y limpia el SKU repetido en la descripción', () => {
@@ -38,3 +45,29 @@ describe('fileParser import rows', () => {
         });
     });
 });
+
+describe('fileParser catalog mapping', () => {
+    it('detecta la fila de cabecera y sugiere columnas sin depender de su posición', () => {
+        const sheet = buildCatalogSheet([
+            ['Lista de precios MegaGen 2026', '', '', '', ''],
+            ['Precio Sugerido', 'Familia', 'Descripcion', 'Precio USD', 'Código'],
+            [120, 'Implantes', 'AnyRidge 4.0 x 10', '45,50', 'AR-4010'],
+        ]);
+
+        expect(sheet.headers).toEqual(['Precio Sugerido', 'Familia', 'Descripcion', 'Precio USD', 'Código']);
+        expect(suggestCatalogColumnMapping(sheet.headers)).toEqual({ sku: 4, name: 2, cost: 3, category: 1, msrp: 0 });
+        expect(mapCatalogRows(sheet, suggestCatalogColumnMapping(sheet.headers))).toEqual([
+            { sku: 'AR-4010', name: 'AnyRidge 4.0 x 10', category: 'Implantes', costUSD: 45.5, msrpUSD: 120 },
+        ]);
+    });
+
+    it('exige nombre y costo, y no permite asignar una columna a dos campos', () => {
+        const headers = ['SKU', 'Nombre', 'Costo'];
+
+        expect(validateCatalogColumnMapping({ sku: 0, name: 1, cost: 2, category: null, msrp: null }, headers)).toBeNull();
+        expect(validateCatalogColumnMapping({ sku: 0, name: null, cost: 2, category: null, msrp: null }, headers)).toMatch(/nombre/);
+        expect(validateCatalogColumnMapping({ sku: 0, name: 1, cost: 1, category: null, msrp: null }, headers)).toMatch(/solo puede/);
+        expect(validateCatalogColumnMapping({ sku: 0, name: 1, cost: 5, category: null, msrp: null }, headers)).toMatch(/no existen/);
+        expect(buildCatalogLayoutKey(['SKU', 'Descripción '])).toBe(buildCatalogLayoutKey(['sku', 'descripcion']));
+    });
+});
@@ -39,6 +39,28 @@ export interface ImportItemRaw {
     name: string;
     quantity: number;
     unitCost: number;
+    // Optional per-line inputs for freight/customs allocation methods other than by value.
+    unitWeight?: number;
+    allocationShare?: number;
+    dutyExempt?: boolean;
+}
+
+export type CatalogColumnField = 'sku' | 'name' | 'cost' | 'category' | 'msrp';
+
+// Column index per field; null means the file has no such column.
+export type CatalogColumnMapping = Record<CatalogColumnField, number | null>;
+
+export interface CatalogSheet {
+    headers: string[];
+    rows: unknown[][];
+}
+
+export interface CatalogUploadDraft {
+    fileName: string;
+    sheet: CatalogSheet;
+    layoutKey: string;
+    mapping: CatalogColumnMapping;
+    hasSavedMapping: boolean;
 }
 
 type GenericRow = Record<string, unknown>;
@@ -50,18 +72,6 @@ const normalize = (text: string): string => {
         .trim();
 };
 
-const findValue = (row: GenericRow, keywords: string[]): unknown => {
-    const keys = Object.keys(row);
-    const normalizedKeywords = keywords.map(normalize);
-
-    const match = keys.find(key => {
-        const normKey = normalize(key);
-        return normalizedKeywords.some(kw => normKey === kw || normKey.includes(kw));
-    });
-
-    return match ? row[match] : null;
-};
-
 const findValueExactFirst = (row: GenericRow, keywords: string[]): unknown => {
     const keys = Object.keys(row);
     const normalizedKeywords = keywords.map(normalize);
@@ -106,7 +116,20 @@ const sanitizeImportItemName = (sku: string, name: string): string => {
     return normalizedName || cleanSku;
 };
 
-export const parseFile = (file: File): Promise<RawProduct[]> => {
+const CATALOG_COLUMN_ALIASES: Record<CatalogColumnField, string[]> = {
+    sku: ['sku', 'codigo', 'cod', 'item code', 'ref'],
+    name: ['nombre', 'name', 'descripcion', 'description', 'articulo', 'producto', 'item'],
+    msrp: ['msrp', 'precio sugerido', 'pvp', 'precio venta', 'retail', 'list price'],
+    cost: ['costo', 'cost', 'precio', 'price', 'usd'],
+    category: ['categoria', 'category', 'familia', 'tipo', 'linea'],
+};
+
+// Resolution order matters: MSRP claims "precio sugerido" before cost can grab it through "precio".
+const CATALOG_FIELD_RESOLUTION_ORDER: CatalogColumnField[] = ['sku', 'msrp', 'cost', 'category', 'name'];
+
+// Catalog price lists are read as a raw grid first; the user confirms which column is which
+// before any row becomes a product.
+export const readCatalogFile = (file: File): Promise<CatalogSheet> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         const extension = file.name.split('.').pop()?.toLowerCase();
@@ -115,10 +138,10 @@ export const parseFile = (file: File): Promise<RawProduct[]> => {
             reader.onload = (e) => {
                 const text = e.target?.result as string;
                 Papa.parse(text, {
-                    header: true,
+                    header: false,
                     skipEmptyLines: true,
-                    complete: (results: Papa.ParseResult<GenericRow>) => {
-                        resolve(mapRowsToProducts(results.data));
+                    complete: (results: Papa.ParseResult<unknown[]>) => {
+                        resolve(buildCatalogSheet(results.data));
                     },
                     error: (err: Error) => reject(err),
                 });
@@ -130,21 +153,8 @@ export const parseFile = (file: File): Promise<RawProduct[]> => {
                 const workbook = XLSX.read(data, { type: 'array' });
                 const sheetName = workbook.SheetNames[0];
                 const worksheet = workbook.Sheets[sheetName];
-
-                const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][];
-                if (rows.length === 0) { resolve([]); return; }
-
-                let headerRowIndex = 0;
-                for (let i = 0; i < Math.min(rows.length, 10); i++) {
-                    const rowText = rows[i].join(' ').toLowerCase();
-                    if (rowText.includes('sku') || rowText.includes('nom') || rowText.includes('pre')) {
-                        headerRowIndex = i;
-                        break;
-                    }
-                }
-
-                const jsonData = XLSX.utils.sheet_to_json(worksheet, { range: headerRowIndex }) as GenericRow[];
-                resolve(mapRowsToProducts(jsonData));
+                const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][];
+                resolve(buildCatalogSheet(rows));
             };
             reader.readAsArrayBuffer(file);
         } else {
@@ -153,41 +163,85 @@ export const parseFile = (file: File): Promise<RawProduct[]> => {
     });
 };
 
-const mapRowsToProducts = (rows: GenericRow[]): RawProduct[] => {
-    const uniqueProducts: Map<string, RawProduct> = new Map();
+export const buildCatalogSheet = (grid: unknown[][]): CatalogSheet => {
+    const rows = grid.filter((row) => row.some((cell) => String(cell ?? '').trim()));
+    if (rows.length === 0) return { headers: [], rows: [] };
+
+    // The header is the row among the first ten whose cells look most like catalog column names;
+    // title rows above it ("Lista de precios ...") only ever match one cell.
+    const aliases = Object.values(CATALOG_COLUMN_ALIASES).flat();
+    const scoreHeaderRow = (row: unknown[]) => row
+        .map((cell) => normalize(String(cell ?? '')))
+        .filter((cell) => cell && aliases.some((alias) => cell.includes(alias)))
+        .length;
+    let headerRowIndex = 0;
+    for (let i = 1; i < Math.min(rows.length, 10); i++) {
+        if (scoreHeaderRow(rows[i]) > scoreHeaderRow(rows[headerRowIndex])) headerRowIndex = i;
+    }
 
-    rows.forEach((row, index) => {
-        const sku = findValue(row, ['sku', 'codigo', 'cod']);
-        const name = findValue(row, ['nombre', 'name', 'articulo', 'item']);
-        const cost = findValue(row, ['precio', 'price', 'costo', 'cost', 'usd']);
-        const category = findValue(row, ['categoria', 'category', 'familia', 'tipo']);
-
-        // Fallback posicional
-        const rv = Object.values(row);
-        const finalSku = sku || (index === 0 ? null : rv[0]);
-        const finalName = name || rv[1];
-        const finalCost = cost ?? extractFallbackCost(rv);
-
-        const productName = finalName?.toString().trim() || '';
-        if (!productName && !sku) return;
-
-        // Solo guardar el primer encuentro de cada nombre
-        if (productName && !uniqueProducts.has(normalizerKey(productName))) {
-            uniqueProducts.set(normalizerKey(productName), {
-                sku: finalSku?.toString().trim() || '',
-                name: productName,
-                category: category?.toString().trim() || 'General',
-                costUSD: parseNumber(finalCost),
-                msrpUSD: 0,
-            });
+    const dataRows = rows.slice(headerRowIndex + 1);
+    const columnCount = Math.max(rows[headerRowIndex].length, ...dataRows.map((row) => row.length));
+    const headers = Array.from({ length: columnCount }, (_, index) => (
+        String(rows[headerRowIndex][index] ?? '').trim() || `Columna ${index + 1}`
+    ));
+
+    return { headers, rows: dataRows };
+};
+
+// Two files share a layout when they have the same headers in the same order.
+export const buildCatalogLayoutKey = (headers: string[]): string => headers.map(normalize).join('|');
+
+export const suggestCatalogColumnMapping = (headers: string[]): CatalogColumnMapping => {
+    const normalizedHeaders = headers.map(normalize);
+    const taken = new Set<number>();
+    const mapping: CatalogColumnMapping = { sku: null, name: null, cost: null, category: null, msrp: null };
+
+    for (const field of CATALOG_FIELD_RESOLUTION_ORDER) {
+        const aliases = CATALOG_COLUMN_ALIASES[field];
+        const isFree = (index: number) => index >= 0 && !taken.has(index);
+        let match = -1;
+        for (const alias of aliases) {
+            const exact = normalizedHeaders.findIndex((header, index) => header === alias && isFree(index));
+            if (exact >= 0) {
+                match = exact;
+                break;
+            }
         }
-    });
+        if (match < 0) {
+            match = normalizedHeaders.findIndex((header, index) => isFree(index) && aliases.some((alias) => header.includes(alias)));
+        }
+        if (match >= 0) {
+            mapping[field] = match;
+            taken.add(match);
+        }
+    }
+
+    return mapping;
+};
 
-    return Array.from(uniqueProducts.values());
+export const validateCatalogColumnMapping = (mapping: CatalogColumnMapping, headers: string[]): string | null => {
+    const inRange = (index: number | null) => index === null || (index >= 0 && index < headers.length);
+    if (!Object.values(mapping).every(inRange)) return 'El mapeo apunta a columnas que no existen en este archivo.';
+    if (mapping.name === null) return 'Indica qué columna contiene el nombre del producto.';
+    if (mapping.cost === null) return 'Indica qué columna contiene el costo.';
+    const used = Object.values(mapping).filter((index): index is number => index !== null);
+    if (new Set(used).size !== used.length) return 'Cada columna solo puede asignarse a un campo.';
+    return null;
 };
 
-const normalizerKey = (text: string): string => {
-    return text.toString().toLowerCase().trim();
+// Returns one product per row; duplicates are resolved afterwards by the catalog duplicate report.
+export const mapCatalogRows = (sheet: CatalogSheet, mapping: CatalogColumnMapping): RawProduct[] => {
+    const cell = (row: unknown[], index: number | null) => (index === null ? '' : String(row[index] ?? '').trim());
+
+    return sheet.rows
+        .filter((row) => cell(row, mapping.name))
+        .map((row) => ({
+            sku: cell(row, mapping.sku),
+            name: cell(row, mapping.name),
+            category: cell(row, mapping.category) || 'General',
+            costUSD: mapping.cost === null ? 0 : parseNumber(row[mapping.cost]),
+            msrpUSD: mapping.msrp === null ? 0 : parseNumber(row[mapping.msrp]),
+        }));
 };
 
 const parseNumber = (val: unknown): number => {
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { FxRateEntry } from '../types/fx';
+import { compareFxRate, findFxRateOn, parseMindicadorSerie, upsertFxRateEntry } from './fxRates';
+
+const entries: FxRateEntry[] = [
+  { currency: 'USD', date: '2026-10-15', valueCLP: 948.2, source: 'mindicador.cl' },
+  { currency: 'USD', date: '2026-10-16', valueCLP: 951.7, source: 'mindicador.cl' },
+  { currency: 'EUR', date: '2026-10-17', valueCLP: 1102.4, source: 'mindicador.cl' },
+];
+
+describe('fxRates', () => {
+  it('lee el valor mas reciente de la serie de mindicador con su fecha', () => {
+    const payload = {
+      serie: [
+        { fecha: '2026-10-16T03:00:00.000Z', valor: 951.7 },
+        { fecha: '2026-10-15T03:00:00.000Z', valor: 948.2 },
+      ],
+    };
+
+    expect(parseMindicadorSerie(payload, 'USD', 'mindicador.cl')).toEqual({
+      currency: 'USD',
+      date: '2026-10-16',
+      valueCLP: 951.7,
+      source: 'mindicador.cl',
+    });
+    expect(parseMindicadorSerie({ serie: [] }, 'USD', 'mindicador.cl')).toBeNull();
+  });
+
+  it('usa el ultimo valor publicado en fines de semana y feriados', () => {
+    expect(findFxRateOn(entries, 'USD', '2026-10-18')?.valueCLP).toBe(951.7);
+    expect(findFxRateOn(entries, 'USD', '2026-10-15')?.valueCLP).toBe(948.2);
+    expect(findFxRateOn(entries, 'EUR', '2026-10-16')).toBeNull();
+  });
+
+  it('reemplaza el valor del mismo dia y compara contra el dolar fijado', () => {
+    const updated = upsertFxRateEntry(entries, { currency: 'USD', date: '2026-10-16', valueCLP: 955, source: 'manual' });
+    expect(updated.filter((entry) => entry.currency === 'USD').map((entry) => entry.valueCLP)).toEqual([948.2, 955]);
+
+    const latest = findFxRateOn(updated, 'USD', '2026-10-19');
+    const comparison = compareFxRate('USD', { rate: 940, date: '2026-10-01' }, latest);
+    expect(comparison?.currentDate).toBe('2026-10-16');
+    expect(comparison?.changePercent).toBeCloseTo(1.596, 2);
+    expect(compareFxRate('USD', { rate: 955, date: '2026-10-16' }, latest)).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import type { FxCurrency, FxRateComparison, FxRateEntry } from '../types/fx';
+
+export const FX_CURRENCIES: FxCurrency[] = ['USD', 'EUR', 'UF'];
+
+export const FX_CURRENCY_LABELS: Record<FxCurrency, string> = {
+  USD: 'Dolar',
+  EUR: 'Euro',
+  UF: 'UF',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local calendar day, so a rate fetched in the evening in Chile is not filed under tomorrow (UTC).
+export const toFxDateKey = (value: Date | string = new Date()) => {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) return '';
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const formatFxDate = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-');
+  return year && month && day ? `${day}-${month}-${year}` : dateKey;
+};
+
+// mindicador.cl answers `{ serie: [{ fecha, valor }] }` with the newest value first.
+export const parseMindicadorSerie = (payload: unknown, currency: FxCurrency, source: string): FxRateEntry | null => {
+  const serie = (payload as { serie?: Array<{ fecha?: string; valor?: unknown }> } | null)?.serie;
+  const latest = Array.isArray(serie) ? serie[0] : undefined;
+  const valueCLP = Number(latest?.valor);
+  const date = latest?.fecha ? latest.fecha.slice(0, 10) : '';
+  if (!date || !Number.isFinite(valueCLP) || valueCLP <= 0) return null;
+  return { currency, date, valueCLP, source };
+};
+
+// Rates are not published on weekends and holidays, so a date uses the last rate on or before it.
+export const findFxRateOn = (entries: FxRateEntry[], currency: FxCurrency, date: string): FxRateEntry | null => (
+  entries
+    .filter((entry) => entry.currency === currency && entry.date <= date)
+    .sort((left, right) => right.date.localeCompare(left.date))[0] ?? null
+);
+
+export const upsertFxRateEntry = (entries: FxRateEntry[], entry: FxRateEntry): FxRateEntry[] => [
+  ...entries.filter((existing) => existing.currency !== entry.currency || existing.date !== entry.date),
+  entry,
+].sort((left, right) => left.date.localeCompare(right.date) || left.currency.localeCompare(right.currency));
+
+export const compareFxRate = (
+  currency: FxCurrency,
+  pinned: { rate: number; date: string },
+  current: FxRateEntry | null,
+): FxRateComparison | null => {
+  if (!current || pinned.rate <= 0 || (current.date === pinned.date && current.valueCLP === pinned.rate)) return null;
+  return {
+    currency,
+    pinnedRate: pinned.rate,
+    pinnedDate: pinned.date,
+    currentRate: current.valueCLP,
+    currentDate: current.date,
+    changePercent: ((current.valueCLP - pinned.rate) / pinned.rate) * 100,
+  };
+};
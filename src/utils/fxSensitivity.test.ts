@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { calculateQuote } from './quotePricingEngine';
+import { buildFxSensitivity, buildQuoteFxSensitivity } from './fxSensitivity';
+
+describe('fxSensitivity', () => {
+  it('mantiene el neto de la cotizacion y calcula el dolar de quiebre y el del margen objetivo', () => {
+    const result = calculateQuote({
+      exchangeRate: 1000,
+      lines: [{ productId: 'p1', productName: 'Implante', costUSD: 100, quantity: 2, pricingMode: 'inherit' }],
+      pricingConfig: { mode: 'global_margin', targetMarginPercent: 50 },
+    });
+    const analysis = buildQuoteFxSensitivity(result, 'USD', 1000, 40);
+
+    const up3 = analysis.scenarios.find((scenario) => scenario.shiftPercent === 3);
+    expect(up3?.rate).toBeCloseTo(1030);
+    expect(up3?.costCLP).toBeCloseTo(206_000);
+    expect(up3?.profitCLP).toBeCloseTo(194_000);
+    expect(up3?.marginPercent).toBeCloseTo(48.5);
+    expect(analysis.breakEvenRate).toBeCloseTo(2000);
+    expect(analysis.targetMarginRate).toBeCloseTo(1200);
+  });
+
+  it('solo mueve el costo expuesto y deja fijo el costo en pesos', () => {
+    const analysis = buildFxSensitivity({
+      baseRate: 950,
+      netCLP: 1_000_000,
+      exposedCostCLP: 500_000,
+      fixedCostCLP: 100_000,
+      targetMarginPercent: 40,
+      shifts: [-10, 10],
+    });
+
+    expect(analysis.scenarios.map((scenario) => scenario.costCLP)).toEqual([550_000, 650_000]);
+    expect(analysis.breakEvenRate).toBeCloseTo(950 * 1.8);
+    expect(analysis.targetMarginRate).toBeCloseTo(950);
+  });
+
+  it('no informa tipo de cambio de quiebre sin costo en moneda extranjera', () => {
+    const analysis = buildFxSensitivity({ baseRate: 950, netCLP: 100_000, exposedCostCLP: 0, targetMarginPercent: 30 });
+
+    expect(analysis.breakEvenRate).toBeNull();
+    expect(analysis.targetMarginRate).toBeNull();
+    expect(analysis.scenarios.every((scenario) => scenario.marginPercent === 100)).toBe(true);
+  });
+
+  it('deja fijo el costo puesto en Chile y solo expone las lineas valorizadas en USD', () => {
+    const result = calculateQuote({
+      exchangeRate: 1000,
+      lines: [
+        { productId: 'p1', productName: 'Implante', costUSD: 100, quantity: 2, pricingMode: 'inherit' },
+        { productId: 'p2', productName: 'Ti-Base', costUSD: 40, landedCostCLP: 60_000, quantity: 1, pricingMode: 'inherit' },
+      ],
+      pricingConfig: { mode: 'global_margin', targetMarginPercent: 50 },
+    });
+    const analysis = buildQuoteFxSensitivity(result, 'USD', 1000, 40);
+
+    const up10 = analysis.scenarios.find((scenario) => scenario.shiftPercent === 10);
+    expect(analysis.revenueFollowsRate).toBe(false);
+    expect(up10?.netCLP).toBeCloseTo(520_000);
+    expect(up10?.costCLP).toBeCloseTo(60_000 + 220_000);
+    expect(analysis.breakEvenRate).toBeCloseTo(2300);
+  });
+
+  it('mueve la venta con el tipo de cambio cuando la cotizacion es en dolares', () => {
+    const result = calculateQuote({
+      exchangeRate: 1000,
+      lines: [{ productId: 'p1', productName: 'Implante', costUSD: 100, quantity: 2, pricingMode: 'inherit' }],
+      pricingConfig: { mode: 'global_margin', targetMarginPercent: 50, currency: 'USD' },
+    });
+    const analysis = buildQuoteFxSensitivity(result, 'USD', 1000, 40);
+
+    const up10 = analysis.scenarios.find((scenario) => scenario.shiftPercent === 10);
+    expect(analysis.revenueFollowsRate).toBe(true);
+    expect(up10?.netCLP).toBeCloseTo(440_000);
+    expect(up10?.marginPercent).toBeCloseTo(50);
+    expect(analysis.breakEvenRate).toBeNull();
+  });
+
+  it('mueve la venta en euros solo con el euro y el costo solo con el dolar', () => {
+    const result = calculateQuote({
+      exchangeRate: 1000,
+      lines: [{ productId: 'p1', productName: 'Implante', costUSD: 100, quantity: 2, pricingMode: 'inherit' }],
+      pricingConfig: { mode: 'global_margin', targetMarginPercent: 50, currency: 'EUR', currencyRateCLP: 1100 },
+    });
+
+    const usd = buildQuoteFxSensitivity(result, 'USD', 1000, 40);
+    const usdUp10 = usd.scenarios.find((scenario) => scenario.shiftPercent === 10);
+    expect(usd.revenueFollowsRate).toBe(false);
+    expect(usdUp10?.netCLP).toBeCloseTo(400_000);
+    expect(usdUp10?.costCLP).toBeCloseTo(220_000);
+    expect(usd.breakEvenRate).toBeCloseTo(2000);
+
+    const eur = buildQuoteFxSensitivity(result, 'EUR', 1100, 40);
+    const eurDown10 = eur.scenarios.find((scenario) => scenario.shiftPercent === -10);
+    expect(eur.baseRate).toBe(1100);
+    expect(eur.revenueFollowsRate).toBe(true);
+    expect(eurDown10?.netCLP).toBeCloseTo(360_000);
+    expect(eurDown10?.costCLP).toBeCloseTo(200_000);
+    expect(eur.breakEvenRate).toBeCloseTo(550);
+    expect(eur.targetMarginRate).toBeCloseTo(1100 * (200_000 / (400_000 * 0.6)));
+  });
+});
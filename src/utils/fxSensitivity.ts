@@ -0,0 +1,92 @@
+import type { FxCurrency, FxSensitivityAnalysis, FxSensitivityScenario } from '../types/fx';
+import type { QuoteCalculationResult } from '../types/quotation';
+
+export const FX_SENSITIVITY_SHIFTS = [-10, -5, -3, -1, 0, 1, 3, 5, 10];
+
+export interface FxSensitivityInput {
+  baseRate: number;
+  netCLP: number;
+  // Part of `netCLP` billed in a foreign currency, so it also follows the rate.
+  exposedNetCLP?: number;
+  // Cost that follows the exchange rate, valued at `baseRate`.
+  exposedCostCLP: number;
+  // Cost already fixed in pesos (customs, local freight).
+  fixedCostCLP?: number;
+  targetMarginPercent: number;
+  shifts?: number[];
+}
+
+const toMarginPercent = (netCLP: number, profitCLP: number) => (netCLP > 0 ? (profitCLP / netCLP) * 100 : 0);
+
+// Every foreign amount moves by the same percentage as `baseRate`, so with f = rate / base the rate
+// for a given margin solves (fixedNet + exposedNet * f) * (1 - m) = fixedCost + exposedCost * f.
+const rateForMargin = (
+  { baseRate, netCLP, exposedNetCLP = 0, exposedCostCLP, fixedCostCLP = 0 }: FxSensitivityInput,
+  marginPercent: number,
+): number | null => {
+  if (baseRate <= 0 || (exposedCostCLP <= 0 && exposedNetCLP <= 0) || netCLP <= 0) return null;
+  const keep = 1 - marginPercent / 100;
+  const slope = exposedNetCLP * keep - exposedCostCLP;
+  // Revenue and cost move together: the margin does not depend on the rate.
+  if (Math.abs(slope) < 1e-9) return null;
+  const factor = (fixedCostCLP - (netCLP - exposedNetCLP) * keep) / slope;
+  return factor > 0 ? factor * baseRate : null;
+};
+
+export const buildFxSensitivity = (input: FxSensitivityInput): FxSensitivityAnalysis => {
+  const {
+    baseRate,
+    netCLP,
+    exposedNetCLP = 0,
+    exposedCostCLP,
+    fixedCostCLP = 0,
+    targetMarginPercent,
+    shifts = FX_SENSITIVITY_SHIFTS,
+  } = input;
+  const scenarios = shifts.map<FxSensitivityScenario>((shiftPercent) => {
+    const factor = 1 + shiftPercent / 100;
+    const scenarioNetCLP = netCLP - exposedNetCLP + exposedNetCLP * factor;
+    const costCLP = fixedCostCLP + exposedCostCLP * factor;
+    const profitCLP = scenarioNetCLP - costCLP;
+    return {
+      shiftPercent,
+      rate: baseRate * factor,
+      netCLP: scenarioNetCLP,
+      costCLP,
+      profitCLP,
+      marginPercent: toMarginPercent(scenarioNetCLP, profitCLP),
+    };
+  });
+
+  return {
+    baseRate,
+    revenueFollowsRate: exposedNetCLP > 0,
+    scenarios,
+    targetMarginPercent,
+    breakEvenRate: rateForMargin(input, 0),
+    targetMarginRate: rateForMargin(input, targetMarginPercent),
+  };
+};
+
+// Shocks one currency at a time. Only lines costed as `costUSD * exchangeRate` follow the USD rate; a
+// landed cost is already fixed in pesos. The net follows only the currency the quote is billed in.
+export const buildQuoteFxSensitivity = (
+  result: QuoteCalculationResult,
+  currency: Extract<FxCurrency, 'USD' | 'EUR'>,
+  rateCLP: number,
+  targetMarginPercent: number,
+): FxSensitivityAnalysis => {
+  const exposedCostCLP = currency === 'USD'
+    ? result.lines
+      .filter((line) => line.costSource === 'usd_rate')
+      .reduce((sum, line) => sum + line.costTotalCLP, 0)
+    : 0;
+  return buildFxSensitivity({
+    baseRate: rateCLP,
+    netCLP: result.totalNetCLP,
+    exposedNetCLP: result.currencyTotals.currency === currency ? result.totalNetCLP : 0,
+    exposedCostCLP,
+    fixedCostCLP: result.totalCostCLP - exposedCostCLP,
+    targetMarginPercent,
+  });
+};
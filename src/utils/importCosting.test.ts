@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { convertImportAmountToCLP } from './importCosting';
+import { allocateImportCost, convertImportAmountToCLP, type ImportAllocationLine } from './importCosting';
 
 describe('importCosting', () => {
   it('mantiene CLP sin conversion', () => {
@@ -15,3 +15,46 @@ describe('importCosting', () => {
     expect(convertImportAmountToCLP(4000, 'EUR', 950, 1050)).toBe(4200000);
   });
 });
+
+describe('allocateImportCost', () => {
+  const lines: ImportAllocationLine[] = [
+    { quantity: 1, baseTotalCLP: 900000, unitWeight: 80, allocationShare: 70 },
+    { quantity: 100, baseTotalCLP: 100000, unitWeight: 0.2, allocationShare: 30, dutyExempt: true },
+  ];
+
+  it('prorratea por valor, cantidad, peso o participacion manual', () => {
+    expect(allocateImportCost(lines, 100000, 'value').amounts).toEqual([90000, 10000]);
+    expect(allocateImportCost(lines, 101000, 'quantity').amounts).toEqual([1000, 100000]);
+    expect(allocateImportCost(lines, 100000, 'weight').amounts).toEqual([80000, 20000]);
+    expect(allocateImportCost(lines, 100000, 'manual').amounts).toEqual([70000, 30000]);
+  });
+
+  it('excluye lineas exentas de derechos del prorrateo de aduana', () => {
+    const allocation = allocateImportCost(lines, 50000, 'value', { excludeDutyExempt: true });
+
+    expect(allocation.amounts).toEqual([50000, 0]);
+    expect(allocateImportCost([lines[1]], 50000, 'value', { excludeDutyExempt: true }).amounts).toEqual([0]);
+  });
+
+  it('informa las lineas sin peso o participacion cuando otras si lo tienen', () => {
+    const partialWeights = [lines[0], { ...lines[1], unitWeight: undefined }];
+
+    const allocation = allocateImportCost(partialWeights, 100000, 'weight');
+
+    expect(allocation.appliedMethod).toBe('weight');
+    expect(allocation.amounts).toEqual([100000, 0]);
+    expect(allocation.missingBasisIndexes).toEqual([1]);
+    expect(allocateImportCost(lines, 100000, 'weight').missingBasisIndexes).toEqual([]);
+    expect(allocateImportCost(partialWeights, 100000, 'value').missingBasisIndexes).toEqual([]);
+  });
+
+  it('vuelve a prorratear por valor si ninguna linea tiene peso cargado', () => {
+    const withoutWeights = lines.map((line) => ({ ...line, unitWeight: undefined }));
+
+    const allocation = allocateImportCost(withoutWeights, 100000, 'weight');
+
+    expect(allocation.appliedMethod).toBe('value');
+    expect(allocation.amounts).toEqual([90000, 10000]);
+    expect(allocation.missingBasisIndexes).toEqual([]);
+  });
+});
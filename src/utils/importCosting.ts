@@ -14,3 +14,77 @@ export const convertImportAmountToCLP = (
   if (currency === 'EUR') return normalizedAmount * normalizedEurRate;
   return normalizedAmount;
 };
+
+export type ImportAllocationMethod = 'value' | 'quantity' | 'weight' | 'manual';
+
+export const IMPORT_ALLOCATION_METHODS: ImportAllocationMethod[] = ['value', 'quantity', 'weight', 'manual'];
+
+export const IMPORT_ALLOCATION_METHOD_LABELS: Record<ImportAllocationMethod, string> = {
+  value: 'Por valor CLP',
+  quantity: 'Por cantidad',
+  weight: 'Por peso/volumen',
+  manual: 'Manual por linea',
+};
+
+export const isImportAllocationMethod = (value: unknown): value is ImportAllocationMethod => (
+  IMPORT_ALLOCATION_METHODS.includes(value as ImportAllocationMethod)
+);
+
+export interface ImportAllocationLine {
+  quantity: number;
+  baseTotalCLP: number;
+  // Weight or volume of one unit, in whatever unit the forwarder bills by.
+  unitWeight?: number;
+  // Relative share for manual allocation; shares are normalized, so they need not add up to 100.
+  allocationShare?: number;
+  dutyExempt?: boolean;
+}
+
+export interface ImportCostAllocation {
+  amounts: number[];
+  bases: number[];
+  // Weight and manual fall back to value when no eligible line carries a basis.
+  appliedMethod: ImportAllocationMethod;
+  // Eligible lines left without a weight or manual share while others have one; they receive nothing.
+  missingBasisIndexes: number[];
+}
+
+const toPositive = (value: number | undefined) => (Number.isFinite(value) && (value as number) > 0 ? (value as number) : 0);
+
+const resolveAllocationBasis = (line: ImportAllocationLine, method: ImportAllocationMethod): number => {
+  if (method === 'quantity') return toPositive(line.quantity);
+  if (method === 'weight') return toPositive(line.unitWeight) * toPositive(line.quantity);
+  if (method === 'manual') return toPositive(line.allocationShare);
+  return toPositive(line.baseTotalCLP);
+};
+
+export const allocateImportCost = (
+  lines: ImportAllocationLine[],
+  totalCLP: number,
+  method: ImportAllocationMethod,
+  options: { excludeDutyExempt?: boolean } = {},
+): ImportCostAllocation => {
+  const isEligible = (line: ImportAllocationLine) => !(options.excludeDutyExempt && line.dutyExempt);
+  const basesFor = (candidate: ImportAllocationMethod) => lines.map((line) => (
+    isEligible(line) ? resolveAllocationBasis(line, candidate) : 0
+  ));
+
+  let appliedMethod = method;
+  let bases = basesFor(method);
+  if (method !== 'value' && bases.every((basis) => basis === 0)) {
+    appliedMethod = 'value';
+    bases = basesFor('value');
+  }
+
+  const totalBasis = bases.reduce((sum, basis) => sum + basis, 0);
+  const amount = Number.isFinite(totalCLP) ? totalCLP : 0;
+  const missingBasisIndexes = appliedMethod === 'weight' || appliedMethod === 'manual'
+    ? lines.flatMap((line, index) => (isEligible(line) && toPositive(line.quantity) > 0 && bases[index] === 0 ? [index] : []))
+    : [];
+  return {
+    amounts: bases.map((basis) => (totalBasis > 0 ? (amount * basis) / totalBasis : 0)),
+    bases,
+    appliedMethod,
+    missingBasisIndexes,
+  };
+};
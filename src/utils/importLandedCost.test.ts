@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IMPORT_COST_MODEL } from '../data/importTradeAgreements';
+import type { ImportCostModelSettings } from '../types/imports';
+import { buildImportLandedCost, type ImportLandedCostInput } from './importLandedCost';
+
+const settings: ImportCostModelSettings = {
+  insurance: { amount: 20, currency: 'USD' },
+  adValoremPercent: 6,
+  tradeAgreementId: 'none',
+  agentFees: { amount: 50000, currency: 'CLP' },
+  portCharges: { amount: 30000, currency: 'CLP' },
+  localTransport: { amount: 20000, currency: 'CLP' },
+};
+
+const createInput = (overrides: Partial<ImportLandedCostInput> = {}): ImportLandedCostInput => ({
+  lines: [
+    { quantity: 1, baseTotalCLP: 900000 },
+    { quantity: 100, baseTotalCLP: 100000, dutyExempt: true },
+  ],
+  usdRate: 1000,
+  eurRate: 1100,
+  freight: { amount: 100, currency: 'USD' },
+  otherCustomsCLP: 0,
+  settings,
+  shippingMethod: 'value',
+  customsMethod: 'value',
+  ...overrides,
+});
+
+describe('buildImportLandedCost', () => {
+  it('arma CIF, ad valorem y gastos locales por linea sin sumar el IVA al costo', () => {
+    const result = buildImportLandedCost(createInput());
+    const [fixture, exempt] = result.lines;
+
+    expect(fixture.cifCLP).toBeCloseTo(1008000);
+    expect(fixture.dutyCLP).toBeCloseTo(60480);
+    expect(fixture.agentFeesCLP + fixture.portChargesCLP + fixture.localTransportCLP).toBeCloseTo(90000);
+    expect(fixture.landedTotalCLP).toBeCloseTo(1158480);
+    expect(fixture.importVatCreditCLP).toBeCloseTo(203011.2);
+
+    expect(exempt.dutyPercent).toBe(0);
+    expect(exempt.landedTotalCLP).toBeCloseTo(122000);
+    expect(exempt.importVatCreditCLP).toBeCloseTo(21280);
+
+    expect(result.totals.landedTotalCLP).toBeCloseTo(1280480);
+    expect(result.totals.dutyPercent).toBeCloseTo(5.4);
+  });
+
+  it('aplica la tasa del acuerdo comercial en lugar del arancel general', () => {
+    const result = buildImportLandedCost(createInput({ settings: { ...settings, tradeAgreementId: 'korea_fta' } }));
+
+    expect(result.dutyPercent).toBe(0);
+    expect(result.totals.dutyCLP).toBe(0);
+    expect(result.totals.importVatCreditCLP).toBeCloseTo(1120000 * 0.19);
+    expect(DEFAULT_IMPORT_COST_MODEL.tradeAgreementId).toBe('korea_fta');
+  });
+
+  it('separa la parte del costo expuesta al tipo de cambio', () => {
+    const result = buildImportLandedCost(createInput());
+    const withLocalFreight = buildImportLandedCost(createInput({ freight: { amount: 100000, currency: 'CLP' } }));
+
+    expect(result.fxExposedCLP).toBeCloseTo(1180480);
+    expect(withLocalFreight.fxExposedCLP).toBeCloseTo((1120000 - 100000) * 1.054);
+  });
+});
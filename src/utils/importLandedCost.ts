@@ -0,0 +1,162 @@
+import { IMPORT_TRADE_AGREEMENTS, IMPORT_VAT_PERCENT, LEGACY_IMPORT_COST_MODEL } from '../data/importTradeAgreements';
+import type { SaveImportSnapshotPayload } from '../lib/appDataRepository';
+import type {
+  ImportCostCharge,
+  ImportCostModelSettings,
+  ImportLandedCostLine,
+  ImportLandedCostTotals,
+  ImportTradeAgreement,
+} from '../types/imports';
+import {
+  allocateImportCost,
+  convertImportAmountToCLP,
+  type ImportAllocationLine,
+  type ImportAllocationMethod,
+  type ImportCostAllocation,
+} from './importCosting';
+
+export interface ImportLandedCostInput {
+  // baseTotalCLP on each line is its FOB value in CLP.
+  lines: ImportAllocationLine[];
+  usdRate: number;
+  eurRate: number;
+  freight: ImportCostCharge;
+  // Customs lump sum kept from the previous model; prorated like duty, skipping exempt lines.
+  otherCustomsCLP: number;
+  settings: ImportCostModelSettings;
+  shippingMethod: ImportAllocationMethod;
+  customsMethod: ImportAllocationMethod;
+  agreements?: ImportTradeAgreement[];
+  importVatPercent?: number;
+}
+
+export type ImportSnapshotCostInput = Omit<SaveImportSnapshotPayload, 'name' | 'fxRateDate' | 'usdRateDate'>;
+
+export interface ImportLandedCostResult {
+  lines: ImportLandedCostLine[];
+  totals: ImportLandedCostTotals;
+  // Rate charged on non-exempt lines after applying the trade agreement.
+  dutyPercent: number;
+  shippingAllocation: ImportCostAllocation;
+  customsAllocation: ImportCostAllocation;
+  localChargesAllocation: ImportCostAllocation;
+  // Part of the landed cost that moves with the exchange rate: foreign-currency charges and the duty on them.
+  fxExposedCLP: number;
+}
+
+export const convertImportCharge = (charge: ImportCostCharge, usdRate: number, eurRate: number): number => (
+  convertImportAmountToCLP(charge.amount, charge.currency, usdRate, eurRate)
+);
+
+export const resolveImportDutyPercent = (
+  settings: ImportCostModelSettings,
+  agreements: ImportTradeAgreement[] = IMPORT_TRADE_AGREEMENTS,
+): number => {
+  const agreement = agreements.find((entry) => entry.id === settings.tradeAgreementId);
+  const percent = agreement?.dutyPercent ?? settings.adValoremPercent;
+  return Number.isFinite(percent) ? Math.max(0, percent) : 0;
+};
+
+const sumLines = (lines: ImportLandedCostLine[]): ImportLandedCostTotals => {
+  const sum = (pick: (line: ImportLandedCostLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  const cifCLP = sum((line) => line.cifCLP);
+  const dutyCLP = sum((line) => line.dutyCLP);
+  return {
+    fobCLP: sum((line) => line.fobCLP),
+    freightCLP: sum((line) => line.freightCLP),
+    insuranceCLP: sum((line) => line.insuranceCLP),
+    cifCLP,
+    // A summed percentage is meaningless; report the effective rate over the whole CIF instead.
+    dutyPercent: cifCLP > 0 ? (dutyCLP / cifCLP) * 100 : 0,
+    dutyCLP,
+    otherCustomsCLP: sum((line) => line.otherCustomsCLP),
+    agentFeesCLP: sum((line) => line.agentFeesCLP),
+    portChargesCLP: sum((line) => line.portChargesCLP),
+    localTransportCLP: sum((line) => line.localTransportCLP),
+    landedTotalCLP: sum((line) => line.landedTotalCLP),
+    importVatCreditCLP: sum((line) => line.importVatCreditCLP),
+  };
+};
+
+// CIF = FOB + freight + insurance; ad-valorem duty is charged on CIF and IVA on CIF + duty.
+// Freight and insurance follow the shipping method; customs and local charges follow the customs method.
+export const buildImportLandedCost = (input: ImportLandedCostInput): ImportLandedCostResult => {
+  const { lines, usdRate, eurRate, settings } = input;
+  const dutyPercent = resolveImportDutyPercent(settings, input.agreements);
+  const vatRate = (input.importVatPercent ?? IMPORT_VAT_PERCENT) / 100;
+  const toCLP = (charge: ImportCostCharge) => convertImportCharge(charge, usdRate, eurRate);
+
+  const freightCLP = toCLP(input.freight);
+  const insuranceCLP = toCLP(settings.insurance);
+  const agentFeesCLP = toCLP(settings.agentFees);
+  const portChargesCLP = toCLP(settings.portCharges);
+  const localTransportCLP = toCLP(settings.localTransport);
+
+  const goodsShares = allocateImportCost(lines, 1, input.shippingMethod);
+  const localShares = allocateImportCost(lines, 1, input.customsMethod);
+  const customsShares = allocateImportCost(lines, 1, input.customsMethod, { excludeDutyExempt: true });
+
+  const landedLines = lines.map((line, index): ImportLandedCostLine => {
+    const goodsShare = goodsShares.amounts[index] ?? 0;
+    const localShare = localShares.amounts[index] ?? 0;
+    const fobCLP = line.baseTotalCLP;
+    const lineFreightCLP = freightCLP * goodsShare;
+    const lineInsuranceCLP = insuranceCLP * goodsShare;
+    const cifCLP = fobCLP + lineFreightCLP + lineInsuranceCLP;
+    const lineDutyPercent = line.dutyExempt ? 0 : dutyPercent;
+    const dutyCLP = cifCLP * (lineDutyPercent / 100);
+    const otherCustomsCLP = (Number.isFinite(input.otherCustomsCLP) ? input.otherCustomsCLP : 0) * (customsShares.amounts[index] ?? 0);
+    const lineAgentFeesCLP = agentFeesCLP * localShare;
+    const linePortChargesCLP = portChargesCLP * localShare;
+    const lineLocalTransportCLP = localTransportCLP * localShare;
+
+    return {
+      fobCLP,
+      freightCLP: lineFreightCLP,
+      insuranceCLP: lineInsuranceCLP,
+      cifCLP,
+      dutyPercent: lineDutyPercent,
+      dutyCLP,
+      otherCustomsCLP,
+      agentFeesCLP: lineAgentFeesCLP,
+      portChargesCLP: linePortChargesCLP,
+      localTransportCLP: lineLocalTransportCLP,
+      landedTotalCLP: cifCLP + dutyCLP + otherCustomsCLP + lineAgentFeesCLP + linePortChargesCLP + lineLocalTransportCLP,
+      importVatCreditCLP: (cifCLP + dutyCLP) * vatRate,
+    };
+  });
+
+  const totals = sumLines(landedLines);
+  const isForeign = (charge: ImportCostCharge) => charge.currency !== 'CLP';
+  const exposedCifCLP = totals.fobCLP
+    + (isForeign(input.freight) ? totals.freightCLP : 0)
+    + (isForeign(settings.insurance) ? totals.insuranceCLP : 0);
+  const exposedLocalCLP = (isForeign(settings.agentFees) ? totals.agentFeesCLP : 0)
+    + (isForeign(settings.portCharges) ? totals.portChargesCLP : 0)
+    + (isForeign(settings.localTransport) ? totals.localTransportCLP : 0);
+
+  return {
+    lines: landedLines,
+    totals,
+    dutyPercent,
+    shippingAllocation: goodsShares,
+    customsAllocation: customsShares,
+    localChargesAllocation: localShares,
+    fxExposedCLP: exposedCifCLP * (1 + totals.dutyPercent / 100) + exposedLocalCLP,
+  };
+};
+
+// Recomputes a saved snapshot with the settings it was saved with; snapshots without a cost model use the legacy one.
+export const buildImportSnapshotLandedCost = (snapshot: ImportSnapshotCostInput): ImportLandedCostResult => {
+  const fxRate = snapshot.currency === 'USD' ? snapshot.importUsdRate : snapshot.euroRate;
+  return buildImportLandedCost({
+    lines: snapshot.items.map((item) => ({ ...item, baseTotalCLP: item.quantity * item.unitCost * fxRate })),
+    usdRate: snapshot.importUsdRate,
+    eurRate: snapshot.euroRate,
+    freight: { amount: snapshot.shippingCost, currency: snapshot.shippingCurrency },
+    otherCustomsCLP: snapshot.customsCostCLP,
+    settings: snapshot.costModel ?? LEGACY_IMPORT_COST_MODEL,
+    shippingMethod: snapshot.shippingAllocationMethod,
+    customsMethod: snapshot.customsAllocationMethod,
+  });
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyProductMovementRow } from '../types/dailyProductMovements';
+import type { ImportReconciliationInvoice, PurchaseOrderRecord } from '../types/imports';
+import {
+  buildImportReconciliation,
+  collectReceivedQuantities,
+  listReceptionDocuments,
+  parsePurchaseOrderSheetRows,
+} from './importReconciliation';
+
+const movement = (overrides: Partial<DailyProductMovementRow>): DailyProductMovementRow => ({
+  sourceIndex: 0,
+  sku: 'AR4510C',
+  description: '',
+  date: '',
+  dateISO: '2026-10-10',
+  document: 'Factura de Compra Importacion',
+  documentNumber: '1',
+  warehouse: 'Bodega',
+  entryQty: 0,
+  exitQty: 0,
+  balanceQty: 0,
+  unitValueCLP: 0,
+  entryAmountCLP: 0,
+  exitAmountCLP: 0,
+  balanceAmountCLP: 0,
+  unitCostCLP: 0,
+  direction: 'entry',
+  classification: 'other',
+  effectiveQty: 0,
+  effectiveAmountCLP: 0,
+  ...overrides,
+});
+
+const order: PurchaseOrderRecord = {
+  id: 'po-1',
+  supplierName: 'MEGAGEN KOREA',
+  createdAt: '2026-09-01T12:00:00.000Z',
+  lines: [
+    { sku: 'AR4510C', name: 'AnyRidge Fixture 4.5x10', quantity: 20, unitCostUSD: 45 },
+    { sku: 'SAAF4010', name: 'Ti-Base', quantity: 10, unitCostUSD: 15 },
+    { sku: 'HSC-01', name: 'Healing Cap', quantity: 5, unitCostUSD: 8 },
+  ],
+};
+
+const invoice: ImportReconciliationInvoice = {
+  id: 'current',
+  label: 'Calculadora actual',
+  fxRateCLP: 1000,
+  usdRateCLP: 1000,
+  items: [
+    { sku: 'ar4510c', name: 'AnyRidge Fixture 4.5x10', quantity: 20, unitCost: 45 },
+    { sku: 'SAAF4010', name: 'Ti-Base', quantity: 8, unitCost: 15 },
+    { sku: 'HSC-01', name: 'Healing Cap', quantity: 5, unitCost: 9 },
+    { sku: 'ZZ-EXTRA', name: 'Regalo', quantity: 2, unitCost: 1 },
+  ],
+};
+
+describe('collectReceivedQuantities', () => {
+  it('suma solo recepciones de compra y respeta documentos y fecha', () => {
+    const rows = [
+      movement({ entryQty: 12 }),
+      movement({ entryQty: 8 }),
+      movement({ entryQty: 3, classification: 'credit_note_entry', document: 'Parte de Entrada NC' }),
+      movement({ entryQty: 4, classification: 'dispatch_transfer', document: 'Guia de Despacho' }),
+      movement({ entryQty: 6, dateISO: '2026-08-01' }),
+      movement({ sku: 'SAAF4010', entryQty: 8, document: 'Parte de Entrada' }),
+      movement({ sku: 'SAAF4010', entryQty: 5, document: 'Ajuste de Inventario' }),
+    ];
+
+    const all = collectReceivedQuantities(rows, '2026-09-01');
+    expect(all.get('AR4510C')).toBe(20);
+    expect(all.get('SAAF4010')).toBe(8);
+
+    const onlyInvoices = collectReceivedQuantities(rows, '', ['Factura de Compra Importacion']);
+    expect(onlyInvoices.get('AR4510C')).toBe(26);
+    expect(onlyInvoices.has('SAAF4010')).toBe(false);
+  });
+
+  it('lista solo los documentos de recepcion posteriores al pedido', () => {
+    const rows = [
+      movement({ entryQty: 12 }),
+      movement({ entryQty: 6, document: 'Parte de Entrada', dateISO: '2026-08-01' }),
+      movement({ entryQty: 5, document: 'Ajuste de Inventario' }),
+    ];
+
+    expect(listReceptionDocuments(rows, '2026-09-01')).toEqual(['Factura de Compra Importacion']);
+    expect(listReceptionDocuments(rows, '')).toEqual(['Factura de Compra Importacion', 'Parte de Entrada']);
+  });
+});
+
+describe('buildImportReconciliation', () => {
+  it('cruza pedido, factura y recepcion por SKU con diferencias de cantidad y precio', () => {
+    const received = new Map([['AR4510C', 20], ['SAAF4010', 8], ['HSC-01', 5]]);
+    const report = buildImportReconciliation(order, invoice, received);
+    const bySku = new Map(report.rows.map((row) => [row.sku, row]));
+
+    expect(bySku.get('AR4510C')).toMatchObject({ orderedQty: 20, invoicedQty: 20, receivedQty: 20, priceVarianceUnitCLP: 0, status: 'ok' });
+    expect(bySku.get('SAAF4010')).toMatchObject({ invoiceQtyVariance: -2, receptionQtyVariance: 0, status: 'quantity_variance' });
+    expect(bySku.get('HSC-01')).toMatchObject({ orderedUnitCLP: 8000, invoicedUnitCLP: 9000, priceVarianceUnitCLP: 1000, status: 'price_variance' });
+    expect(bySku.get('HSC-01')?.priceVariancePercent).toBeCloseTo(12.5);
+    expect(bySku.get('ZZ-EXTRA')).toMatchObject({ orderedQty: 0, orderedUnitCLP: null, status: 'not_ordered' });
+
+    expect(report.priceVarianceAmountCLP).toBe(5000);
+    expect(report.totalOrderedQty).toBe(35);
+    expect(report.totalInvoicedQty).toBe(35);
+    expect(report.statusCounts).toMatchObject({ ok: 1, quantity_variance: 1, price_variance: 1, not_ordered: 1 });
+  });
+
+  it('sin pedido compara solo factura contra recepcion', () => {
+    const report = buildImportReconciliation(null, invoice, new Map([['AR4510C', 18]]));
+    const bySku = new Map(report.rows.map((row) => [row.sku, row]));
+
+    expect(bySku.get('ar4510c')).toMatchObject({ receptionQtyVariance: -2, priceVarianceUnitCLP: null, status: 'quantity_variance' });
+    expect(bySku.get('SAAF4010')?.status).toBe('not_received');
+  });
+
+  it('lee la orden de compra exportada desde inventario', () => {
+    expect(parsePurchaseOrderSheetRows([
+      { SKU: 'AR4510C', Nombre: 'AnyRidge', 'Cantidad Sugerida': 20, 'Costo Unit. USD': 45 },
+      { SKU: 'SAAF4010', Nombre: 'Ti-Base', 'Cantidad Sugerida': '10', 'Costo Unit. USD': '' },
+      { SKU: '', Nombre: 'Sin codigo', 'Cantidad Sugerida': 3 },
+    ])).toEqual([
+      { sku: 'AR4510C', name: 'AnyRidge', quantity: 20, unitCostUSD: 45 },
+      { sku: 'SAAF4010', name: 'Ti-Base', quantity: 10, unitCostUSD: null },
+    ]);
+  });
+});
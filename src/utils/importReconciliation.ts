@@ -0,0 +1,214 @@
+import type { DailyProductMovementRow } from '../types/dailyProductMovements';
+import type {
+  ImportReconciliationInvoice,
+  ImportReconciliationReport,
+  ImportReconciliationRow,
+  ImportReconciliationStatus,
+  PurchaseOrderLine,
+  PurchaseOrderRecord,
+} from '../types/imports';
+
+export const PURCHASE_ORDER_HISTORY_STORAGE_KEY = 'megagen.inventory.purchaseOrders';
+export const PURCHASE_ORDER_HISTORY_LIMIT = 20;
+export const DEFAULT_RECONCILIATION_PRICE_TOLERANCE_PERCENT = 2;
+
+export const IMPORT_RECONCILIATION_STATUS_LABELS: Record<ImportReconciliationStatus, string> = {
+  ok: 'Cuadra',
+  not_invoiced: 'Pedido sin facturar',
+  not_ordered: 'Facturado sin pedido',
+  not_received: 'Sin recepcion',
+  quantity_variance: 'Diferencia de cantidad',
+  price_variance: 'Diferencia de precio',
+};
+
+const QUANTITY_EPSILON = 1e-6;
+
+const toSkuKey = (value: string) => value.trim().toUpperCase();
+
+const normalizeHeader = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]/g, '');
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const parseStoredPurchaseOrders = (raw: string | null): PurchaseOrderRecord[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((order) => Array.isArray((order as PurchaseOrderRecord)?.lines)) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first; older orders beyond the limit are dropped.
+export const appendPurchaseOrder = (history: PurchaseOrderRecord[], order: PurchaseOrderRecord): PurchaseOrderRecord[] => (
+  [order, ...history.filter((entry) => entry.id !== order.id)].slice(0, PURCHASE_ORDER_HISTORY_LIMIT)
+);
+
+// Reads the sheet written by the inventory module's PO export, so an order exported on another computer can be used.
+export const parsePurchaseOrderSheetRows = (rows: Array<Record<string, unknown>>): PurchaseOrderLine[] => {
+  const lines: PurchaseOrderLine[] = [];
+  for (const row of rows) {
+    const values = new Map(Object.entries(row).map(([key, value]) => [normalizeHeader(key), value]));
+    const sku = String(values.get('sku') ?? values.get('codigo') ?? '').trim();
+    const quantity = toNumber(values.get('cantidadsugerida') ?? values.get('cantidad'));
+    if (!sku || quantity <= 0) continue;
+    const unitCostUSD = toNumber(values.get('costounitusd'));
+    lines.push({
+      sku,
+      name: String(values.get('nombre') ?? '').trim(),
+      quantity,
+      unitCostUSD: unitCostUSD > 0 ? unitCostUSD : null,
+    });
+  }
+  return lines;
+};
+
+// Document types that book a purchase into stock. Other entries (adjustments, returns) are not receptions;
+// credit notes and dispatch guides get their own classification and are left out as well.
+const PURCHASE_RECEPTION_DOCUMENTS = ['factura de compra', 'parte de entrada'].map(normalizeHeader);
+
+const isReceptionRow = (row: DailyProductMovementRow) => {
+  if (row.direction !== 'entry' || row.classification !== 'other' || row.entryQty <= 0) return false;
+  const document = normalizeHeader(row.document);
+  return PURCHASE_RECEPTION_DOCUMENTS.some((type) => document.includes(type));
+};
+
+// dateFrom (YYYY-MM-DD) is the order date, so receptions of earlier shipments are skipped; an empty string means every date.
+const isReceptionFrom = (row: DailyProductMovementRow, dateFrom: string) => (
+  isReceptionRow(row) && (!dateFrom || !row.dateISO || row.dateISO >= dateFrom)
+);
+
+export const listReceptionDocuments = (rows: DailyProductMovementRow[], dateFrom: string): string[] => (
+  Array.from(new Set(rows.filter((row) => isReceptionFrom(row, dateFrom)).map((row) => row.document)))
+    .sort((a, b) => a.localeCompare(b, 'es'))
+);
+
+// An empty document list counts every reception document dated from dateFrom.
+export const collectReceivedQuantities = (
+  rows: DailyProductMovementRow[],
+  dateFrom: string,
+  documents: string[] = [],
+): Map<string, number> => {
+  const received = new Map<string, number>();
+  for (const row of rows) {
+    if (!isReceptionFrom(row, dateFrom)) continue;
+    if (documents.length > 0 && !documents.includes(row.document)) continue;
+    const key = toSkuKey(row.sku);
+    received.set(key, (received.get(key) ?? 0) + row.entryQty);
+  }
+  return received;
+};
+
+const resolveStatus = (
+  row: Omit<ImportReconciliationRow, 'status'>,
+  hasOrder: boolean,
+  priceTolerancePercent: number,
+): ImportReconciliationStatus => {
+  if (hasOrder && row.invoicedQty <= 0) return 'not_invoiced';
+  if (hasOrder && row.orderedQty <= 0) return 'not_ordered';
+  if (row.receivedQty <= 0) return 'not_received';
+  if (hasOrder && Math.abs(row.invoiceQtyVariance) > QUANTITY_EPSILON) return 'quantity_variance';
+  if (Math.abs(row.receptionQtyVariance) > QUANTITY_EPSILON) return 'quantity_variance';
+  if (row.priceVariancePercent !== null && Math.abs(row.priceVariancePercent) > priceTolerancePercent) return 'price_variance';
+  return 'ok';
+};
+
+// Three-way match per SKU of ordered vs invoiced vs received. Without an order only invoice and reception are compared.
+// Received SKUs that are neither ordered nor invoiced belong to other shipments and are left out.
+export const buildImportReconciliation = (
+  order: PurchaseOrderRecord | null,
+  invoice: ImportReconciliationInvoice,
+  receivedBySku: Map<string, number>,
+  priceTolerancePercent = DEFAULT_RECONCILIATION_PRICE_TOLERANCE_PERCENT,
+): ImportReconciliationReport => {
+  const lines = new Map<string, {
+    sku: string;
+    name: string;
+    orderedQty: number;
+    orderedCostUSD: number;
+    orderedPricedQty: number;
+    invoicedQty: number;
+    invoicedCost: number;
+  }>();
+
+  const lineFor = (sku: string, name: string) => {
+    const key = toSkuKey(sku);
+    const existing = lines.get(key);
+    if (existing) {
+      if (!existing.name && name) existing.name = name;
+      return existing;
+    }
+    const created = { sku: sku.trim(), name, orderedQty: 0, orderedCostUSD: 0, orderedPricedQty: 0, invoicedQty: 0, invoicedCost: 0 };
+    lines.set(key, created);
+    return created;
+  };
+
+  for (const orderLine of order?.lines ?? []) {
+    if (!orderLine.sku.trim() || orderLine.quantity <= 0) continue;
+    const line = lineFor(orderLine.sku, orderLine.name);
+    line.orderedQty += orderLine.quantity;
+    if (orderLine.unitCostUSD !== null && orderLine.unitCostUSD > 0) {
+      line.orderedCostUSD += orderLine.unitCostUSD * orderLine.quantity;
+      line.orderedPricedQty += orderLine.quantity;
+    }
+  }
+
+  for (const item of invoice.items) {
+    if (!item.sku.trim() || item.quantity <= 0) continue;
+    const line = lineFor(item.sku, item.name);
+    line.invoicedQty += item.quantity;
+    line.invoicedCost += item.unitCost * item.quantity;
+  }
+
+  const rows: ImportReconciliationRow[] = [];
+  let priceVarianceAmountCLP = 0;
+  for (const [key, line] of lines) {
+    const receivedQty = receivedBySku.get(key) ?? 0;
+    const orderedUnitCLP = line.orderedPricedQty > 0 ? (line.orderedCostUSD / line.orderedPricedQty) * invoice.usdRateCLP : null;
+    const invoicedUnitCLP = line.invoicedQty > 0 ? (line.invoicedCost / line.invoicedQty) * invoice.fxRateCLP : null;
+    const priceVarianceUnitCLP = orderedUnitCLP !== null && invoicedUnitCLP !== null ? invoicedUnitCLP - orderedUnitCLP : null;
+    const priceVariancePercent = priceVarianceUnitCLP !== null && orderedUnitCLP ? (priceVarianceUnitCLP / orderedUnitCLP) * 100 : null;
+    if (priceVarianceUnitCLP !== null) priceVarianceAmountCLP += priceVarianceUnitCLP * line.invoicedQty;
+
+    const base = {
+      sku: line.sku,
+      name: line.name,
+      orderedQty: line.orderedQty,
+      invoicedQty: line.invoicedQty,
+      receivedQty,
+      invoiceQtyVariance: line.invoicedQty - line.orderedQty,
+      receptionQtyVariance: receivedQty - line.invoicedQty,
+      orderedUnitCLP,
+      invoicedUnitCLP,
+      priceVarianceUnitCLP,
+      priceVariancePercent,
+    };
+    rows.push({ ...base, status: resolveStatus(base, Boolean(order), priceTolerancePercent) });
+  }
+
+  const statusCounts: Record<ImportReconciliationStatus, number> = {
+    ok: 0,
+    not_invoiced: 0,
+    not_ordered: 0,
+    not_received: 0,
+    quantity_variance: 0,
+    price_variance: 0,
+  };
+  rows.forEach((row) => { statusCounts[row.status] += 1; });
+
+  return {
+    rows,
+    totalOrderedQty: rows.reduce((sum, row) => sum + row.orderedQty, 0),
+    totalInvoicedQty: rows.reduce((sum, row) => sum + row.invoicedQty, 0),
+    totalReceivedQty: rows.reduce((sum, row) => sum + row.receivedQty, 0),
+    priceVarianceAmountCLP,
+    statusCounts,
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IMPORT_COST_MODEL } from '../data/importTradeAgreements';
+import { buildImportWorkbook, type ImportWorkbookInput } from './importWorkbook';
+
+const createInput = (overrides: Partial<ImportWorkbookInput> = {}): ImportWorkbookInput => ({
+  sourceFile: 'factura.pdf',
+  currency: 'USD',
+  importUsdRate: 1000,
+  euroRate: 1100,
+  shippingCost: 100,
+  shippingCurrency: 'USD',
+  customsCostCLP: 0,
+  shippingAllocationMethod: 'value',
+  customsAllocationMethod: 'value',
+  costModel: { ...DEFAULT_IMPORT_COST_MODEL, tradeAgreementId: 'none', adValoremPercent: 6 },
+  targetGrossMarginPercent: 40,
+  items: [
+    { sku: 'A-1', name: 'Implante', quantity: 2, unitCost: 450 },
+    { sku: 'B-2', name: 'Fresa', quantity: 10, unitCost: 10, dutyExempt: true },
+  ],
+  ...overrides,
+});
+
+describe('buildImportWorkbook', () => {
+  it('deja cada componente del costo puesto en Chile como columna con formulas', () => {
+    const sheet = buildImportWorkbook(createInput()).Sheets.Importaciones;
+
+    expect(sheet.K17.f).toBe('=H17+I17+J17');
+    expect(sheet.L17.v).toBe(6);
+    expect(sheet.L18.v).toBe(0);
+    expect(sheet.M17.f).toBe('=K17*L17/100');
+    expect(sheet.P17.f).toBe('=K17+M17+N17+O17');
+    expect(sheet.T17.f).toBe('=(K17+M17)*$B$12/100');
+    expect(sheet.P19.f).toBe('=SUM(P17:P18)');
+  });
+
+  it('usa el modelo anterior sin ad valorem para snapshots sin modelo de costos', () => {
+    const sheet = buildImportWorkbook(createInput({ costModel: null })).Sheets.Importaciones;
+
+    expect(sheet.L17.v).toBe(0);
+    expect(sheet.B8.v).toBe(0);
+    expect(sheet.B10.v).toBe(0);
+  });
+});
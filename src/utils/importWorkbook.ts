@@ -0,0 +1,98 @@
+import * as XLSX from 'xlsx';
+import { IMPORT_TRADE_AGREEMENTS, IMPORT_VAT_PERCENT, LEGACY_IMPORT_COST_MODEL } from '../data/importTradeAgreements';
+import { convertImportAmountToCLP, IMPORT_ALLOCATION_METHOD_LABELS, type ImportCostAllocation } from './importCosting';
+import { buildImportSnapshotLandedCost, convertImportCharge, type ImportSnapshotCostInput } from './importLandedCost';
+
+export type ImportWorkbookInput = ImportSnapshotCostInput;
+
+const HEADER_ROW = 16;
+
+// Allocation bases for one column; value-based rows stay live formulas on the FOB column.
+const allocationBaseCell = (allocation: ImportCostAllocation, index: number, row: number): XLSX.CellObject => (
+  allocation.appliedMethod === 'value' && allocation.bases[index] > 0
+    ? { t: 'n', f: `=H${row}` }
+    : { t: 'n', v: allocation.bases[index] ?? 0 }
+);
+
+// One row per product with every landed-cost component as its own column, so the unit cost can be audited
+// in the spreadsheet. Prorations and duty stay as formulas over the summary cells at the top.
+export const buildImportWorkbook = (input: ImportWorkbookInput): XLSX.WorkBook => {
+  const items = input.items;
+  const costModel = input.costModel ?? LEGACY_IMPORT_COST_MODEL;
+  const landedCost = buildImportSnapshotLandedCost(input);
+  const toCLP = (amount: number, currency: 'CLP' | 'USD' | 'EUR') => (
+    convertImportAmountToCLP(amount, currency, input.importUsdRate, input.euroRate)
+  );
+  const localChargesCLP = [costModel.agentFees, costModel.portCharges, costModel.localTransport]
+    .reduce((sum, charge) => sum + convertImportCharge(charge, input.importUsdRate, input.euroRate), 0);
+  const agreement = IMPORT_TRADE_AGREEMENTS.find((entry) => entry.id === costModel.tradeAgreementId);
+
+  const dataStartRow = HEADER_ROW + 1;
+  const dataEndRow = dataStartRow + items.length - 1;
+  const totalRow = dataEndRow + 1;
+  const range = (column: string) => `$${column}$${dataStartRow}:$${column}$${dataEndRow}`;
+
+  const summaryRows: Array<Array<string | number>> = [
+    ['Resumen Costos de Importacion'],
+    ['Archivo fuente', input.sourceFile || '-'],
+    ['USD Importacion (CLP)', Number(input.importUsdRate.toFixed(4))],
+    ['EUR (CLP)', Number(input.euroRate.toFixed(4))],
+    ['Moneda flete', input.shippingCurrency],
+    ['Gasto envio original', Number(input.shippingCost.toFixed(4))],
+    ['Flete convertido CLP', Math.round(toCLP(input.shippingCost, input.shippingCurrency)), 'Prorrateo flete y seguro', IMPORT_ALLOCATION_METHOD_LABELS[landedCost.shippingAllocation.appliedMethod]],
+    ['Seguro CLP', Math.round(toCLP(costModel.insurance.amount, costModel.insurance.currency)), 'Moneda seguro', costModel.insurance.currency],
+    ['Otros gastos aduana (CLP)', Math.round(input.customsCostCLP), 'Prorrateo aduana y gastos locales', IMPORT_ALLOCATION_METHOD_LABELS[landedCost.localChargesAllocation.appliedMethod]],
+    ['Agente, puerto y transporte local CLP', Math.round(localChargesCLP)],
+    ['Acuerdo comercial', agreement?.label ?? 'Sin acuerdo', 'Ad valorem aplicado (%)', landedCost.dutyPercent],
+    ['IVA importacion (%)', IMPORT_VAT_PERCENT],
+    ['Margen bruto objetivo (%)', Number(input.targetGrossMarginPercent.toFixed(2))],
+    [''],
+    ['Tabla de productos y precios calculados'],
+    [
+      'SKU', 'Producto', 'Cantidad', 'Moneda', 'Costo Unitario Moneda', 'Costo Total Moneda', 'Tipo Cambio CLP',
+      'FOB CLP', 'Flete Asignado CLP', 'Seguro Asignado CLP', 'CIF CLP', 'Ad Valorem %', 'Ad Valorem CLP',
+      'Otros Aduana CLP', 'Agente/Puerto/Transporte CLP', 'Costo Puesto Chile Total CLP', 'Costo Puesto Chile Unit CLP',
+      'Precio Venta Neto Unit CLP', 'Precio Venta Unit con IVA CLP', 'IVA Importacion Credito CLP',
+      'Base Prorrateo Flete', 'Base Prorrateo Aduana', 'Base Prorrateo Gastos Locales',
+    ],
+  ];
+
+  const emptyCells = Array.from({ length: 18 }, () => null);
+  const dataRows = items.map((item) => [item.sku, item.name, item.quantity, input.currency, Number(item.unitCost.toFixed(4)), ...emptyCells]);
+  const totalRowData: Array<string | number | null> = ['TOTAL', '', null, '', '', ...emptyCells];
+
+  const worksheet = XLSX.utils.aoa_to_sheet([...summaryRows, ...dataRows, totalRowData]);
+
+  items.forEach((_, index) => {
+    const row = dataStartRow + index;
+    worksheet[`F${row}`] = { t: 'n', f: `=C${row}*E${row}` };
+    worksheet[`G${row}`] = { t: 'n', f: `=IF(D${row}="USD",$B$3,IF(D${row}="EUR",$B$4,1))` };
+    worksheet[`H${row}`] = { t: 'n', f: `=F${row}*G${row}` };
+    worksheet[`I${row}`] = { t: 'n', f: `=IF(SUM(${range('U')})=0,0,$B$7*U${row}/SUM(${range('U')}))` };
+    worksheet[`J${row}`] = { t: 'n', f: `=IF(SUM(${range('U')})=0,0,$B$8*U${row}/SUM(${range('U')}))` };
+    worksheet[`K${row}`] = { t: 'n', f: `=H${row}+I${row}+J${row}` };
+    worksheet[`L${row}`] = { t: 'n', v: landedCost.lines[index].dutyPercent };
+    worksheet[`M${row}`] = { t: 'n', f: `=K${row}*L${row}/100` };
+    worksheet[`N${row}`] = { t: 'n', f: `=IF(SUM(${range('V')})=0,0,$B$9*V${row}/SUM(${range('V')}))` };
+    worksheet[`O${row}`] = { t: 'n', f: `=IF(SUM(${range('W')})=0,0,$B$10*W${row}/SUM(${range('W')}))` };
+    worksheet[`P${row}`] = { t: 'n', f: `=K${row}+M${row}+N${row}+O${row}` };
+    worksheet[`Q${row}`] = { t: 'n', f: `=IF(C${row}=0,0,P${row}/C${row})` };
+    worksheet[`R${row}`] = { t: 'n', f: `=IF(1-$B$13/100<=0,Q${row},Q${row}/(1-$B$13/100))` };
+    worksheet[`S${row}`] = { t: 'n', f: `=R${row}*1.19` };
+    worksheet[`T${row}`] = { t: 'n', f: `=(K${row}+M${row})*$B$12/100` };
+    worksheet[`U${row}`] = allocationBaseCell(landedCost.shippingAllocation, index, row);
+    worksheet[`V${row}`] = allocationBaseCell(landedCost.customsAllocation, index, row);
+    worksheet[`W${row}`] = allocationBaseCell(landedCost.localChargesAllocation, index, row);
+  });
+
+  ['C', 'F', 'H', 'I', 'J', 'K', 'M', 'N', 'O', 'P', 'T'].forEach((column) => {
+    worksheet[`${column}${totalRow}`] = { t: 'n', f: `=SUM(${column}${dataStartRow}:${column}${dataEndRow})` };
+  });
+  worksheet[`Q${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,P${totalRow}/C${totalRow})` };
+  worksheet[`R${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,SUMPRODUCT(R${dataStartRow}:R${dataEndRow},C${dataStartRow}:C${dataEndRow})/C${totalRow})` };
+  worksheet[`S${totalRow}`] = { t: 'n', f: `=IF(C${totalRow}=0,0,SUMPRODUCT(S${dataStartRow}:S${dataEndRow},C${dataStartRow}:C${dataEndRow})/C${totalRow})` };
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Importaciones');
+  return workbook;
+};
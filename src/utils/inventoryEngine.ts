@@ -1,8 +1,11 @@
+import type { Product } from '../data/mockProducts';
 import type {
   CurrentStock,
   InventoryCalculation,
   InventorySettings,
   InventoryStatus,
+  KitAvailability,
+  KitComponentAvailability,
   ProductRotation,
   ProductSupplier,
 } from '../types/inventory';
@@ -120,3 +123,52 @@ export const buildInventoryCalculations = (
 
   return calculations;
 };
+
+// A kit is only as available as its scarcest component, so each kit reports how many
+// complete units the current component stock can build.
+export const buildKitAvailability = (
+  products: Product[],
+  calculations: InventoryCalculation[],
+): KitAvailability[] => {
+  const calculationBySku = new Map(calculations.map((item) => [normalizeSku(item.sku), item]));
+  const productBySku = new Map(
+    products
+      .filter((product) => product.sku)
+      .map((product) => [normalizeSku(product.sku || ''), product]),
+  );
+
+  const availability = products
+    .filter((product) => (product.components?.length ?? 0) > 0)
+    .map((kit): KitAvailability => {
+      const components = (kit.components || []).map((component): KitComponentAvailability => {
+        const skuKey = normalizeSku(component.sku);
+        const calculation = calculationBySku.get(skuKey);
+        const currentStock = Math.max(0, calculation?.currentStock ?? 0);
+        return {
+          sku: component.sku,
+          name: calculation?.name || productBySku.get(skuKey)?.name || component.sku,
+          requiredPerKit: component.quantity,
+          currentStock,
+          buildableUnits: component.quantity > 0 ? Math.floor(currentStock / component.quantity) : 0,
+          status: calculation?.status ?? null,
+        };
+      });
+
+      const limiting = components.reduce<KitComponentAvailability | null>(
+        (lowest, component) => (!lowest || component.buildableUnits < lowest.buildableUnits ? component : lowest),
+        null,
+      );
+
+      return {
+        kitId: kit.id,
+        kitName: kit.name,
+        kitSku: kit.sku,
+        buildableUnits: limiting?.buildableUnits ?? 0,
+        limitingSku: limiting?.sku ?? null,
+        components,
+      };
+    });
+
+  availability.sort((a, b) => a.buildableUnits - b.buildableUnits || a.kitName.localeCompare(b.kitName, 'es'));
+  return availability;
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../data/mockProducts';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type { ImportSnapshotCostInput } from './importLandedCost';
+import { buildLandedCostUpdatePlan, buildOpenQuoteLandedCostImpact } from './landedCostCatalog';
+import { calculateQuote } from './quotePricingEngine';
+
+const TODAY = new Date(2026, 9, 19);
+
+const snapshot: ImportSnapshotCostInput = {
+  sourceFile: 'factura.pdf',
+  currency: 'USD',
+  importUsdRate: 1000,
+  euroRate: 1100,
+  shippingCost: 0,
+  shippingCurrency: 'CLP',
+  customsCostCLP: 0,
+  shippingAllocationMethod: 'value',
+  customsAllocationMethod: 'value',
+  costModel: null,
+  targetGrossMarginPercent: 40,
+  items: [
+    { sku: 'a-1', name: 'Implante', quantity: 10, unitCost: 50 },
+    { sku: 'A-1', name: 'Implante', quantity: 10, unitCost: 60 },
+    { sku: 'B-2', name: 'Fresa', quantity: 5, unitCost: 10 },
+    { sku: 'Z-9', name: 'Sin catalogo', quantity: 1, unitCost: 5 },
+  ],
+};
+
+const products: Product[] = [
+  { id: 'p-a', sku: 'A-1', name: 'Implante', category: 'Implantes', costUSD: 40, landedCostCLP: 40000, landedCostUnits: 20 },
+  { id: 'p-b', sku: 'B-2', name: 'Fresa', category: 'Generales', costUSD: 8 },
+];
+
+const createRecord = (overrides: Partial<SavedSimulationRecord>): SavedSimulationRecord => ({
+  id: 'sim-1',
+  created_at: '2026-10-01T10:00:00.000Z',
+  quote_number: 'COT-2026-0001',
+  revision: 1,
+  sale_price_clp: 200000,
+  exchange_rate: 950,
+  total_cost_usd: 80,
+  total_cost_clp: 80000,
+  margin_percent: 60,
+  net_profit_clp: 120000,
+  status: 'draft',
+  valid_until: '2026-10-30',
+  items: [{ product_id: 'p-a', name: 'Implante', qty: 2, cost_usd: 40, landed_cost_clp: 40000 }],
+  ...overrides,
+});
+
+describe('landedCostCatalog', () => {
+  it('promedia el costo guardado con el embarque y deja fuera los SKU sin producto', () => {
+    const plan = buildLandedCostUpdatePlan(snapshot, products, 'weighted_average', 950);
+    const [implant, drill] = plan.rows;
+
+    expect(implant.shipmentQuantity).toBe(20);
+    expect(implant.shipmentUnitCLP).toBe(55000);
+    expect(implant.nextLandedCostCLP).toBe(47500);
+    expect(implant.nextLandedCostUnits).toBe(40);
+
+    expect(drill.previousLandedCostCLP).toBeNull();
+    expect(drill.currentUnitCLP).toBe(7600);
+    expect(drill.nextLandedCostCLP).toBe(10000);
+    expect(plan.unmatchedSkus).toEqual(['Z-9']);
+
+    const latest = buildLandedCostUpdatePlan(snapshot, products, 'latest', 950);
+    expect(latest.rows[0].nextLandedCostCLP).toBe(55000);
+    expect(latest.rows[0].nextLandedCostUnits).toBe(20);
+  });
+
+  it('pondera el costo anterior solo por el stock que queda en bodega', () => {
+    const capped = buildLandedCostUpdatePlan(snapshot, products, 'weighted_average', 950, new Map([['A-1', 5]]));
+    expect(capped.rows[0].previousLandedCostUnits).toBe(5);
+    expect(capped.rows[0].nextLandedCostCLP).toBe(52000);
+    expect(capped.rows[0].nextLandedCostUnits).toBe(25);
+
+    const soldOut = buildLandedCostUpdatePlan(snapshot, products, 'weighted_average', 950, new Map([['A-1', 0]]));
+    expect(soldOut.rows[0].nextLandedCostCLP).toBe(55000);
+    expect(soldOut.rows[0].nextLandedCostUnits).toBe(20);
+  });
+
+  it('recalcula el margen de las cotizaciones abiertas con el nuevo costo', () => {
+    const plan = buildLandedCostUpdatePlan(snapshot, products, 'weighted_average', 950);
+    const impacts = buildOpenQuoteLandedCostImpact([
+      createRecord({}),
+      createRecord({ id: 'sim-2', quote_number: 'COT-2026-0002', status: 'accepted' }),
+    ], plan, TODAY);
+
+    expect(impacts).toHaveLength(1);
+    expect(impacts[0].currentMarginPercent).toBeCloseTo(60);
+    expect(impacts[0].nextCostCLP).toBe(95000);
+    expect(impacts[0].nextMarginPercent).toBeCloseTo(52.5);
+  });
+
+  it('cotiza con el costo puesto en Chile cuando la linea lo trae', () => {
+    const result = calculateQuote({
+      exchangeRate: 950,
+      lines: [{ productId: 'p-a', productName: 'Implante', quantity: 2, costUSD: 40, landedCostCLP: 47500, pricingMode: 'inherit' }],
+      pricingConfig: { mode: 'at_cost' },
+    });
+
+    expect(result.lines[0].costUnitCLP).toBe(47500);
+    expect(result.totalCostCLP).toBe(95000);
+  });
+});
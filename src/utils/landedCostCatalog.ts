@@ -0,0 +1,145 @@
+import type { Product } from '../data/mockProducts';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type {
+  LandedCostPolicy,
+  LandedCostUpdatePlan,
+  LandedCostUpdateRow,
+  OpenQuoteLandedCostImpact,
+} from '../types/catalog';
+import { buildImportSnapshotLandedCost, type ImportSnapshotCostInput } from './importLandedCost';
+import { resolveQuoteStatus } from './quoteLifecycle';
+import { groupQuotationRevisions } from './quoteRevisions';
+
+export const LANDED_COST_POLICIES: LandedCostPolicy[] = ['weighted_average', 'latest'];
+
+export const LANDED_COST_POLICY_LABELS: Record<LandedCostPolicy, string> = {
+  weighted_average: 'Promedio ponderado entre embarques',
+  latest: 'Ultimo embarque',
+};
+
+export const isLandedCostPolicy = (value: unknown): value is LandedCostPolicy => (
+  typeof value === 'string' && LANDED_COST_POLICIES.includes(value as LandedCostPolicy)
+);
+
+const toSkuKey = (value: string) => value.trim().toUpperCase();
+
+const marginPercent = (netCLP: number, costCLP: number) => (netCLP > 0 ? ((netCLP - costCLP) / netCLP) * 100 : 0);
+
+// Unit cost in CLP a quote line starts from: the landed cost once an import was applied, otherwise costUSD at the given rate.
+export const resolveProductCostCLP = (product: Pick<Product, 'costUSD' | 'landedCostCLP'>, exchangeRate: number): number => (
+  (product.landedCostCLP ?? 0) > 0 ? product.landedCostCLP ?? 0 : product.costUSD * exchangeRate
+);
+
+// Repeated SKUs in the snapshot are merged into one shipment line. With the weighted average, the stored cost
+// is blended with the shipment by units; a product without a stored landed cost takes the shipment cost.
+// Units sold since earlier shipments no longer carry the old cost, so the stored unit count is capped by the
+// stock on hand from the inventory module (keyed by upper-case SKU) when the SKU is there.
+export const buildLandedCostUpdatePlan = (
+  snapshot: ImportSnapshotCostInput,
+  products: Product[],
+  policy: LandedCostPolicy,
+  exchangeRate: number,
+  stockBySku?: Map<string, number>,
+): LandedCostUpdatePlan => {
+  const landedCost = buildImportSnapshotLandedCost(snapshot);
+  const shipment = new Map<string, { sku: string; quantity: number; landedTotalCLP: number }>();
+  snapshot.items.forEach((item, index) => {
+    const sku = item.sku.trim();
+    if (!sku || item.quantity <= 0) return;
+    const key = toSkuKey(sku);
+    const existing = shipment.get(key);
+    shipment.set(key, {
+      sku: existing?.sku ?? sku,
+      quantity: (existing?.quantity ?? 0) + item.quantity,
+      landedTotalCLP: (existing?.landedTotalCLP ?? 0) + (landedCost.lines[index]?.landedTotalCLP ?? 0),
+    });
+  });
+
+  const productsBySku = new Map(
+    products
+      .filter((product) => product.sku)
+      .map((product) => [toSkuKey(product.sku || ''), product]),
+  );
+
+  const rows: LandedCostUpdateRow[] = [];
+  const unmatchedSkus: string[] = [];
+  for (const [key, line] of shipment) {
+    const product = productsBySku.get(key);
+    if (!product) {
+      unmatchedSkus.push(line.sku);
+      continue;
+    }
+
+    const shipmentUnitCLP = line.landedTotalCLP / line.quantity;
+    const previousLandedCostCLP = (product.landedCostCLP ?? 0) > 0 ? product.landedCostCLP ?? 0 : null;
+    const storedUnits = previousLandedCostCLP === null ? 0 : Math.max(0, product.landedCostUnits ?? 0);
+    const stockOnHand = stockBySku?.get(key);
+    const previousUnits = stockOnHand === undefined ? storedUnits : Math.min(storedUnits, Math.max(0, stockOnHand));
+    const blend = policy === 'weighted_average' && previousUnits > 0;
+
+    rows.push({
+      productId: product.id,
+      sku: product.sku || line.sku,
+      productName: product.name,
+      shipmentQuantity: line.quantity,
+      shipmentUnitCLP,
+      currentUnitCLP: resolveProductCostCLP(product, exchangeRate),
+      previousLandedCostCLP,
+      previousLandedCostUnits: previousUnits,
+      nextLandedCostCLP: blend
+        ? ((previousLandedCostCLP ?? 0) * previousUnits + line.landedTotalCLP) / (previousUnits + line.quantity)
+        : shipmentUnitCLP,
+      nextLandedCostUnits: blend ? previousUnits + line.quantity : line.quantity,
+    });
+  }
+
+  return { rows, unmatchedSkus };
+};
+
+// Only the latest revision of draft and sent quotes is checked. Lines keep their saved net price, so the
+// impact is the margin left after swapping each line's cost for the new landed cost.
+export const buildOpenQuoteLandedCostImpact = (
+  quotations: SavedSimulationRecord[],
+  plan: LandedCostUpdatePlan,
+  today: Date = new Date(),
+): OpenQuoteLandedCostImpact[] => {
+  const nextCostByProduct = new Map(plan.rows.map((row) => [row.productId, row.nextLandedCostCLP]));
+  const impacts: OpenQuoteLandedCostImpact[] = [];
+
+  for (const { latest } of groupQuotationRevisions(quotations)) {
+    const status = resolveQuoteStatus(latest, today);
+    if (status !== 'draft' && status !== 'sent') continue;
+
+    let costDeltaCLP = 0;
+    let affectedLineCount = 0;
+    for (const item of latest.items) {
+      const nextUnitCLP = item.product_id ? nextCostByProduct.get(item.product_id) : undefined;
+      if (nextUnitCLP === undefined) continue;
+      const currentUnitCLP = (item.landed_cost_clp ?? 0) > 0
+        ? item.landed_cost_clp ?? 0
+        : item.cost_usd * latest.exchange_rate;
+      costDeltaCLP += (nextUnitCLP - currentUnitCLP) * item.qty;
+      affectedLineCount += 1;
+    }
+    if (affectedLineCount === 0) continue;
+
+    const netTotalCLP = latest.sale_price_clp;
+    const nextCostCLP = latest.total_cost_clp + costDeltaCLP;
+    impacts.push({
+      quoteId: latest.id,
+      quoteNumber: latest.quote_number,
+      revision: latest.revision,
+      clientName: latest.client_name?.trim() || 'Sin cliente',
+      netTotalCLP,
+      currentCostCLP: latest.total_cost_clp,
+      nextCostCLP,
+      currentMarginPercent: marginPercent(netTotalCLP, latest.total_cost_clp),
+      nextMarginPercent: marginPercent(netTotalCLP, nextCostCLP),
+      affectedLineCount,
+    });
+  }
+
+  return impacts.sort((left, right) => (
+    (left.nextMarginPercent - left.currentMarginPercent) - (right.nextMarginPercent - right.currentMarginPercent)
+  ));
+};
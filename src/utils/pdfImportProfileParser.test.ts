@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { parsePdfImportPages, parsePdfNumber, type PdfTextItem } from './pdfImportProfileParser';
+
+const text = (str: string, x: number, y: number, width = str.length * 5): PdfTextItem => ({
+  str,
+  transform: [1, 0, 0, 1, x, y],
+  width,
+});
+
+const commercialInvoicePage: PdfTextItem[] = [
+  text('MEGAGEN IMPLANT CO., LTD.', 40, 800),
+  text('COMMERCIAL INVOICE', 200, 780),
+  text('Proforma Invoice No. PI-2026-10', 40, 770),
+  text('No.', 30, 700),
+  text('Product Code', 60, 700),
+  text('Description of Goods', 150, 700),
+  text('Quantity', 370, 700),
+  text('Unit Price', 430, 700),
+  text('Amount', 510, 700),
+  text('1', 30, 680),
+  text('AR4510C', 60, 680),
+  text('AnyRidge Fixture 4.5x10', 150, 680),
+  text('20', 385, 680),
+  text('45.00', 440, 680),
+  text('900.00', 515, 680),
+  text('with cover screw', 150, 668),
+  text('2', 30, 650),
+  text('SAAF4010', 60, 650),
+  text('Ti-Base Non-Hex', 150, 650),
+  text('5', 390, 650),
+  text('15.00', 440, 650),
+  text('80.00', 515, 650),
+  text('TOTAL', 60, 620),
+  text('25', 385, 620),
+  text('980.00', 515, 620),
+  text('ZZ9999', 60, 600),
+  text('Fuera de la tabla', 150, 600),
+  text('1', 390, 600),
+  text('10.00', 440, 600),
+];
+
+const europeanInvoicePage: PdfTextItem[] = [
+  text('IBAN DE89 3704 0044 0532 0130 00', 40, 800),
+  text('VAT ID DE123456789', 40, 790),
+  text('Art.-Nr.', 40, 700),
+  text('Bezeichnung', 130, 700),
+  text('Menge', 360, 700),
+  text('Einzelpreis', 420, 700),
+  text('Gesamtpreis', 500, 700),
+  text('KH-2040', 40, 680),
+  text('Knochenfräse', 130, 680),
+  text('3', 370, 680),
+  text('1.234,50', 425, 680),
+  text('3.703,50', 505, 680),
+  text('Summe', 130, 650),
+  text('3.703,50', 505, 650),
+];
+
+describe('parsePdfImportPages', () => {
+  it('detecta la factura comercial de MegaGen y lee las columnas desde el encabezado', () => {
+    const result = parsePdfImportPages([commercialInvoicePage]);
+
+    expect(result.profileId).toBe('megagen_commercial_invoice');
+    expect(result.detectedProfileId).toBe('megagen_commercial_invoice');
+    expect(result.lines).toHaveLength(2);
+
+    const [fixture, tiBase] = result.lines;
+    expect(fixture).toMatchObject({ sku: 'AR4510C', name: 'AnyRidge Fixture 4.5x10 with cover screw', quantity: 20, unitCost: 45, confidence: 1 });
+    expect(fixture.issues).toEqual([]);
+    expect(tiBase.confidence).toBe(0.7);
+    expect(tiBase.issues).toContain('Cantidad x precio no cuadra con el total de linea');
+  });
+
+  it('no confunde la factura de MegaGen con datos bancarios con el perfil europeo', () => {
+    const result = parsePdfImportPages([[
+      ...commercialInvoicePage,
+      text('BANK INFORMATION', 40, 560),
+      text('IBAN KR12 3456 7890 1234', 40, 550),
+      text('VAT No. 123-45-67890', 40, 540),
+    ]]);
+
+    expect(result.detectedProfileId).toBe('megagen_commercial_invoice');
+    expect(result.lines).toHaveLength(2);
+  });
+
+  it('usa coma decimal en el perfil europeo', () => {
+    const result = parsePdfImportPages([europeanInvoicePage]);
+
+    expect(result.profileId).toBe('european_invoice_de');
+    expect(result.lines).toEqual([
+      expect.objectContaining({ sku: 'KH-2040', quantity: 3, unitCost: 1234.5, confidence: 1 }),
+    ]);
+    expect(parsePdfNumber('1.234,50', ',')).toBe(1234.5);
+    expect(parsePdfNumber('1,234.50', '.')).toBe(1234.5);
+  });
+
+  it('vuelve a la heuristica generica cuando ningun perfil coincide', () => {
+    const result = parsePdfImportPages([[
+      text('X-100', 40, 700),
+      text('Producto', 100, 700),
+      text('generico', 150, 700),
+      text('4', 300, 700),
+      text('400', 400, 700),
+    ]]);
+
+    expect(result.profileId).toBe('generic');
+    expect(result.detectedProfileId).toBeNull();
+    expect(result.lines).toEqual([
+      expect.objectContaining({ sku: 'X-100', name: 'Producto generico', quantity: 4, unitCost: 100, confidence: 0.8 }),
+    ]);
+  });
+});
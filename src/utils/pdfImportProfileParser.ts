@@ -0,0 +1,337 @@
+import { GENERIC_PDF_IMPORT_PROFILE_ID, PDF_IMPORT_PROFILES } from '../data/pdfImportProfiles';
+import type {
+  PdfImportColumnKey,
+  PdfImportColumnRange,
+  PdfImportLine,
+  PdfImportParseResult,
+  PdfImportParserProfile,
+} from '../types/imports';
+
+export type PdfTextItem = {
+  str: string;
+  transform: number[];
+  width?: number;
+};
+
+type PdfRow = {
+  y: number;
+  items: PdfTextItem[];
+};
+
+type ColumnRanges = Partial<Record<PdfImportColumnKey, PdfImportColumnRange>>;
+
+const GENERIC_BASE_CONFIDENCE = 0.8;
+const LINE_TOTAL_TOLERANCE = 0.01;
+
+const normalize = (text: string) => text
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const isWordBoundary = (text: string, index: number) => index < 0 || index >= text.length || !/[a-z0-9]/.test(text[index]);
+
+// Index of `anchor` in `text` as a whole word, or -1.
+const findAnchor = (text: string, anchor: string): number => {
+  const needle = normalize(anchor);
+  let index = text.indexOf(needle);
+  while (index !== -1) {
+    if (isWordBoundary(text, index - 1) && isWordBoundary(text, index + needle.length)) return index;
+    index = text.indexOf(needle, index + 1);
+  }
+  return -1;
+};
+
+const hasAnchor = (text: string, anchors: string[]) => anchors.some((anchor) => findAnchor(text, anchor) !== -1);
+
+export const parsePdfNumber = (raw: string, decimalSeparator: PdfImportParserProfile['decimalSeparator'] = null): number => {
+  const clean = raw.replace(/[^\d.,-]/g, '');
+  if (!clean) return 0;
+  let normalized = clean;
+  if (decimalSeparator === ',') {
+    normalized = clean.replace(/\./g, '').replace(',', '.');
+  } else if (decimalSeparator === '.') {
+    normalized = clean.replace(/,/g, '');
+  } else {
+    const hasComma = clean.includes(',');
+    const hasDot = clean.includes('.');
+    if (hasComma && hasDot) {
+      normalized = clean.lastIndexOf(',') > clean.lastIndexOf('.')
+        ? clean.replace(/\./g, '').replace(',', '.')
+        : clean.replace(/,/g, '');
+    } else if (hasComma) {
+      normalized = clean.replace(',', '.');
+    }
+  }
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const buildRows = (items: PdfTextItem[]): PdfRow[] => {
+  const buckets = new Map<number, PdfTextItem[]>();
+  for (const item of items) {
+    if (!item.str?.trim()) continue;
+    const y = Math.round(item.transform[5] / 2) * 2;
+    buckets.set(y, [...(buckets.get(y) ?? []), item]);
+  }
+
+  return Array.from(buckets.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([y, row]) => ({ y, items: [...row].sort((a, b) => a.transform[4] - b.transform[4]) }));
+};
+
+const rowText = (row: PdfRow) => row.items.map((item) => item.str).join(' ').replace(/\s+/g, ' ').trim();
+
+export const detectPdfImportProfile = (
+  pages: PdfTextItem[][],
+  profiles: PdfImportParserProfile[] = PDF_IMPORT_PROFILES,
+): PdfImportParserProfile | null => {
+  const firstPage = normalize(buildRows(pages[0] ?? []).map(rowText).join(' '));
+  let best: { profile: PdfImportParserProfile; score: number } | null = null;
+
+  for (const profile of profiles) {
+    if (profile.detectAnchors.length === 0) continue;
+    if (!profile.detectAnchors.every((anchor) => findAnchor(firstPage, anchor) !== -1)) continue;
+    // Header labels break ties between layouts of the same supplier.
+    const headerHits = Object.values(profile.headerAnchors)
+      .flat()
+      .filter((anchor) => findAnchor(firstPage, anchor) !== -1).length;
+    const score = profile.detectAnchors.length * 10 + headerHits;
+    if (!best || score > best.score) best = { profile, score };
+  }
+
+  return best?.profile ?? null;
+};
+
+// Ranges rebuilt from the header row: each column starts a little before its label and ends where the next begins.
+const findHeaderRanges = (row: PdfRow, profile: PdfImportParserProfile): ColumnRanges | null => {
+  let text = '';
+  const spans = row.items.map((item) => {
+    const start = text.length + (text ? 1 : 0);
+    text = text ? `${text} ${normalize(item.str)}` : normalize(item.str);
+    return { item, start, end: text.length };
+  });
+
+  const found: Array<{ key: PdfImportColumnKey; x: number; end: number }> = [];
+  for (const [key, anchors] of Object.entries(profile.headerAnchors) as Array<[PdfImportColumnKey, string[]]>) {
+    for (const anchor of anchors) {
+      const index = findAnchor(text, anchor);
+      if (index === -1) continue;
+      const span = spans.find((entry) => index >= entry.start && index < entry.end);
+      if (!span || found.some((entry) => entry.x === span.item.transform[4])) continue;
+      found.push({ key, x: span.item.transform[4], end: span.item.transform[4] + (span.item.width ?? 0) });
+      break;
+    }
+  }
+
+  if (found.length < 3 || !found.some((entry) => entry.key === 'quantity')) return null;
+
+  const sorted = found.sort((a, b) => a.x - b.x);
+  const ranges: ColumnRanges = {};
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    const next = sorted[index + 1];
+    const start = previous ? entry.x - Math.min(15, Math.max(0, entry.x - previous.end) / 2) : Number.NEGATIVE_INFINITY;
+    const end = next ? next.x - Math.min(15, Math.max(0, next.x - entry.end) / 2) : Number.POSITIVE_INFINITY;
+    ranges[entry.key] = [start, end];
+  });
+  return ranges;
+};
+
+const readColumns = (row: PdfRow, ranges: ColumnRanges): Partial<Record<PdfImportColumnKey, string>> => {
+  const cells: Partial<Record<PdfImportColumnKey, string>> = {};
+  for (const item of row.items) {
+    const x = item.transform[4];
+    const entry = (Object.entries(ranges) as Array<[PdfImportColumnKey, PdfImportColumnRange]>)
+      .find(([, [start, end]]) => x >= start && x < end);
+    if (!entry) continue;
+    const key = entry[0];
+    cells[key] = cells[key] ? `${cells[key]} ${item.str.trim()}` : item.str.trim();
+  }
+  return cells;
+};
+
+// Confidence starts at 1 and drops for each check the line fails; the failed checks are listed as issues.
+const scoreLine = (
+  line: { sku: string; name: string; quantity: number; unitPrice: number; amount: number },
+  skuMatched: boolean,
+  fromHeader: boolean,
+): { confidence: number; issues: string[] } => {
+  let confidence = 1;
+  const issues: string[] = [];
+  const penalize = (amount: number, issue: string) => {
+    confidence -= amount;
+    issues.push(issue);
+  };
+
+  if (!skuMatched) penalize(0.4, 'SKU no coincide con el formato del proveedor');
+  if (!line.name) penalize(0.15, 'Sin descripcion');
+  if (line.quantity <= 0 || !Number.isInteger(line.quantity)) penalize(0.25, 'Cantidad ausente o no entera');
+  if (line.unitPrice <= 0 && line.amount <= 0) {
+    penalize(0.4, 'Sin precio unitario ni total de linea');
+  } else if (line.unitPrice > 0 && line.amount > 0 && line.quantity > 0) {
+    const expected = line.unitPrice * line.quantity;
+    if (Math.abs(expected - line.amount) > line.amount * LINE_TOTAL_TOLERANCE) {
+      penalize(0.3, 'Cantidad x precio no cuadra con el total de linea');
+    }
+  } else {
+    penalize(0.1, 'No se pudo verificar contra el total de linea');
+  }
+  if (!fromHeader) penalize(0.1, 'Columnas por posicion fija (no se encontro el encabezado)');
+
+  return { confidence: Math.max(0, Math.round(confidence * 100) / 100), issues };
+};
+
+const parseWithColumns = (pages: PdfTextItem[][], profile: PdfImportParserProfile): PdfImportLine[] => {
+  const lines: PdfImportLine[] = [];
+
+  pages.forEach((pageItems, pageIndex) => {
+    const rows = buildRows(pageItems);
+    const headerIndex = rows.findIndex((row) => findHeaderRanges(row, profile) !== null);
+    const ranges = headerIndex === -1 ? profile.columns : findHeaderRanges(rows[headerIndex], profile) ?? profile.columns;
+    let previous: PdfImportLine | null = null;
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      const cells = readColumns(row, ranges);
+      const skuMatch = (cells.sku ?? '').toUpperCase().match(profile.skuPattern);
+      const quantity = parsePdfNumber(cells.quantity ?? '', profile.decimalSeparator);
+      const unitPrice = parsePdfNumber(cells.unitPrice ?? '', profile.decimalSeparator);
+      const amount = Math.abs(parsePdfNumber(cells.amount ?? '', profile.decimalSeparator));
+
+      if (!skuMatch && hasAnchor(normalize(rowText(row)), profile.stopAnchors)) break;
+
+      if (!skuMatch && !(quantity > 0 && (unitPrice > 0 || amount > 0))) {
+        // Descriptions that wrap onto the next row only fill the name column.
+        const onlyName = cells.name && !cells.sku && !cells.quantity && !cells.unitPrice && !cells.amount;
+        if (previous && onlyName) previous.name = `${previous.name} ${cells.name}`.trim();
+        else previous = null;
+        continue;
+      }
+
+      const sku = skuMatch?.[0] ?? (cells.sku ?? '').trim();
+      const name = (cells.name ?? '').trim();
+      const { confidence, issues } = scoreLine({ sku, name, quantity, unitPrice, amount }, Boolean(skuMatch), headerIndex !== -1);
+      previous = {
+        page: pageIndex + 1,
+        sku,
+        name,
+        quantity,
+        unitCost: unitPrice > 0 ? unitPrice : quantity > 0 ? amount / quantity : 0,
+        confidence,
+        issues,
+      };
+      lines.push(previous);
+    }
+  });
+
+  return lines;
+};
+
+const shouldSkipGenericLine = (line: string): boolean => {
+  const n = normalize(line);
+  return (
+    !n ||
+    n.includes('subtotal') ||
+    n.includes('total') ||
+    n.includes('iva') ||
+    n.includes('pagina') ||
+    n.includes('descripcion') ||
+    n.includes('cantidad') ||
+    n.includes('sku')
+  );
+};
+
+// The original heuristic: SKU is the first code-like token, quantity the first integer after it and the last number the line total.
+const parseGenericLine = (line: string, page: number, profile: PdfImportParserProfile): PdfImportLine | null => {
+  if (shouldSkipGenericLine(line)) return null;
+
+  const tokens = line.split(/\s+/);
+  if (tokens.length < 4) return null;
+
+  const numericIndexes: Array<{ idx: number; value: number }> = [];
+  tokens.forEach((token, idx) => {
+    const value = parsePdfNumber(token, profile.decimalSeparator);
+    if (value !== 0) numericIndexes.push({ idx, value });
+  });
+  if (numericIndexes.length === 0) return null;
+
+  const skuIdx = tokens.findIndex((token) => profile.skuPattern.test(token));
+  if (skuIdx === -1) return null;
+
+  const lastNumber = numericIndexes[numericIndexes.length - 1];
+  const qtyCandidate = numericIndexes.find((entry) => entry.idx > skuIdx && Number.isInteger(entry.value) && entry.value > 0 && entry.value < 100000);
+  const quantity = qtyCandidate?.value ?? 1;
+  const value = Math.abs(lastNumber.value);
+  if (value <= 0 || quantity <= 0) return null;
+
+  const nameStart = skuIdx + 1;
+  const nameEnd = qtyCandidate ? qtyCandidate.idx : lastNumber.idx;
+  const name = tokens.slice(nameStart, Math.max(nameStart + 1, nameEnd)).join(' ').trim();
+  if (!name) return null;
+
+  const issues = ['Perfil generico: columnas deducidas del orden de la linea'];
+  let confidence = GENERIC_BASE_CONFIDENCE;
+  if (!qtyCandidate) {
+    confidence -= 0.25;
+    issues.push('Cantidad no encontrada, se asumio 1');
+  }
+
+  return { page, sku: tokens[skuIdx], name, quantity, unitCost: value / quantity, confidence, issues };
+};
+
+const parseGeneric = (pages: PdfTextItem[][], profile: PdfImportParserProfile): PdfImportLine[] => (
+  pages.flatMap((pageItems, pageIndex) => buildRows(pageItems)
+    .map((row) => parseGenericLine(rowText(row), pageIndex + 1, profile))
+    .filter((line): line is PdfImportLine => line !== null))
+);
+
+// Repeated SKU and description rows become one line with the weighted unit cost and the lowest confidence.
+const mergeLines = (lines: PdfImportLine[]): PdfImportLine[] => {
+  const merged = new Map<string, PdfImportLine>();
+  for (const line of lines) {
+    const key = `${line.sku}||${line.name}`.toLowerCase();
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...line, issues: [...line.issues] });
+      continue;
+    }
+    const quantity = existing.quantity + line.quantity;
+    merged.set(key, {
+      ...existing,
+      quantity,
+      unitCost: quantity > 0 ? ((existing.unitCost * existing.quantity) + (line.unitCost * line.quantity)) / quantity : existing.unitCost,
+      confidence: Math.min(existing.confidence, line.confidence),
+      issues: Array.from(new Set([...existing.issues, ...line.issues])),
+    });
+  }
+  return Array.from(merged.values());
+};
+
+// Without `profileId` the layout is detected from the first page. A detected profile that finds no lines
+// falls back to the generic heuristic so the upload never comes back empty only because of the layout.
+export const parsePdfImportPages = (
+  pages: PdfTextItem[][],
+  profileId?: string,
+  profiles: PdfImportParserProfile[] = PDF_IMPORT_PROFILES,
+): PdfImportParseResult => {
+  const generic = profiles.find((profile) => profile.id === GENERIC_PDF_IMPORT_PROFILE_ID) ?? PDF_IMPORT_PROFILES[PDF_IMPORT_PROFILES.length - 1];
+  const detected = detectPdfImportProfile(pages, profiles);
+  const profile = profiles.find((entry) => entry.id === profileId) ?? detected ?? generic;
+  const parse = (target: PdfImportParserProfile) => (
+    Object.keys(target.columns).length > 0 ? parseWithColumns(pages, target) : parseGeneric(pages, target)
+  );
+
+  let lines = parse(profile);
+  let usedProfile = profile;
+  if (lines.length === 0 && !profileId && profile.id !== generic.id) {
+    lines = parse(generic);
+    usedProfile = generic;
+  }
+
+  return {
+    profileId: usedProfile.id,
+    detectedProfileId: detected?.id ?? null,
+    lines: mergeLines(lines),
+  };
+};
@@ -0,0 +1,172 @@
+// Minimal PDF 1.4 writer for text-and-rule documents. It only uses the standard
+// Helvetica fonts with WinAnsi encoding, so no font files are embedded.
+
+export type PdfColor = [number, number, number];
+
+export interface PdfPage {
+  operations: string[];
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+}
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const DEFAULT_TEXT_COLOR: PdfColor = [30, 41, 59];
+const FALLBACK_CHAR_WIDTH = 556;
+
+// Adobe AFM advance widths (1/1000 em) for printable ASCII, starting at the space character.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const SPECIAL_CHAR_WIDTHS: Record<string, number> = { '°': 400, '·': 278, '—': 1000, '–': 556, '•': 350 };
+
+// Characters outside Latin-1 that WinAnsiEncoding still maps to a single byte.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const formatColor = ([red, green, blue]: PdfColor) => [red, green, blue].map((channel) => formatNumber(channel / 255)).join(' ');
+
+const charWidth = (char: string, bold: boolean) => {
+  if (char in SPECIAL_CHAR_WIDTHS) return SPECIAL_CHAR_WIDTHS[char];
+  // Accented letters share the advance width of their base letter in Helvetica.
+  const code = char.normalize('NFD').charCodeAt(0);
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_CHAR_WIDTH;
+};
+
+export const measurePdfText = (text: string, size: number, bold = false) => (
+  Array.from(text).reduce((width, char) => width + charWidth(char, bold), 0) * size / 1000
+);
+
+export const wrapPdfText = (text: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (!current || measurePdfText(candidate, size, bold) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+  }
+  return current ? [...lines, current] : lines.length > 0 ? lines : [''];
+};
+
+const encodePdfString = (text: string) => Array.from(text).map((char) => {
+  const code = char.charCodeAt(0);
+  if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+  if (code >= 32 && code <= 126) return char;
+  if (char in WIN_ANSI_EXTRAS) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+  if (code >= 0xa0 && code <= 0xff) return char;
+  return '?';
+}).join('');
+
+export const createPdfPage = (): PdfPage => ({ operations: [] });
+
+// Positions are measured from the top-left corner; `top` is the text baseline.
+export const drawPdfText = (page: PdfPage, text: string, x: number, top: number, options: PdfTextOptions = {}) => {
+  const size = options.size ?? 10;
+  const bold = options.bold ?? false;
+  const width = measurePdfText(text, size, bold);
+  const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+  page.operations.push(
+    `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(options.color ?? DEFAULT_TEXT_COLOR)} rg `
+    + `${formatNumber(left)} ${formatNumber(PDF_PAGE_HEIGHT - top)} Td (${encodePdfString(text)}) Tj ET`,
+  );
+};
+
+export const drawPdfLine = (
+  page: PdfPage,
+  x1: number,
+  top1: number,
+  x2: number,
+  top2: number,
+  options: PdfShapeOptions = {},
+) => {
+  page.operations.push(
+    `${formatNumber(options.lineWidth ?? 0.5)} w ${formatColor(options.stroke ?? DEFAULT_TEXT_COLOR)} RG `
+    + `${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - top1)} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - top2)} l S`,
+  );
+};
+
+export const drawPdfRect = (page: PdfPage, x: number, top: number, width: number, height: number, options: PdfShapeOptions = {}) => {
+  const path = `${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - top - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+  if (options.fill && options.stroke) {
+    page.operations.push(`${formatNumber(options.lineWidth ?? 0.5)} w ${formatColor(options.fill)} rg ${formatColor(options.stroke)} RG ${path} B`);
+  } else if (options.fill) {
+    page.operations.push(`${formatColor(options.fill)} rg ${path} f`);
+  } else {
+    page.operations.push(`${formatNumber(options.lineWidth ?? 0.5)} w ${formatColor(options.stroke ?? DEFAULT_TEXT_COLOR)} RG ${path} S`);
+  }
+};
+
+export const buildPdfBytes = (pages: PdfPage[], info: PdfDocumentInfo = {}): Uint8Array => {
+  // Objects 1-5 are fixed; each page then adds a page object and its content stream.
+  const pageObjectIds = pages.map((_, index) => 6 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Producer (MegaGen Cotizador)${info.title ? ` /Title (${encodePdfString(info.title)})` : ''}${info.author ? ` /Author (${encodePdfString(info.author)})` : ''} >>`,
+  ];
+
+  pages.forEach((page, index) => {
+    const content = page.operations.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  // Every character is a single byte at this point, so string offsets are byte offsets.
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0));
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../data/mockProducts';
+import type { ProductCostHistoryEntry } from '../types/catalog';
+import { buildProductCostChangeReport, buildProductCostTimeline, findProductCostAt } from './productCostHistory';
+
+const createEntry = (overrides: Partial<ProductCostHistoryEntry>): ProductCostHistoryEntry => ({
+  id: 'h-1',
+  productId: 'db-1',
+  sku: 'AR-4010',
+  productName: 'Implante AnyRidge 4.0 x 10',
+  costUSD: 45,
+  previousCostUSD: null,
+  source: 'manual',
+  recordedAt: '2026-01-10T12:00:00.000Z',
+  ...overrides,
+});
+
+const history = [
+  createEntry({ id: 'h-3', costUSD: 52, previousCostUSD: 48, source: 'catalog_sync', recordedAt: '2026-09-01T12:00:00.000Z' }),
+  createEntry({}),
+  createEntry({ id: 'h-2', costUSD: 48, previousCostUSD: 45, source: 'catalog_sync', recordedAt: '2026-05-01T12:00:00.000Z' }),
+  createEntry({ id: 'h-4', productId: 'db-2', sku: 'TB-NH', productName: 'Ti-Base Non Hex', costUSD: 15.3, previousCostUSD: 15, source: 'catalog_sync', recordedAt: '2026-08-01T12:00:00.000Z' }),
+  createEntry({ id: 'h-5', productId: 'db-3', sku: 'OLD-1', productName: 'Producto sin alta registrada', costUSD: 12, previousCostUSD: 10, source: 'catalog_sync', recordedAt: '2026-07-01T12:00:00.000Z' }),
+];
+
+const products: Product[] = [
+  { id: 'db-1', sku: 'AR-4010', name: 'Implante AnyRidge 4.0 x 10', category: 'Implantes', costUSD: 52 },
+  { id: 'db-2', sku: 'TB-NH', name: 'Ti-Base Non Hex', category: 'Aditamentos', costUSD: 15.3 },
+  { id: 'db-3', sku: 'OLD-1', name: 'Producto sin alta registrada', category: 'General', costUSD: 12 },
+];
+
+describe('productCostHistory', () => {
+  it('ordena la linea de tiempo de un producto y calcula la variacion de cada cambio', () => {
+    const timeline = buildProductCostTimeline(history, 'db-1');
+
+    expect(timeline.map((point) => [point.recordedAt.slice(0, 10), point.costUSD, point.source])).toEqual([
+      ['2026-01-10', 45, 'manual'],
+      ['2026-05-01', 48, 'catalog_sync'],
+      ['2026-09-01', 52, 'catalog_sync'],
+    ]);
+    expect(timeline[0].changePercent).toBeNull();
+    expect(timeline[2].changePercent).toBeCloseTo(8.333, 2);
+  });
+
+  it('obtiene el costo vigente en una fecha usando el costo previo cuando no hay registro anterior', () => {
+    expect(findProductCostAt(history, 'db-1', '2026-06-15')).toBe(48);
+    expect(findProductCostAt(history, 'db-1', '2026-05-01')).toBe(48);
+    expect(findProductCostAt(history, 'db-3', '2026-03-01')).toBe(10);
+    expect(findProductCostAt(history, 'db-9', '2026-03-01')).toBeNull();
+  });
+
+  it('lista los productos cuyo costo vario mas que el umbral desde la fecha elegida', () => {
+    const report = buildProductCostChangeReport(history, products, '2026-03-01', 5);
+
+    expect(report.map((row) => [row.productId, row.baselineCostUSD, row.currentCostUSD, row.changeCount])).toEqual([
+      ['db-3', 10, 12, 1],
+      ['db-1', 45, 52, 2],
+    ]);
+    expect(report[1].changePercent).toBeCloseTo(15.556, 2);
+    expect(buildProductCostChangeReport(history, products, '2026-06-01', 5).map((row) => row.productId)).toEqual(['db-3', 'db-1']);
+    expect(buildProductCostChangeReport(history, products, '2026-10-01', 0)).toEqual([]);
+  });
+});
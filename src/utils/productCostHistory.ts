@@ -0,0 +1,91 @@
+import type { Product } from '../data/mockProducts';
+import type {
+  ProductCostChangeRow,
+  ProductCostHistoryEntry,
+  ProductCostSource,
+  ProductCostTimelinePoint,
+} from '../types/catalog';
+
+export const PRODUCT_COST_SOURCE_LABELS: Record<ProductCostSource, string> = {
+  catalog_sync: 'Sincronizacion de lista',
+  manual: 'Creado manualmente',
+  import_landed_cost: 'Costo puesto en Chile (importacion)',
+  kit_composition: 'Composicion de kit',
+};
+
+const toChangePercent = (from: number, to: number) => (from > 0 ? ((to - from) / from) * 100 : 0);
+
+const sortByRecordedAt = (entries: ProductCostHistoryEntry[]) => (
+  [...entries].sort((left, right) => left.recordedAt.localeCompare(right.recordedAt))
+);
+
+export const buildProductCostTimeline = (
+  history: ProductCostHistoryEntry[],
+  productId: string,
+): ProductCostTimelinePoint[] => (
+  sortByRecordedAt(history.filter((entry) => entry.productId === productId)).map((entry) => ({
+    recordedAt: entry.recordedAt,
+    costUSD: entry.costUSD,
+    previousCostUSD: entry.previousCostUSD,
+    changePercent: entry.source === 'import_landed_cost'
+      ? (entry.previousLandedCostCLP ? toChangePercent(entry.previousLandedCostCLP, entry.landedCostCLP ?? 0) : null)
+      : entry.previousCostUSD === null ? null : toChangePercent(entry.previousCostUSD, entry.costUSD),
+    landedCostCLP: entry.landedCostCLP ?? null,
+    previousLandedCostCLP: entry.previousLandedCostCLP ?? null,
+    source: entry.source,
+  }))
+);
+
+// Cost a product had at the end of the given day, or null when no history reaches that far back.
+export const findProductCostAt = (history: ProductCostHistoryEntry[], productId: string, date: string): number | null => {
+  const dayEnd = `${date.slice(0, 10)}T23:59:59.999Z`;
+  const entries = sortByRecordedAt(history.filter((entry) => entry.productId === productId));
+  const lastBefore = entries.filter((entry) => entry.recordedAt <= dayEnd).pop();
+  if (lastBefore) return lastBefore.costUSD;
+  return entries[0]?.previousCostUSD ?? null;
+};
+
+// The baseline is the cost in force on `sinceDate`; the current cost comes from the live catalog.
+export const buildProductCostChangeReport = (
+  history: ProductCostHistoryEntry[],
+  products: Product[],
+  sinceDate: string,
+  thresholdPercent: number,
+): ProductCostChangeRow[] => {
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const since = `${sinceDate.slice(0, 10)}T23:59:59.999Z`;
+  const byProduct = new Map<string, ProductCostHistoryEntry[]>();
+  for (const entry of history) {
+    byProduct.set(entry.productId, [...(byProduct.get(entry.productId) ?? []), entry]);
+  }
+
+  const rows: ProductCostChangeRow[] = [];
+  for (const [productId, entries] of byProduct) {
+    // Landed cost rows leave costUSD untouched, so they are not supplier cost changes.
+    const changesSince = sortByRecordedAt(entries).filter((entry) => (
+      entry.recordedAt > since && entry.previousCostUSD !== null && entry.source !== 'import_landed_cost'
+    ));
+    if (changesSince.length === 0) continue;
+
+    const baselineCostUSD = findProductCostAt(entries, productId, sinceDate) ?? 0;
+    const latest = changesSince[changesSince.length - 1];
+    const product = productsById.get(productId);
+    const currentCostUSD = product?.costUSD ?? latest.costUSD;
+    const changePercent = toChangePercent(baselineCostUSD, currentCostUSD);
+    if (baselineCostUSD <= 0 || Math.abs(changePercent) < thresholdPercent) continue;
+
+    rows.push({
+      productId,
+      sku: product?.sku ?? latest.sku,
+      productName: product?.name ?? latest.productName,
+      category: product?.category,
+      baselineCostUSD,
+      currentCostUSD,
+      changePercent,
+      changeCount: changesSince.length,
+      lastChangedAt: latest.recordedAt,
+    });
+  }
+
+  return rows.sort((left, right) => Math.abs(right.changePercent) - Math.abs(left.changePercent));
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../data/mockProducts';
+import type { InventoryCalculation } from '../types/inventory';
+import { buildKitAvailability } from './inventoryEngine';
+import { applyKitCosts, deriveKitCost, expandKitComponents, normalizeKitComponents } from './productKits';
+
+const fixture: Product = { id: 'db-1', sku: 'AR-4010', name: 'Implante AnyRidge 4.0 x 10', category: 'Implantes', costUSD: 45, suggestedPriceUSD: 120 };
+const tiBase: Product = { id: 'db-2', sku: 'TB-NH', name: 'Ti-Base Non Hex', category: 'Aditamentos', costUSD: 15, suggestedPriceUSD: 45 };
+const drill: Product = { id: 'db-3', sku: 'DR-20', name: 'Fresa inicial 2.0', category: 'Instrumental', costUSD: 8 };
+
+const kit: Product = {
+  id: 'db-9',
+  sku: 'KIT-AR',
+  name: 'Kit quirurgico AnyRidge',
+  category: 'Kits',
+  costUSD: 0,
+  components: [
+    { sku: 'ar-4010', quantity: 2 },
+    { sku: 'TB-NH', quantity: 2 },
+  ],
+};
+
+const createCalculation = (overrides: Partial<InventoryCalculation>): InventoryCalculation => ({
+  sku: 'AR-4010',
+  name: 'Implante AnyRidge 4.0 x 10',
+  supplierName: 'MEGAGEN KOREA',
+  leadTimeDays: 35,
+  currentStock: 0,
+  totalExits90Days: 0,
+  averageDailyUsage: 0,
+  safetyStock: 0,
+  reorderPoint: 0,
+  suggestedOrderQuantity: 0,
+  status: 'OK',
+  coverageDays: 30,
+  ...overrides,
+});
+
+describe('productKits', () => {
+  it('deriva costo y precio lista del kit desde sus componentes', () => {
+    const catalog = [fixture, tiBase, kit];
+
+    expect(deriveKitCost(kit, catalog)).toEqual({ costUSD: 120, suggestedPriceUSD: 330, missingSkus: [] });
+    expect(applyKitCosts(catalog)[2]).toMatchObject({ costUSD: 120, suggestedPriceUSD: 330 });
+
+    const withDrill = { ...kit, costUSD: 99, components: [...(kit.components || []), { sku: 'DR-20', quantity: 1 }] };
+    expect(deriveKitCost(withDrill, [...catalog, drill])).toMatchObject({ costUSD: 128, suggestedPriceUSD: undefined });
+    // A component missing from the catalog keeps the stored kit cost.
+    expect(applyKitCosts([fixture, tiBase, withDrill])[2].costUSD).toBe(99);
+  });
+
+  it('desglosa el kit en lineas por componente y reporta SKUs faltantes', () => {
+    const withUnknown = { ...kit, components: [...(kit.components || []), { sku: 'NO-EXISTE', quantity: 1 }] };
+
+    const expansion = expandKitComponents(withUnknown, [fixture, tiBase], 3);
+
+    expect(expansion.items.map(({ product, quantity }) => [product.id, quantity])).toEqual([['db-1', 6], ['db-2', 6]]);
+    expect(expansion.missingSkus).toEqual(['NO-EXISTE']);
+  });
+
+  it('normaliza componentes repetidos o invalidos', () => {
+    expect(normalizeKitComponents([
+      { sku: ' TB-NH ', quantity: 1 },
+      { sku: 'tb-nh', quantity: 2 },
+      { sku: '', quantity: 1 },
+      { sku: 'AR-4010', quantity: 0 },
+    ])).toEqual([{ sku: 'TB-NH', quantity: 3 }]);
+  });
+
+  it('calcula unidades armables del kit segun el stock de componentes', () => {
+    const availability = buildKitAvailability([fixture, tiBase, kit], [
+      createCalculation({ currentStock: 9 }),
+      createCalculation({ sku: 'tb-nh', name: 'Ti-Base Non Hex', currentStock: 5, status: 'WARNING' }),
+    ]);
+
+    expect(availability).toHaveLength(1);
+    expect(availability[0]).toMatchObject({ kitId: 'db-9', buildableUnits: 2, limitingSku: 'TB-NH' });
+    expect(availability[0].components.map((component) => component.buildableUnits)).toEqual([4, 2]);
+
+    const [withoutStock] = buildKitAvailability([fixture, tiBase, kit], [createCalculation({ currentStock: 9 })]);
+    expect(withoutStock).toMatchObject({ buildableUnits: 0, limitingSku: 'TB-NH' });
+    expect(withoutStock.components[1]).toMatchObject({ name: 'Ti-Base Non Hex', status: null });
+  });
+});
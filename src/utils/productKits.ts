@@ -0,0 +1,94 @@
+import type { Product, ProductKitComponent } from '../data/mockProducts';
+
+export interface KitCostBreakdown {
+  costUSD: number;
+  // Sum of component list prices; undefined as soon as one component has none.
+  suggestedPriceUSD?: number;
+  // Sum of component landed costs; undefined unless every component has one.
+  landedCostCLP?: number;
+  missingSkus: string[];
+}
+
+export interface KitExpansion {
+  items: Array<{ product: Product; quantity: number }>;
+  missingSkus: string[];
+}
+
+const toSkuKey = (value: string) => value.trim().toUpperCase();
+
+export const isKitProduct = (product: Product): boolean => (product.components?.length ?? 0) > 0;
+
+// Merges repeated SKUs and drops blank or non-positive rows so a kit stores one row per component.
+export const normalizeKitComponents = (components: ProductKitComponent[]): ProductKitComponent[] => {
+  const merged = new Map<string, ProductKitComponent>();
+  for (const component of components) {
+    const sku = component.sku.trim();
+    const quantity = Number(component.quantity);
+    if (!sku || !Number.isFinite(quantity) || quantity <= 0) continue;
+
+    const key = toSkuKey(sku);
+    const existing = merged.get(key);
+    merged.set(key, { sku: existing?.sku ?? sku, quantity: (existing?.quantity ?? 0) + quantity });
+  }
+  return Array.from(merged.values());
+};
+
+const indexBySku = (products: Product[]) => new Map(
+  products
+    .filter((product) => product.sku)
+    .map((product) => [toSkuKey(product.sku || ''), product]),
+);
+
+const resolveComponents = (kit: Product, products: Product[]) => {
+  const bySku = indexBySku(products);
+  return (kit.components || []).map((component) => ({
+    component,
+    product: bySku.get(toSkuKey(component.sku)),
+  }));
+};
+
+export const deriveKitCost = (kit: Product, products: Product[]): KitCostBreakdown => {
+  const resolved = resolveComponents(kit, products);
+  const found = resolved.flatMap(({ component, product }) => (product ? [{ component, product }] : []));
+  const listPricesComplete = found.length === resolved.length
+    && found.every(({ product }) => (product.suggestedPriceUSD ?? 0) > 0);
+  const landedCostsComplete = found.length === resolved.length
+    && found.every(({ product }) => (product.landedCostCLP ?? 0) > 0);
+
+  return {
+    costUSD: found.reduce((sum, { component, product }) => sum + product.costUSD * component.quantity, 0),
+    suggestedPriceUSD: listPricesComplete
+      ? found.reduce((sum, { component, product }) => sum + (product.suggestedPriceUSD ?? 0) * component.quantity, 0)
+      : undefined,
+    landedCostCLP: landedCostsComplete
+      ? found.reduce((sum, { component, product }) => sum + (product.landedCostCLP ?? 0) * component.quantity, 0)
+      : undefined,
+    missingSkus: resolved.filter(({ product }) => !product).map(({ component }) => component.sku),
+  };
+};
+
+// Kits take their cost from the current component costs. A kit with a component missing from
+// the catalog keeps its stored cost rather than silently dropping that component's cost.
+export const applyKitCosts = (products: Product[]): Product[] => products.map((product) => {
+  if (!isKitProduct(product)) return product;
+
+  const breakdown = deriveKitCost(product, products);
+  if (breakdown.missingSkus.length > 0) return product;
+
+  return {
+    ...product,
+    costUSD: breakdown.costUSD,
+    suggestedPriceUSD: product.suggestedPriceUSD || breakdown.suggestedPriceUSD,
+    landedCostCLP: breakdown.landedCostCLP ?? product.landedCostCLP,
+  };
+});
+
+export const expandKitComponents = (kit: Product, products: Product[], kitQuantity = 1): KitExpansion => {
+  const resolved = resolveComponents(kit, products);
+  return {
+    items: resolved.flatMap(({ component, product }) => (
+      product ? [{ product, quantity: component.quantity * kitQuantity }] : []
+    )),
+    missingSkus: resolved.filter(({ product }) => !product).map(({ component }) => component.sku),
+  };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type { CRMClientAggregate } from '../types/crm';
+import {
+  buildManualQuoteClient,
+  buildQuoteClientDirectory,
+  buildQuoteClientReport,
+  quoteClientFromRecord,
+  isValidChileanRut,
+  searchQuoteClients,
+  validateQuoteClientInput,
+} from './quoteClients';
+
+const createCRMClient = (overrides: Partial<CRMClientAggregate>): CRMClientAggregate => ({
+  salesRep: 'Camila',
+  clientCode: '76.123.456-0',
+  clientName: 'Clinica Dental Nunoa SpA',
+  totalNetSales: 1000000,
+  recentSoldDate: '2026-09-01',
+  status: 'Active',
+  invoiceCount: 3,
+  transactionCount: 5,
+  monthlySales: {},
+  ...overrides,
+});
+
+const createRecord = (overrides: Partial<SavedSimulationRecord>): SavedSimulationRecord => ({
+  id: 'sim-1',
+  created_at: '2026-10-01T10:00:00.000Z',
+  quote_number: 'COT-2026-0001',
+  revision: 1,
+  sale_price_clp: 500000,
+  exchange_rate: 950,
+  total_cost_usd: 250,
+  total_cost_clp: 237500,
+  margin_percent: 52.5,
+  net_profit_clp: 262500,
+  status: 'draft',
+  client_rut: '76123456-0',
+  client_name: 'Clinica Dental Nunoa SpA',
+  sales_rep: 'Camila',
+  items: [],
+  ...overrides,
+});
+
+describe('quoteClients', () => {
+  it('combina clientes del CRM y manuales por RUT normalizado', () => {
+    const directory = buildQuoteClientDirectory(
+      [createCRMClient({}), createCRMClient({ clientCode: '9.876.543-3', clientName: 'Centro Implantes Sur', salesRep: 'Diego' })],
+      [
+        buildManualQuoteClient({ rut: '76123456-0', name: 'Otro nombre', salesRep: 'Pedro', contact: { name: 'Dra. Perez' } }),
+        buildManualQuoteClient({ rut: '11.111.111-1', name: 'Odontologia Norte', salesRep: 'Pedro' }),
+      ],
+    );
+
+    expect(directory.map((client) => client.rut)).toEqual(['9876543-3', '76123456-0', '11111111-1']);
+    expect(directory[1]).toMatchObject({ name: 'Clinica Dental Nunoa SpA', salesRep: 'Camila', source: 'crm', contact: { name: 'Dra. Perez' } });
+    expect(directory[2]).toMatchObject({ salesRep: 'Pedro', source: 'manual' });
+    expect(searchQuoteClients(directory, 'nuñoa').map((client) => client.rut)).toEqual(['76123456-0']);
+    expect(searchQuoteClients(directory, '98765').map((client) => client.rut)).toEqual(['9876543-3']);
+    expect(searchQuoteClients(directory, 'diego').map((client) => client.name)).toEqual(['Centro Implantes Sur']);
+  });
+
+  it('valida el RUT y evita duplicar clientes existentes', () => {
+    const directory = buildQuoteClientDirectory([createCRMClient({})], []);
+
+    expect(validateQuoteClientInput({ rut: '123', name: 'Nueva', salesRep: '' }, directory)).toContain('RUT valido');
+    expect(validateQuoteClientInput({ rut: '12.345.678-9', name: 'Nueva', salesRep: '' }, directory)).toContain('digito verificador');
+    expect(validateQuoteClientInput({ rut: '12.345.678-5', name: ' ', salesRep: '' }, directory)).toContain('razon social');
+    expect(validateQuoteClientInput({ rut: '76.123.456-0', name: 'Copia', salesRep: '' }, directory)).toContain('ya existe');
+    expect(validateQuoteClientInput({ rut: '12.345.678-5', name: 'Nueva', salesRep: '' }, directory)).toBeNull();
+    expect(quoteClientFromRecord(createRecord({}), directory)?.source).toBe('crm');
+    expect(quoteClientFromRecord(createRecord({ client_rut: '5.555.555-9', client_name: 'Historica' }), directory))
+      .toMatchObject({ rut: '5555555-9', name: 'Historica', source: 'manual' });
+  });
+
+  it('calcula el digito verificador con modulo 11', () => {
+    expect(isValidChileanRut('12.345.678-5')).toBe(true);
+    expect(isValidChileanRut('12345678-9')).toBe(false);
+    expect(isValidChileanRut('11.111.111-1')).toBe(true);
+    expect(isValidChileanRut('6.000.000-k')).toBe(true);
+    expect(isValidChileanRut('6000000-1')).toBe(false);
+    expect(isValidChileanRut('76123456-0')).toBe(true);
+  });
+
+  it('resume las cotizaciones por cliente usando la ultima revision', () => {
+    const report = buildQuoteClientReport([
+      createRecord({ id: 'a-1', revision: 1, status: 'rejected' }),
+      createRecord({ id: 'a-2', revision: 2, status: 'accepted', sale_price_clp: 450000 }),
+      createRecord({ id: 'b-1', quote_number: 'COT-2026-0002', status: 'sent', valid_until: '2026-12-01' }),
+      createRecord({ id: 'c-1', quote_number: 'COT-2026-0003', client_rut: null, client_name: null }),
+    ], new Date(2026, 9, 19));
+
+    expect(report).toHaveLength(1);
+    expect(report[0]).toMatchObject({
+      clientRut: '76123456-0',
+      totalQuotes: 2,
+      openQuotes: 1,
+      wonQuotes: 1,
+      lostQuotes: 0,
+      quotedNetCLP: 950000,
+      wonNetCLP: 450000,
+    });
+  });
+});
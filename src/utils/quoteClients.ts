@@ -0,0 +1,150 @@
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type { CRMClientAggregate } from '../types/crm';
+import type { QuoteClient, QuoteClientContact, QuoteClientResult } from '../types/quotation';
+import { normalizeCRMRut, normalizeCRMText } from './crmWorkbookAliases';
+import { resolveQuoteStatus } from './quoteLifecycle';
+import { groupQuotationRevisions } from './quoteRevisions';
+
+export interface QuoteClientInput {
+  rut: string;
+  name: string;
+  salesRep: string;
+  contact?: QuoteClientContact;
+}
+
+const MAX_CLIENT_SEARCH_RESULTS = 8;
+
+// CRM rows win on name and sales rep; manual clients only add contact details or RUTs the CRM lacks.
+export const buildQuoteClientDirectory = (
+  crmClients: CRMClientAggregate[],
+  manualClients: QuoteClient[],
+): QuoteClient[] => {
+  const directory = new Map<string, QuoteClient>();
+  for (const crmClient of crmClients) {
+    const rut = normalizeCRMRut(crmClient.clientCode);
+    if (!rut) continue;
+    directory.set(rut, {
+      rut,
+      name: crmClient.clientName.trim(),
+      salesRep: crmClient.salesRep.trim(),
+      contact: {},
+      source: 'crm',
+    });
+  }
+
+  for (const manualClient of manualClients) {
+    const rut = normalizeCRMRut(manualClient.rut);
+    const existing = directory.get(rut);
+    directory.set(rut, existing
+      ? { ...existing, contact: { ...manualClient.contact, ...existing.contact } }
+      : { ...manualClient, rut, source: 'manual' });
+  }
+
+  return Array.from(directory.values()).sort((left, right) => left.name.localeCompare(right.name, 'es'));
+};
+
+export const findQuoteClient = (directory: QuoteClient[], rut: string) => {
+  const normalizedRut = normalizeCRMRut(rut);
+  return normalizedRut ? directory.find((client) => client.rut === normalizedRut) ?? null : null;
+};
+
+export const searchQuoteClients = (directory: QuoteClient[], query: string): QuoteClient[] => {
+  const words = normalizeCRMText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const rutQuery = normalizeCRMRut(query).replace(/-/g, '');
+
+  return directory
+    .filter((client) => (
+      (rutQuery.length >= 3 && client.rut.replace(/-/g, '').includes(rutQuery))
+      || words.every((word) => normalizeCRMText(`${client.name} ${client.salesRep}`).includes(word))
+    ))
+    .slice(0, MAX_CLIENT_SEARCH_RESULTS);
+};
+
+// Modulo 11: the body digits, right to left, are weighted 2..7 cyclically; 11 maps to 0 and 10 to K.
+export const isValidChileanRut = (value: string): boolean => {
+  const rut = normalizeCRMRut(value);
+  const match = /^(\d{6,8})-([\dK])$/.exec(rut);
+  if (!match) return false;
+  let sum = 0;
+  let weight = 2;
+  for (const digit of match[1].split('').reverse()) {
+    sum += Number(digit) * weight;
+    weight = weight === 7 ? 2 : weight + 1;
+  }
+  const remainder = 11 - (sum % 11);
+  const expected = remainder === 11 ? '0' : remainder === 10 ? 'K' : String(remainder);
+  return match[2] === expected;
+};
+
+export const validateQuoteClientInput = (input: QuoteClientInput, directory: QuoteClient[]): string | null => {
+  const rut = normalizeCRMRut(input.rut);
+  if (!/^\d{6,8}-[\dK]$/.test(rut)) return 'Ingresa un RUT valido con digito verificador (ej: 76.123.456-0).';
+  if (!isValidChileanRut(rut)) return `El digito verificador del RUT ${rut} no es correcto.`;
+  if (!input.name.trim()) return 'Ingresa la razon social del cliente.';
+  const existing = findQuoteClient(directory, rut);
+  if (existing) return `El RUT ${rut} ya existe como "${existing.name}". Seleccionalo desde la busqueda.`;
+  return null;
+};
+
+export const buildManualQuoteClient = (input: QuoteClientInput): QuoteClient => ({
+  rut: normalizeCRMRut(input.rut),
+  name: input.name.trim(),
+  salesRep: input.salesRep.trim(),
+  contact: {
+    name: input.contact?.name?.trim() || undefined,
+    email: input.contact?.email?.trim() || undefined,
+    phone: input.contact?.phone?.trim() || undefined,
+  },
+  source: 'manual',
+});
+
+// Saved quotes keep a copy of the client; prefer the live directory entry when the RUT still exists.
+export const quoteClientFromRecord = (record: SavedSimulationRecord, directory: QuoteClient[]): QuoteClient | null => {
+  if (!record.client_rut) return null;
+  return findQuoteClient(directory, record.client_rut) ?? {
+    rut: normalizeCRMRut(record.client_rut),
+    name: record.client_name ?? '',
+    salesRep: record.sales_rep ?? '',
+    contact: record.client_contact ?? {},
+    source: 'manual',
+  };
+};
+
+// Same counting rules as the sales rep report: latest revision only, rejected and expired are losses.
+export const buildQuoteClientReport = (
+  records: SavedSimulationRecord[],
+  today: Date = new Date(),
+): QuoteClientResult[] => {
+  const byClient = new Map<string, QuoteClientResult>();
+  for (const { latest } of groupQuotationRevisions(records)) {
+    if (!latest.client_rut) continue;
+    const status = resolveQuoteStatus(latest, today);
+    const entry = byClient.get(latest.client_rut) ?? {
+      clientRut: latest.client_rut,
+      clientName: latest.client_name ?? '',
+      salesRep: latest.sales_rep ?? '',
+      totalQuotes: 0,
+      openQuotes: 0,
+      wonQuotes: 0,
+      lostQuotes: 0,
+      quotedNetCLP: 0,
+      wonNetCLP: 0,
+    };
+
+    entry.totalQuotes += 1;
+    entry.quotedNetCLP += latest.sale_price_clp;
+    if (status === 'accepted') {
+      entry.wonQuotes += 1;
+      entry.wonNetCLP += latest.sale_price_clp;
+    } else if (status === 'rejected' || status === 'expired') {
+      entry.lostQuotes += 1;
+    } else {
+      entry.openQuotes += 1;
+    }
+    byClient.set(latest.client_rut, entry);
+  }
+
+  return Array.from(byClient.values())
+    .sort((left, right) => right.quotedNetCLP - left.quotedNetCLP || left.clientName.localeCompare(right.clientName, 'es'));
+};
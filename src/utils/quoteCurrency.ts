@@ -0,0 +1,29 @@
+import type { QuoteCurrency } from '../types/quotation';
+
+export const QUOTE_CURRENCIES: QuoteCurrency[] = ['CLP', 'USD', 'EUR'];
+
+const QUOTE_CURRENCY_SYMBOLS: Record<QuoteCurrency, string> = {
+  CLP: '$',
+  USD: 'US$',
+  EUR: '€',
+};
+
+// Pesos have no cents; foreign currency amounts keep two decimals.
+const currencyDecimals = (currency: QuoteCurrency) => (currency === 'CLP' ? 0 : 2);
+
+export const roundQuoteAmount = (value: number, currency: QuoteCurrency) => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = 10 ** currencyDecimals(currency);
+  return Math.round(value * factor) / factor;
+};
+
+export const convertCLPToQuoteCurrency = (valueCLP: number, currency: QuoteCurrency, rateCLP: number) => (
+  roundQuoteAmount(currency === 'CLP' || rateCLP <= 0 ? valueCLP : valueCLP / rateCLP, currency)
+);
+
+export const formatQuoteAmount = (value: number, currency: QuoteCurrency) => {
+  const decimals = currencyDecimals(currency);
+  const formatted = Math.abs(roundQuoteAmount(value, currency))
+    .toLocaleString('es-CL', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  return `${value < 0 ? '-' : ''}${QUOTE_CURRENCY_SYMBOLS[currency]}${formatted}`;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import { calculateQuote } from './quotePricingEngine';
+import { buildQuoteClientView, buildQuoteExportFileName, buildQuoteInternalView } from './quoteDocumentView';
+
+const quotation: SavedSimulationRecord = {
+  id: 'sim-1',
+  created_at: '2026-10-19T10:00:00.000Z',
+  quote_number: 'COT-2026-0003',
+  revision: 2,
+  sale_price_clp: 200000,
+  exchange_rate: 1000,
+  total_cost_usd: 100,
+  total_cost_clp: 100000,
+  margin_percent: 50,
+  net_profit_clp: 100000,
+  sales_rep: 'Camila',
+  status: 'sent',
+  valid_until: '2026-11-03',
+  items: [],
+};
+
+const calculation = calculateQuote({
+  exchangeRate: 1000,
+  lines: [{ productId: 'ar-40', productName: 'AnyRidge 4.0', sku: 'AR-40', quantity: 2, costUSD: 50, pricingMode: 'inherit' }],
+  pricingConfig: { mode: 'global_margin', targetMarginPercent: 50 },
+});
+
+describe('quoteDocumentView', () => {
+  it('la vista cliente solo expone precios, descuentos y condiciones', () => {
+    const view = buildQuoteClientView(quotation, calculation);
+    const serialized = JSON.stringify(view).toLowerCase();
+
+    expect(view.audience).toBe('client');
+    expect(view.quoteLabel).toBe('COT-2026-0003 · v2');
+    expect(view.lines[0]).toEqual({ productName: 'AnyRidge 4.0', sku: 'AR-40', quantity: 2, netUnit: 100000, netTotal: 200000 });
+    expect(view.terms[0]).toContain('Cotización válida hasta el');
+    expect(view.terms[1]).toBe('Precios netos en pesos chilenos.');
+    expect(view.terms[2]).toBe('IVA (19%) se detalla por separado.');
+    for (const internalKey of ['cost', 'margin', 'profit', 'cogs', 'exchange']) {
+      expect(serialized).not.toContain(internalKey);
+    }
+  });
+
+  it('arma las notas segun la moneda y el impuesto de la cotizacion', () => {
+    const exportCalculation = calculateQuote({
+      exchangeRate: 1000,
+      lines: [{ productId: 'ar-40', productName: 'AnyRidge 4.0', quantity: 2, costUSD: 50, pricingMode: 'inherit' }],
+      pricingConfig: {
+        mode: 'global_margin',
+        targetMarginPercent: 50,
+        currency: 'USD',
+        taxProfile: { id: 'exportacion', label: 'Exportacion (sin IVA)', documentLabel: 'Exportacion, sin IVA', ratePercent: 0 },
+      },
+    });
+    const terms = buildQuoteClientView(quotation, exportCalculation).terms.join(' ');
+
+    expect(terms).toContain('dolares estadounidenses (USD)');
+    expect(terms).toContain('Precios sin impuesto: Exportacion, sin IVA.');
+    expect(terms).not.toContain('pesos chilenos');
+    expect(terms).not.toContain('IVA se detalla');
+  });
+
+  it('la vista interna agrega costo, margen y COGS a los mismos precios', () => {
+    const view = buildQuoteInternalView(quotation, calculation);
+
+    expect(view.audience).toBe('internal');
+    expect(view.totalNetCLP).toBe(200000);
+    expect(view.totalCostCLP).toBe(100000);
+    expect(view.marginPercent).toBe(50);
+    expect(view.cogsPercent).toBe(50);
+    expect(view.lines[0]).toMatchObject({ productName: 'AnyRidge 4.0', costUSD: 50, costTotalCLP: 100000, atCost: false });
+  });
+
+  it('nombra cada archivo segun la vista exportada', () => {
+    expect(buildQuoteExportFileName(quotation, 'client', 'pdf')).toBe('cotizacion-cliente-COT-2026-0003-v2.pdf');
+    expect(buildQuoteExportFileName(quotation, 'internal', 'png')).toBe('analisis-interno-COT-2026-0003-v2.png');
+  });
+});
@@ -0,0 +1,105 @@
+import { QUOTE_DOCUMENT_CURRENCY_NAMES, QUOTE_DOCUMENT_NOTES } from '../data/quoteDocumentSettings';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type {
+  QuoteCalculationResult,
+  QuoteClientDocumentView,
+  QuoteCurrencyTotals,
+  QuoteDocumentAudience,
+  QuoteInternalDocumentView,
+} from '../types/quotation';
+import { convertCLPToQuoteCurrency } from './quoteCurrency';
+import { QUOTE_VALIDITY_DAYS } from './quoteLifecycle';
+import { formatQuoteRevisionLabel } from './quoteRevisions';
+
+export const QUOTE_DOCUMENT_AUDIENCE_LABELS: Record<QuoteDocumentAudience, string> = {
+  client: 'Cotización para cliente',
+  internal: 'Análisis interno · no enviar al cliente',
+};
+
+const formatValidityTerm = (validUntil: string | null) => (
+  validUntil
+    ? `Cotización válida hasta el ${new Date(`${validUntil}T00:00:00`).toLocaleDateString('es-CL')}.`
+    : `Cotización válida por ${QUOTE_VALIDITY_DAYS} días.`
+);
+
+// The currency and tax lines follow the quote, so a USD export quote never claims CLP prices with IVA.
+const buildQuoteDocumentNotes = ({ currency, rateCLP, taxProfile }: QuoteCurrencyTotals) => {
+  const currencyNote = currency === 'CLP'
+    ? `Precios netos en ${QUOTE_DOCUMENT_CURRENCY_NAMES.CLP}.`
+    : `Precios netos en ${QUOTE_DOCUMENT_CURRENCY_NAMES[currency]} (${currency}), calculados a $${rateCLP.toLocaleString('es-CL', { maximumFractionDigits: 2 })} CLP por ${currency}.`;
+  const taxNote = taxProfile.ratePercent > 0
+    ? `${taxProfile.documentLabel} se detalla por separado.`
+    : `Precios sin impuesto: ${taxProfile.documentLabel}.`;
+  return [currencyNote, taxNote, ...QUOTE_DOCUMENT_NOTES];
+};
+
+export const buildQuoteClientView = (
+  quotation: SavedSimulationRecord,
+  calculation: QuoteCalculationResult,
+): QuoteClientDocumentView => {
+  const validUntil = quotation.valid_until ?? null;
+  const totals = calculation.currencyTotals;
+  return {
+    audience: 'client',
+    quoteLabel: formatQuoteRevisionLabel(quotation),
+    issuedAt: quotation.created_at,
+    validUntil,
+    lines: calculation.lines.map((line) => ({
+      productName: line.productName,
+      sku: line.sku,
+      quantity: line.quantity,
+      netUnit: line.netUnitInCurrency,
+      netTotal: line.netTotalInCurrency,
+    })),
+    currency: totals.currency,
+    taxLabel: totals.taxProfile.documentLabel,
+    discounts: calculation.discounts.map((entry) => ({
+      label: entry.detail ? `${entry.label} (${entry.detail})` : entry.label,
+      amount: convertCLPToQuoteCurrency(entry.amountCLP, totals.currency, totals.rateCLP),
+    })),
+    totalNetBeforeDiscount: totals.totalNetBeforeDiscount,
+    totalDiscount: totals.totalDiscount,
+    totalNet: totals.totalNet,
+    totalTax: totals.totalTax,
+    totalWithTax: totals.totalWithTax,
+    terms: [formatValidityTerm(validUntil), ...buildQuoteDocumentNotes(totals)],
+  };
+};
+
+export const buildQuoteInternalView = (
+  quotation: SavedSimulationRecord,
+  calculation: QuoteCalculationResult,
+): QuoteInternalDocumentView => {
+  const clientView = buildQuoteClientView(quotation, calculation);
+  return {
+    ...clientView,
+    audience: 'internal',
+    lines: calculation.lines.map((line, index) => ({
+      ...clientView.lines[index],
+      costUSD: line.costUSD,
+      costTotalCLP: line.costTotalCLP,
+      marginPercent: line.marginPercent,
+      atCost: line.effectiveMode === 'at_cost',
+    })),
+    exchangeRate: quotation.exchange_rate,
+    totalNetCLP: calculation.totalNetCLP,
+    totalCostCLP: calculation.totalCostCLP,
+    totalProfitCLP: calculation.totalProfitCLP,
+    marginPercent: calculation.totalMarginPercent,
+    cogsPercent: calculation.totalNetCLP > 0 ? (calculation.totalCostCLP / calculation.totalNetCLP) * 100 : 0,
+    salesRep: quotation.sales_rep ?? null,
+    approvalNote: quotation.approval_status === 'approved'
+      ? `Bajo el margen minimo, aprobada por ${quotation.approved_by}: ${quotation.approval_reason}`
+      : null,
+  };
+};
+
+// File names carry the audience so an internal analysis is never mistaken for the client copy.
+export const buildQuoteExportFileName = (
+  quotation: SavedSimulationRecord,
+  audience: QuoteDocumentAudience,
+  extension: 'png' | 'pdf',
+) => {
+  const reference = quotation.quote_number ? `${quotation.quote_number}-v${quotation.revision}` : quotation.id;
+  return `${audience === 'client' ? 'cotizacion-cliente' : 'analisis-interno'}-${reference}.${extension}`;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import {
+  buildQuoteValidUntil,
+  buildQuoteWinLossReport,
+  countQuoteValidityDays,
+  resolveQuoteStatus,
+  validateQuoteStatusChange,
+  validateQuoteValidUntil,
+} from './quoteLifecycle';
+
+const TODAY = new Date(2026, 9, 19);
+
+const createRecord = (overrides: Partial<SavedSimulationRecord>): SavedSimulationRecord => ({
+  id: 'sim-1',
+  created_at: '2026-10-01T10:00:00.000Z',
+  quote_number: 'COT-2026-0001',
+  revision: 1,
+  sale_price_clp: 1000000,
+  exchange_rate: 950,
+  total_cost_usd: 500,
+  total_cost_clp: 475000,
+  margin_percent: 50,
+  net_profit_clp: 525000,
+  sales_rep: 'Camila',
+  status: 'sent',
+  valid_until: '2026-10-30',
+  items: [],
+  ...overrides,
+});
+
+describe('quoteLifecycle', () => {
+  it('calcula la fecha de validez y vence las cotizaciones enviadas fuera de plazo', () => {
+    expect(buildQuoteValidUntil(TODAY)).toBe('2026-11-03');
+    expect(resolveQuoteStatus(createRecord({ valid_until: '2026-10-19' }), TODAY)).toBe('sent');
+    expect(resolveQuoteStatus(createRecord({ valid_until: '2026-10-18' }), TODAY)).toBe('expired');
+    expect(resolveQuoteStatus(createRecord({ status: 'draft', valid_until: '2026-10-18' }), TODAY)).toBe('draft');
+  });
+
+  it('cuenta los dias de validez y rechaza fechas vencidas', () => {
+    expect(countQuoteValidityDays('2026-11-03', TODAY)).toBe(15);
+    expect(countQuoteValidityDays('2026-10-18', TODAY)).toBe(-1);
+    expect(validateQuoteValidUntil('2026-10-19', TODAY)).toBeNull();
+    expect(validateQuoteValidUntil('2026-10-18', TODAY)).toContain('ya paso');
+    expect(validateQuoteValidUntil('', TODAY)).toContain('Ingresa');
+  });
+
+  it('solo permite transiciones validas y exige motivo al rechazar', () => {
+    expect(validateQuoteStatusChange('draft', 'sent')).toBeNull();
+    expect(validateQuoteStatusChange('draft', 'accepted')).toContain('No se puede pasar');
+    expect(validateQuoteStatusChange('accepted', 'rejected', 'Precio')).toContain('No se puede pasar');
+    expect(validateQuoteStatusChange('sent', 'rejected')).toBe('Indica el motivo de perdida de la cotizacion.');
+    expect(validateQuoteStatusChange('sent', 'rejected', 'Precio')).toBeNull();
+    expect(validateQuoteStatusChange('sent', 'expired')).toBeNull();
+  });
+
+  it('reporta tasa de cierre y margen promedio por vendedor usando la ultima revision', () => {
+    const report = buildQuoteWinLossReport([
+      createRecord({ id: 'a-1', quote_number: 'COT-2026-0001', revision: 1, status: 'rejected', margin_percent: 20 }),
+      createRecord({ id: 'a-2', quote_number: 'COT-2026-0001', revision: 2, status: 'accepted', margin_percent: 40 }),
+      createRecord({ id: 'b-1', quote_number: 'COT-2026-0002', status: 'rejected', margin_percent: 55, loss_reason: 'Precio' }),
+      createRecord({ id: 'c-1', quote_number: 'COT-2026-0003', valid_until: '2026-10-01', margin_percent: 45 }),
+      createRecord({ id: 'd-1', quote_number: 'COT-2026-0004', status: 'draft' }),
+      createRecord({ id: 'e-1', quote_number: 'COT-2026-0005', sales_rep: null, status: 'accepted', sale_price_clp: 200000 }),
+    ], TODAY);
+
+    expect(report.map((row) => row.salesRep)).toEqual(['Camila', 'Sin vendedor']);
+    expect(report[0]).toMatchObject({
+      totalQuotes: 4,
+      openQuotes: 1,
+      wonQuotes: 1,
+      lostQuotes: 2,
+      avgWonMarginPercent: 40,
+      avgLostMarginPercent: 50,
+      wonNetCLP: 1000000,
+    });
+    expect(report[0].winRatePercent).toBeCloseTo(33.33, 2);
+    expect(report[1]).toMatchObject({ wonQuotes: 1, lostQuotes: 0, winRatePercent: 100, avgLostMarginPercent: null });
+  });
+});
@@ -0,0 +1,117 @@
+import type { SavedSimulationRecord } from '../lib/appDataRepository';
+import type { QuoteLifecycleStatus, QuoteSalesRepResult } from '../types/quotation';
+import { groupQuotationRevisions } from './quoteRevisions';
+
+export const QUOTE_VALIDITY_DAYS = 15;
+export const UNASSIGNED_SALES_REP = 'Sin vendedor';
+
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteLifecycleStatus, QuoteLifecycleStatus[]> = {
+  draft: ['sent'],
+  sent: ['accepted', 'rejected', 'expired'],
+  accepted: [],
+  rejected: [],
+  expired: [],
+};
+
+export const QUOTE_STATUS_LABELS: Record<QuoteLifecycleStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Enviada',
+  accepted: 'Aceptada',
+  rejected: 'Rechazada',
+  expired: 'Vencida',
+};
+
+export const isQuoteLifecycleStatus = (value: unknown): value is QuoteLifecycleStatus => (
+  typeof value === 'string' && Object.keys(QUOTE_STATUS_LABELS).includes(value)
+);
+
+const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const buildQuoteValidUntil = (from: Date = new Date(), days = QUOTE_VALIDITY_DAYS) => {
+  const validUntil = new Date(from);
+  validUntil.setDate(validUntil.getDate() + days);
+  return toDateKey(validUntil);
+};
+
+// Whole days from `from` to a YYYY-MM-DD validity date; negative once it has passed.
+export const countQuoteValidityDays = (validUntil: string, from: Date = new Date()) => {
+  const [year, month, day] = validUntil.split('-').map(Number);
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  return Math.round((new Date(year, month - 1, day).getTime() - start.getTime()) / 86_400_000);
+};
+
+export const validateQuoteValidUntil = (validUntil: string, today: Date = new Date()): string | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(validUntil)) return 'Ingresa la fecha de validez de la cotizacion.';
+  if (validUntil < toDateKey(today)) return 'La fecha de validez ya paso; actualizala antes de guardar.';
+  return null;
+};
+
+export const canTransitionQuoteStatus = (from: QuoteLifecycleStatus, to: QuoteLifecycleStatus) => (
+  QUOTE_STATUS_TRANSITIONS[from].includes(to)
+);
+
+export const validateQuoteStatusChange = (
+  from: QuoteLifecycleStatus,
+  to: QuoteLifecycleStatus,
+  lossReason?: string | null,
+): string | null => {
+  if (!canTransitionQuoteStatus(from, to)) {
+    return `No se puede pasar una cotizacion de "${QUOTE_STATUS_LABELS[from]}" a "${QUOTE_STATUS_LABELS[to]}".`;
+  }
+  if (to === 'rejected' && !lossReason?.trim()) return 'Indica el motivo de perdida de la cotizacion.';
+  return null;
+};
+
+// A sent quote past its validity date counts as expired even before someone marks it.
+export const resolveQuoteStatus = (
+  quotation: Pick<SavedSimulationRecord, 'status' | 'valid_until'>,
+  today: Date = new Date(),
+): QuoteLifecycleStatus => {
+  if (quotation.status === 'sent' && quotation.valid_until && quotation.valid_until < toDateKey(today)) {
+    return 'expired';
+  }
+  return quotation.status;
+};
+
+const average = (values: number[]) => (
+  values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : null
+);
+
+// Only the latest revision of each quote number counts; rejected and expired quotes are losses.
+export const buildQuoteWinLossReport = (
+  records: SavedSimulationRecord[],
+  today: Date = new Date(),
+): QuoteSalesRepResult[] => {
+  const bySalesRep = new Map<string, SavedSimulationRecord[]>();
+  for (const { latest } of groupQuotationRevisions(records)) {
+    const salesRep = latest.sales_rep?.trim() || UNASSIGNED_SALES_REP;
+    bySalesRep.set(salesRep, [...(bySalesRep.get(salesRep) ?? []), latest]);
+  }
+
+  return Array.from(bySalesRep.entries())
+    .map(([salesRep, quotations]) => {
+      const statuses = quotations.map((quotation) => ({ quotation, status: resolveQuoteStatus(quotation, today) }));
+      const won = statuses.filter((entry) => entry.status === 'accepted').map((entry) => entry.quotation);
+      const lost = statuses
+        .filter((entry) => entry.status === 'rejected' || entry.status === 'expired')
+        .map((entry) => entry.quotation);
+      const decided = won.length + lost.length;
+
+      return {
+        salesRep,
+        totalQuotes: quotations.length,
+        openQuotes: quotations.length - decided,
+        wonQuotes: won.length,
+        lostQuotes: lost.length,
+        winRatePercent: decided > 0 ? (won.length / decided) * 100 : 0,
+        avgWonMarginPercent: average(won.map((quotation) => quotation.margin_percent)),
+        avgLostMarginPercent: average(lost.map((quotation) => quotation.margin_percent)),
+        wonNetCLP: won.reduce((acc, quotation) => acc + quotation.sale_price_clp, 0),
+      };
+    })
+    .sort((left, right) => right.wonNetCLP - left.wonNetCLP || left.salesRep.localeCompare(right.salesRep));
+};
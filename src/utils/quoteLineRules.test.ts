@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_QUOTE_LINE_RULES } from '../data/quoteLineRules';
+import type { QuoteLineDefaultRule } from '../types/quotation';
+import { findQuoteLineRule, resolveQuoteLineDefaults } from './quoteLineRules';
+
+const createRule = (overrides: Partial<QuoteLineDefaultRule>): QuoteLineDefaultRule => ({
+  id: 'r-1',
+  field: 'name',
+  operator: 'contains',
+  value: '',
+  pricingMode: 'at_cost',
+  note: '',
+  ...overrides,
+});
+
+describe('quoteLineRules', () => {
+  it('las reglas por defecto mantienen al costo los productos unicos y los items manuales', () => {
+    expect(resolveQuoteLineDefaults(DEFAULT_QUOTE_LINE_RULES, { name: 'Corona zirconio', category: 'Productos Unicos' }).pricingMode).toBe('at_cost');
+    expect(resolveQuoteLineDefaults(DEFAULT_QUOTE_LINE_RULES, { name: 'Item Especial de laboratorio', category: 'General' }).pricingMode).toBe('at_cost');
+    expect(resolveQuoteLineDefaults(DEFAULT_QUOTE_LINE_RULES, { name: 'Implante AnyRidge 4.0 x 10', category: 'Implantes' })).toEqual({
+      pricingMode: 'inherit',
+      value: undefined,
+      locked: false,
+    });
+  });
+
+  it('aplica la primera regla que calza por SKU exacto, nombre o categoria', () => {
+    const rules = [
+      createRule({ id: 'sku', field: 'sku', operator: 'equals', value: 'ar-4010', pricingMode: 'fixed_margin_percent', pricingValue: 35 }),
+      createRule({ id: 'cat', field: 'category', operator: 'equals', value: 'implantes', pricingMode: 'volume_tier', pricingValue: 99 }),
+      createRule({ id: 'vacia', value: '   ' }),
+    ];
+
+    expect(findQuoteLineRule(rules, { name: 'Implante', sku: ' AR-4010 ', category: 'Implantes' })?.id).toBe('sku');
+    expect(resolveQuoteLineDefaults(rules, { name: 'Implante', sku: 'AR-4010', category: 'Implantes' })).toEqual({
+      pricingMode: 'fixed_margin_percent',
+      value: 35,
+      locked: false,
+    });
+    expect(resolveQuoteLineDefaults(rules, { name: 'Implante', sku: 'AR-3510', category: 'Implantes' })).toEqual({
+      pricingMode: 'volume_tier',
+      value: undefined,
+      locked: false,
+    });
+    expect(findQuoteLineRule(rules, { name: 'Fresa', category: 'Instrumental' })).toBeNull();
+  });
+
+  it('deja bloqueadas las lineas con precio manual', () => {
+    const rules = [createRule({ value: 'kit quirurgico', pricingMode: 'manual_net_unit', pricingValue: 450000 })];
+
+    expect(resolveQuoteLineDefaults(rules, { name: 'Kit Quirúrgico AnyRidge', category: 'Instrumental' })).toEqual({
+      pricingMode: 'manual_net_unit',
+      value: 450000,
+      locked: true,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import type { Product } from '../data/mockProducts';
+import type {
+  LinePricingMode,
+  QuoteLineDefaultRule,
+  QuoteLineDraft,
+  QuoteLineRuleField,
+  QuoteLineRuleOperator,
+} from '../types/quotation';
+import { normalizeCatalogName, normalizeCatalogSku } from './catalogSync';
+
+type QuoteLineRuleTarget = Pick<Product, 'name' | 'sku' | 'category'>;
+
+export const QUOTE_LINE_RULE_FIELD_LABELS: Record<QuoteLineRuleField, string> = {
+  name: 'Nombre',
+  sku: 'SKU',
+  category: 'Categoria',
+};
+
+export const QUOTE_LINE_RULE_OPERATOR_LABELS: Record<QuoteLineRuleOperator, string> = {
+  equals: 'es igual a',
+  contains: 'contiene',
+};
+
+export const LINE_MODES_WITHOUT_VALUE: LinePricingMode[] = ['inherit', 'at_cost', 'volume_tier'];
+
+const normalizeRuleText = (field: QuoteLineRuleField, value?: string) => (
+  field === 'sku' ? normalizeCatalogSku(value) : normalizeCatalogName(value ?? '')
+);
+
+const readRuleTarget = (field: QuoteLineRuleField, product: QuoteLineRuleTarget) => {
+  if (field === 'category') return product.category || 'General';
+  return field === 'sku' ? product.sku : product.name;
+};
+
+export const matchesQuoteLineRule = (rule: QuoteLineDefaultRule, product: QuoteLineRuleTarget) => {
+  const expected = normalizeRuleText(rule.field, rule.value);
+  if (!expected) return false;
+  const actual = normalizeRuleText(rule.field, readRuleTarget(rule.field, product));
+  return rule.operator === 'equals' ? actual === expected : actual.includes(expected);
+};
+
+export const findQuoteLineRule = (rules: QuoteLineDefaultRule[], product: QuoteLineRuleTarget) => (
+  rules.find((rule) => matchesQuoteLineRule(rule, product)) ?? null
+);
+
+// Defaults for a new quote line; manual prices start locked, as when the mode is picked by hand.
+export const resolveQuoteLineDefaults = (
+  rules: QuoteLineDefaultRule[],
+  product: QuoteLineRuleTarget,
+): Pick<QuoteLineDraft, 'pricingMode' | 'value' | 'locked'> => {
+  const rule = findQuoteLineRule(rules, product);
+  if (!rule) return { pricingMode: 'inherit', value: undefined, locked: false };
+
+  return {
+    pricingMode: rule.pricingMode,
+    value: LINE_MODES_WITHOUT_VALUE.includes(rule.pricingMode) ? undefined : rule.pricingValue ?? 0,
+    locked: rule.pricingMode === 'manual_net_unit',
+  };
+};
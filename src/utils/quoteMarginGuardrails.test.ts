@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { QuoteLineDraft, QuoteMarginFloorPolicy } from '../types/quotation';
+import { calculateQuote } from './quotePricingEngine';
+import {
+  evaluateMarginGuardrails,
+  resolveQuoteApprovalStatus,
+  validateMarginApproval,
+} from './quoteMarginGuardrails';
+
+const policy: QuoteMarginFloorPolicy = {
+  defaultFloorPercent: 30,
+  categoryFloors: { Implantes: 35 },
+  userFloors: { 'Ana Perez': 20 },
+  approvers: ['gerencia@megagen.cl'],
+};
+
+const createLine = (overrides: Partial<QuoteLineDraft>): QuoteLineDraft => ({
+  productId: 'p-1',
+  productName: 'AnyRidge Internal Fixture [AR]',
+  quantity: 1,
+  costUSD: 10,
+  category: 'Implantes',
+  pricingMode: 'inherit',
+  ...overrides,
+});
+
+const quoteAtMargin = (marginPercent: number, lines: QuoteLineDraft[] = [createLine({})]) => calculateQuote({
+  exchangeRate: 1000,
+  lines,
+  pricingConfig: { mode: 'global_margin', targetMarginPercent: marginPercent },
+});
+
+describe('quoteMarginGuardrails', () => {
+  it('no requiere aprobacion cuando se respetan los pisos', () => {
+    const guardrails = evaluateMarginGuardrails(quoteAtMargin(40), policy);
+
+    expect(guardrails.violations).toEqual([]);
+    expect(resolveQuoteApprovalStatus(guardrails, null)).toBe('not_required');
+  });
+
+  it('detecta lineas bajo el piso de su categoria y el total bajo el piso general', () => {
+    const result = quoteAtMargin(25, [
+      createLine({ productId: 'ar' }),
+      createLine({ productId: 'mp', productName: 'Manual', category: 'Generales', pricingMode: 'at_cost' }),
+    ]);
+    const guardrails = evaluateMarginGuardrails(result, policy);
+
+    expect(guardrails.violations.map((violation) => [violation.scope, violation.productId, violation.floorPercent])).toEqual([
+      ['line', 'ar', 35],
+      ['quote', undefined, 30],
+    ]);
+    expect(resolveQuoteApprovalStatus(guardrails, null)).toBe('pending');
+  });
+
+  it('marca las lineas al costo de categorias con piso', () => {
+    const guardrails = evaluateMarginGuardrails(quoteAtMargin(50, [createLine({ pricingMode: 'at_cost' })]), policy);
+
+    expect(guardrails.violations[0]).toMatchObject({ scope: 'line', marginPercent: 0, floorPercent: 35 });
+  });
+
+  it('usa el piso del vendedor para el total de la cotizacion', () => {
+    const result = quoteAtMargin(25, [createLine({ category: 'Aditamentos' })]);
+
+    expect(evaluateMarginGuardrails(result, policy).requiresApproval).toBe(true);
+    expect(evaluateMarginGuardrails(result, policy, 'Ana Perez')).toMatchObject({
+      quoteFloorPercent: 20,
+      requiresApproval: false,
+    });
+  });
+
+  it('considera los descuentos al medir el margen de la linea', () => {
+    const result = calculateQuote({
+      exchangeRate: 1000,
+      lines: [createLine({})],
+      pricingConfig: {
+        mode: 'global_margin',
+        targetMarginPercent: 40,
+        discounts: [{ id: 'd', label: '', type: 'percent', value: 20 }],
+      },
+    });
+
+    expect(evaluateMarginGuardrails(result, policy).violations[0]).toMatchObject({ scope: 'line', floorPercent: 35 });
+  });
+
+  it('invalida la aprobacion si la cotizacion cambia', () => {
+    const guardrails = evaluateMarginGuardrails(quoteAtMargin(25), policy);
+    const approval = {
+      approvedBy: 'gerencia@megagen.cl',
+      reason: 'Cliente estrategico',
+      approvedAt: '2026-10-19T12:00:00.000Z',
+      signature: guardrails.signature,
+    };
+
+    expect(resolveQuoteApprovalStatus(guardrails, approval)).toBe('approved');
+    expect(resolveQuoteApprovalStatus(evaluateMarginGuardrails(quoteAtMargin(20), policy), approval)).toBe('pending');
+  });
+
+  it('aplica los pisos aunque la categoria o el vendedor difieran en mayusculas o espacios', () => {
+    const result = quoteAtMargin(25, [createLine({ productId: 'ar', category: ' implantes ' })]);
+
+    expect(evaluateMarginGuardrails(result, policy).violations[0]).toMatchObject({ scope: 'line', floorPercent: 35 });
+    expect(evaluateMarginGuardrails(result, policy, 'ana  perez').quoteFloorPercent).toBe(20);
+  });
+
+  it('exige un gerente autenticado y autorizado, distinto del vendedor, y un motivo', () => {
+    const manager = { email: 'gerencia@megagen.cl', name: 'Carla Rojas' };
+    expect(validateMarginApproval(policy, null, 'Ana Perez', 'Motivo')).toBe('Inicia sesion como gerente para aprobar.');
+    expect(validateMarginApproval(policy, { email: 'ana@megagen.cl', name: 'Ana Perez' }, 'Ana Perez', 'Motivo'))
+      .toBe('Tu usuario no esta autorizado para aprobar excepciones de margen.');
+    expect(validateMarginApproval(policy, { email: 'Gerencia@megagen.cl', name: 'Carla  Rojas' }, 'carla rojas', 'Motivo'))
+      .toBe('El vendedor no puede aprobar su propia cotizacion.');
+    expect(validateMarginApproval(policy, { ...manager, name: ' ' }, 'Ana Perez', 'Motivo'))
+      .toBe('La cuenta del gerente no tiene nombre; no se puede comprobar que no sea el vendedor.');
+    expect(validateMarginApproval(policy, manager, 'Ana Perez', ' ')).toBe('Ingresa el motivo de la aprobacion.');
+    expect(validateMarginApproval(policy, manager, 'Ana Perez', 'Cliente estrategico')).toBeNull();
+    expect(validateMarginApproval({ ...policy, approvers: [] }, { email: 'otro@megagen.cl', name: 'Otro' }, 'Ana Perez', 'Motivo')).toBeNull();
+  });
+});
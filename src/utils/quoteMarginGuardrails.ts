@@ -0,0 +1,100 @@
+import type {
+  QuoteApprovalStatus,
+  QuoteCalculationResult,
+  QuoteMarginApproval,
+  QuoteMarginFloorPolicy,
+  QuoteMarginGuardrailResult,
+  QuoteMarginViolation,
+} from '../types/quotation';
+
+const marginAfterDiscount = (netCLP: number, costCLP: number) => {
+  if (netCLP <= 0) return costCLP > 0 ? -100 : 0;
+  return ((netCLP - costCLP) / netCLP) * 100;
+};
+
+// Floors are typed by hand, so "implantes " and "Implantes" must hit the same entry.
+export const normalizeMarginPolicyKey = (value?: string | null) => (value || '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+const findFloor = (floors: Record<string, number>, key: string): number | undefined => {
+  const normalizedKey = normalizeMarginPolicyKey(key);
+  if (!normalizedKey) return undefined;
+  const match = Object.entries(floors).find(([floorKey, floor]) => (
+    normalizeMarginPolicyKey(floorKey) === normalizedKey && Number.isFinite(floor)
+  ));
+  return match?.[1];
+};
+
+export const resolveQuoteFloorPercent = (policy: QuoteMarginFloorPolicy, salesRep?: string) => (
+  findFloor(policy.userFloors, salesRep || '') ?? policy.defaultFloorPercent
+);
+
+export const evaluateMarginGuardrails = (
+  result: QuoteCalculationResult,
+  policy: QuoteMarginFloorPolicy,
+  salesRep?: string,
+): QuoteMarginGuardrailResult => {
+  const violations: QuoteMarginViolation[] = [];
+
+  result.lines.forEach((line) => {
+    const floorPercent = findFloor(policy.categoryFloors, line.category || 'General');
+    if (floorPercent === undefined || line.quantity <= 0) return;
+
+    const marginPercent = marginAfterDiscount(line.netTotalCLP - line.discountTotalCLP, line.costTotalCLP);
+    if (marginPercent < floorPercent) {
+      violations.push({ scope: 'line', productId: line.productId, label: line.productName, marginPercent, floorPercent });
+    }
+  });
+
+  const quoteFloorPercent = resolveQuoteFloorPercent(policy, salesRep);
+  if (result.lines.length > 0 && result.totalMarginPercent < quoteFloorPercent) {
+    violations.push({
+      scope: 'quote',
+      label: 'Total cotizacion',
+      marginPercent: result.totalMarginPercent,
+      floorPercent: quoteFloorPercent,
+    });
+  }
+
+  return {
+    quoteFloorPercent,
+    violations,
+    requiresApproval: violations.length > 0,
+    signature: violations
+      .map((violation) => `${violation.scope}:${violation.productId ?? ''}:${violation.marginPercent.toFixed(2)}`)
+      .join('|'),
+  };
+};
+
+export const resolveQuoteApprovalStatus = (
+  guardrails: QuoteMarginGuardrailResult,
+  approval?: QuoteMarginApproval | null,
+): QuoteApprovalStatus => {
+  if (!guardrails.requiresApproval) return 'not_required';
+  return approval && approval.signature === guardrails.signature ? 'approved' : 'pending';
+};
+
+// The approver is the signed-in manager's account, never a name typed in the rep's session.
+// Quotes carry the rep's name, so the account's display name is what rules out self-approval.
+// An empty approver list lets any signed-in manager approve.
+export const validateMarginApproval = (
+  policy: QuoteMarginFloorPolicy,
+  approverAccount: { email: string; name: string } | null | undefined,
+  salesRep: string | null | undefined,
+  reason: string,
+): string | null => {
+  const approver = normalizeMarginPolicyKey(approverAccount?.email);
+  if (!approver) return 'Inicia sesion como gerente para aprobar.';
+  if (policy.approvers.length > 0 && !policy.approvers.some((entry) => normalizeMarginPolicyKey(entry) === approver)) {
+    return 'Tu usuario no esta autorizado para aprobar excepciones de margen.';
+  }
+  const approverName = normalizeMarginPolicyKey(approverAccount?.name);
+  if (!approverName) return 'La cuenta del gerente no tiene nombre; no se puede comprobar que no sea el vendedor.';
+  if (approverName === normalizeMarginPolicyKey(salesRep)) return 'El vendedor no puede aprobar su propia cotizacion.';
+  if (!reason.trim()) return 'Ingresa el motivo de la aprobacion.';
+  return null;
+};
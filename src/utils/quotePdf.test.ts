@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { QuoteClientDocumentLine, QuoteClientDocumentView } from '../types/quotation';
+import { measurePdfText, wrapPdfText } from './pdfWriter';
+import { buildQuotePdf, type QuotePdfInput } from './quotePdf';
+
+const createLine = (index: number): QuoteClientDocumentLine => ({
+  productName: `AnyRidge Fixture ${index} con nombre largo para forzar el salto de linea dentro de la tabla`,
+  sku: `AR-${index}`,
+  quantity: 2,
+  netUnit: 90000,
+  netTotal: 180000,
+});
+
+const createInput = (lineCount: number): QuotePdfInput => {
+  const lines = Array.from({ length: lineCount }, (_, index) => createLine(index + 1));
+  const totalNet = lines.reduce((acc, line) => acc + line.netTotal, 0);
+  const view: QuoteClientDocumentView = {
+    audience: 'client',
+    quoteLabel: 'COT-2026-0007 · v2',
+    issuedAt: '2026-10-19T12:00:00.000Z',
+    validUntil: '2026-11-03',
+    lines,
+    currency: 'CLP',
+    taxLabel: 'IVA (19%)',
+    discounts: [{ label: 'Descuento comercial', amount: 10000 }],
+    totalNetBeforeDiscount: totalNet + 10000,
+    totalDiscount: 10000,
+    totalNet,
+    totalTax: Math.round(totalNet * 0.19),
+    totalWithTax: totalNet + Math.round(totalNet * 0.19),
+    terms: ['Cotización válida hasta el 03-11-2026.'],
+  };
+
+  return {
+    view,
+    client: { rut: '76.123.456-7', businessName: 'Clínica Dental Ñuñoa SpA', contactName: 'Dra. Pérez' },
+    paymentTerms: 'Pago a 30 dias',
+    salesRep: 'Camila Rojas',
+  };
+};
+
+const decode = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+
+describe('quotePdf', () => {
+  it('genera un PDF valido con datos del cliente, totales y tabla de referencias cruzadas', () => {
+    const pdf = decode(buildQuotePdf(createInput(3)));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(76.123.456-7)');
+    expect(pdf).toContain('Cl\xednica Dental \xd1u\xf1oa SpA');
+    expect(pdf).toContain('COT-2026-0007 \xb7 v2');
+    expect(pdf).toContain('(-$10.000)');
+    expect(pdf).toContain('Condiciones de pago: Pago a 30 dias.');
+    expect(pdf).toContain('(Camila Rojas)');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const firstObjectOffset = Number(pdf.slice(xrefOffset).split('\n')[3].slice(0, 10));
+    expect(pdf.slice(firstObjectOffset, firstObjectOffset + 7)).toBe('1 0 obj');
+  });
+
+  it('reparte cotizaciones largas en varias paginas con numeracion', () => {
+    const pdf = decode(buildQuotePdf(createInput(60)));
+    const pageCount = pdf.match(/\/Type \/Page /g)?.length ?? 0;
+
+    expect(pageCount).toBeGreaterThan(2);
+    expect(pdf).toContain(`/Count ${pageCount}`);
+    expect(pdf).toContain(`P\xe1gina ${pageCount} de ${pageCount}`);
+    // The totals may start a page of their own, which has no table header.
+    expect(pdf.match(/\(Producto\)/g)?.length).toBeGreaterThanOrEqual(pageCount - 1);
+  });
+
+  it('ajusta el texto al ancho disponible', () => {
+    const lines = wrapPdfText('Implante AnyRidge 4.0 x 10 mm con conexion interna', 80, 9);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => measurePdfText(line, 9) <= 80 || !line.includes(' '))).toBe(true);
+    expect(lines.join(' ')).toBe('Implante AnyRidge 4.0 x 10 mm con conexion interna');
+  });
+});
@@ -0,0 +1,207 @@
+import { QUOTE_DOCUMENT_COMPANY } from '../data/quoteDocumentSettings';
+import type {
+  QuoteClientDocumentView,
+  QuoteCurrency,
+  QuoteDocumentClient,
+  QuoteDocumentCompany,
+} from '../types/quotation';
+import { formatQuoteAmount } from './quoteCurrency';
+import {
+  buildPdfBytes,
+  createPdfPage,
+  drawPdfLine,
+  drawPdfRect,
+  drawPdfText,
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  wrapPdfText,
+  type PdfColor,
+  type PdfPage,
+} from './pdfWriter';
+
+// The PDF is always a client document, so it only accepts the client view of a quote.
+export interface QuotePdfInput {
+  view: QuoteClientDocumentView;
+  client: QuoteDocumentClient;
+  paymentTerms: string;
+  salesRep?: string | null;
+  company?: QuoteDocumentCompany;
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const FOOTER_TOP = PDF_PAGE_HEIGHT - 30;
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - 55;
+const ROW_LINE_HEIGHT = 11;
+
+const ACCENT: PdfColor = [102, 126, 234];
+const MUTED: PdfColor = [100, 116, 139];
+const RULE: PdfColor = [226, 232, 240];
+const HEADER_FILL: PdfColor = [248, 250, 252];
+const DISCOUNT: PdfColor = [22, 163, 74];
+
+// Text anchors per column: amounts align right on their edge, the quantity is centered.
+const TABLE_COLUMNS = {
+  productX: MARGIN + 6,
+  productWidth: 270,
+  quantityCenter: MARGIN + 310,
+  unitRight: MARGIN + 420,
+  totalRight: MARGIN + CONTENT_WIDTH - 6,
+};
+
+const formatPdfDate = (value: Date) => value.toLocaleDateString('es-CL', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+// CLP is the default and stays unlabeled; foreign currency quotes name their currency on every amount column.
+const drawTableHeader = (page: PdfPage, top: number, currency: QuoteCurrency) => {
+  const suffix = currency === 'CLP' ? '' : ` (${currency})`;
+  drawPdfRect(page, MARGIN, top, CONTENT_WIDTH, 20, { fill: HEADER_FILL });
+  drawPdfLine(page, MARGIN, top + 20, MARGIN + CONTENT_WIDTH, top + 20, { stroke: ACCENT, lineWidth: 1.2 });
+  const baseline = top + 13.5;
+  drawPdfText(page, 'Producto', TABLE_COLUMNS.productX, baseline, { size: 9, bold: true, color: MUTED });
+  drawPdfText(page, 'Cant.', TABLE_COLUMNS.quantityCenter, baseline, { size: 9, bold: true, color: MUTED, align: 'center' });
+  drawPdfText(page, `Precio unit. neto${suffix}`, TABLE_COLUMNS.unitRight, baseline, { size: 9, bold: true, color: MUTED, align: 'right' });
+  drawPdfText(page, `Total neto${suffix}`, TABLE_COLUMNS.totalRight, baseline, { size: 9, bold: true, color: MUTED, align: 'right' });
+  return top + 26;
+};
+
+const drawDocumentHeader = (page: PdfPage, input: QuotePdfInput, company: QuoteDocumentCompany) => {
+  drawPdfText(page, company.name, MARGIN, 58, { size: 18, bold: true, color: ACCENT });
+  const companyLines = [
+    company.rut ? `RUT ${company.rut}` : '',
+    company.address,
+    [company.phone, company.email].filter(Boolean).join(' · '),
+    company.website,
+  ].filter(Boolean);
+  companyLines.forEach((line, index) => drawPdfText(page, line, MARGIN, 74 + index * 11, { size: 8, color: MUTED }));
+
+  const right = MARGIN + CONTENT_WIDTH;
+  drawPdfText(page, 'COTIZACIÓN', right, 58, { size: 16, bold: true, align: 'right' });
+  drawPdfText(page, `N° ${input.view.quoteLabel}`, right, 74, { size: 9, bold: true, align: 'right' });
+  drawPdfText(page, `Fecha: ${formatPdfDate(new Date(input.view.issuedAt))}`, right, 85, { size: 8, color: MUTED, align: 'right' });
+  if (input.view.validUntil) {
+    drawPdfText(page, `Válida hasta: ${formatPdfDate(new Date(`${input.view.validUntil}T00:00:00`))}`, right, 96, { size: 8, color: MUTED, align: 'right' });
+  }
+
+  const ruleTop = Math.max(108, 74 + companyLines.length * 11);
+  drawPdfLine(page, MARGIN, ruleTop, right, ruleTop, { stroke: ACCENT, lineWidth: 2 });
+  return ruleTop + 16;
+};
+
+const drawClientBlock = (page: PdfPage, client: QuoteDocumentClient, top: number) => {
+  const contact = [client.contactName, client.contactEmail, client.contactPhone].filter(Boolean).join(' · ');
+  const rows: Array<[string, string]> = [
+    ['Razón social', client.businessName || '—'],
+    ['RUT', client.rut || '—'],
+    ['Contacto', contact || '—'],
+  ];
+  const height = 22 + rows.length * 13;
+  drawPdfRect(page, MARGIN, top, CONTENT_WIDTH, height, { fill: HEADER_FILL, stroke: RULE });
+  drawPdfText(page, 'CLIENTE', MARGIN + 10, top + 15, { size: 8, bold: true, color: MUTED });
+  rows.forEach(([label, value], index) => {
+    const baseline = top + 29 + index * 13;
+    drawPdfText(page, label, MARGIN + 10, baseline, { size: 9, color: MUTED });
+    drawPdfText(page, value, MARGIN + 90, baseline, { size: 9, bold: index === 0 });
+  });
+  return top + height + 18;
+};
+
+const drawContinuationHeader = (page: PdfPage, input: QuotePdfInput, company: QuoteDocumentCompany) => {
+  drawPdfText(page, company.name, MARGIN, 50, { size: 11, bold: true, color: ACCENT });
+  drawPdfText(page, `Cotización N° ${input.view.quoteLabel} (continuación)`, MARGIN + CONTENT_WIDTH, 50, { size: 9, color: MUTED, align: 'right' });
+  drawPdfLine(page, MARGIN, 58, MARGIN + CONTENT_WIDTH, 58, { stroke: ACCENT, lineWidth: 1 });
+  return 72;
+};
+
+export const buildQuotePdf = (input: QuotePdfInput): Uint8Array => {
+  const company = input.company ?? QUOTE_DOCUMENT_COMPANY;
+  const formatPdfAmount = (value: number) => formatQuoteAmount(value, input.view.currency);
+  const pages: PdfPage[] = [];
+  let page = createPdfPage();
+  pages.push(page);
+
+  const startPage = (withTableHeader: boolean) => {
+    page = createPdfPage();
+    pages.push(page);
+    const top = drawContinuationHeader(page, input, company);
+    return withTableHeader ? drawTableHeader(page, top, input.view.currency) : top;
+  };
+
+  let cursor = drawDocumentHeader(page, input, company);
+  cursor = drawClientBlock(page, input.client, cursor);
+  cursor = drawTableHeader(page, cursor, input.view.currency);
+
+  // Rows never split across pages; the table header repeats on every continuation page.
+  for (const line of input.view.lines) {
+    const nameLines = wrapPdfText(line.productName, TABLE_COLUMNS.productWidth, 9);
+    const skuLine = line.sku ? 1 : 0;
+    const rowHeight = (nameLines.length + skuLine) * ROW_LINE_HEIGHT + 8;
+    if (cursor + rowHeight > CONTENT_BOTTOM) cursor = startPage(true);
+
+    const baseline = cursor + 10;
+    nameLines.forEach((nameLine, index) => drawPdfText(page, nameLine, TABLE_COLUMNS.productX, baseline + index * ROW_LINE_HEIGHT, { size: 9 }));
+    if (line.sku) {
+      drawPdfText(page, `SKU ${line.sku}`, TABLE_COLUMNS.productX, baseline + nameLines.length * ROW_LINE_HEIGHT, { size: 7, color: MUTED });
+    }
+    drawPdfText(page, String(line.quantity), TABLE_COLUMNS.quantityCenter, baseline, { size: 9, align: 'center' });
+    drawPdfText(page, formatPdfAmount(line.netUnit), TABLE_COLUMNS.unitRight, baseline, { size: 9, align: 'right' });
+    drawPdfText(page, formatPdfAmount(line.netTotal), TABLE_COLUMNS.totalRight, baseline, { size: 9, bold: true, align: 'right' });
+    cursor += rowHeight;
+    drawPdfLine(page, MARGIN, cursor, MARGIN + CONTENT_WIDTH, cursor, { stroke: RULE });
+  }
+
+  const { view } = input;
+  const totalRows: Array<{ label: string; value: string; color?: PdfColor; bold?: boolean }> = [
+    ...(view.discounts.length > 0
+      ? [
+        { label: 'Subtotal neto', value: formatPdfAmount(view.totalNetBeforeDiscount) },
+        ...view.discounts.map((entry) => ({
+          label: entry.label,
+          value: `-${formatPdfAmount(entry.amount)}`,
+          color: DISCOUNT,
+        })),
+      ]
+      : []),
+    { label: 'Neto', value: formatPdfAmount(view.totalNet), bold: true },
+    { label: view.taxLabel, value: formatPdfAmount(view.totalTax) },
+  ];
+  const totalsHeight = totalRows.length * 15 + 34;
+  if (cursor + 14 + totalsHeight > CONTENT_BOTTOM) cursor = startPage(false);
+
+  const totalsLeft = MARGIN + CONTENT_WIDTH - 250;
+  const totalsRight = MARGIN + CONTENT_WIDTH;
+  cursor += 14;
+  drawPdfRect(page, totalsLeft, cursor, 250, totalsHeight, { fill: HEADER_FILL });
+  totalRows.forEach((row, index) => {
+    const baseline = cursor + 16 + index * 15;
+    const label = wrapPdfText(row.label, 150, 9)[0];
+    drawPdfText(page, label, totalsLeft + 10, baseline, { size: 9, color: row.color ?? MUTED });
+    drawPdfText(page, row.value, totalsRight - 10, baseline, { size: 9, bold: row.bold, color: row.color, align: 'right' });
+  });
+  const totalTop = cursor + totalRows.length * 15 + 8;
+  drawPdfLine(page, totalsLeft + 10, totalTop, totalsRight - 10, totalTop, { stroke: ACCENT, lineWidth: 1.2 });
+  drawPdfText(page, view.currency === 'CLP' ? 'TOTAL' : `TOTAL ${view.currency}`, totalsLeft + 10, totalTop + 18, { size: 12, bold: true, color: ACCENT });
+  drawPdfText(page, formatPdfAmount(view.totalWithTax), totalsRight - 10, totalTop + 18, { size: 13, bold: true, color: ACCENT, align: 'right' });
+  cursor += totalsHeight + 24;
+
+  const termLines = [
+    ...wrapPdfText(`Condiciones de pago: ${input.paymentTerms || 'a convenir'}.`, CONTENT_WIDTH, 9),
+    ...view.terms.flatMap((term) => wrapPdfText(term, CONTENT_WIDTH, 9)),
+  ];
+  const closingHeight = 18 + termLines.length * 12 + 70;
+  if (cursor + closingHeight > CONTENT_BOTTOM) cursor = startPage(false);
+
+  drawPdfText(page, 'CONDICIONES', MARGIN, cursor, { size: 8, bold: true, color: MUTED });
+  termLines.forEach((termLine, index) => drawPdfText(page, termLine, MARGIN, cursor + 16 + index * 12, { size: 9 }));
+  cursor += 18 + termLines.length * 12 + 50;
+
+  const signatureLeft = MARGIN + CONTENT_WIDTH - 200;
+  drawPdfLine(page, signatureLeft, cursor, MARGIN + CONTENT_WIDTH, cursor, { stroke: MUTED });
+  drawPdfText(page, input.salesRep?.trim() || company.name, signatureLeft + 100, cursor + 13, { size: 9, bold: true, align: 'center' });
+  drawPdfText(page, input.salesRep?.trim() ? `Ejecutivo comercial · ${company.name}` : 'Departamento comercial', signatureLeft + 100, cursor + 25, { size: 8, color: MUTED, align: 'center' });
+
+  pages.forEach((documentPage, index) => {
+    drawPdfText(documentPage, `${input.view.quoteLabel} · Página ${index + 1} de ${pages.length}`, MARGIN + CONTENT_WIDTH, FOOTER_TOP, { size: 7, color: MUTED, align: 'right' });
+  });
+
+  return buildPdfBytes(pages, { title: `Cotización ${input.view.quoteLabel}`, author: company.name });
+};
@@ -0,0 +1,480 @@
+import { describe, expect, it } from 'vitest';
+import type { QuoteBundlePromotion, QuoteLineDraft, QuoteVolumeTierSchedule } from '../types/quotation';
+import { calculateQuote } from './quotePricingEngine';
+
+const implantTiers: QuoteVolumeTierSchedule[] = [
+  {
+    category: 'Implantes',
+    tiers: [
+      { minQuantity: 1, maxQuantity: 9, marginPercent: 50, label: 'Base' },
+      { minQuantity: 10, maxQuantity: 49, marginPercent: 40, label: 'Volumen' },
+      { minQuantity: 50, maxQuantity: null, marginPercent: 30 },
+    ],
+  },
+];
+
+const coverScrewPromotion: QuoteBundlePromotion = {
+  id: 'ar-cover',
+  label: 'AR 10 + 2 Cover Screw',
+  triggerImplantKey: 'AR',
+  triggerQuantity: 10,
+  rewardProductText: 'cover screw',
+  rewardQuantity: 2,
+  repeatable: true,
+};
+
+const createLine = (overrides: Partial<QuoteLineDraft>): QuoteLineDraft => ({
+  productId: 'p-1',
+  productName: 'AnyRidge Internal Fixture [AR]',
+  quantity: 1,
+  costUSD: 10,
+  category: 'Implantes',
+  pricingMode: 'inherit',
+  ...overrides,
+});
+
+describe('quotePricingEngine', () => {
+  it('calcula el margen global sobre las lineas ajustables', () => {
+    const result = calculateQuote({
+      exchangeRate: 1000,
+      lines: [createLine({ quantity: 2 })],
+      pricingConfig: { mode: 'global_margin', targetMarginPercent: 50 },
+    });
+
+    expect(result.totalCostCLP).toBe(20000);
+    expect(result.totalNetCLP).toBe(40000);
+    expect(result.totalMarginPercent).toBeCloseTo(50);
+  });
+
+  describe('tramos por volumen', () => {
+    it('usa la cantidad total de la categoria para elegir el tramo', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar-40', quantity: 6 }),
+          createLine({ productId: 'ar-45', quantity: 6 }),
+        ],
+        pricingConfig: { mode: 'volume_tiers', targetMarginPercent: 50, volumeTiers: implantTiers },
+      });
+
+      expect(result.lines.map((line) => line.appliedVolumeTier?.label)).toEqual(['Volumen', 'Volumen']);
+      expect(result.lines[0].appliedVolumeTier?.basisQuantity).toBe(12);
+      expect(result.lines[0].effectiveMode).toBe('volume_tier');
+      expect(result.lines[0].netTotalCLP).toBe(100000);
+      expect(result.totalMarginPercent).toBeCloseTo(40);
+    });
+
+    it('genera etiqueta para tramos abiertos sin nombre', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 60 })],
+        pricingConfig: { mode: 'volume_tiers', volumeTiers: implantTiers },
+      });
+
+      expect(result.lines[0].appliedVolumeTier).toMatchObject({ label: '50+', maxQuantity: null, marginPercent: 30 });
+    });
+
+    it('aplica el margen global a categorias sin tramos y lo advierte', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar', quantity: 10 }),
+          createLine({ productId: 'tb', productName: 'Ti-Base', category: 'Aditamentos', quantity: 1 }),
+        ],
+        pricingConfig: { mode: 'volume_tiers', targetMarginPercent: 50, volumeTiers: implantTiers },
+      });
+
+      const tiBase = result.lines.find((line) => line.productId === 'tb');
+      expect(tiBase?.appliedVolumeTier).toBeUndefined();
+      expect(tiBase?.effectiveMode).toBe('global_margin');
+      expect(tiBase?.netTotalCLP).toBe(20000);
+      expect(result.warnings).toContain('No hay tramo de volumen para la categoria Aditamentos.');
+    });
+
+    it('usa el tramo All como respaldo de cualquier categoria', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ category: 'Aditamentos', quantity: 3 })],
+        pricingConfig: {
+          mode: 'volume_tiers',
+          volumeTiers: [{ category: 'All', tiers: [{ minQuantity: 1, marginPercent: 20 }] }],
+        },
+      });
+
+      expect(result.lines[0].appliedVolumeTier?.category).toBe('All');
+      expect(result.lines[0].netTotalCLP).toBe(37500);
+    });
+
+    it('permite usar tramos en una sola linea dentro de un margen global', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar', quantity: 10, pricingMode: 'volume_tier' }),
+          createLine({ productId: 'tb', category: 'Aditamentos', quantity: 1 }),
+        ],
+        pricingConfig: { mode: 'global_margin', targetMarginPercent: 50, volumeTiers: implantTiers },
+      });
+
+      expect(result.lines[0].appliedVolumeTier?.marginPercent).toBe(40);
+      expect(result.lines[1].effectiveMode).toBe('global_margin');
+      expect(result.lines[1].netTotalCLP).toBe(20000);
+    });
+  });
+
+  describe('descuentos y promociones', () => {
+    it('regala las unidades del bundle y lo muestra separado del neto', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar', quantity: 10 }),
+          createLine({ productId: 'cs', productName: 'Cover Screw AnyRidge', category: 'Aditamentos', costUSD: 2, quantity: 2 }),
+        ],
+        pricingConfig: { mode: 'global_margin', targetMarginPercent: 50, promotions: [coverScrewPromotion] },
+      });
+
+      expect(result.totalNetBeforeDiscountCLP).toBe(208000);
+      expect(result.discounts).toEqual([
+        { id: 'ar-cover', label: 'AR 10 + 2 Cover Screw', kind: 'bundle', amountCLP: 8000, detail: '2 u. sin cargo' },
+      ]);
+      expect(result.lines[1].netTotalCLP).toBe(8000);
+      expect(result.lines[1].discountTotalCLP).toBe(8000);
+      expect(result.totalNetCLP).toBe(200000);
+      expect(result.totalProfitCLP).toBe(96000);
+      expect(result.totalIvaCLP).toBe(38000);
+    });
+
+    it('repite el bundle por cada multiplo y avisa si faltan unidades de regalo', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar', quantity: 25 }),
+          createLine({ productId: 'cs', productName: 'Cover Screw', costUSD: 2, quantity: 3 }),
+        ],
+        pricingConfig: { mode: 'global_margin', promotions: [coverScrewPromotion] },
+      });
+
+      expect(result.discounts[0].detail).toBe('3 u. sin cargo');
+      expect(result.warnings).toContain('Agrega 1 u. de "cover screw" para completar la promocion AR 10 + 2 Cover Screw.');
+    });
+
+    it('no aplica el bundle si no se alcanza la cantidad gatillo', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar', quantity: 9 }),
+          createLine({ productId: 'cs', productName: 'Cover Screw', costUSD: 2, quantity: 2 }),
+        ],
+        pricingConfig: { mode: 'global_margin', promotions: [coverScrewPromotion] },
+      });
+
+      expect(result.discounts).toEqual([]);
+      expect(result.totalDiscountCLP).toBe(0);
+    });
+
+    it('aplica descuentos porcentuales y fijos sobre el neto restante', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'a', quantity: 1 }),
+          createLine({ productId: 'b', quantity: 3 }),
+        ],
+        pricingConfig: {
+          mode: 'global_margin',
+          targetMarginPercent: 50,
+          discounts: [
+            { id: 'd1', label: '', type: 'percent', value: 10 },
+            { id: 'd2', label: 'Descuento apertura', type: 'fixed_clp', value: 2000 },
+          ],
+        },
+      });
+
+      expect(result.discounts.map((entry) => [entry.label, entry.amountCLP])).toEqual([
+        ['Descuento 10%', 8000],
+        ['Descuento apertura', 2000],
+      ]);
+      expect(result.lines.map((line) => line.discountTotalCLP)).toEqual([2500, 7500]);
+      expect(result.totalNetCLP).toBe(70000);
+      expect(result.totalMarginPercent).toBeCloseTo((30000 / 70000) * 100);
+    });
+
+    it('limita el descuento fijo al neto disponible', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 1 })],
+        pricingConfig: {
+          mode: 'global_margin',
+          targetMarginPercent: 50,
+          discounts: [{ id: 'd', label: 'Exceso', type: 'fixed_clp', value: 50000 }],
+        },
+      });
+
+      expect(result.totalDiscountCLP).toBe(20000);
+      expect(result.totalNetCLP).toBe(0);
+      expect(result.warnings).toContain('El descuento supera el neto de la cotizacion.');
+      expect(result.warnings).toContain('Los descuentos dejan la cotizacion bajo el costo.');
+    });
+
+    it('calcula el margen de la linea sobre el neto con descuento', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 1 })],
+        pricingConfig: {
+          mode: 'global_margin',
+          targetMarginPercent: 50,
+          discounts: [{ id: 'd', label: 'Congreso', type: 'fixed_clp', value: 15000 }],
+        },
+      });
+
+      expect(result.lines[0].netTotalCLP).toBe(20000);
+      expect(result.lines[0].profitTotalCLP).toBe(-5000);
+      expect(result.lines[0].marginPercent).toBeCloseTo(-100);
+      expect(result.warnings).toContain('La linea tiene margen negativo.');
+    });
+  });
+
+  describe('total con IVA objetivo', () => {
+    it('resuelve hacia atras un total con IVA redondo', () => {
+      const result = calculateQuote({
+        exchangeRate: 950,
+        lines: [
+          createLine({ productId: 'a', quantity: 7, costUSD: 73 }),
+          createLine({ productId: 'b', quantity: 3, costUSD: 41.5 }),
+        ],
+        pricingConfig: { mode: 'global_gross', targetTotalWithIvaCLP: 1500000 },
+      });
+
+      expect(result.totalWithIvaCLP).toBe(1500000);
+      expect(result.totalNetCLP + result.totalIvaCLP).toBe(result.totalWithIvaCLP);
+      expect(result.lines.map((line) => line.effectiveMode)).toEqual(['global_gross', 'global_gross']);
+      expect(result.unresolvedAmountCLP).toBe(0);
+    });
+
+    it('mantiene las lineas bloqueadas y reparte el resto', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'fijo', pricingMode: 'fixed_net_unit', value: 50000, locked: true }),
+          createLine({ productId: 'ajustable', quantity: 4 }),
+        ],
+        pricingConfig: { mode: 'global_gross', targetTotalWithIvaCLP: 300000 },
+      });
+
+      expect(result.lines[0].netTotalCLP).toBe(50000);
+      expect(result.totalWithIvaCLP).toBe(300000);
+      expect(result.lines[1].netTotalCLP).toBe(result.totalNetCLP - 50000);
+    });
+
+    it('cuadra el total con IVA despues de los descuentos', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'a', quantity: 3 }),
+          createLine({ productId: 'b', quantity: 7, costUSD: 13 }),
+        ],
+        pricingConfig: {
+          mode: 'global_gross',
+          targetTotalWithIvaCLP: 250000,
+          discounts: [{ id: 'd', label: '', type: 'percent', value: 7 }],
+        },
+      });
+
+      expect(result.totalDiscountCLP).toBeGreaterThan(0);
+      expect(result.totalWithIvaCLP).toBe(250000);
+      expect(result.unresolvedAmountCLP).toBe(0);
+    });
+
+    it('informa el residuo cuando el total no es alcanzable en pesos enteros', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 10 })],
+        pricingConfig: { mode: 'global_gross', targetTotalWithIvaCLP: 1499503 },
+      });
+
+      expect(Math.abs(result.unresolvedAmountCLP)).toBe(1);
+      expect(result.totalWithIvaCLP + result.unresolvedAmountCLP).toBe(1499503);
+      expect(result.warnings).toContain('El total con IVA queda a 1 CLP del objetivo.');
+    });
+
+    it('advierte si el total objetivo queda bajo el costo', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 10 })],
+        pricingConfig: { mode: 'global_gross', targetTotalWithIvaCLP: 50000 },
+      });
+
+      expect(result.warnings).toContain('El total fijado es menor al costo total.');
+    });
+  });
+
+  describe('redondeo comercial', () => {
+    it('redondea las lineas y la linea sin politica absorbe la diferencia del neto global', () => {
+      const result = calculateQuote({
+        exchangeRate: 937,
+        lines: [
+          createLine({ productId: 'ar', quantity: 3, costUSD: 71 }),
+          createLine({ productId: 'cs', quantity: 2, costUSD: 9, roundingPolicy: 'none' }),
+        ],
+        pricingConfig: { mode: 'global_net', targetNetTotalCLP: 500000, roundingPolicy: 'nearest_1000' },
+      });
+
+      expect(result.lines[0].netUnitCLP % 1000).toBe(0);
+      expect(result.totalNetCLP).toBe(500000);
+      expect(result.unresolvedAmountCLP).toBe(0);
+    });
+
+    it('termina en 990 solo la linea que lo pide y mantiene el margen global', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'ar', quantity: 2, costUSD: 93.671, roundingPolicy: 'ending_990' }),
+          createLine({ productId: 'tb', quantity: 1, costUSD: 20 }),
+        ],
+        pricingConfig: { mode: 'global_margin', targetMarginPercent: 50 },
+      });
+
+      expect(result.lines[0].netUnitCLP % 1000).toBe(990);
+      expect(result.lines[1].netUnitCLP % 1000).not.toBe(990);
+      expect(result.totalNetCLP).toBe(Math.round((187342 + 20000) / 0.5));
+    });
+
+    it('mueve pasos de redondeo entre lineas y reporta el residuo', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'a', quantity: 1, costUSD: 40 }),
+          createLine({ productId: 'b', quantity: 1, costUSD: 60 }),
+        ],
+        pricingConfig: { mode: 'global_net', targetNetTotalCLP: 187343, roundingPolicy: 'nearest_100' },
+      });
+
+      expect(result.lines.every((line) => line.netUnitCLP % 100 === 0)).toBe(true);
+      expect(result.totalNetCLP).toBe(187300);
+      expect(result.unresolvedAmountCLP).toBe(43);
+      expect(result.warnings).toContain('El redondeo deja 43 CLP de diferencia con el objetivo.');
+    });
+
+    it('no redondea precios digitados ni lineas al costo con la politica global', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'fijo', pricingMode: 'fixed_net_unit', value: 12345 }),
+          createLine({ productId: 'margen', pricingMode: 'fixed_margin_percent', value: 33 }),
+          createLine({ productId: 'costo', pricingMode: 'at_cost', costUSD: 7.777 }),
+        ],
+        pricingConfig: { mode: 'manual_lines', roundingPolicy: 'nearest_1000' },
+      });
+
+      expect(result.lines.map((line) => line.netUnitCLP)).toEqual([12345, 15000, 7777]);
+    });
+  });
+
+  describe('precio lista (MSRP)', () => {
+    it('cotiza con descuento sobre MSRP y muestra el margen contra costo', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 2, costUSD: 40, msrpUSD: 100 })],
+        pricingConfig: { mode: 'msrp_list', listDiscountPercent: 25 },
+      });
+
+      expect(result.lines[0].effectiveMode).toBe('msrp_discount');
+      expect(result.lines[0].listUnitCLP).toBe(100000);
+      expect(result.lines[0].netUnitCLP).toBe(75000);
+      expect(result.lines[0].discountVsListPercent).toBeCloseTo(25, 5);
+      expect(result.lines[0].marginPercent).toBeCloseTo(46.667, 2);
+    });
+
+    it('sin descuento convierte el precio lista al tipo de cambio y suma los descuentos de la cotizacion', () => {
+      const result = calculateQuote({
+        exchangeRate: 950,
+        lines: [
+          createLine({ productId: 'lista', costUSD: 40, msrpUSD: 100 }),
+          createLine({ productId: 'linea', costUSD: 40, msrpUSD: 100, pricingMode: 'msrp_discount', value: 10 }),
+        ],
+        pricingConfig: {
+          mode: 'msrp_list',
+          discounts: [{ id: 'd-1', label: 'Congreso', type: 'percent', value: 5 }],
+        },
+      });
+
+      expect(result.lines.map((line) => line.netUnitCLP)).toEqual([95000, 85500]);
+      expect(result.lines[0].discountVsListPercent).toBeCloseTo(5, 5);
+      expect(result.lines[1].discountVsListPercent).toBeCloseTo(14.5, 5);
+    });
+
+    it('usa el margen global para lineas sin MSRP y lo advierte', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [
+          createLine({ productId: 'lista', costUSD: 40, msrpUSD: 100 }),
+          createLine({ productId: 'sin-msrp', productName: 'Cover Screw', costUSD: 10 }),
+        ],
+        pricingConfig: { mode: 'msrp_list', listDiscountPercent: 0, targetMarginPercent: 50 },
+      });
+
+      expect(result.lines.map((line) => line.netUnitCLP)).toEqual([100000, 20000]);
+      expect(result.lines[1].effectiveMode).toBe('global_margin');
+      expect(result.lines[1].discountVsListPercent).toBeNull();
+      expect(result.warnings).toContain('"Cover Screw" no tiene MSRP; se cotiza con el margen global.');
+    });
+  });
+
+  describe('moneda y perfil tributario', () => {
+    it('expresa una cotizacion de exportacion en USD sin IVA y mantiene el margen en CLP', () => {
+      const result = calculateQuote({
+        exchangeRate: 950,
+        lines: [
+          createLine({ productId: 'a', quantity: 3, costUSD: 40 }),
+          createLine({ productId: 'b', quantity: 1, costUSD: 25 }),
+        ],
+        pricingConfig: {
+          mode: 'global_margin',
+          targetMarginPercent: 40,
+          currency: 'USD',
+          taxProfile: { id: 'exportacion', label: 'Exportacion', documentLabel: 'Exportacion, sin IVA', ratePercent: 0 },
+          discounts: [{ id: 'd-1', label: 'Distribuidor', type: 'percent', value: 10 }],
+        },
+      });
+
+      expect(result.totalMarginPercent).toBeCloseTo(((result.totalNetCLP - 137750) / result.totalNetCLP) * 100, 5);
+      expect(result.totalWithIvaCLP).toBe(result.totalNetCLP);
+      expect(result.lines.map((line) => line.netTotalInCurrency)).toEqual([200, 41.67]);
+      expect(result.currencyTotals).toMatchObject({
+        currency: 'USD',
+        rateCLP: 950,
+        totalNetBeforeDiscount: 241.67,
+        totalDiscount: 24.17,
+        totalNet: 217.5,
+        totalTax: 0,
+        totalWithTax: 217.5,
+      });
+    });
+
+    it('limita la tasa del perfil tributario entre 0% y 100%', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ productId: 'a', quantity: 1, costUSD: 100 })],
+        pricingConfig: {
+          mode: 'global_margin',
+          targetMarginPercent: 50,
+          taxProfile: { id: 'error', label: 'Mal cargado', documentLabel: 'Mal cargado', ratePercent: 190 },
+        },
+      });
+
+      expect(result.totalWithIvaCLP).toBe(result.totalNetCLP * 2);
+      expect(result.currencyTotals.totalTax).toBe(result.currencyTotals.totalNet);
+      expect(result.currencyTotals.taxProfile.ratePercent).toBe(100);
+    });
+
+    it('sin tipo de cambio EUR se queda en CLP y lo advierte', () => {
+      const result = calculateQuote({
+        exchangeRate: 1000,
+        lines: [createLine({ quantity: 2 })],
+        pricingConfig: { mode: 'global_margin', targetMarginPercent: 50, currency: 'EUR' },
+      });
+
+      expect(result.currencyTotals.currency).toBe('CLP');
+      expect(result.currencyTotals.totalWithTax).toBe(47600);
+      expect(result.warnings).toContain('Falta el tipo de cambio EUR; la cotizacion se muestra en CLP.');
+    });
+  });
+});
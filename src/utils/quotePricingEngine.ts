@@ -1,9 +1,19 @@
 import type {
+  AppliedQuoteVolumeTier,
   CalculatedQuoteLine,
   QuoteCalculationResult,
+  QuoteBundlePromotion,
+  QuoteCurrency,
+  QuoteDiscountBreakdownEntry,
   QuoteLineDraft,
+  QuotePriceRoundingPolicy,
   QuotePricingConfig,
+  QuoteVolumeTierSchedule,
 } from '../types/quotation';
+import { findImplantDefinition } from '../data/implantDefinitions';
+import { DEFAULT_QUOTE_TAX_PROFILE } from '../data/quoteTaxProfiles';
+import { VOLUME_TIER_FALLBACK_CATEGORY } from '../data/quoteVolumeTiers';
+import { convertCLPToQuoteCurrency, roundQuoteAmount } from './quoteCurrency';
 
 interface CalculateQuoteInput {
   exchangeRate: number;
@@ -11,27 +21,155 @@ interface CalculateQuoteInput {
   pricingConfig: QuotePricingConfig;
 }
 
-const IVA_RATE = 0.19;
 const MAX_MARGIN_RATIO = 0.99;
+const MAX_GROSS_SOLVER_PASSES = 8;
+const MAX_ROUNDING_REBALANCE_STEPS = 50;
+
+const ROUNDING_STEP_CLP: Record<Exclude<QuotePriceRoundingPolicy, 'none'>, number> = {
+  nearest_100: 100,
+  nearest_1000: 1000,
+  ending_990: 1000,
+};
+
+// Line modes whose price comes out of the engine; typed prices only round when the line asks for it.
+const COMPUTED_PRICE_MODES = new Set<CalculatedQuoteLine['effectiveMode']>([
+  'fixed_profit_unit',
+  'fixed_profit_total',
+  'fixed_margin_percent',
+  'volume_tier',
+  'msrp_discount',
+  'global_margin',
+  'global_net',
+  'global_gross',
+]);
 
 const roundCurrency = (value: number) => {
   if (!Number.isFinite(value)) return 0;
   return Math.round(value);
 };
 
+const resolveTaxRatePercent = (pricingConfig: QuotePricingConfig) => (
+  Math.min(100, Math.max(0, pricingConfig.taxProfile?.ratePercent ?? DEFAULT_QUOTE_TAX_PROFILE.ratePercent))
+);
+
+const resolveTaxRate = (pricingConfig: QuotePricingConfig) => resolveTaxRatePercent(pricingConfig) / 100;
+
+const grossFromNet = (netCLP: number, taxRate: number) => roundCurrency(netCLP * (1 + taxRate));
+
+// Net pesos are integers, so gross totals move in steps of 1 or 2 pesos and some targets
+// cannot be hit exactly; pick the closest net and let the caller report the gap.
+const resolveNetForGrossTotal = (targetTotalWithIvaCLP: number, taxRate: number) => {
+  const estimate = Math.floor(Math.max(0, targetTotalWithIvaCLP) / (1 + taxRate));
+  return [estimate - 1, estimate, estimate + 1, estimate + 2]
+    .filter((candidate) => candidate >= 0)
+    .reduce((best, candidate) => (
+      Math.abs(grossFromNet(candidate, taxRate) - targetTotalWithIvaCLP) < Math.abs(grossFromNet(best, taxRate) - targetTotalWithIvaCLP)
+        ? candidate
+        : best
+    ));
+};
+
+// A foreign currency quote needs a rate to show its prices; without one it stays in CLP.
+const resolveQuoteCurrency = (
+  pricingConfig: QuotePricingConfig,
+  exchangeRate: number,
+  warnings: string[],
+): { currency: QuoteCurrency; rateCLP: number } => {
+  const currency = pricingConfig.currency ?? 'CLP';
+  if (currency === 'CLP') return { currency, rateCLP: 1 };
+
+  const rateCLP = pricingConfig.currencyRateCLP ?? (currency === 'USD' ? exchangeRate : 0);
+  if (rateCLP > 0) return { currency, rateCLP };
+
+  warnings.push(`Falta el tipo de cambio ${currency}; la cotizacion se muestra en CLP.`);
+  return { currency: 'CLP', rateCLP: 1 };
+};
+
+const isGlobalTargetMode = (mode: QuotePricingConfig['mode']) => (
+  mode === 'global_net' || mode === 'legacy_global_net' || mode === 'global_gross'
+);
+
 const safeMarginRatio = (marginPercent: number) => {
   return Math.min(MAX_MARGIN_RATIO, Math.max(-500, marginPercent) / 100);
 };
 
+const normalizeQuoteText = (value?: string) => (value || '')
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .trim();
+
+const findVolumeTierSchedule = (
+  schedules: QuoteVolumeTierSchedule[],
+  category?: string,
+): QuoteVolumeTierSchedule | null => {
+  const normalizedCategory = normalizeQuoteText(category);
+  const fallbackCategory = normalizeQuoteText(VOLUME_TIER_FALLBACK_CATEGORY);
+
+  return schedules.find((schedule) => normalizeQuoteText(schedule.category) === normalizedCategory)
+    ?? schedules.find((schedule) => normalizeQuoteText(schedule.category) === fallbackCategory)
+    ?? null;
+};
+
+// Tiers are evaluated against the total quantity quoted for the category, not per line,
+// so 6 fixtures of one diameter plus 6 of another land in the 10+ break.
+const resolveVolumeTier = (
+  schedules: QuoteVolumeTierSchedule[],
+  category: string | undefined,
+  basisQuantity: number,
+): AppliedQuoteVolumeTier | null => {
+  const schedule = findVolumeTierSchedule(schedules, category);
+  if (!schedule) return null;
+
+  const tier = [...schedule.tiers]
+    .sort((left, right) => left.minQuantity - right.minQuantity)
+    .filter((candidate) => basisQuantity >= candidate.minQuantity
+      && (candidate.maxQuantity == null || basisQuantity <= candidate.maxQuantity))
+    .pop();
+  if (!tier) return null;
+
+  return {
+    category: schedule.category,
+    label: tier.label?.trim() || (tier.maxQuantity == null ? `${tier.minQuantity}+` : `${tier.minQuantity}-${tier.maxQuantity}`),
+    minQuantity: tier.minQuantity,
+    maxQuantity: tier.maxQuantity ?? null,
+    marginPercent: tier.marginPercent,
+    basisQuantity,
+  };
+};
+
+const buildCategoryQuantityMap = (lines: CalculatedQuoteLine[]): Map<string, number> => {
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    const key = normalizeQuoteText(line.category);
+    quantities.set(key, (quantities.get(key) ?? 0) + line.quantity);
+  }
+  return quantities;
+};
+
+const priceAtMargin = (costTotalCLP: number, marginPercent: number) => {
+  const divisor = 1 - safeMarginRatio(marginPercent);
+  return divisor <= 0 ? costTotalCLP : costTotalCLP / divisor;
+};
+
+const priceOffList = (line: CalculatedQuoteLine, discountPercent: number) => (
+  line.listUnitCLP * line.quantity * (1 - Math.min(100, Math.max(0, discountPercent)) / 100)
+);
+
 const toBaseLine = (line: QuoteLineDraft, exchangeRate: number): CalculatedQuoteLine => {
   const quantity = Math.max(0, line.quantity || 0);
-  const costUnitCLP = roundCurrency(Math.max(0, line.costUSD || 0) * Math.max(0, exchangeRate || 0));
+  const costSource = (line.landedCostCLP ?? 0) > 0 ? 'landed_cost' : 'usd_rate';
+  const costUnitCLP = costSource === 'landed_cost'
+    ? roundCurrency(line.landedCostCLP ?? 0)
+    : roundCurrency(Math.max(0, line.costUSD || 0) * Math.max(0, exchangeRate || 0));
   const costTotalCLP = roundCurrency(costUnitCLP * quantity);
+  const listUnitCLP = roundCurrency(Math.max(0, line.msrpUSD || 0) * Math.max(0, exchangeRate || 0));
 
   return {
     ...line,
     quantity,
     costUnitCLP,
+    costSource,
     costTotalCLP,
     netUnitCLP: costUnitCLP,
     netTotalCLP: costTotalCLP,
@@ -40,6 +178,12 @@ const toBaseLine = (line: QuoteLineDraft, exchangeRate: number): CalculatedQuote
     marginPercent: 0,
     effectiveMode: 'at_cost',
     locked: Boolean(line.locked),
+    discountTotalCLP: 0,
+    listUnitCLP,
+    discountVsListPercent: null,
+    // Converted once the quote is priced in CLP.
+    netUnitInCurrency: 0,
+    netTotalInCurrency: 0,
   };
 };
 
@@ -62,6 +206,97 @@ const finalizeLine = (line: CalculatedQuoteLine, netTotalCLP: number, effectiveM
   };
 };
 
+const applyPriceRounding = (unitCLP: number, policy: QuotePriceRoundingPolicy) => {
+  if (policy === 'none' || unitCLP <= 0) return roundCurrency(unitCLP);
+  const step = ROUNDING_STEP_CLP[policy];
+  if (policy === 'ending_990') {
+    return Math.max(step - 10, Math.round((unitCLP + 10) / step) * step - 10);
+  }
+  return Math.max(step, Math.round(unitCLP / step) * step);
+};
+
+const resolveRoundingPolicy = (line: CalculatedQuoteLine, pricingConfig: QuotePricingConfig): QuotePriceRoundingPolicy => {
+  if (line.effectiveMode === 'at_cost' || line.quantity <= 0) return 'none';
+  if (line.roundingPolicy) return line.roundingPolicy;
+  return COMPUTED_PRICE_MODES.has(line.effectiveMode) ? pricingConfig.roundingPolicy ?? 'none' : 'none';
+};
+
+const roundLinePrice = (line: CalculatedQuoteLine, pricingConfig: QuotePricingConfig): CalculatedQuoteLine => {
+  const policy = resolveRoundingPolicy(line, pricingConfig);
+  if (policy === 'none') return line;
+  return finalizeLine(line, applyPriceRounding(line.netTotalCLP / line.quantity, policy) * line.quantity, line.effectiveMode);
+};
+
+const sumNet = (lines: CalculatedQuoteLine[]) => lines.reduce((acc, line) => acc + line.netTotalCLP, 0);
+
+// Spreads `amountCLP` by cost weight; the peso remainder goes to the last line.
+const distributeNetByCost = (
+  lines: CalculatedQuoteLine[],
+  amountCLP: number,
+  effectiveMode: CalculatedQuoteLine['effectiveMode'],
+): CalculatedQuoteLine[] => {
+  const costBase = lines.reduce((acc, line) => acc + line.costTotalCLP, 0);
+  const distributed = lines.map((line) => {
+    const weight = costBase > 0 ? line.costTotalCLP / costBase : 1 / lines.length;
+    return finalizeLine(line, roundCurrency(amountCLP * weight), effectiveMode);
+  });
+
+  const distributionDiff = roundCurrency(amountCLP - sumNet(distributed));
+  if (distributionDiff !== 0 && distributed.length > 0) {
+    const lastIndex = distributed.length - 1;
+    distributed[lastIndex] = finalizeLine(distributed[lastIndex], distributed[lastIndex].netTotalCLP + distributionDiff, effectiveMode);
+  }
+  return distributed;
+};
+
+// Rounded lines keep their commercial price; lines without a policy absorb the difference.
+// When every line is rounded, whole rounding steps are moved between lines to get as close
+// to the target as the steps allow and the rest is returned as residual.
+const rebalanceRoundedLines = (
+  lines: CalculatedQuoteLine[],
+  targetCLP: number,
+  effectiveMode: CalculatedQuoteLine['effectiveMode'],
+  pricingConfig: QuotePricingConfig,
+): { lines: CalculatedQuoteLine[]; residualCLP: number } => {
+  const policies = new Map(lines.map((line) => [line.productId, resolveRoundingPolicy(line, pricingConfig)]));
+  const isRounded = (line: CalculatedQuoteLine) => policies.get(line.productId) !== 'none';
+  if (!lines.some(isRounded)) return { lines, residualCLP: 0 };
+
+  const roundedLines = lines.filter(isRounded).map((line) => roundLinePrice(line, pricingConfig));
+  const freeLines = lines.filter((line) => !isRounded(line));
+  let residualCLP = targetCLP - sumNet(roundedLines);
+  let balancedFreeLines: CalculatedQuoteLine[] = [];
+  if (freeLines.length > 0) {
+    balancedFreeLines = distributeNetByCost(freeLines, residualCLP, effectiveMode);
+    residualCLP -= sumNet(balancedFreeLines);
+  }
+
+  for (let attempt = 0; attempt < MAX_ROUNDING_REBALANCE_STEPS && residualCLP !== 0; attempt += 1) {
+    let bestIndex = -1;
+    let bestDelta = 0;
+    roundedLines.forEach((line, index) => {
+      const policy = policies.get(line.productId) as Exclude<QuotePriceRoundingPolicy, 'none'>;
+      const delta = Math.sign(residualCLP) * ROUNDING_STEP_CLP[policy] * line.quantity;
+      if (line.netTotalCLP + delta <= 0) return;
+      if (Math.abs(residualCLP - delta) < Math.abs(residualCLP - bestDelta)) {
+        bestIndex = index;
+        bestDelta = delta;
+      }
+    });
+    if (bestIndex < 0) break;
+
+    const line = roundedLines[bestIndex];
+    roundedLines[bestIndex] = finalizeLine(line, line.netTotalCLP + bestDelta, line.effectiveMode);
+    residualCLP -= bestDelta;
+  }
+
+  const balancedById = new Map([...roundedLines, ...balancedFreeLines].map((line) => [line.productId, line]));
+  return {
+    lines: lines.map((line) => balancedById.get(line.productId) ?? line),
+    residualCLP,
+  };
+};
+
 const resolveExplicitLine = (line: CalculatedQuoteLine): CalculatedQuoteLine | null => {
   const value = Number(line.value ?? 0);
 
@@ -75,11 +310,8 @@ const resolveExplicitLine = (line: CalculatedQuoteLine): CalculatedQuoteLine | n
       return finalizeLine(line, line.costTotalCLP + (value * line.quantity), line.pricingMode);
     case 'fixed_profit_total':
       return finalizeLine(line, line.costTotalCLP + value, line.pricingMode);
-    case 'fixed_margin_percent': {
-      const ratio = safeMarginRatio(value);
-      const divisor = 1 - ratio;
-      return finalizeLine(line, divisor <= 0 ? line.costTotalCLP : line.costTotalCLP / divisor, line.pricingMode);
-    }
+    case 'fixed_margin_percent':
+      return finalizeLine(line, priceAtMargin(line.costTotalCLP, value), line.pricingMode);
     case 'at_cost':
       return finalizeLine(line, line.costTotalCLP, 'at_cost');
     default:
@@ -92,17 +324,21 @@ const deriveGlobalTargetNet = (
   adjustableCostCLP: number,
   resolvedNetCLP: number,
 ) => {
-  if (pricingConfig.mode === 'global_margin') {
-    const ratio = safeMarginRatio(pricingConfig.targetMarginPercent ?? 50);
-    const divisor = 1 - ratio;
-    const adjustableNet = divisor <= 0 ? adjustableCostCLP : adjustableCostCLP / divisor;
-    return roundCurrency(resolvedNetCLP + adjustableNet);
+  if (pricingConfig.mode === 'global_margin' || pricingConfig.mode === 'volume_tiers' || pricingConfig.mode === 'msrp_list') {
+    return roundCurrency(resolvedNetCLP + priceAtMargin(adjustableCostCLP, pricingConfig.targetMarginPercent ?? 50));
   }
 
   if (pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net') {
     return roundCurrency(pricingConfig.targetNetTotalCLP ?? resolvedNetCLP + adjustableCostCLP);
   }
 
+  if (pricingConfig.mode === 'global_gross') {
+    const taxRate = resolveTaxRate(pricingConfig);
+    return resolveNetForGrossTotal(roundCurrency(
+      pricingConfig.targetTotalWithIvaCLP ?? grossFromNet(resolvedNetCLP + adjustableCostCLP, taxRate),
+    ), taxRate);
+  }
+
   if (pricingConfig.mode === 'at_cost') {
     return roundCurrency(resolvedNetCLP + adjustableCostCLP);
   }
@@ -110,20 +346,168 @@ const deriveGlobalTargetNet = (
   return roundCurrency(resolvedNetCLP);
 };
 
+const matchesPromotionTrigger = (promotion: QuoteBundlePromotion, line: CalculatedQuoteLine) => {
+  if (promotion.triggerImplantKey) {
+    return findImplantDefinition(line.productName)?.key === promotion.triggerImplantKey;
+  }
+  const triggerText = normalizeQuoteText(promotion.triggerProductText);
+  return Boolean(triggerText) && normalizeQuoteText(`${line.productName} ${line.sku || ''}`).includes(triggerText);
+};
+
+const matchesPromotionReward = (promotion: QuoteBundlePromotion, line: CalculatedQuoteLine) => {
+  const rewardText = normalizeQuoteText(promotion.rewardProductText);
+  return Boolean(rewardText) && normalizeQuoteText(`${line.productName} ${line.sku || ''}`).includes(rewardText);
+};
+
+// Bundles run first (free units at the line's own net price), then percentage and fixed
+// discounts are prorated over whatever net is left, so discounts never stack past zero.
+const applyQuoteDiscounts = (
+  lines: CalculatedQuoteLine[],
+  pricingConfig: QuotePricingConfig,
+  warnings: string[],
+): { lineDiscounts: Map<string, number>; breakdown: QuoteDiscountBreakdownEntry[] } => {
+  const lineDiscounts = new Map<string, number>();
+  const freeUnitsByLine = new Map<string, number>();
+  const breakdown: QuoteDiscountBreakdownEntry[] = [];
+  const remainingNet = (line: CalculatedQuoteLine) => line.netTotalCLP - (lineDiscounts.get(line.productId) ?? 0);
+  const addLineDiscount = (line: CalculatedQuoteLine, amountCLP: number) => {
+    lineDiscounts.set(line.productId, (lineDiscounts.get(line.productId) ?? 0) + amountCLP);
+  };
+
+  for (const promotion of pricingConfig.promotions ?? []) {
+    if (promotion.triggerQuantity <= 0 || promotion.rewardQuantity <= 0) continue;
+
+    const triggerQuantity = lines
+      .filter((line) => matchesPromotionTrigger(promotion, line))
+      .reduce((acc, line) => acc + line.quantity, 0);
+    if (triggerQuantity < promotion.triggerQuantity) continue;
+
+    const multiples = promotion.repeatable ? Math.floor(triggerQuantity / promotion.triggerQuantity) : 1;
+    let pendingUnits = multiples * promotion.rewardQuantity;
+    let amountCLP = 0;
+    let grantedUnits = 0;
+
+    for (const line of lines) {
+      if (pendingUnits <= 0) break;
+      if (matchesPromotionTrigger(promotion, line) || !matchesPromotionReward(promotion, line)) continue;
+
+      const availableUnits = line.quantity - (freeUnitsByLine.get(line.productId) ?? 0);
+      const units = Math.min(pendingUnits, availableUnits);
+      if (units <= 0) continue;
+
+      const lineAmount = Math.min(remainingNet(line), roundCurrency((line.netTotalCLP / line.quantity) * units));
+      addLineDiscount(line, lineAmount);
+      freeUnitsByLine.set(line.productId, (freeUnitsByLine.get(line.productId) ?? 0) + units);
+      pendingUnits -= units;
+      grantedUnits += units;
+      amountCLP += lineAmount;
+    }
+
+    if (pendingUnits > 0) {
+      warnings.push(`Agrega ${pendingUnits} u. de "${promotion.rewardProductText}" para completar la promocion ${promotion.label}.`);
+    }
+
+    if (grantedUnits > 0) {
+      breakdown.push({
+        id: promotion.id,
+        label: promotion.label,
+        kind: 'bundle',
+        amountCLP,
+        detail: `${grantedUnits} u. sin cargo`,
+      });
+    }
+  }
+
+  for (const discount of pricingConfig.discounts ?? []) {
+    const eligibleLines = lines.filter((line) => remainingNet(line) > 0);
+    const baseCLP = eligibleLines.reduce((acc, line) => acc + remainingNet(line), 0);
+    if (baseCLP <= 0) continue;
+
+    const requestedCLP = discount.type === 'percent'
+      ? baseCLP * (Math.min(100, Math.max(0, discount.value)) / 100)
+      : Math.max(0, discount.value);
+    if (requestedCLP > baseCLP) {
+      warnings.push('El descuento supera el neto de la cotizacion.');
+    }
+
+    const amountCLP = roundCurrency(Math.min(baseCLP, requestedCLP));
+    if (amountCLP <= 0) continue;
+
+    let allocatedCLP = 0;
+    eligibleLines.forEach((line, index) => {
+      const lineAmount = index === eligibleLines.length - 1
+        ? amountCLP - allocatedCLP
+        : roundCurrency(amountCLP * (remainingNet(line) / baseCLP));
+      allocatedCLP += lineAmount;
+      addLineDiscount(line, lineAmount);
+    });
+
+    breakdown.push({
+      id: discount.id,
+      label: discount.label.trim() || (discount.type === 'percent' ? `Descuento ${discount.value}%` : 'Descuento comercial'),
+      kind: discount.type,
+      amountCLP,
+      detail: discount.type === 'percent' ? `${discount.value}%` : undefined,
+    });
+  }
+
+  return { lineDiscounts, breakdown };
+};
+
 export const calculateQuote = ({ exchangeRate, lines, pricingConfig }: CalculateQuoteInput): QuoteCalculationResult => {
   const warnings: string[] = [];
   const baseLines = lines.map((line) => toBaseLine(line, exchangeRate));
 
+  const volumeTiers = pricingConfig.volumeTiers ?? [];
+  const categoryQuantities = buildCategoryQuantityMap(baseLines);
+
   const resolvedMap = new Map<string, CalculatedQuoteLine>();
   const adjustableLines: CalculatedQuoteLine[] = [];
 
   for (const line of baseLines) {
     const explicitLine = resolveExplicitLine(line);
     if (explicitLine) {
-      resolvedMap.set(line.productId, explicitLine);
+      resolvedMap.set(line.productId, roundLinePrice(explicitLine, pricingConfig));
       continue;
     }
 
+    const usesVolumeTier = line.pricingMode === 'volume_tier'
+      || (pricingConfig.mode === 'volume_tiers' && line.pricingMode === 'inherit' && !line.locked);
+    if (usesVolumeTier) {
+      const appliedVolumeTier = resolveVolumeTier(
+        volumeTiers,
+        line.category,
+        categoryQuantities.get(normalizeQuoteText(line.category)) ?? line.quantity,
+      );
+      if (appliedVolumeTier) {
+        resolvedMap.set(line.productId, roundLinePrice({
+          ...finalizeLine(line, priceAtMargin(line.costTotalCLP, appliedVolumeTier.marginPercent), 'volume_tier'),
+          appliedVolumeTier,
+        }, pricingConfig));
+        continue;
+      }
+
+      warnings.push(`No hay tramo de volumen para la categoria ${line.category || 'General'}.`);
+    }
+
+    // Lines without MSRP fall through to the global margin so the quote can still be priced.
+    const usesListPrice = line.pricingMode === 'msrp_discount'
+      || (pricingConfig.mode === 'msrp_list' && line.pricingMode === 'inherit' && !line.locked);
+    if (usesListPrice) {
+      if (line.listUnitCLP > 0) {
+        const discountPercent = line.pricingMode === 'msrp_discount'
+          ? Number(line.value ?? 0)
+          : pricingConfig.listDiscountPercent ?? 0;
+        resolvedMap.set(line.productId, roundLinePrice(
+          finalizeLine(line, priceOffList(line, discountPercent), 'msrp_discount'),
+          pricingConfig,
+        ));
+        continue;
+      }
+
+      warnings.push(`"${line.productName}" no tiene MSRP; se cotiza con el margen global.`);
+    }
+
     if (line.locked) {
       resolvedMap.set(line.productId, finalizeLine(line, line.costTotalCLP, 'at_cost'));
       continue;
@@ -139,68 +523,162 @@ export const calculateQuote = ({ exchangeRate, lines, pricingConfig }: Calculate
 
   const resolvedNetCLP = Array.from(resolvedMap.values()).reduce((acc, line) => acc + line.netTotalCLP, 0);
   const adjustableCostCLP = adjustableLines.reduce((acc, line) => acc + line.costTotalCLP, 0);
-  const targetNetCLP = deriveGlobalTargetNet(pricingConfig, adjustableCostCLP, resolvedNetCLP);
-  const remainingNetCLP = targetNetCLP - resolvedNetCLP;
+  const totalCostCLP = baseLines.reduce((acc, line) => acc + line.costTotalCLP, 0);
+  const adjustableMode: CalculatedQuoteLine['effectiveMode'] = pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net'
+    ? 'global_net'
+    : pricingConfig.mode === 'global_gross'
+      ? 'global_gross'
+      : pricingConfig.mode === 'global_margin' || pricingConfig.mode === 'volume_tiers' || pricingConfig.mode === 'msrp_list'
+        ? 'global_margin'
+        : 'at_cost';
 
-  if ((pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net') && targetNetCLP < baseLines.reduce((acc, line) => acc + line.costTotalCLP, 0)) {
-    warnings.push('El total fijado es menor al costo total.');
-  }
+  const priceQuote = (targetNetCLP: number) => {
+    const passWarnings: string[] = [];
+    const passMap = new Map(resolvedMap);
+    const remainingNetCLP = targetNetCLP - resolvedNetCLP;
 
-  if (adjustableLines.length === 0 && (pricingConfig.mode === 'global_margin' || pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net')) {
-    const unresolvedAmountCLP = roundCurrency(remainingNetCLP);
-    if (Math.abs(unresolvedAmountCLP) > 0) {
-      warnings.push('No hay lineas ajustables para cumplir el objetivo global.');
+    if (adjustableLines.length > 0) {
+      const { lines: balancedLines, residualCLP } = rebalanceRoundedLines(
+        distributeNetByCost(adjustableLines, remainingNetCLP, adjustableMode),
+        remainingNetCLP,
+        adjustableMode,
+        pricingConfig,
+      );
+      balancedLines.forEach((line) => passMap.set(line.productId, line));
+      if (residualCLP !== 0) {
+        passWarnings.push(`El redondeo deja ${Math.abs(residualCLP)} CLP de diferencia con el objetivo.`);
+      }
     }
-  }
 
-  if (adjustableLines.length > 0) {
-    const baseForDistribution = adjustableCostCLP > 0 ? adjustableCostCLP : adjustableLines.length;
-    for (const line of adjustableLines) {
-      const weight = adjustableCostCLP > 0 ? line.costTotalCLP / baseForDistribution : 1 / adjustableLines.length;
-      const assignedNet = roundCurrency(remainingNetCLP * weight);
-      const effectiveMode = pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net'
-        ? 'global_net'
-        : pricingConfig.mode === 'global_margin'
-          ? 'global_margin'
-          : 'at_cost';
-      resolvedMap.set(line.productId, finalizeLine(line, assignedNet, effectiveMode));
-    }
+    const pricedLines = baseLines.map((line) => passMap.get(line.productId) ?? finalizeLine(line, line.costTotalCLP, 'at_cost'));
+    const { lineDiscounts, breakdown } = applyQuoteDiscounts(pricedLines, pricingConfig, passWarnings);
+    const totalNetBeforeDiscountCLP = pricedLines.reduce((acc, line) => acc + line.netTotalCLP, 0);
+    const totalDiscountCLP = breakdown.reduce((acc, entry) => acc + entry.amountCLP, 0);
 
-    const assignedTotal = adjustableLines.reduce((acc, line) => acc + (resolvedMap.get(line.productId)?.netTotalCLP ?? 0), 0);
-    const distributionDiff = roundCurrency(remainingNetCLP - assignedTotal);
-    if (distributionDiff !== 0) {
-      const lastLine = adjustableLines[adjustableLines.length - 1];
-      const current = resolvedMap.get(lastLine.productId);
-      if (current) {
-        resolvedMap.set(lastLine.productId, finalizeLine(current, current.netTotalCLP + distributionDiff, current.effectiveMode));
+    return {
+      lines: pricedLines.map((line) => {
+        const discountTotalCLP = lineDiscounts.get(line.productId) ?? 0;
+        const listTotalCLP = line.listUnitCLP * line.quantity;
+        // Profit and margin follow what the client pays, so they are taken after the quote discounts.
+        const netAfterDiscountCLP = line.netTotalCLP - discountTotalCLP;
+        const profitTotalCLP = roundCurrency(netAfterDiscountCLP - line.costTotalCLP);
+        return {
+          ...line,
+          profitTotalCLP,
+          profitUnitCLP: line.quantity > 0 ? roundCurrency(profitTotalCLP / line.quantity) : 0,
+          marginPercent: netAfterDiscountCLP > 0 ? (profitTotalCLP / netAfterDiscountCLP) * 100 : 0,
+          discountTotalCLP,
+          discountVsListPercent: listTotalCLP > 0
+            ? ((listTotalCLP - netAfterDiscountCLP) / listTotalCLP) * 100
+            : null,
+        };
+      }),
+      discounts: breakdown,
+      totalNetBeforeDiscountCLP,
+      totalDiscountCLP,
+      totalNetCLP: totalNetBeforeDiscountCLP - totalDiscountCLP,
+      warnings: passWarnings,
+    };
+  };
+
+  let targetNetCLP = deriveGlobalTargetNet(pricingConfig, adjustableCostCLP, resolvedNetCLP);
+  let pass = priceQuote(targetNetCLP);
+
+  // The gross target is what the client pays after discounts, so re-run the distribution
+  // until the discounted net lands on the solved net (discount rounding can shift it a peso).
+  if (pricingConfig.mode === 'global_gross') {
+    const targetNetAfterDiscountCLP = targetNetCLP;
+    let probeTargetNetCLP = targetNetCLP;
+    let probe = pass;
+    for (let attempt = 0; attempt < MAX_GROSS_SOLVER_PASSES && adjustableLines.length > 0; attempt += 1) {
+      const gapCLP = targetNetAfterDiscountCLP - probe.totalNetCLP;
+      if (gapCLP === 0) break;
+      const discountRatio = probe.totalNetCLP > 0 ? probe.totalNetBeforeDiscountCLP / probe.totalNetCLP : 1;
+      probeTargetNetCLP += roundCurrency(gapCLP * discountRatio) || Math.sign(gapCLP);
+      probe = priceQuote(probeTargetNetCLP);
+      if (Math.abs(targetNetAfterDiscountCLP - probe.totalNetCLP) < Math.abs(targetNetAfterDiscountCLP - pass.totalNetCLP)) {
+        pass = probe;
+        targetNetCLP = probeTargetNetCLP;
       }
     }
+
+    if (targetNetAfterDiscountCLP < totalCostCLP) {
+      warnings.push('El total fijado es menor al costo total.');
+    }
+  }
+
+  if ((pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net') && targetNetCLP < totalCostCLP) {
+    warnings.push('El total fijado es menor al costo total.');
   }
 
-  const calculatedLines = baseLines.map((line) => resolvedMap.get(line.productId) ?? finalizeLine(line, line.costTotalCLP, 'at_cost'));
-  const totalCostCLP = calculatedLines.reduce((acc, line) => acc + line.costTotalCLP, 0);
-  const totalNetCLP = calculatedLines.reduce((acc, line) => acc + line.netTotalCLP, 0);
-  const totalProfitCLP = calculatedLines.reduce((acc, line) => acc + line.profitTotalCLP, 0);
+  if (adjustableLines.length === 0 && (pricingConfig.mode === 'global_margin' || isGlobalTargetMode(pricingConfig.mode))) {
+    const unresolvedAmountCLP = roundCurrency(targetNetCLP - resolvedNetCLP);
+    if (Math.abs(unresolvedAmountCLP) > 0) {
+      warnings.push('No hay lineas ajustables para cumplir el objetivo global.');
+    }
+  }
+
+  warnings.push(...pass.warnings);
+  const { lines: calculatedLines, discounts, totalNetBeforeDiscountCLP, totalDiscountCLP, totalNetCLP } = pass;
+  const totalProfitCLP = totalNetCLP - totalCostCLP;
   const totalMarginPercent = totalNetCLP > 0 ? (totalProfitCLP / totalNetCLP) * 100 : 0;
-  const unresolvedAmountCLP = roundCurrency(targetNetCLP - totalNetCLP);
+  const totalWithIvaCLP = grossFromNet(totalNetCLP, resolveTaxRate(pricingConfig));
+  const unresolvedAmountCLP = pricingConfig.mode === 'global_gross'
+    ? roundCurrency((pricingConfig.targetTotalWithIvaCLP ?? totalWithIvaCLP) - totalWithIvaCLP)
+    : roundCurrency(targetNetCLP - totalNetBeforeDiscountCLP);
 
   if (unresolvedAmountCLP !== 0 && (pricingConfig.mode === 'global_net' || pricingConfig.mode === 'legacy_global_net')) {
     warnings.push(unresolvedAmountCLP > 0 ? 'La promocion quedo subasignada.' : 'La promocion quedo sobreasignada.');
   }
 
+  if (unresolvedAmountCLP !== 0 && pricingConfig.mode === 'global_gross') {
+    warnings.push(`El total con IVA queda a ${Math.abs(unresolvedAmountCLP)} CLP del objetivo.`);
+  }
+
   if (calculatedLines.some((line) => line.marginPercent < 0)) {
     warnings.push('La linea tiene margen negativo.');
   }
 
+  if (totalDiscountCLP > 0 && totalProfitCLP < 0) {
+    warnings.push('Los descuentos dejan la cotizacion bajo el costo.');
+  }
+
+  // Client amounts are converted line by line, so the document's rows always add up to its totals.
+  const { currency, rateCLP } = resolveQuoteCurrency(pricingConfig, exchangeRate, warnings);
+  const taxProfile = { ...(pricingConfig.taxProfile ?? DEFAULT_QUOTE_TAX_PROFILE), ratePercent: resolveTaxRatePercent(pricingConfig) };
+  const convert = (valueCLP: number) => convertCLPToQuoteCurrency(valueCLP, currency, rateCLP);
+  const convertedLines = calculatedLines.map((line) => ({
+    ...line,
+    netUnitInCurrency: convert(line.netUnitCLP),
+    netTotalInCurrency: convert(line.netTotalCLP),
+  }));
+  const totalNetBeforeDiscount = roundQuoteAmount(convertedLines.reduce((acc, line) => acc + line.netTotalInCurrency, 0), currency);
+  const totalDiscount = roundQuoteAmount(discounts.reduce((acc, entry) => acc + convert(entry.amountCLP), 0), currency);
+  const totalNet = roundQuoteAmount(totalNetBeforeDiscount - totalDiscount, currency);
+  const totalTax = roundQuoteAmount(totalNet * resolveTaxRate(pricingConfig), currency);
+
   return {
-    lines: calculatedLines,
+    lines: convertedLines,
     totalCostCLP,
+    totalNetBeforeDiscountCLP,
+    totalDiscountCLP,
+    discounts,
     totalNetCLP,
-    totalIvaCLP: roundCurrency(totalNetCLP * IVA_RATE),
-    totalWithIvaCLP: roundCurrency(totalNetCLP * (1 + IVA_RATE)),
+    totalIvaCLP: totalWithIvaCLP - totalNetCLP,
+    totalWithIvaCLP,
     totalProfitCLP,
     totalMarginPercent,
     unresolvedAmountCLP,
+    currencyTotals: {
+      currency,
+      rateCLP,
+      taxProfile,
+      totalNetBeforeDiscount,
+      totalDiscount,
+      totalNet,
+      totalTax,
+      totalWithTax: roundQuoteAmount(totalNet + totalTax, currency),
+    },
     warnings: Array.from(new Set(warnings)),
   };
 };
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedSimulationRecord, SimulationItemPayload } from '../lib/appDataRepository';
+import { buildNextQuoteNumber, diffQuoteRevisions, groupQuotationRevisions } from './quoteRevisions';
+
+const createItem = (overrides: Partial<SimulationItemPayload>): SimulationItemPayload => ({
+  product_id: 'ar-40',
+  name: 'AnyRidge 4.0',
+  qty: 10,
+  cost_usd: 50,
+  net_unit_clp: 90000,
+  net_total_clp: 900000,
+  ...overrides,
+});
+
+const createRecord = (overrides: Partial<SavedSimulationRecord>): SavedSimulationRecord => ({
+  id: 'sim-1',
+  created_at: '2026-10-01T10:00:00.000Z',
+  quote_number: 'COT-2026-0001',
+  revision: 1,
+  sale_price_clp: 900000,
+  exchange_rate: 950,
+  total_cost_usd: 500,
+  total_cost_clp: 475000,
+  margin_percent: 47,
+  net_profit_clp: 425000,
+  status: 'draft',
+  items: [createItem({})],
+  ...overrides,
+});
+
+describe('quoteRevisions', () => {
+  it('asigna el siguiente correlativo del año', () => {
+    const date = new Date('2026-10-19T12:00:00');
+
+    expect(buildNextQuoteNumber([], date)).toBe('COT-2026-0001');
+    expect(buildNextQuoteNumber(['COT-2026-0009', 'COT-2026-0012', 'COT-2025-0200'], date)).toBe('COT-2026-0013');
+  });
+
+  it('agrupa revisiones por numero y deja primero la ultima', () => {
+    const groups = groupQuotationRevisions([
+      createRecord({ id: 'a', revision: 1 }),
+      createRecord({ id: 'legacy', quote_number: '', created_at: '2026-09-01T10:00:00.000Z' }),
+      createRecord({ id: 'b', revision: 2, created_at: '2026-10-05T10:00:00.000Z' }),
+    ]);
+
+    expect(groups.map((group) => group.key)).toEqual(['COT-2026-0001', 'id:legacy']);
+    expect(groups[0].latest.id).toBe('b');
+    expect(groups[0].revisions.map((revision) => revision.revision)).toEqual([2, 1]);
+  });
+
+  it('detecta lineas agregadas, quitadas y con cambios de cantidad o precio', () => {
+    const previous = createRecord({
+      items: [
+        createItem({}),
+        createItem({ product_id: 'cs', name: 'Cover Screw', qty: 2, net_unit_clp: 5000, net_total_clp: 10000 }),
+        createItem({ product_id: 'tb', name: 'Ti-Base', qty: 1, net_unit_clp: 40000, net_total_clp: 40000 }),
+      ],
+    });
+    const next = createRecord({
+      revision: 2,
+      sale_price_clp: 1020000,
+      items: [
+        createItem({ qty: 12, net_unit_clp: 85000, net_total_clp: 1020000 }),
+        createItem({ product_id: 'cs', name: 'Cover Screw', qty: 2, net_unit_clp: 5000, net_total_clp: 10000 }),
+        createItem({ product_id: 'ha', name: 'Healing Abutment', qty: 3, net_unit_clp: undefined, net_total_clp: 30000 }),
+      ],
+    });
+
+    const diff = diffQuoteRevisions(previous, next);
+
+    expect(diff).toMatchObject({ fromRevision: 1, toRevision: 2, previousNetCLP: 900000, nextNetCLP: 1020000 });
+    expect(diff.lineChanges.map((change) => [change.key, change.changeType])).toEqual([
+      ['ar-40', 'changed'],
+      ['ha', 'added'],
+      ['tb', 'removed'],
+    ]);
+    expect(diff.lineChanges[0]).toMatchObject({ previousQuantity: 10, nextQuantity: 12, previousNetUnitCLP: 90000, nextNetUnitCLP: 85000 });
+    expect(diff.lineChanges[1].nextNetUnitCLP).toBe(10000);
+  });
+});
@@ -0,0 +1,126 @@
+import type { SavedSimulationRecord, SimulationItemPayload } from '../lib/appDataRepository';
+import type { QuoteRevisionDiff, QuoteRevisionLineChange } from '../types/quotation';
+
+export const QUOTE_NUMBER_PREFIX = 'COT';
+
+export interface QuoteRevisionGroup {
+  key: string;
+  quoteNumber: string;
+  latest: SavedSimulationRecord;
+  revisions: SavedSimulationRecord[];
+}
+
+type RevisionSnapshot = Pick<SavedSimulationRecord, 'revision' | 'sale_price_clp' | 'margin_percent' | 'items'>;
+
+export const getQuoteNumberYearPrefix = (date: Date = new Date()) => `${QUOTE_NUMBER_PREFIX}-${date.getFullYear()}-`;
+
+// Sequences restart every year: COT-2026-0001, COT-2026-0002, ...
+export const buildNextQuoteNumber = (existingNumbers: string[], date: Date = new Date()) => {
+  const prefix = getQuoteNumberYearPrefix(date);
+  const lastSequence = existingNumbers
+    .filter((quoteNumber) => quoteNumber.startsWith(prefix))
+    .map((quoteNumber) => Number(quoteNumber.slice(prefix.length)))
+    .filter((sequence) => Number.isInteger(sequence))
+    .reduce((max, sequence) => Math.max(max, sequence), 0);
+
+  return `${prefix}${String(lastSequence + 1).padStart(4, '0')}`;
+};
+
+export const formatQuoteRevisionLabel = (quotation: Pick<SavedSimulationRecord, 'quote_number' | 'revision'>) => (
+  quotation.quote_number ? `${quotation.quote_number} · v${quotation.revision}` : 'Sin numero'
+);
+
+// Records saved before numbering existed keep their own group keyed by id.
+export const groupQuotationRevisions = (records: SavedSimulationRecord[]): QuoteRevisionGroup[] => {
+  const groups = new Map<string, SavedSimulationRecord[]>();
+  for (const record of records) {
+    const key = record.quote_number || `id:${record.id}`;
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, revisions]) => {
+      const sortedRevisions = [...revisions].sort((left, right) => (
+        right.revision - left.revision || right.created_at.localeCompare(left.created_at)
+      ));
+      return {
+        key,
+        quoteNumber: sortedRevisions[0].quote_number,
+        latest: sortedRevisions[0],
+        revisions: sortedRevisions,
+      };
+    })
+    .sort((left, right) => right.latest.created_at.localeCompare(left.latest.created_at));
+};
+
+const getItemKey = (item: SimulationItemPayload) => item.product_id || item.name.trim().toLowerCase();
+
+const getItemNetUnit = (item: SimulationItemPayload) => {
+  if (item.net_unit_clp != null) return item.net_unit_clp;
+  return item.qty > 0 && item.net_total_clp != null ? Math.round(item.net_total_clp / item.qty) : null;
+};
+
+export const diffQuoteRevisions = (previous: RevisionSnapshot, next: RevisionSnapshot): QuoteRevisionDiff => {
+  const previousItems = new Map(previous.items.map((item) => [getItemKey(item), item]));
+  const nextItems = new Map(next.items.map((item) => [getItemKey(item), item]));
+  const lineChanges: QuoteRevisionLineChange[] = [];
+
+  for (const [key, nextItem] of nextItems) {
+    const previousItem = previousItems.get(key);
+    const nextNetUnitCLP = getItemNetUnit(nextItem);
+    if (!previousItem) {
+      lineChanges.push({
+        key,
+        productName: nextItem.name,
+        changeType: 'added',
+        previousQuantity: null,
+        nextQuantity: nextItem.qty,
+        previousNetUnitCLP: null,
+        nextNetUnitCLP,
+        previousNetTotalCLP: null,
+        nextNetTotalCLP: nextItem.net_total_clp ?? null,
+      });
+      continue;
+    }
+
+    const previousNetUnitCLP = getItemNetUnit(previousItem);
+    if (previousItem.qty !== nextItem.qty || previousNetUnitCLP !== nextNetUnitCLP) {
+      lineChanges.push({
+        key,
+        productName: nextItem.name,
+        changeType: 'changed',
+        previousQuantity: previousItem.qty,
+        nextQuantity: nextItem.qty,
+        previousNetUnitCLP,
+        nextNetUnitCLP,
+        previousNetTotalCLP: previousItem.net_total_clp ?? null,
+        nextNetTotalCLP: nextItem.net_total_clp ?? null,
+      });
+    }
+  }
+
+  for (const [key, previousItem] of previousItems) {
+    if (nextItems.has(key)) continue;
+    lineChanges.push({
+      key,
+      productName: previousItem.name,
+      changeType: 'removed',
+      previousQuantity: previousItem.qty,
+      nextQuantity: null,
+      previousNetUnitCLP: getItemNetUnit(previousItem),
+      nextNetUnitCLP: null,
+      previousNetTotalCLP: previousItem.net_total_clp ?? null,
+      nextNetTotalCLP: null,
+    });
+  }
+
+  return {
+    fromRevision: previous.revision,
+    toRevision: next.revision,
+    lineChanges,
+    previousNetCLP: previous.sale_price_clp,
+    nextNetCLP: next.sale_price_clp,
+    previousMarginPercent: previous.margin_percent,
+    nextMarginPercent: next.margin_percent,
+  };
+};
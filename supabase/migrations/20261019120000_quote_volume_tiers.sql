@@ -0,0 +1,2 @@
+alter table public.simulations
+  add column if not exists volume_tiers jsonb null;
@@ -0,0 +1,4 @@
+alter table public.simulations
+  add column if not exists discounts jsonb null,
+  add column if not exists promotions jsonb null,
+  add column if not exists total_discount_clp numeric not null default 0;
@@ -0,0 +1,8 @@
+alter table public.simulations
+  add column if not exists sales_rep text null,
+  add column if not exists margin_floor_percent numeric null,
+  add column if not exists margin_violations jsonb null,
+  add column if not exists approval_status text not null default 'not_required',
+  add column if not exists approved_by text null,
+  add column if not exists approval_reason text null,
+  add column if not exists approved_at timestamptz null;
@@ -0,0 +1,2 @@
+alter table public.simulations
+  add column if not exists target_total_with_iva_clp numeric null;
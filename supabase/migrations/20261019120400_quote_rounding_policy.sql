@@ -0,0 +1,2 @@
+alter table public.simulations
+  add column if not exists rounding_policy text not null default 'none';
@@ -0,0 +1,7 @@
+alter table public.simulations
+  add column if not exists quote_number text null,
+  add column if not exists revision integer not null default 1;
+
+create unique index if not exists idx_simulations_quote_number_revision
+  on public.simulations (quote_number, revision)
+  where quote_number is not null;
@@ -0,0 +1,15 @@
+alter table public.simulations
+  add column if not exists status text not null default 'draft',
+  add column if not exists valid_until date null,
+  add column if not exists loss_reason text null,
+  add column if not exists status_updated_at timestamptz null;
+
+alter table public.simulations
+  drop constraint if exists simulations_status_check;
+
+alter table public.simulations
+  add constraint simulations_status_check
+  check (status in ('draft', 'sent', 'accepted', 'rejected', 'expired'));
+
+create index if not exists idx_simulations_status
+  on public.simulations (status);
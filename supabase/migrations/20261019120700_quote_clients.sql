@@ -0,0 +1,12 @@
+alter table public.simulations
+  add column if not exists client_rut text null,
+  add column if not exists client_name text null,
+  add column if not exists client_contact jsonb null;
+
+create index if not exists idx_simulations_client_rut
+  on public.simulations (client_rut)
+  where client_rut is not null;
+
+create index if not exists idx_simulations_sales_rep
+  on public.simulations (sales_rep)
+  where sales_rep is not null;
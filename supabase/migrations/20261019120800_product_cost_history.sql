@@ -0,0 +1,18 @@
+create table if not exists public.product_cost_history (
+  id uuid primary key default gen_random_uuid(),
+  product_id text not null,
+  sku text null,
+  product_name text not null default '',
+  cost_usd numeric not null default 0,
+  previous_cost_usd numeric null,
+  msrp_usd numeric null,
+  source text not null default 'catalog_sync',
+  recorded_at timestamptz not null default now(),
+  constraint product_cost_history_source_check check (source in ('catalog_sync', 'manual'))
+);
+
+create index if not exists idx_product_cost_history_product
+  on public.product_cost_history (product_id, recorded_at);
+
+create index if not exists idx_product_cost_history_recorded_at
+  on public.product_cost_history (recorded_at desc);
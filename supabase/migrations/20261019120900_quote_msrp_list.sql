@@ -0,0 +1,2 @@
+alter table public.simulations
+  add column if not exists list_discount_percent numeric null;
@@ -0,0 +1,19 @@
+create table if not exists public.fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  currency text not null,
+  rate_date date not null,
+  value_clp numeric not null,
+  source text not null default '',
+  updated_at timestamptz not null default now(),
+  constraint fx_rates_currency_check check (currency in ('USD', 'EUR', 'UF')),
+  constraint fx_rates_currency_date_key unique (currency, rate_date)
+);
+
+create index if not exists idx_fx_rates_rate_date
+  on public.fx_rates (rate_date desc);
+
+alter table public.simulations
+  add column if not exists exchange_rate_date date null;
+
+alter table public.import_snapshots
+  add column if not exists fx_rate_date date null;
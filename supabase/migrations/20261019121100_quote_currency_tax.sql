@@ -0,0 +1,11 @@
+alter table public.simulations
+  add column if not exists quote_currency text not null default 'CLP',
+  add column if not exists quote_currency_rate numeric null,
+  add column if not exists tax_profile jsonb null;
+
+alter table public.simulations
+  drop constraint if exists simulations_quote_currency_check;
+
+alter table public.simulations
+  add constraint simulations_quote_currency_check
+  check (quote_currency in ('CLP', 'USD', 'EUR'));
@@ -0,0 +1,2 @@
+alter table public.products
+  add column if not exists components jsonb not null default '[]'::jsonb;
@@ -0,0 +1,13 @@
+alter table public.import_snapshots
+  add column if not exists shipping_allocation_method text not null default 'value',
+  add column if not exists customs_allocation_method text not null default 'value';
+
+alter table public.import_snapshots
+  drop constraint if exists import_snapshots_allocation_method_check;
+
+alter table public.import_snapshots
+  add constraint import_snapshots_allocation_method_check
+  check (
+    shipping_allocation_method in ('value', 'quantity', 'weight', 'manual')
+    and customs_allocation_method in ('value', 'quantity', 'weight', 'manual')
+  );
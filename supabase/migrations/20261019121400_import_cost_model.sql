@@ -0,0 +1,2 @@
+alter table public.import_snapshots
+  add column if not exists cost_model jsonb null;
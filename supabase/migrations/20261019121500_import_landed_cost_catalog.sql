@@ -0,0 +1,6 @@
+alter table public.products
+  add column if not exists landed_cost_clp numeric null,
+  add column if not exists landed_cost_units numeric null;
+
+alter table public.import_snapshots
+  add column if not exists catalog_applied_at timestamptz null;
@@ -0,0 +1,10 @@
+alter table public.product_cost_history
+  add column if not exists landed_cost_clp numeric null,
+  add column if not exists previous_landed_cost_clp numeric null;
+
+alter table public.product_cost_history
+  drop constraint if exists product_cost_history_source_check;
+
+alter table public.product_cost_history
+  add constraint product_cost_history_source_check
+  check (source in ('catalog_sync', 'manual', 'import_landed_cost'));
@@ -0,0 +1,8 @@
+create table if not exists public.quote_line_rule_sets (
+  id uuid primary key default gen_random_uuid(),
+  rule_set_key text not null,
+  rules jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint quote_line_rule_sets_key_unique unique (rule_set_key)
+);
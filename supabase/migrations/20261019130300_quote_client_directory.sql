@@ -0,0 +1,10 @@
+create table if not exists public.quote_clients (
+  id uuid primary key default gen_random_uuid(),
+  rut text not null,
+  name text not null,
+  sales_rep text not null default '',
+  contact jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint quote_clients_rut_unique unique (rut)
+);
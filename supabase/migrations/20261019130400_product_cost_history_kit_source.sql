@@ -0,0 +1,6 @@
+alter table public.product_cost_history
+  drop constraint if exists product_cost_history_source_check;
+
+alter table public.product_cost_history
+  add constraint product_cost_history_source_check
+  check (source in ('catalog_sync', 'manual', 'import_landed_cost', 'kit_composition'));
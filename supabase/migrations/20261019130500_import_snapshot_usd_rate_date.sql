@@ -0,0 +1,2 @@
+alter table public.import_snapshots
+  add column if not exists usd_rate_date date null;
@@ -0,0 +1,95 @@
+-- Quotes store the rep's display name, so self-approval is checked against the manager's
+-- account name (user_metadata) instead of the email.
+create or replace function public.enforce_quote_margin_approval()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  policy public.quote_margin_policies%rowtype;
+  item jsonb;
+  line_qty numeric;
+  line_net numeric;
+  line_cost numeric;
+  line_floor numeric;
+  quote_floor numeric;
+  total_net numeric := 0;
+  total_cost numeric := 0;
+  needs_approval boolean := false;
+  approver text := lower(nullif(btrim(auth.jwt() ->> 'email'), ''));
+  approver_name text := public.normalize_quote_policy_key(coalesce(
+    auth.jwt() -> 'user_metadata' ->> 'full_name',
+    auth.jwt() -> 'user_metadata' ->> 'name'
+  ));
+begin
+  select * into policy from public.quote_margin_policies where id = 'default';
+  if not found then
+    return new;
+  end if;
+
+  for item in select value from jsonb_array_elements(coalesce(new.items, '[]'::jsonb)) loop
+    line_qty := coalesce((item ->> 'qty')::numeric, 0);
+    line_net := coalesce((item ->> 'net_total_clp')::numeric, 0) - coalesce((item ->> 'discount_total_clp')::numeric, 0);
+    line_cost := line_qty * coalesce(
+      nullif(round(coalesce((item ->> 'landed_cost_clp')::numeric, 0)), 0),
+      round(coalesce((item ->> 'cost_usd')::numeric, 0) * coalesce(new.exchange_rate, 0))
+    );
+    total_net := total_net + line_net;
+    total_cost := total_cost + line_cost;
+
+    select floors.value::numeric into line_floor
+    from jsonb_each_text(policy.category_floors) as floors
+    where public.normalize_quote_policy_key(floors.key)
+      = public.normalize_quote_policy_key(coalesce(nullif(item ->> 'category', ''), 'General'))
+    limit 1;
+
+    -- 0.01 points of slack absorb peso rounding between the browser and the database.
+    if line_floor is not null and line_qty > 0 and (
+      case when line_net > 0 then (line_net - line_cost) / line_net * 100 when line_cost > 0 then -100 else 0 end
+    ) < line_floor - 0.01 then
+      needs_approval := true;
+    end if;
+  end loop;
+
+  select floors.value::numeric into quote_floor
+  from jsonb_each_text(policy.user_floors) as floors
+  where public.normalize_quote_policy_key(floors.key) = public.normalize_quote_policy_key(new.sales_rep)
+  limit 1;
+  quote_floor := coalesce(quote_floor, policy.default_floor_percent);
+  new.margin_floor_percent := quote_floor;
+
+  if total_net > 0 and (total_net - total_cost) / total_net * 100 < quote_floor - 0.01 then
+    needs_approval := true;
+  end if;
+
+  if not needs_approval then
+    new.approval_status := 'not_required';
+    new.approved_by := null;
+    new.approval_reason := null;
+    new.approved_at := null;
+    return new;
+  end if;
+
+  if approver is null then
+    raise exception 'La cotizacion esta bajo el margen minimo y necesita la aprobacion de un gerente con sesion iniciada.';
+  end if;
+  if jsonb_array_length(policy.approvers) > 0 and not policy.approvers ? approver then
+    raise exception '% no esta autorizado para aprobar excepciones de margen.', approver;
+  end if;
+  if approver_name = '' then
+    raise exception 'La cuenta del gerente no tiene nombre; no se puede comprobar que no sea el vendedor.';
+  end if;
+  if approver_name = public.normalize_quote_policy_key(new.sales_rep) then
+    raise exception 'El vendedor no puede aprobar su propia cotizacion.';
+  end if;
+  if btrim(coalesce(new.approval_reason, '')) = '' then
+    raise exception 'Ingresa el motivo de la aprobacion.';
+  end if;
+
+  new.approval_status := 'approved';
+  new.approved_by := approver;
+  new.approved_at := now();
+  return new;
+end;
+$$;
@@ -0,0 +1,4 @@
+-- Set by a catalog sync that changes the supplier cost of a product with a landed cost;
+-- cleared when the next import snapshot is applied.
+alter table public.products
+  add column if not exists landed_cost_stale boolean not null default false;